@@ -551,6 +551,8 @@ async function main() {
   // =====================================
   console.log('📋 Creating rule definitions...');
 
+  // checkLogicはカスタムルール言語（rules/customRules.ts）で記述する
+  // 組み込みルールと同等のルールは重複検出を避けるため isActive: false で登録
   await prisma.ruleDefinition.createMany({
     data: [
       {
@@ -560,9 +562,10 @@ async function main() {
         severity: Severity.CRITICAL,
         description: 'Auto Layoutが設定されていません',
         impactTemplate: 'レイアウトが崩れます',
-        checkLogic: JSON.stringify({ check: 'hasAutoLayout', expected: true }),
+        checkLogic: { nodeTypes: ['FRAME'], condition: { property: 'layoutMode', op: 'in', value: ['NONE', null] } },
         suggestionTemplate: 'Auto Layoutを設定してください',
         scoreImpact: -10,
+        isActive: false,
       },
       {
         ruleId: 'POS001',
@@ -571,9 +574,10 @@ async function main() {
         severity: Severity.CRITICAL,
         description: '絶対配置が使用されています',
         impactTemplate: 'レスポンシブで確実に崩れます',
-        checkLogic: JSON.stringify({ check: 'layoutPositioning', expected: 'AUTO' }),
+        checkLogic: { nodeTypes: ['FRAME'], condition: { property: 'layoutPositioning', op: 'eq', value: 'ABSOLUTE' } },
         suggestionTemplate: 'Auto Layoutに変更してください',
         scoreImpact: -12,
+        isActive: false,
       },
       {
         ruleId: 'SIZE001',
@@ -582,9 +586,10 @@ async function main() {
         severity: Severity.MAJOR,
         description: '固定サイズが使われています',
         impactTemplate: 'モバイルではみ出します',
-        checkLogic: JSON.stringify({ check: 'primaryAxisSizing', expected: 'FILL' }),
+        checkLogic: { nodeTypes: ['FRAME'], condition: { property: 'primaryAxisSizingMode', op: 'eq', value: 'FIXED' } },
         suggestionTemplate: 'Widthをfillに変更してください',
         scoreImpact: -5,
+        isActive: false,
       },
       {
         ruleId: 'AL002',
@@ -593,9 +598,10 @@ async function main() {
         severity: Severity.MAJOR,
         description: 'Auto LayoutでWrapがOFFです',
         impactTemplate: '横スクロール発生の可能性',
-        checkLogic: JSON.stringify({ check: 'layoutWrap', expected: 'WRAP' }),
+        checkLogic: { nodeTypes: ['FRAME'], condition: { all: [{ property: 'layoutMode', op: 'eq', value: 'HORIZONTAL' }, { property: 'layoutWrap', op: 'neq', value: 'WRAP' }] } },
         suggestionTemplate: 'Wrapを有効化してください',
         scoreImpact: -4,
+        isActive: false,
       },
       {
         ruleId: 'NM001',
@@ -604,9 +610,10 @@ async function main() {
         severity: Severity.MINOR,
         description: 'Frame名がsemanticではありません',
         impactTemplate: '生成HTMLが<div>になります',
-        checkLogic: JSON.stringify({ check: 'nodeName', pattern: '^(section|article|header|footer|nav|main)-' }),
+        checkLogic: { nodeTypes: ['FRAME'], condition: { not: { name: '^(section|article|header|footer|nav|main)-' } } },
         suggestionTemplate: 'section-*, article-*等にリネーム',
         scoreImpact: -1,
+        isActive: false,
       },
     ],
   });
@@ -0,0 +1,233 @@
+// =====================================
+// backend/scripts/benchmark-rule-engine.ts
+// ルールエンジン ベンチマーク - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: rules/RuleEngine, rules/nodeIndex
+// 説明: 生成したノードツリーで旧方式（親ノード線形探索）とノードインデックス方式を比較し、
+//       インデックス方式が線形にスケールすることを検証する（基準を満たさない場合は exit 1）
+// 実行: npm run benchmark:rules [-- --worker]
+//       npm test（tests/rules/benchmarkRuleEngine.test.ts で縮小サイズの計測を実行）
+// =====================================
+
+import { performance } from 'perf_hooks';
+import type { FigmaNode } from '../src/services/figmaApiService';
+import { RuleEngine } from '../src/rules/RuleEngine';
+import { buildNodeIndex } from '../src/rules/nodeIndex';
+
+// =====================================
+// 設定
+// =====================================
+
+// 旧方式は二乗オーダーのため小さいサイズのみ計測
+const LEGACY_SIZES = [1000, 2500, 5000];
+const INDEX_SIZES = [1000, 2500, 5000, 10000, 40000];
+
+// 合格基準
+export const MIN_SPEEDUP = 10;           // 5,000ノードでの旧方式比の最低高速化倍率
+export const MAX_PER_NODE_GROWTH = 4;    // 1,000 → 40,000ノードでのノードあたり処理時間の許容増加倍率
+
+// =====================================
+// ツリー生成
+// =====================================
+
+/**
+ * 決定的なFigmaノードツリーを生成
+ * DOCUMENT > CANVAS > FRAME（入れ子）> TEXT/RECTANGLE の構成で、指定ノード数になるまで幅優先で展開
+ */
+export function generateTree(nodeCount: number): FigmaNode {
+  let nextId = 0;
+  const createNode = (type: string, name: string): FigmaNode => ({
+    id: `${nextId++}:${nodeCount}`,
+    name,
+    type,
+    children: [],
+    layoutMode: nextId % 3 === 0 ? 'NONE' : 'VERTICAL',
+    layoutWrap: 'NO_WRAP',
+    primaryAxisSizingMode: nextId % 4 === 0 ? 'FIXED' : 'AUTO',
+    counterAxisSizingMode: 'AUTO',
+    absoluteBoundingBox: { x: 0, y: 0, width: 100 + (nextId % 300), height: 40 }
+  });
+
+  const root = createNode('DOCUMENT', 'Document');
+  const canvas = createNode('CANVAS', 'Page 1');
+  root.children!.push(canvas);
+
+  const queue: FigmaNode[] = [canvas];
+  let created = 2;
+
+  while (created < nodeCount && queue.length > 0) {
+    const parent = queue.shift()!;
+    const childCount = 2 + (created % 4);
+
+    for (let i = 0; i < childCount && created < nodeCount; i++) {
+      const isFrame = (created + i) % 3 !== 0;
+      const child = isFrame
+        ? createNode('FRAME', created % 5 === 0 ? `Frame ${created}` : `section-${created}`)
+        : createNode(created % 2 === 0 ? 'TEXT' : 'RECTANGLE', `Layer ${created}`);
+
+      parent.children!.push(child);
+      created++;
+
+      if (isFrame) {
+        queue.push(child);
+      }
+    }
+  }
+
+  return root;
+}
+
+// =====================================
+// 旧方式（比較用）
+// =====================================
+
+/**
+ * 旧RuleEngineのコンテキスト構築（全ノード収集 + FRAMEごとに親ノード線形探索で深度計算）
+ */
+export function legacyBuildContexts(rootNode: FigmaNode): number {
+  const collect = (node: FigmaNode): FigmaNode[] => {
+    const nodes = [node];
+    for (const child of node.children ?? []) {
+      nodes.push(...collect(child));
+    }
+    return nodes;
+  };
+
+  const findParent = (node: FigmaNode, allNodes: FigmaNode[]) =>
+    allNodes.find(candidate => candidate.children?.some(child => child.id === node.id));
+
+  const allNodes = collect(rootNode);
+  let checksum = 0;
+
+  for (const node of allNodes.filter(n => n.type === 'FRAME')) {
+    let depth = 0;
+    let current: FigmaNode | undefined = node;
+    while (current && current.id !== rootNode.id && depth <= 100) {
+      depth++;
+      current = findParent(current, allNodes);
+    }
+    checksum += depth + (findParent(node, allNodes) ? 1 : 0);
+  }
+
+  return checksum;
+}
+
+/**
+ * インデックス方式のコンテキスト構築（旧方式と同じ値を算出）
+ */
+export function indexedBuildContexts(rootNode: FigmaNode): number {
+  const index = buildNodeIndex(rootNode);
+  let checksum = 0;
+
+  for (const node of index.allNodes) {
+    if (node.type === 'FRAME') {
+      checksum += index.getDepth(node) + (index.getParent(node) ? 1 : 0);
+    }
+  }
+
+  return checksum;
+}
+
+// =====================================
+// 計測
+// =====================================
+
+export function measure<T>(fn: () => T): { ms: number; result: T } {
+  const start = performance.now();
+  const result = fn();
+  return { ms: performance.now() - start, result };
+}
+
+function format(ms: number): string {
+  return `${ms.toFixed(1)}ms`.padStart(11);
+}
+
+async function main(): Promise<void> {
+  const useWorker = process.argv.includes('--worker');
+  const engine = new RuleEngine();
+  const failures: string[] = [];
+
+  console.log('=====================================');
+  console.log('  RuleEngine Benchmark');
+  console.log('=====================================');
+  console.log('');
+  console.log('[1] コンテキスト構築（親ノード・深度）: 旧方式 vs インデックス方式');
+
+  let speedupAtLargest = 0;
+
+  for (const size of LEGACY_SIZES) {
+    const tree = generateTree(size);
+    const legacy = measure(() => legacyBuildContexts(tree));
+    const indexed = measure(() => indexedBuildContexts(tree));
+
+    if (legacy.result !== indexed.result) {
+      failures.push(`${size}ノード: 旧方式と結果が一致しません（${legacy.result} != ${indexed.result}）`);
+    }
+
+    speedupAtLargest = legacy.ms / Math.max(indexed.ms, 0.01);
+    console.log(
+      `  ${String(size).padStart(6)} nodes  legacy ${format(legacy.ms)}  indexed ${format(indexed.ms)}  x${speedupAtLargest.toFixed(1)}`
+    );
+  }
+
+  if (speedupAtLargest < MIN_SPEEDUP) {
+    failures.push(`高速化倍率が基準未満です（x${speedupAtLargest.toFixed(1)} < x${MIN_SPEEDUP}）`);
+  }
+
+  console.log('');
+  console.log('[2] analyzeDocument 全体（インデックス方式）');
+
+  const perNode: number[] = [];
+
+  for (const size of INDEX_SIZES) {
+    const tree = generateTree(size);
+    // JIT最適化の影響を減らすため1回ウォームアップ
+    engine.analyzeDocument(tree, 'benchmark');
+    const { ms, result } = measure(() => engine.analyzeDocument(tree, 'benchmark'));
+
+    perNode.push(ms / size);
+    console.log(
+      `  ${String(size).padStart(6)} nodes  ${format(ms)}  (${((ms / size) * 1000).toFixed(2)}µs/node, ${result.violations.length} violations)`
+    );
+  }
+
+  const growth = perNode[perNode.length - 1] / perNode[0];
+  if (growth > MAX_PER_NODE_GROWTH) {
+    failures.push(`ノードあたり処理時間の増加が基準を超えています（x${growth.toFixed(1)} > x${MAX_PER_NODE_GROWTH}）`);
+  }
+
+  if (useWorker) {
+    console.log('');
+    console.log('[3] analyzeDocumentInWorker（ワーカースレッド、起動・転送コスト込み）');
+
+    const size = INDEX_SIZES[INDEX_SIZES.length - 1];
+    const tree = generateTree(size);
+    const start = performance.now();
+    const summary = await engine.analyzeDocumentInWorker(tree, 'benchmark');
+    const elapsed = performance.now() - start;
+    const inline = engine.analyzeDocument(tree, 'benchmark');
+
+    if (summary.violations.length !== inline.violations.length) {
+      failures.push('ワーカースレッドとメインスレッドの違反数が一致しません');
+    }
+
+    console.log(`  ${String(size).padStart(6)} nodes  ${format(elapsed)}`);
+  }
+
+  console.log('');
+
+  if (failures.length > 0) {
+    failures.forEach(failure => console.error(`❌ ${failure}`));
+    process.exit(1);
+  }
+
+  console.log('✅ ベンチマーク基準を満たしました');
+}
+
+// Jestから読み込んだ場合は実行しない
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,72 @@
+// =====================================
+// backend/scripts/fixtures/fixtureVersionProvider.ts
+// ローカルフィクスチャのバージョン履歴 - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: services/figmaVersionService（型のみ）, errors
+// 説明: scripts/fixtures/versions/<fileKey>.versions.json からバージョン一覧・各バージョンのファイルを返す
+//       FigmaVersionProvider の実装（figmaVersionService.setFigmaVersionProvider で差し替えて使う）
+// =====================================
+
+import fs from 'fs';
+import path from 'path';
+import type { FigmaFileDetail, FigmaFileVersion } from '../../src/services/figmaApiService';
+import type { FigmaVersionProvider } from '../../src/services/figmaVersionService';
+import { NotFoundError } from '../../src/errors';
+
+// =====================================
+// 設定
+// =====================================
+
+const VERSION_FIXTURE_DIR = path.join(__dirname, 'versions');
+const VERSION_FIXTURE_SUFFIX = '.versions.json';
+
+// =====================================
+// 型定義
+// =====================================
+
+/**
+ * バージョン履歴のフィクスチャファイル（<fileKey>.versions.json）
+ */
+export interface VersionFixture {
+  description: string;
+  fileKey: string;
+  versions: Array<FigmaFileVersion & { file: FigmaFileDetail }>;  // 新しい順
+}
+
+// =====================================
+// 読み込み
+// =====================================
+
+export function loadVersionFixture(fileKey: string): VersionFixture {
+  const fixturePath = path.join(VERSION_FIXTURE_DIR, `${fileKey}${VERSION_FIXTURE_SUFFIX}`);
+
+  if (!fs.existsSync(fixturePath)) {
+    throw new NotFoundError('Figmaファイルが見つかりません', 'FigmaFile', fileKey);
+  }
+
+  return JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+}
+
+// =====================================
+// 取得元
+// =====================================
+
+/**
+ * フィクスチャのバージョン履歴（Figma APIと同じく、一覧には各バージョンのファイル本体を含めない）
+ */
+export const fixtureVersionProvider: FigmaVersionProvider = {
+  listVersions: async (_userId, fileKey) =>
+    loadVersionFixture(fileKey).versions.map(({ file: _file, ...version }) => version),
+
+  getFileAtVersion: async (_userId, fileKey, versionId) => {
+    const version = loadVersionFixture(fileKey).versions.find(entry => entry.id === versionId);
+
+    if (!version) {
+      throw new NotFoundError('指定したバージョンが見つかりません', 'FigmaFileVersion', versionId);
+    }
+
+    return version.file;
+  }
+};
+
+export default fixtureVersionProvider;
@@ -0,0 +1,285 @@
+// =====================================
+// backend/scripts/rule-fixtures.ts
+// ルール回帰テスト（ゴールデンファイル比較） - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: rules/RuleEngine, rules/ScoreCalculator, rules/scoringProfile
+// 説明: 匿名化したFigma JSONフィクスチャを RuleEngine.analyzeDocument / ScoreCalculator.calculateScores で解析し、
+//       違反・スコアを保存済みのゴールデンファイルと比較する（差分・カバレッジ不足がある場合は exit 1）
+// 実行: npm run test:rules [-- <フィクスチャ名...>]
+//       npm run test:rules:update [-- <フィクスチャ名...>]  （ゴールデンファイルを更新）
+//       npm test（tests/rules/ruleFixtures.test.ts から同じ比較を実行）
+// =====================================
+
+import fs from 'fs';
+import path from 'path';
+import type { FigmaNode } from '../src/services/figmaApiService';
+import { RuleId } from '../src/types/rules';
+import type { RuleProfile, RuleViolation, ScoreResult } from '../src/types/rules';
+import { RuleEngine } from '../src/rules/RuleEngine';
+import { ScoreCalculator } from '../src/rules/ScoreCalculator';
+import { getScoringProfile } from '../src/rules/scoringProfile';
+
+// =====================================
+// 設定
+// =====================================
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'rules');
+const FIXTURE_SUFFIX = '.fixture.json';
+const GOLDEN_SUFFIX = '.golden.json';
+
+// =====================================
+// 型定義
+// =====================================
+
+/**
+ * フィクスチャファイル（<name>.fixture.json）
+ */
+export interface RuleFixture {
+  description: string;
+  covers: RuleId[];             // このフィクスチャで必ず検出されるべきルール
+  profile?: RuleProfile;        // ルールプロファイル（閾値・重要度の上書き）
+  scoringProfile?: string;      // スコアリングプロファイル名（未指定時は standard）
+  document: FigmaNode;          // 匿名化したFigmaドキュメント
+}
+
+/**
+ * ゴールデンファイルの違反（実行ごとに変わらない項目のみ）
+ */
+interface GoldenViolation {
+  ruleId: string;
+  severity: string;
+  category: string;
+  frameId: string;
+  frameName: string;
+  nodePath: string | null;
+  fingerprint: string | null;
+  description: string;
+  detectedValue: string | null;
+  expectedValue: string | null;
+}
+
+/**
+ * ゴールデンファイル（<name>.golden.json）
+ */
+export interface GoldenOutput {
+  fixture: string;
+  totalFrames: number;
+  scores: ScoreResult;
+  violations: GoldenViolation[];
+}
+
+// =====================================
+// 解析
+// =====================================
+
+/**
+ * フィクスチャ名の一覧（名前順）
+ */
+export function listFixtureNames(): string[] {
+  return fs
+    .readdirSync(FIXTURE_DIR)
+    .filter(file => file.endsWith(FIXTURE_SUFFIX))
+    .map(file => file.slice(0, -FIXTURE_SUFFIX.length))
+    .sort();
+}
+
+export function loadFixture(name: string): RuleFixture {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, `${name}${FIXTURE_SUFFIX}`), 'utf8'));
+}
+
+export function goldenPathOf(name: string): string {
+  return path.join(FIXTURE_DIR, `${name}${GOLDEN_SUFFIX}`);
+}
+
+/**
+ * フィクスチャを解析してゴールデン形式の出力を生成
+ */
+export function runFixture(name: string, fixture: RuleFixture): GoldenOutput {
+  // 他のフィクスチャの状態を持ち越さないよう毎回新しいインスタンスを使う
+  const engine = new RuleEngine();
+  const calculator = new ScoreCalculator();
+
+  const summary = calculator.calculateScores(
+    engine.analyzeDocument(fixture.document, `fixture:${name}`, fixture.profile),
+    fixture.profile,
+    getScoringProfile(fixture.scoringProfile)
+  );
+
+  return {
+    fixture: name,
+    totalFrames: summary.totalFrames,
+    scores: summary.scoreResult,
+    violations: summary.violations.map(toGoldenViolation).sort(compareGoldenViolations)
+  };
+}
+
+function toGoldenViolation(violation: RuleViolation): GoldenViolation {
+  return {
+    ruleId: String(violation.ruleId),
+    severity: violation.severity,
+    category: violation.category,
+    frameId: violation.frameId,
+    frameName: violation.frameName,
+    nodePath: violation.nodePath ?? null,
+    fingerprint: violation.fingerprint ?? null,
+    description: violation.description,
+    detectedValue: violation.detectedValue ?? null,
+    expectedValue: violation.expectedValue ?? null
+  };
+}
+
+/**
+ * 走査順の変更で差分が出ないよう、ノードパス → ルールID → フィンガープリント順に並べる
+ */
+function compareGoldenViolations(a: GoldenViolation, b: GoldenViolation): number {
+  return (
+    (a.nodePath ?? '').localeCompare(b.nodePath ?? '') ||
+    a.ruleId.localeCompare(b.ruleId) ||
+    (a.fingerprint ?? '').localeCompare(b.fingerprint ?? '')
+  );
+}
+
+// =====================================
+// 比較
+// =====================================
+
+/**
+ * 実行結果とゴールデンファイルの差分を説明する行を生成
+ */
+export function describeDiff(expected: GoldenOutput, actual: GoldenOutput): string[] {
+  const lines: string[] = [];
+
+  if (expected.totalFrames !== actual.totalFrames) {
+    lines.push(`totalFrames: ${expected.totalFrames} → ${actual.totalFrames}`);
+  }
+
+  for (const key of Object.keys({ ...expected.scores, ...actual.scores }) as Array<keyof ScoreResult>) {
+    const before = JSON.stringify(expected.scores[key]);
+    const after = JSON.stringify(actual.scores[key]);
+    if (before !== after) {
+      lines.push(`scores.${key}: ${before} → ${after}`);
+    }
+  }
+
+  const keyOf = (v: GoldenViolation) => v.fingerprint ?? `${v.ruleId}:${v.frameId}`;
+  const expectedByKey = new Map(expected.violations.map(v => [keyOf(v), v]));
+  const actualByKey = new Map(actual.violations.map(v => [keyOf(v), v]));
+
+  for (const [key, violation] of expectedByKey) {
+    const current = actualByKey.get(key);
+    if (!current) {
+      lines.push(`- ${violation.ruleId} @ ${violation.nodePath ?? violation.frameId}`);
+    } else if (JSON.stringify(current) !== JSON.stringify(violation)) {
+      lines.push(`~ ${violation.ruleId} @ ${violation.nodePath ?? violation.frameId}`);
+    }
+  }
+
+  for (const [key, violation] of actualByKey) {
+    if (!expectedByKey.has(key)) {
+      lines.push(`+ ${violation.ruleId} @ ${violation.nodePath ?? violation.frameId}`);
+    }
+  }
+
+  // 並び順のみの差分など、上記で説明できない差分
+  if (lines.length === 0) {
+    lines.push('出力の差分（並び順・その他の項目）');
+  }
+
+  return lines;
+}
+
+// =====================================
+// 実行
+// =====================================
+
+export function serialize(output: GoldenOutput): string {
+  return `${JSON.stringify(output, null, 2)}\n`;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const updateGoldens = args.includes('--update');
+  const selected = args.filter(arg => !arg.startsWith('--'));
+  const names = listFixtureNames();
+
+  const unknown = selected.filter(name => !names.includes(name));
+  if (unknown.length > 0) {
+    console.error(`❌ フィクスチャが見つかりません: ${unknown.join(', ')}`);
+    process.exit(1);
+  }
+
+  const targets = selected.length > 0 ? selected : names;
+  const failures: string[] = [];
+  const covered = new Set<string>();
+
+  console.log('=====================================');
+  console.log(`  Rule Fixtures${updateGoldens ? ' (update goldens)' : ''}`);
+  console.log('=====================================');
+  console.log('');
+
+  for (const name of targets) {
+    const fixture = loadFixture(name);
+    const actual = runFixture(name, fixture);
+    const detected = new Set(actual.violations.map(v => v.ruleId));
+
+    // フィクスチャが対象とするルールが検出されていること
+    const missing = fixture.covers.filter(ruleId => !detected.has(ruleId));
+    if (missing.length > 0) {
+      failures.push(`${name}: 対象ルールが検出されませんでした（${missing.join(', ')}）`);
+    }
+    fixture.covers.forEach(ruleId => covered.add(ruleId));
+
+    const goldenPath = goldenPathOf(name);
+
+    if (updateGoldens) {
+      fs.writeFileSync(goldenPath, serialize(actual));
+      console.log(`  ✏️  ${name}  (${actual.violations.length} violations, score ${actual.scores.figleanScore})`);
+      continue;
+    }
+
+    if (!fs.existsSync(goldenPath)) {
+      failures.push(`${name}: ゴールデンファイルがありません（npm run test:rules:update で生成）`);
+      console.log(`  ❌ ${name}`);
+      continue;
+    }
+
+    const expected: GoldenOutput = JSON.parse(fs.readFileSync(goldenPath, 'utf8'));
+
+    if (serialize(expected) === serialize(actual)) {
+      console.log(`  ✅ ${name}  (${actual.violations.length} violations, score ${actual.scores.figleanScore})`);
+    } else {
+      console.log(`  ❌ ${name}`);
+      describeDiff(expected, actual).forEach(line => console.log(`       ${line}`));
+      failures.push(`${name}: ゴールデンファイルと一致しません`);
+    }
+  }
+
+  // 全フィクスチャ実行時は、すべての組み込みルールがいずれかのフィクスチャで対象になっていること
+  if (selected.length === 0) {
+    const uncovered = Object.values(RuleId).filter(ruleId => !covered.has(ruleId));
+    if (uncovered.length > 0) {
+      failures.push(`フィクスチャで対象になっていないルールがあります（${uncovered.join(', ')}）`);
+    }
+  }
+
+  console.log('');
+
+  if (failures.length > 0) {
+    failures.forEach(failure => console.error(`❌ ${failure}`));
+    process.exit(1);
+  }
+
+  console.log(
+    updateGoldens
+      ? `✅ ${targets.length}件のゴールデンファイルを更新しました`
+      : `✅ ${targets.length}件のフィクスチャがゴールデンファイルと一致しました`
+  );
+}
+
+// Jestから読み込んだ場合は実行しない
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -37,6 +37,10 @@ interface Config {
   rateLimitWindowMs: number;
   rateLimitMaxRequests: number;
   authRateLimitMax: number;
+  
+  // ルールエンジン
+  ruleEngineWorkerThreshold: number;  // このノード数以上でワーカースレッド解析（0で無効）
+  ruleEnginePluginDir: string;        // ルールプラグインディレクトリ（空文字で無効）
 }
 
 /**
@@ -89,7 +93,11 @@ function validateConfig(): Config {
     // Rate Limiting
     rateLimitWindowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10), // 15分
     rateLimitMaxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
-    authRateLimitMax: parseInt(process.env.AUTH_RATE_LIMIT_MAX || '5', 10)
+    authRateLimitMax: parseInt(process.env.AUTH_RATE_LIMIT_MAX || '5', 10),
+    
+    // Rule Engine
+    ruleEngineWorkerThreshold: parseInt(process.env.RULE_ENGINE_WORKER_THRESHOLD || '20000', 10),
+    ruleEnginePluginDir: process.env.RULE_ENGINE_PLUGIN_DIR || ''
   };
 }
 
@@ -15,6 +15,9 @@
 
 import { Request, Response, NextFunction } from 'express';
 import * as analysisService from '../services/analysisService';
+import { ValidationError } from '../errors';
+import { isValidUUID } from '../utils/crypto';
+import { validateLocalizationLocales } from '../rules/localizationStress';
 import logger from '../utils/logger';
 
 // =====================================
@@ -58,13 +61,14 @@ export async function getViolations(
   try {
     const userId = req.user!.userId;
     const { projectId } = req.params;
-    const { severity, limit, offset, commentPosted } = req.query;
+    const { severity, limit, offset, commentPosted, status } = req.query;
 
     logger.info('🔵 [CONTROLLER] getViolations', { userId, projectId, query: req.query });
 
     const filters = {
       severity: severity as 'CRITICAL' | 'MAJOR' | 'MINOR' | undefined,
-      commentPosted: commentPosted === 'true' ? true : commentPosted === 'false' ? false : undefined
+      commentPosted: commentPosted === 'true' ? true : commentPosted === 'false' ? false : undefined,
+      status: status as 'NEW' | 'PERSISTING' | 'RESOLVED' | undefined
     };
 
     const pagination = {
@@ -86,7 +90,7 @@ export async function getViolations(
 
 // =====================================
 // GET /api/analysis/:projectId/predictions
-// 崩壊予測取得
+// 崩壊予測取得（?localization=de,ja で翻訳のストレステストを併せて実行）
 // =====================================
 
 export async function getPredictions(
@@ -98,13 +102,30 @@ export async function getPredictions(
     const userId = req.user!.userId;
     const { projectId } = req.params;
 
-    logger.info('🔵 [CONTROLLER] getPredictions', { userId, projectId });
+    const { localization } = req.query;
+
+    logger.info('🔵 [CONTROLLER] getPredictions', { userId, projectId, localization });
+
+    const locales =
+      typeof localization === 'string'
+        ? localization.split(',').map(locale => locale.trim()).filter(Boolean)
+        : null;
+
+    if (localization !== undefined) {
+      const errors = locales ? validateLocalizationLocales(locales) : ['localization は文字列で指定してください'];
+      if (errors.length > 0) {
+        throw new ValidationError(errors.join(' / '));
+      }
+    }
 
     const predictions = await analysisService.fetchPredictions(userId, projectId);
+    const localizationResults = locales
+      ? await analysisService.fetchLocalizationStress(userId, projectId, locales)
+      : undefined;
 
     res.json({
       success: true,
-      data: { predictions }
+      data: { predictions, ...(localizationResults && { localization: localizationResults }) }
     });
   } catch (error) {
     logger.error('❌ [CONTROLLER] getPredictions エラー', { error, requestId: req.id });
@@ -112,6 +133,40 @@ export async function getPredictions(
   }
 }
 
+// =====================================
+// GET /api/analysis/:projectId/predictions/:predictionId/overlay
+// 崩壊予測のオーバーレイSVG取得
+// =====================================
+
+export async function getPredictionOverlay(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { projectId, predictionId } = req.params;
+    const { breakpoint } = req.query;
+
+    logger.info('🔵 [CONTROLLER] getPredictionOverlay', { userId, projectId, predictionId, breakpoint });
+
+    if (!isValidUUID(predictionId)) {
+      throw new ValidationError('崩壊予測IDの形式が不正です');
+    }
+    if (breakpoint !== undefined && typeof breakpoint !== 'string') {
+      throw new ValidationError('breakpointはブレークポイント名で指定してください');
+    }
+
+    const svg = await analysisService.fetchPredictionOverlay(userId, projectId, predictionId, breakpoint);
+
+    res.setHeader('Content-Type', 'image/svg+xml');
+    res.send(svg);
+  } catch (error) {
+    logger.error('❌ [CONTROLLER] getPredictionOverlay エラー', { error, requestId: req.id });
+    next(error);
+  }
+}
+
 // =====================================
 // GET /api/analysis/:projectId/suggestions
 // 改善提案取得
@@ -140,6 +195,98 @@ export async function getSuggestions(
   }
 }
 
+// =====================================
+// GET /api/analysis/:projectId/score-explanation
+// スコアの内訳取得
+// =====================================
+
+export async function getScoreExplanation(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { projectId } = req.params;
+
+    logger.info('🔵 [CONTROLLER] getScoreExplanation', { userId, projectId });
+
+    const explanation = await analysisService.fetchScoreExplanation(userId, projectId);
+
+    res.json({
+      success: true,
+      data: explanation
+    });
+  } catch (error) {
+    logger.error('❌ [CONTROLLER] getScoreExplanation エラー', { error, requestId: req.id });
+    next(error);
+  }
+}
+
+// =====================================
+// GET /api/analysis/:projectId/history
+// 解析履歴取得
+// =====================================
+
+export async function getAnalysisHistory(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { projectId } = req.params;
+
+    logger.info('🔵 [CONTROLLER] getAnalysisHistory', { userId, projectId });
+
+    const analyses = await analysisService.fetchAnalysisHistory(userId, projectId);
+
+    res.json({
+      success: true,
+      data: { analyses }
+    });
+  } catch (error) {
+    logger.error('❌ [CONTROLLER] getAnalysisHistory エラー', { error, requestId: req.id });
+    next(error);
+  }
+}
+
+// =====================================
+// GET /api/analysis/:projectId/compare
+// 2つの解析の比較
+// =====================================
+
+export async function compareAnalyses(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { projectId } = req.params;
+    const { base, target } = req.query;
+
+    logger.info('🔵 [CONTROLLER] compareAnalyses', { userId, projectId, base, target });
+
+    if (typeof base !== 'string' || !isValidUUID(base)) {
+      throw new ValidationError('baseには比較元の解析IDを指定してください');
+    }
+    if (target !== undefined && (typeof target !== 'string' || !isValidUUID(target))) {
+      throw new ValidationError('targetの解析IDの形式が不正です');
+    }
+
+    const comparison = await analysisService.compareAnalyses(userId, projectId, base, target);
+
+    res.json({
+      success: true,
+      data: comparison
+    });
+  } catch (error) {
+    logger.error('❌ [CONTROLLER] compareAnalyses エラー', { error, requestId: req.id });
+    next(error);
+  }
+}
+
 // =====================================
 // POST /api/analysis/:projectId/reanalyze
 // プロジェクト再解析実行
@@ -180,6 +327,10 @@ export default {
   getAnalysisSummary,
   getViolations,
   getPredictions,
+  getPredictionOverlay,
   getSuggestions,
+  getScoreExplanation,
+  getAnalysisHistory,
+  compareAnalyses,
   reanalyzeProject
 };
\ No newline at end of file
@@ -10,6 +10,7 @@
 import { Request, Response, NextFunction } from 'express';
 import * as figmaApiService from '../services/figmaApiService';
 import * as figmaImportService from '../services/figmaImportService';
+import * as figmaVersionService from '../services/figmaVersionService';
 import { ValidationError } from '../errors';
 import logger from '../utils/logger';
 
@@ -97,6 +98,46 @@ export async function getFigmaFileDetail(req: Request, res: Response, next: Next
   }
 }
 
+/**
+ * GET /api/figma/file/:fileKey/versions
+ * Figmaファイルのバージョン履歴取得
+ */
+export async function getFigmaFileVersions(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { fileKey } = req.params;
+
+    if (!fileKey) {
+      throw new ValidationError('fileKeyは必須です');
+    }
+
+    // fileKey形式バリデーション
+    const fileKeyRegex = /^[a-zA-Z0-9]{10,50}$/;
+    if (!fileKeyRegex.test(fileKey)) {
+      throw new ValidationError('fileKeyの形式が不正です');
+    }
+
+    const versions = await figmaVersionService.listFileVersions(userId, fileKey);
+
+    logger.info('Figmaバージョン履歴取得成功', { 
+      userId, 
+      fileKey,
+      versionsCount: versions.length
+    });
+
+    res.json({
+      success: true,
+      data: {
+        fileKey,
+        versions
+      }
+    });
+  } catch (error) {
+    logger.error('Figmaバージョン履歴取得エラー', { error, requestId: req.id });
+    next(error);
+  }
+}
+
 /**
  * GET /api/figma/file/:fileKey/frames
  * Figmaファイルから全Frame抽出
@@ -199,7 +240,7 @@ export async function getFigmaNodeInfo(req: Request, res: Response, next: NextFu
 export async function startFigmaImport(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     const userId = req.user!.userId;
-    const { projectId, fileKey, pageIds, analyzeAll } = req.body;
+    const { projectId, fileKey, pageIds, versionId, analyzeAll } = req.body;
 
     // バリデーション
     if (!projectId) {
@@ -216,12 +257,26 @@ export async function startFigmaImport(req: Request, res: Response, next: NextFu
       throw new ValidationError('fileKeyの形式が不正です');
     }
 
+    // pageIdsバリデーション（Figmaのノード形式 "0:1"）
+    if (
+      pageIds !== undefined &&
+      (!Array.isArray(pageIds) || !pageIds.every(id => typeof id === 'string' && /^\d+:\d+$/.test(id)))
+    ) {
+      throw new ValidationError('pageIdsはページID（例: "0:1"）の配列で指定してください');
+    }
+
+    // versionIdバリデーション（Figmaのバージョン履歴のID）
+    if (versionId !== undefined) {
+      figmaVersionService.assertVersionId(versionId);
+    }
+
     // インポート開始
     const result = await figmaImportService.startImport({
       userId,
       projectId,
       fileKey,
       pageIds,
+      versionId,
       analyzeAll: analyzeAll !== undefined ? analyzeAll : true
     });
 
@@ -275,6 +330,7 @@ export default {
   getFigmaUserInfo,
   getFigmaFilesList,
   getFigmaFileDetail,
+  getFigmaFileVersions,
   extractFigmaFrames,
   getFigmaNodeInfo,
   startFigmaImport,
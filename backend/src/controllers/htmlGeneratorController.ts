@@ -8,6 +8,7 @@ import { prisma } from '../app';
 import type { HTMLGeneratorOptions } from '../types/html';
 import logger from '../utils/logger';
 import { ValidationError } from '../errors';
+import { resolveProjectBreakpoints, validateProjectBreakpoints } from '../rules/projectBreakpoints';
 
 interface AuthenticatedRequest extends Request {
   user: {
@@ -39,11 +40,26 @@ export async function generateHTMLController(
       framework: req.body.framework,
       includeResponsive: req.body.includeResponsive,
       includeGrid: req.body.includeGrid,
-      breakpoints: req.body.breakpoints,
       minifyOutput: req.body.minifyOutput,
       includeComments: req.body.includeComments
     };
 
+    // Breakpointの一時的な上書き（プロジェクトの設定と同じ形式で検証）
+    if (req.body.breakpoints !== undefined) {
+      const errors = validateProjectBreakpoints(req.body.breakpoints);
+      if (errors.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'breakpoints の指定が不正です（省略するとプロジェクトのブレークポイント設定を使用します）',
+            details: errors
+          }
+        });
+        return;
+      }
+    }
+
     // プロジェクト情報取得
     const project = await prisma.project.findUnique({
       where: { id: projectId, userId }
@@ -60,9 +76,12 @@ export async function generateHTMLController(
       return;
     }
 
+    // Breakpointは指定があればその生成のみ上書き、無ければプロジェクトの設定を使用（崩壊予測・対応可否の判定と共通）
+    options.breakpoints = resolveProjectBreakpoints(req.body.breakpoints ?? project.breakpoints);
+
     // FIGLEANスコア取得
     const analysisResult = await prisma.analysisResult.findFirst({
-      where: { projectId },
+      where: { projectId, versionSnapshot: false },
       orderBy: { createdAt: 'desc' }
     });
 
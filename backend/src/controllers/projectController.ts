@@ -3,6 +3,7 @@
 // プロジェクトコントローラー - FIGLEAN版
 // 作成日時: 2026年1月11日 00:12
 // 更新日時: 2026年1月11日 - エラーハンドリング修正（NextFunction追加）
+// 更新日時: 2026年10月19日 - ブレークポイント設定の検証
 // 依存関係: express, services/projectService, types/project, utils/logger
 // 説明: プロジェクト管理APIエンドポイント実装、型安全なバリデーション
 // =====================================
@@ -26,6 +27,8 @@ import {
   ProjectListQuery,
   AnalysisStatus
 } from '../types/project';
+import { isScoringProfileName, listScoringProfiles, SCORING_PROFILES } from '../rules/scoringProfile';
+import { validateProjectBreakpoints } from '../rules/projectBreakpoints';
 import logger from '../utils/logger';
 
 /**
@@ -77,6 +80,26 @@ export async function getProjectsController(
   }
 }
 
+/**
+ * GET /api/projects/scoring-profiles
+ * 選択可能なスコアリングプロファイル一覧取得
+ */
+export async function getScoringProfilesController(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    res.status(200).json({
+      success: true,
+      data: { profiles: listScoringProfiles() }
+    });
+  } catch (error: unknown) {
+    logger.error('スコアリングプロファイル一覧取得エラー', { error: error as Error, requestId: req.id });
+    next(error);
+  }
+}
+
 /**
  * GET /api/projects/:id
  * プロジェクト詳細取得
@@ -156,6 +179,14 @@ export async function createProjectController(
       errors.push('FigmaファイルURLの形式が不正です');
     }
 
+    if (req.body.scoringProfile !== undefined && !isScoringProfileName(req.body.scoringProfile)) {
+      errors.push(`スコアリングプロファイルは${Object.keys(SCORING_PROFILES).join(', ')}のいずれかを指定してください`);
+    }
+
+    if (req.body.breakpoints !== undefined) {
+      errors.push(...validateProjectBreakpoints(req.body.breakpoints));
+    }
+
     if (errors.length > 0) {
       res.status(400).json({
         success: false,
@@ -174,7 +205,9 @@ export async function createProjectController(
       figmaFileKey: req.body.figmaFileKey.trim(),
       figmaFileUrl: req.body.figmaFileUrl?.trim(),
       figmaFileName: req.body.figmaFileName?.trim(),
-      figmaNodeId: req.body.figmaNodeId?.trim()
+      figmaNodeId: req.body.figmaNodeId?.trim(),
+      scoringProfile: req.body.scoringProfile,
+      breakpoints: req.body.breakpoints
     };
 
     const project = await createProject(userId, data);
@@ -229,6 +262,14 @@ export async function updateProjectController(
       errors.push('FigmaファイルURLの形式が不正です');
     }
 
+    if (req.body.scoringProfile !== undefined && !isScoringProfileName(req.body.scoringProfile)) {
+      errors.push(`スコアリングプロファイルは${Object.keys(SCORING_PROFILES).join(', ')}のいずれかを指定してください`);
+    }
+
+    if (req.body.breakpoints !== undefined && req.body.breakpoints !== null) {
+      errors.push(...validateProjectBreakpoints(req.body.breakpoints));
+    }
+
     if (errors.length > 0) {
       res.status(400).json({
         success: false,
@@ -258,6 +299,12 @@ export async function updateProjectController(
     if (req.body.figmaNodeId !== undefined) {
       data.figmaNodeId = req.body.figmaNodeId?.trim();
     }
+    if (req.body.scoringProfile !== undefined) {
+      data.scoringProfile = req.body.scoringProfile;
+    }
+    if (req.body.breakpoints !== undefined) {
+      data.breakpoints = req.body.breakpoints;
+    }
 
     const project = await updateProject(id, userId, data);
 
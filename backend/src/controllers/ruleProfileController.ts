@@ -0,0 +1,154 @@
+// =====================================
+// backend/src/controllers/ruleProfileController.ts
+// ルールプロファイルコントローラー - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: express, services/ruleProfileService, errors, utils/logger
+// 説明: プロジェクト別ルール設定エンドポイントのハンドラー（ビジネスロジックなし）
+// =====================================
+
+import { Request, Response, NextFunction } from 'express';
+import * as ruleProfileService from '../services/ruleProfileService';
+import { ValidationError } from '../errors';
+import logger from '../utils/logger';
+
+/**
+ * GET /api/projects/:id/rules
+ * プロジェクトのルール設定一覧取得
+ */
+export async function getRuleSettings(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    const settings = await ruleProfileService.getRuleSettings(userId, id);
+
+    res.json({
+      success: true,
+      data: settings
+    });
+  } catch (error) {
+    logger.error('ルール設定取得エラー', { error, requestId: req.id });
+    next(error);
+  }
+}
+
+/**
+ * PUT /api/projects/:id/rules
+ * 複数ルールの設定を一括更新
+ */
+export async function updateRuleSettings(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const { rules } = req.body;
+
+    if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+      throw new ValidationError('rulesはルールIDをキーとするオブジェクトである必要があります', 'rules');
+    }
+
+    const settings = await ruleProfileService.updateRuleSettings(userId, id, rules);
+
+    res.json({
+      success: true,
+      data: settings
+    });
+  } catch (error) {
+    logger.error('ルール設定一括更新エラー', { error, requestId: req.id });
+    next(error);
+  }
+}
+
+/**
+ * DELETE /api/projects/:id/rules
+ * ルールプロファイルをリセット（全ルールをデフォルトに戻す）
+ */
+export async function resetRuleSettings(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    const settings = await ruleProfileService.resetRuleSettings(userId, id);
+
+    res.json({
+      success: true,
+      data: settings
+    });
+  } catch (error) {
+    logger.error('ルールプロファイルリセットエラー', { error, requestId: req.id });
+    next(error);
+  }
+}
+
+/**
+ * PUT /api/projects/:id/rules/:ruleId
+ * 単一ルールの設定を更新
+ */
+export async function updateRuleSetting(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { id, ruleId } = req.params;
+
+    if (!req.body || typeof req.body !== 'object') {
+      throw new ValidationError('リクエストボディが不正です');
+    }
+
+    const settings = await ruleProfileService.updateRuleSetting(userId, id, ruleId, req.body);
+
+    res.json({
+      success: true,
+      data: settings
+    });
+  } catch (error) {
+    logger.error('ルール設定更新エラー', { error, requestId: req.id });
+    next(error);
+  }
+}
+
+/**
+ * DELETE /api/projects/:id/rules/:ruleId
+ * 単一ルールの設定をデフォルトに戻す
+ */
+export async function resetRuleSetting(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { id, ruleId } = req.params;
+
+    const settings = await ruleProfileService.resetRuleSetting(userId, id, ruleId);
+
+    res.json({
+      success: true,
+      data: settings
+    });
+  } catch (error) {
+    logger.error('ルール設定リセットエラー', { error, requestId: req.id });
+    next(error);
+  }
+}
+
+export default {
+  getRuleSettings,
+  updateRuleSettings,
+  resetRuleSettings,
+  updateRuleSetting,
+  resetRuleSetting
+};
@@ -0,0 +1,99 @@
+// =====================================
+// backend/src/controllers/suppressionController.ts
+// 違反抑制コントローラー - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: express, services/suppressionService, utils/logger
+// 説明: 違反抑制レジストリエンドポイントのハンドラー（ビジネスロジックなし）
+// =====================================
+
+import { Request, Response, NextFunction } from 'express';
+import * as suppressionService from '../services/suppressionService';
+import logger from '../utils/logger';
+
+/**
+ * GET /api/projects/:id/suppressions
+ * 抑制一覧取得
+ */
+export async function listSuppressions(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+
+    const suppressions = await suppressionService.listSuppressions(userId, id);
+
+    res.json({
+      success: true,
+      data: suppressions
+    });
+  } catch (error) {
+    logger.error('抑制一覧取得エラー', { error, requestId: req.id });
+    next(error);
+  }
+}
+
+/**
+ * POST /api/projects/:id/suppressions
+ * 抑制登録
+ */
+export async function createSuppression(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { id } = req.params;
+    const { ruleId, frameId, frameName, reason, expiresAt } = req.body ?? {};
+
+    const suppression = await suppressionService.createSuppression(userId, id, {
+      ruleId,
+      frameId,
+      frameName,
+      reason,
+      expiresAt
+    });
+
+    res.status(201).json({
+      success: true,
+      data: suppression
+    });
+  } catch (error) {
+    logger.error('抑制登録エラー', { error, requestId: req.id });
+    next(error);
+  }
+}
+
+/**
+ * DELETE /api/projects/:id/suppressions/:suppressionId
+ * 抑制削除
+ */
+export async function deleteSuppression(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userId = req.user!.userId;
+    const { id, suppressionId } = req.params;
+
+    await suppressionService.deleteSuppression(userId, id, suppressionId);
+
+    res.json({
+      success: true,
+      message: '抑制を削除しました'
+    });
+  } catch (error) {
+    logger.error('抑制削除エラー', { error, requestId: req.id });
+    next(error);
+  }
+}
+
+export default {
+  listSuppressions,
+  createSuppression,
+  deleteSuppression
+};
@@ -12,7 +12,11 @@ import {
   getAnalysisSummary, 
   getViolations, 
   getPredictions, 
+  getPredictionOverlay,
   getSuggestions,
+  getScoreExplanation,
+  getAnalysisHistory,
+  compareAnalyses,
   reanalyzeProject
 } from '../controllers/analysisController';
 import { authenticateToken } from '../middlewares/authenticate';
@@ -77,14 +81,52 @@ logger.info('🔍 Analysis Routes 初期化');
  *                     semanticScore:
  *                       type: integer
  *                       example: 85
+ *                     accessibilityScore:
+ *                       type: integer
+ *                       example: 90
  *                     canGenerateHTML:
  *                       type: boolean
- *                       description: HTML生成可能か（90%以上）
+ *                       description: HTML生成可能か（閾値はスコアリングプロファイルによる）
  *                       example: false
  *                     canUseGrid:
  *                       type: boolean
- *                       description: Grid生成可能か（100%のみ）
+ *                       description: Grid生成可能か（閾値はスコアリングプロファイルによる。標準は100%のみ）
  *                       example: false
+ *                     scoringProfile:
+ *                       type: string
+ *                       description: スコア計算に使用したスコアリングプロファイル
+ *                       example: standard
+ *                     scope:
+ *                       type: object
+ *                       description: スコアの対象範囲（ページ指定・ルートノード指定の解析はその範囲のみ）
+ *                       properties:
+ *                         type:
+ *                           type: string
+ *                           enum: [FILE, PAGES, NODE]
+ *                           example: PAGES
+ *                         nodeIds:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                           example: ["0:1"]
+ *                         names:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                           example: ["Home"]
+ *                         label:
+ *                           type: string
+ *                           example: "ページ: Home"
+ *                     figmaVersion:
+ *                       type: string
+ *                       nullable: true
+ *                       description: 解析したFigmaファイルのバージョンID
+ *                       example: "2164957398"
+ *                     figmaVersionLabel:
+ *                       type: string
+ *                       nullable: true
+ *                       description: バージョン指定で解析した場合の名前付きバージョンのタイトル
+ *                       example: "v1.2 リリース"
  *                     violations:
  *                       type: object
  *                       properties:
@@ -97,6 +139,155 @@ logger.info('🔍 Analysis Routes 初期化');
  *                         minor:
  *                           type: integer
  *                           example: 12
+ *                     tracking:
+ *                       type: object
+ *                       description: 前回解析と比較した違反件数
+ *                       properties:
+ *                         new:
+ *                           type: integer
+ *                           example: 4
+ *                         persisting:
+ *                           type: integer
+ *                           example: 18
+ *                         resolved:
+ *                           type: integer
+ *                           example: 6
+ *                     skippedFrames:
+ *                       type: integer
+ *                       description: 差分解析で前回結果を再利用したトップレベルフレーム数
+ *                       example: 11
+ *                     breakpoints:
+ *                       type: object
+ *                       description: 同一画面のDesktop/Tablet/Mobileフレームのグループと、ブレークポイント間の差分件数
+ *                       properties:
+ *                         groups:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               name:
+ *                                 type: string
+ *                                 example: Home
+ *                               source:
+ *                                 type: string
+ *                                 enum: [NAMING, MAPPING]
+ *                                 example: NAMING
+ *                               referenceBreakpoint:
+ *                                 type: string
+ *                                 enum: [DESKTOP, TABLET, MOBILE]
+ *                                 example: DESKTOP
+ *                               frames:
+ *                                 type: array
+ *                                 items:
+ *                                   type: object
+ *                                   properties:
+ *                                     breakpoint:
+ *                                       type: string
+ *                                       example: MOBILE
+ *                                     frameId:
+ *                                       type: string
+ *                                       example: "1:40"
+ *                                     frameName:
+ *                                       type: string
+ *                                       example: "Home / Mobile"
+ *                                     width:
+ *                                       type: number
+ *                                       nullable: true
+ *                                       example: 375
+ *                         missingSections:
+ *                           type: integer
+ *                           example: 2
+ *                         orderMismatches:
+ *                           type: integer
+ *                           example: 1
+ *                         textMismatches:
+ *                           type: integer
+ *                           example: 3
+ *                     responsive:
+ *                       type: object
+ *                       description: ブレークポイント幅のレイアウトシミュレーションによる対応可否
+ *                       properties:
+ *                         mobileReady:
+ *                           type: boolean
+ *                           example: false
+ *                         tabletReady:
+ *                           type: boolean
+ *                           example: true
+ *                         desktopReady:
+ *                           type: boolean
+ *                           example: true
+ *                         breakpoints:
+ *                           type: array
+ *                           nullable: true
+ *                           description: プロジェクトのブレークポイント別の結果
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               name:
+ *                                 type: string
+ *                                 example: mobile
+ *                               width:
+ *                                 type: integer
+ *                                 example: 375
+ *                               ready:
+ *                                 type: boolean
+ *                                 example: false
+ *                               simulatedFrames:
+ *                                 type: integer
+ *                                 example: 4
+ *                               overflowFrames:
+ *                                 type: integer
+ *                                 example: 2
+ *                               squeezedNodes:
+ *                                 type: integer
+ *                                 example: 5
+ *                               textIssues:
+ *                                 type: integer
+ *                                 description: 切れる・はみ出す・行数が大きく増えるテキスト数
+ *                                 example: 3
+ *                     repeatedStructures:
+ *                       type: object
+ *                       nullable: true
+ *                       description: コンポーネント化されていない同一構造（ノードタイプ・レイアウト設定・子要素の構成が一致するサブツリー）のグループ
+ *                       properties:
+ *                         groups:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               hash:
+ *                                 type: string
+ *                                 example: "3f9a1c0b7d2e4a58"
+ *                               occurrences:
+ *                                 type: integer
+ *                                 example: 4
+ *                               nodeIds:
+ *                                 type: array
+ *                                 items:
+ *                                   type: string
+ *                                 example: ["1:20", "1:31", "1:42", "1:53"]
+ *                               nodeNames:
+ *                                 type: array
+ *                                 items:
+ *                                   type: string
+ *                                 example: ["product-card", "product-card", "product-card", "Frame 27"]
+ *                               layerCount:
+ *                                 type: integer
+ *                                 description: 1箇所あたりのレイヤー数（ルートを含む）
+ *                                 example: 6
+ *                               suggestedName:
+ *                                 type: string
+ *                                 example: ProductCard
+ *                               estimatedLayerSaving:
+ *                                 type: integer
+ *                                 description: コンポーネント化で個別に管理しなくてよくなるレイヤー数
+ *                                 example: 15
+ *                         repeatedNodes:
+ *                           type: integer
+ *                           example: 4
+ *                         estimatedLayerSaving:
+ *                           type: integer
+ *                           example: 15
  *                     totalFrames:
  *                       type: integer
  *                       example: 25
@@ -158,6 +349,12 @@ router.get(
  *           enum: [CRITICAL, MAJOR, MINOR]
  *         description: 重要度でフィルター
  *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [NEW, PERSISTING, RESOLVED]
+ *         description: 前回解析と比較した追跡状態でフィルター（RESOLVEDは最新の解析で解決された違反）
+ *       - in: query
  *         name: limit
  *         schema:
  *           type: integer
@@ -201,7 +398,7 @@ router.get(
  *                             example: "Auto Layout必須"
  *                           ruleCategory:
  *                             type: string
- *                             enum: [LAYOUT, COMPONENT, RESPONSIVE, SEMANTIC, CONSTRAINT, STRUCTURE]
+ *                             enum: [LAYOUT, COMPONENT, RESPONSIVE, SEMANTIC, CONSTRAINT, STRUCTURE, SPACING, COLOR, TEXT, ACCESSIBILITY]
  *                           severity:
  *                             type: string
  *                             enum: [CRITICAL, MAJOR, MINOR]
@@ -214,6 +411,15 @@ router.get(
  *                           suggestion:
  *                             type: string
  *                             example: "Auto Layoutを適用してください"
+ *                           fingerprint:
+ *                             type: string
+ *                             description: ルールID・ノードID・正規化ノードパスから生成した識別子
+ *                           trackingStatus:
+ *                             type: string
+ *                             enum: [NEW, PERSISTING, RESOLVED]
+ *                           firstDetectedAt:
+ *                             type: string
+ *                             format: date-time
  *                     total:
  *                       type: integer
  *                       example: 22
@@ -239,6 +445,7 @@ router.get(
       projectId: req.params.projectId,
       userId: (req as any).user?.userId,
       severity: req.query.severity,
+      status: req.query.status,
       limit: req.query.limit,
       timestamp: new Date().toISOString()
     });
@@ -256,7 +463,10 @@ router.get(
  * /api/analysis/{projectId}/predictions:
  *   get:
  *     summary: 崩壊予測取得
- *     description: レスポンシブ崩壊予測を取得します
+ *     description: |
+ *       レスポンシブ崩壊予測を取得します。
+ *       localization を指定すると、最新の解析のFigmaデータのすべてのテキストを言語ごとの伸縮率で擬似翻訳して
+ *       ブレークポイント幅のシミュレーションを再実行し、翻訳後にのみ崩れるフレームを localization に返します（結果は保存しません）
  *     tags:
  *       - 🔍 診断 (Analysis)
  *     security:
@@ -269,6 +479,13 @@ router.get(
  *           type: string
  *           format: uuid
  *         description: プロジェクトID
+ *       - in: query
+ *         name: localization
+ *         required: false
+ *         schema:
+ *           type: string
+ *           example: de,ja
+ *         description: 翻訳のストレステストをする言語（カンマ区切り。en / de / fr / es / ja / zh）
  *     responses:
  *       200:
  *         description: 崩壊予測取得成功
@@ -314,22 +531,18 @@ router.get(
  *                             enum: [CRITICAL, MAJOR, MINOR]
  *                     responsiveIssues:
  *                       type: object
- *                       properties:
- *                         mobile:
- *                           type: object
- *                           properties:
- *                             width:
+ *                       description: プロジェクトのブレークポイント名 → 問題一覧
+ *                       additionalProperties:
+ *                         type: object
+ *                         properties:
+ *                           width:
+ *                             type: string
+ *                             example: "375px"
+ *                           issues:
+ *                             type: array
+ *                             items:
  *                               type: string
- *                               example: "375px"
- *                             issues:
- *                               type: array
- *                               items:
- *                                 type: string
- *                               example: ["横スクロール発生 (HeroSection)"]
- *                         tablet:
- *                           type: object
- *                         desktop:
- *                           type: object
+ *                             example: ["横スクロール発生 (HeroSection)"]
  *                     summary:
  *                       type: object
  *                       properties:
@@ -339,10 +552,55 @@ router.get(
  *                         criticalCount:
  *                           type: integer
  *                           example: 2
+ *                     localization:
+ *                       type: array
+ *                       description: 翻訳のストレステスト結果（localization 指定時のみ）
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           locale:
+ *                             type: string
+ *                             example: de
+ *                           label:
+ *                             type: string
+ *                             example: ドイツ語
+ *                           expansion:
+ *                             type: number
+ *                             description: 英語を1としたときのテキスト幅の比率
+ *                             example: 1.35
+ *                           translatedTexts:
+ *                             type: integer
+ *                             description: 擬似翻訳したテキスト数
+ *                             example: 42
+ *                           frames:
+ *                             type: array
+ *                             description: 翻訳前は問題が無く、翻訳後にのみ崩れるフレーム × ブレークポイント（各フレームのデザイン時の幅を含む）
+ *                             items:
+ *                               type: object
+ *                               properties:
+ *                                 frameId:
+ *                                   type: string
+ *                                 frameName:
+ *                                   type: string
+ *                                   example: "Pricing"
+ *                                 breakpoint:
+ *                                   type: string
+ *                                   description: ブレークポイント名（デザイン時の幅でのシミュレーションは design）
+ *                                   example: mobile
+ *                                 screenWidth:
+ *                                   type: integer
+ *                                   example: 375
+ *                                 predictions:
+ *                                   type: array
+ *                                   description: 崩壊予測（predictions と同じ形式、id・createdAt なし）
+ *                                   items:
+ *                                     type: object
+ *       400:
+ *         description: 未対応の言語が指定されました
  *       401:
  *         description: 認証エラー
  *       404:
- *         description: プロジェクトが見つかりません
+ *         description: プロジェクト、または最新の解析のFigmaデータが見つかりません
  *       500:
  *         description: サーバーエラー
  */
@@ -369,6 +627,64 @@ router.get(
   getPredictions
 );
 
+/**
+ * @swagger
+ * /api/analysis/{projectId}/predictions/{predictionId}/overlay:
+ *   get:
+ *     summary: 崩壊予測のオーバーレイSVG取得
+ *     description: |
+ *       崩壊予測の対象ノードを含む画面（トップレベルフレーム）を、指定したブレークポイントの幅で再計算したボックスツリー
+ *       （absoluteBoundingBox基準）としてSVGで描画します。各ボックスにノード名のラベルを付け、
+ *       画面外・コンテナ外にはみ出した領域を赤、最小幅・テキストの問題がある要素を橙、予測の対象ノードを青で強調します。
+ *       最新の解析のFigmaデータを使用します
+ *     tags:
+ *       - 🔍 診断 (Analysis)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: プロジェクトID
+ *       - in: path
+ *         name: predictionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 崩壊予測ID
+ *       - in: query
+ *         name: breakpoint
+ *         required: false
+ *         schema:
+ *           type: string
+ *           example: mobile
+ *         description: 描画するブレークポイント名（省略時は崩壊予測のブレークポイント）
+ *     responses:
+ *       200:
+ *         description: オーバーレイSVG
+ *         content:
+ *           image/svg+xml:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: 崩壊予測に対象ノード・ブレークポイントが無い、またはブレークポイント名が不正です
+ *       401:
+ *         description: 認証エラー
+ *       404:
+ *         description: 崩壊予測、または最新の解析のFigmaデータ・対象ノードが見つかりません
+ *       500:
+ *         description: サーバーエラー
+ */
+router.get(
+  '/:projectId/predictions/:predictionId/overlay',
+  authenticateToken(),
+  getPredictionOverlay
+);
+
 /**
  * @swagger
  * /api/analysis/{projectId}/suggestions:
@@ -484,6 +800,463 @@ router.get(
   getSuggestions
 );
 
+/**
+ * @swagger
+ * /api/analysis/{projectId}/score-explanation:
+ *   get:
+ *     summary: スコアの内訳取得
+ *     description: |
+ *       最新の診断結果のスコアがどのように計算されたかを返します。
+ *       カテゴリ別の重み、ルール別・Frame別の減点、HTML生成・Grid生成の閾値を超えるために直す必要がある最小の違反セットを含みます。
+ *       計算は解析時のスコアリングプロファイルで行います。
+ *     tags:
+ *       - 🔍 診断 (Analysis)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: プロジェクトID
+ *     responses:
+ *       200:
+ *         description: スコアの内訳取得成功（診断結果が無い場合はdataがnull）
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   nullable: true
+ *                   properties:
+ *                     figleanScore:
+ *                       type: integer
+ *                       example: 72
+ *                     scoringProfile:
+ *                       type: string
+ *                       example: standard
+ *                     totalFrames:
+ *                       type: integer
+ *                       example: 25
+ *                     categories:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           category:
+ *                             type: string
+ *                             example: LAYOUT
+ *                           score:
+ *                             type: integer
+ *                             example: 64
+ *                           weight:
+ *                             type: number
+ *                             example: 0.3
+ *                           weightShare:
+ *                             type: number
+ *                             description: 総合スコアに占める重みの割合
+ *                             example: 0.261
+ *                           penalty:
+ *                             type: number
+ *                             example: 90
+ *                           normalizedPenalty:
+ *                             type: number
+ *                             example: 36
+ *                           scoreLoss:
+ *                             type: number
+ *                             description: このカテゴリによる総合スコアの減少分
+ *                             example: 9.39
+ *                           violations:
+ *                             type: integer
+ *                             example: 12
+ *                     rules:
+ *                       type: array
+ *                       description: ルール別の減点（総合スコアへの影響が大きい順）
+ *                       items:
+ *                         $ref: '#/components/schemas/PenaltyContribution'
+ *                     frames:
+ *                       type: array
+ *                       description: Frame別の減点（総合スコアへの影響が大きい順）
+ *                       items:
+ *                         $ref: '#/components/schemas/PenaltyContribution'
+ *                     thresholds:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ThresholdPlan'
+ *                     nextThreshold:
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/ThresholdPlan'
+ *                       nullable: true
+ *                       description: まだ到達していない最初の閾値
+ *                     storedFigleanScore:
+ *                       type: integer
+ *                       description: 解析時に保存したスコア
+ *                       example: 72
+ *                     scoreMismatch:
+ *                       type: boolean
+ *                       description: 内訳から再計算したfigleanScoreが保存済みのスコアと異なる（重要度を記録する前の解析など）
+ *                     analyzedAt:
+ *                       type: string
+ *                       format: date-time
+ *       401:
+ *         description: 認証エラー
+ *       404:
+ *         description: プロジェクトが見つかりません
+ *
+ * components:
+ *   schemas:
+ *     PenaltyContribution:
+ *       type: object
+ *       properties:
+ *         key:
+ *           type: string
+ *           description: ルールID または FrameID
+ *           example: FIXED_SIZE_DETECTED
+ *         name:
+ *           type: string
+ *           example: 固定サイズ検出
+ *         violations:
+ *           type: integer
+ *           example: 6
+ *         penalty:
+ *           type: number
+ *           description: 減点合計（正規化前）
+ *           example: 30
+ *         weightedPenalty:
+ *           type: number
+ *           description: 総合スコアに換算した減点（0点下限・丸め前の概算）
+ *           example: 3.13
+ *     ThresholdPlan:
+ *       type: object
+ *       properties:
+ *         target:
+ *           type: string
+ *           enum: [HTML_GENERATION, GRID]
+ *         threshold:
+ *           type: integer
+ *           example: 90
+ *         reached:
+ *           type: boolean
+ *         achievable:
+ *           type: boolean
+ *         pointsNeeded:
+ *           type: integer
+ *           example: 18
+ *         projectedScore:
+ *           type: integer
+ *           description: fixesをすべて修正した場合のスコア
+ *           example: 90
+ *         fixes:
+ *           type: array
+ *           description: 閾値を超えるために修正が必要な最小の違反セット
+ *           items:
+ *             type: object
+ *             properties:
+ *               ruleId:
+ *                 type: string
+ *               ruleName:
+ *                 type: string
+ *               category:
+ *                 type: string
+ *               severity:
+ *                 type: string
+ *               frameId:
+ *                 type: string
+ *               frameName:
+ *                 type: string
+ *               fingerprint:
+ *                 type: string
+ */
+router.get(
+  '/:projectId/score-explanation',
+  (req: Request, _res: Response, next: NextFunction) => {
+    logger.info('🟢 [ROUTE] /:projectId/score-explanation - リクエスト受信', { 
+      projectId: req.params.projectId,
+      method: req.method,
+      url: req.url,
+      timestamp: new Date().toISOString()
+    });
+    next();
+  },
+  authenticateToken(),
+  (req: Request, _res: Response, next: NextFunction) => {
+    logger.info('🟢 [ROUTE] /:projectId/score-explanation - 認証通過後', { 
+      projectId: req.params.projectId,
+      userId: (req as any).user?.userId,
+      timestamp: new Date().toISOString()
+    });
+    next();
+  },
+  getScoreExplanation
+);
+
+// =====================================
+// 解析履歴・比較エンドポイント
+// =====================================
+/**
+ * @swagger
+ * /api/analysis/{projectId}/history:
+ *   get:
+ *     summary: 解析履歴取得
+ *     description: |
+ *       プロジェクトの解析結果の履歴を新しい順に取得します（直近20件を保持）。
+ *       解析したFigmaファイルのバージョンを含み、/api/analysis/{projectId}/compare の比較対象の選択に使用します
+ *     tags:
+ *       - 🔍 診断 (Analysis)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: プロジェクトID
+ *     responses:
+ *       200:
+ *         description: 取得成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     analyses:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           analysisId:
+ *                             type: string
+ *                             format: uuid
+ *                           analyzedAt:
+ *                             type: string
+ *                             format: date-time
+ *                           figmaVersion:
+ *                             type: string
+ *                             nullable: true
+ *                             example: "2164957398"
+ *                           figmaVersionLabel:
+ *                             type: string
+ *                             nullable: true
+ *                             example: "v1.2 リリース"
+ *                           versionSnapshot:
+ *                             type: boolean
+ *                             description: バージョン指定の解析（プロジェクトの現在の状態には反映されていない）
+ *                           scope:
+ *                             type: object
+ *                             properties:
+ *                               type:
+ *                                 type: string
+ *                                 enum: [FILE, PAGES, NODE]
+ *                               label:
+ *                                 type: string
+ *                           figleanScore:
+ *                             type: integer
+ *                             example: 87
+ *                           totalViolations:
+ *                             type: integer
+ *                             example: 21
+ *                           comparable:
+ *                             type: boolean
+ *                             description: フレームごとの解析結果が保存されており比較に使用できるか
+ *       401:
+ *         description: 認証エラー
+ *       404:
+ *         description: プロジェクトが見つかりません
+ */
+router.get(
+  '/:projectId/history',
+  authenticateToken(),
+  getAnalysisHistory
+);
+
+/**
+ * @swagger
+ * /api/analysis/{projectId}/compare:
+ *   get:
+ *     summary: 2つの解析の比較
+ *     description: |
+ *       2つの解析結果（Figmaファイルのバージョン違い等）を比較し、カテゴリ別スコアの差分、
+ *       追加・解消された違反、変化したトップレベルフレームを返します
+ *     tags:
+ *       - 🔍 診断 (Analysis)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: プロジェクトID
+ *       - in: query
+ *         name: base
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 比較元の解析ID
+ *       - in: query
+ *         name: target
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 比較先の解析ID（未指定時は最新の解析）
+ *     responses:
+ *       200:
+ *         description: 比較成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     base:
+ *                       $ref: '#/components/schemas/ComparedAnalysis'
+ *                     target:
+ *                       $ref: '#/components/schemas/ComparedAnalysis'
+ *                     scopeMatches:
+ *                       type: boolean
+ *                       description: 解析範囲が一致するか（異なる場合、フレームの追加・削除は範囲の違いによるものを含む）
+ *                     scores:
+ *                       type: object
+ *                       description: カテゴリ別スコアの差分（figleanScore, layoutScore, componentScore, responsiveScore, semanticScore, accessibilityScore）
+ *                       additionalProperties:
+ *                         type: object
+ *                         properties:
+ *                           base:
+ *                             type: integer
+ *                             example: 78
+ *                           target:
+ *                             type: integer
+ *                             example: 85
+ *                           delta:
+ *                             type: integer
+ *                             example: 7
+ *                     violations:
+ *                       type: object
+ *                       properties:
+ *                         added:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/ComparedViolation'
+ *                         removed:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/ComparedViolation'
+ *                         persisting:
+ *                           type: integer
+ *                           example: 18
+ *                     frames:
+ *                       type: object
+ *                       properties:
+ *                         changes:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               frameId:
+ *                                 type: string
+ *                                 example: "1:2"
+ *                               frameName:
+ *                                 type: string
+ *                                 nullable: true
+ *                                 example: Home
+ *                               status:
+ *                                 type: string
+ *                                 enum: [ADDED, REMOVED, CHANGED]
+ *                               violationsBefore:
+ *                                 type: integer
+ *                                 example: 5
+ *                               violationsAfter:
+ *                                 type: integer
+ *                                 example: 2
+ *                         unchanged:
+ *                           type: integer
+ *                           example: 9
+ *       400:
+ *         description: 解析IDの形式が不正、またはフレームごとの解析結果が無く比較できない
+ *       401:
+ *         description: 認証エラー
+ *       404:
+ *         description: 解析が見つかりません
+ *
+ * components:
+ *   schemas:
+ *     ComparedAnalysis:
+ *       type: object
+ *       properties:
+ *         analysisId:
+ *           type: string
+ *           format: uuid
+ *         analyzedAt:
+ *           type: string
+ *           format: date-time
+ *         figmaVersion:
+ *           type: string
+ *           nullable: true
+ *         figmaVersionLabel:
+ *           type: string
+ *           nullable: true
+ *         scope:
+ *           type: object
+ *         scores:
+ *           type: object
+ *           additionalProperties:
+ *             type: integer
+ *     ComparedViolation:
+ *       type: object
+ *       properties:
+ *         fingerprint:
+ *           type: string
+ *         ruleId:
+ *           type: string
+ *           example: FIXED_SIZE_DETECTED
+ *         ruleName:
+ *           type: string
+ *         severity:
+ *           type: string
+ *         category:
+ *           type: string
+ *         frameId:
+ *           type: string
+ *         frameName:
+ *           type: string
+ *         nodePath:
+ *           type: string
+ *           nullable: true
+ *         description:
+ *           type: string
+ *         topLevelFrameId:
+ *           type: string
+ *           description: 違反が属するトップレベルフレーム
+ */
+router.get(
+  '/:projectId/compare',
+  authenticateToken(),
+  compareAnalyses
+);
+
 // =====================================
 // Phase 9: 再解析エンドポイント
 // =====================================
@@ -567,7 +1340,11 @@ logger.info('📊 Analysis エンドポイント登録完了:', {
     'GET  /api/analysis/:projectId',
     'GET  /api/analysis/:projectId/violations',
     'GET  /api/analysis/:projectId/predictions',
+    'GET  /api/analysis/:projectId/predictions/:predictionId/overlay',
     'GET  /api/analysis/:projectId/suggestions',
+    'GET  /api/analysis/:projectId/score-explanation',
+    'GET  /api/analysis/:projectId/history',
+    'GET  /api/analysis/:projectId/compare',
     'POST /api/analysis/:projectId/reanalyze'
   ]
 });
@@ -175,6 +175,80 @@ router.get('/files', authenticateToken(), figmaController.getFigmaFilesList);
  */
 router.get('/file/:fileKey', authenticateToken(), figmaController.getFigmaFileDetail);
 
+/**
+ * @openapi
+ * /api/figma/file/{fileKey}/versions:
+ *   get:
+ *     summary: Figmaファイルのバージョン履歴取得
+ *     description: |
+ *       Figmaファイルのバージョン履歴を新しい順に取得します。
+ *       取得したバージョンIDを /api/figma/import の versionId に指定すると、そのバージョンを解析できます
+ *     tags: ['🔌 Figma連携 (Figma)']
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: fileKey
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[a-zA-Z0-9]{10,50}$'
+ *         description: FigmaファイルKey
+ *     responses:
+ *       200:
+ *         description: バージョン履歴取得成功
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     fileKey:
+ *                       type: string
+ *                     versions:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             example: "2164957398"
+ *                           createdAt:
+ *                             type: string
+ *                             format: date-time
+ *                           label:
+ *                             type: string
+ *                             nullable: true
+ *                             description: 名前付きバージョンのタイトル（自動保存のバージョンはnull）
+ *                             example: "v1.2 リリース"
+ *                           description:
+ *                             type: string
+ *                             nullable: true
+ *                           user:
+ *                             type: object
+ *                             nullable: true
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                               handle:
+ *                                 type: string
+ *                               imgUrl:
+ *                                 type: string
+ *                                 nullable: true
+ *       400:
+ *         description: fileKeyの形式が不正
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         description: ファイルが見つかりません
+ */
+router.get('/file/:fileKey/versions', authenticateToken(), figmaController.getFigmaFileVersions);
+
 /**
  * @openapi
  * /api/figma/file/{fileKey}/frames:
@@ -314,8 +388,18 @@ router.get('/file/:fileKey/node/:nodeId', authenticateToken(), figmaController.g
  *                 type: array
  *                 items:
  *                   type: string
- *                 description: 解析対象ページID配列（オプション）
+ *                 description: |
+ *                   解析対象ページID配列（オプション）。
+ *                   未指定の場合はプロジェクトのルートノード（figmaNodeId）以下、それもなければファイル全体を解析します
  *                 example: ["0:1", "0:2"]
+ *               versionId:
+ *                 type: string
+ *                 pattern: '^[0-9]+$'
+ *                 description: |
+ *                   解析するFigmaファイルのバージョンID（オプション。/api/figma/file/{fileKey}/versions で取得）。
+ *                   未指定の場合は最新の状態を解析します。指定したバージョンの解析結果は履歴のスナップショットとして保存され、
+ *                   プロジェクトのスコア・ルール違反・崩壊予測など現在の状態は変更しません（/api/analysis/{projectId}/compare で比較できます）
+ *                 example: "2164957398"
  *               analyzeAll:
  *                 type: boolean
  *                 description: 全Frameを解析するか
@@ -407,7 +491,20 @@ router.post('/import', authenticateToken(), figmaController.startFigmaImport);
  *                           example: 51
  *                         currentStep:
  *                           type: string
- *                           example: "Analyzing frames"
+ *                           example: "Analyzing 1 changed frames (11 unchanged frames skipped)"
+ *                         frames:
+ *                           type: object
+ *                           description: 差分解析のフレーム数（変更のないトップレベルフレームは前回結果を再利用）
+ *                           properties:
+ *                             total:
+ *                               type: integer
+ *                               example: 12
+ *                             reanalyzed:
+ *                               type: integer
+ *                               example: 1
+ *                             skipped:
+ *                               type: integer
+ *                               example: 11
  *                     error:
  *                       type: string
  *                       nullable: true
@@ -425,6 +522,7 @@ logger.info('📌 Figma エンドポイント登録完了:', {
     'GET  /api/figma/user',
     'GET  /api/figma/files',
     'GET  /api/figma/file/:fileKey',
+    'GET  /api/figma/file/:fileKey/versions',
     'GET  /api/figma/file/:fileKey/frames',
     'GET  /api/figma/file/:fileKey/node/:nodeId',
     'POST /api/figma/import',
@@ -30,6 +30,8 @@ const router = Router();
  *       プロジェクトからHTML/CSSコードを生成します。
  *       - FIGLEANスコア90%以上が必要
  *       - スコア100%の場合のみGrid生成が可能
+ *       - Breakpoint（Tailwindのscreens）はプロジェクトのブレークポイント設定を使用
+ *         （breakpoints を指定した場合はその生成のみ上書き。プロジェクトの設定は変更しません）
  *     tags: ['🎨 HTML生成 (HTML Generator)']
  *     security:
  *       - bearerAuth: []
@@ -62,21 +64,15 @@ const router = Router();
  *                 default: false
  *                 description: Grid生成を有効にする（スコア100%時のみ）
  *               breakpoints:
- *                 type: object
- *                 description: カスタムBreakpoint設定
- *                 properties:
- *                   mobile:
- *                     type: integer
- *                     default: 640
- *                   tablet:
- *                     type: integer
- *                     default: 768
- *                   desktop:
- *                     type: integer
- *                     default: 1024
- *                   wide:
- *                     type: integer
- *                     default: 1280
+ *                 type: array
+ *                 description: |
+ *                   この生成のみ使用するBreakpoint（省略時はプロジェクトのブレークポイント設定）。
+ *                   プロジェクトの設定と同じ形式・制約で検証し、不正な場合は400を返します。
+ *                   崩壊予測・対応可否の判定にも反映する場合は PUT /api/projects/{id} の breakpoints を更新してください
+ *                   以前の { mobile, tablet, desktop, wide } 形式のオブジェクトは受け付けず400を返します
+ *                   （[{ name, width }] の配列に置き換えてください）
+ *                 items:
+ *                   $ref: '#/components/schemas/ProjectBreakpoint'
  *               minifyOutput:
  *                 type: boolean
  *                 default: false
@@ -99,15 +95,19 @@ const router = Router();
  *                 includeResponsive: true
  *                 includeGrid: true
  *             customBreakpoints:
- *               summary: カスタムBreakpoint
+ *               summary: Breakpointの一時的な上書き
  *               value:
  *                 framework: HTML_TAILWIND
  *                 includeResponsive: true
  *                 breakpoints:
- *                   mobile: 480
- *                   tablet: 768
- *                   desktop: 1200
- *                   wide: 1600
+ *                   - name: mobile
+ *                     width: 480
+ *                   - name: tablet
+ *                     width: 768
+ *                   - name: desktop
+ *                     width: 1200
+ *                   - name: wide
+ *                     width: 1600
  *     responses:
  *       201:
  *         description: HTML生成成功
@@ -155,7 +155,7 @@ const router = Router();
  *                       type: string
  *                       description: ダウンロードURL
  *       400:
- *         description: スコア不足またはリクエストエラー
+ *         description: スコア不足、または breakpoints 等のリクエストエラー
  *         content:
  *           application/json:
  *             schema:
@@ -174,7 +174,10 @@ const router = Router();
  *                       type: string
  *                       example: "HTML生成にはFIGLEANスコア90%以上が必要です（現在: 82%）"
  *                     details:
- *                       type: object
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: ["ブレークポイント1件目: 幅は240〜3840の整数（px）で指定してください"]
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
  *       404:
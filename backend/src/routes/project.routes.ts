@@ -18,8 +18,21 @@ import {
   getProjectController,
   createProjectController,
   updateProjectController,
-  deleteProjectController
+  deleteProjectController,
+  getScoringProfilesController
 } from '../controllers/projectController';
+import {
+  getRuleSettings,
+  updateRuleSettings,
+  resetRuleSettings,
+  updateRuleSetting,
+  resetRuleSetting
+} from '../controllers/ruleProfileController';
+import {
+  listSuppressions,
+  createSuppression,
+  deleteSuppression
+} from '../controllers/suppressionController';
 import { authenticateToken } from '../middlewares/authenticate';
 
 const router = Router();
@@ -94,6 +107,69 @@ const router = Router();
  */
 router.get('/', authenticateToken(), getProjectsController as any);
 
+/**
+ * @openapi
+ * /api/projects/scoring-profiles:
+ *   get:
+ *     summary: スコアリングプロファイル一覧取得
+ *     description: プロジェクトに設定できるスコアリングプロファイル（減点・カテゴリ重み・Frame数正規化・HTML/Grid生成の閾値）の一覧を取得します
+ *     tags: ['📁 プロジェクト管理 (Projects)']
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: スコアリングプロファイル一覧
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     profiles:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           name:
+ *                             type: string
+ *                             enum: [standard, strict, marketing, prototype]
+ *                           label:
+ *                             type: string
+ *                           description:
+ *                             type: string
+ *                           severityPenalty:
+ *                             type: object
+ *                             additionalProperties:
+ *                               type: number
+ *                           categoryWeight:
+ *                             type: object
+ *                             additionalProperties:
+ *                               type: number
+ *                           frameNormalization:
+ *                             type: object
+ *                             properties:
+ *                               enabled:
+ *                                 type: boolean
+ *                               scale:
+ *                                 type: number
+ *                           thresholds:
+ *                             type: object
+ *                             properties:
+ *                               canGenerateHTML:
+ *                                 type: integer
+ *                                 example: 60
+ *                               canUseGrid:
+ *                                 type: integer
+ *                                 example: 100
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.get('/scoring-profiles', authenticateToken(), getScoringProfilesController as any);
+
 /**
  * @openapi
  * /api/projects/{id}:
@@ -177,6 +253,16 @@ router.get('/:id', authenticateToken(), getProjectController as any);
  *                 type: string
  *                 description: FigmaノードID
  *                 example: 1:2
+ *               scoringProfile:
+ *                 type: string
+ *                 enum: [standard, strict, marketing, prototype]
+ *                 default: standard
+ *                 description: スコアリングプロファイル
+ *               breakpoints:
+ *                 type: array
+ *                 description: ブレークポイント（未指定時は mobile 375 / tablet 768 / desktop 1440）
+ *                 items:
+ *                   $ref: '#/components/schemas/ProjectBreakpoint'
  *     responses:
  *       201:
  *         description: プロジェクト作成成功
@@ -238,6 +324,16 @@ router.post('/', authenticateToken(), createProjectController as any);
  *                 type: string
  *               figmaNodeId:
  *                 type: string
+ *               scoringProfile:
+ *                 type: string
+ *                 enum: [standard, strict, marketing, prototype]
+ *                 description: スコアリングプロファイル（次回の解析から適用）
+ *               breakpoints:
+ *                 type: array
+ *                 nullable: true
+ *                 description: ブレークポイント（次回の解析・HTML生成から適用。nullでデフォルトに戻す）
+ *                 items:
+ *                   $ref: '#/components/schemas/ProjectBreakpoint'
  *     responses:
  *       200:
  *         description: プロジェクト更新成功
@@ -298,6 +394,309 @@ router.put('/:id', authenticateToken(), updateProjectController as any);
  */
 router.delete('/:id', authenticateToken(), deleteProjectController as any);
 
+// =====================================
+// ルールプロファイル
+// =====================================
+
+/**
+ * @openapi
+ * /api/projects/{id}/rules:
+ *   get:
+ *     summary: ルール設定一覧取得
+ *     description: プロジェクトのルールプロファイルを適用した全ルールの設定（有効/無効・重要度・パラメータ）を取得します
+ *     tags: ['📁 プロジェクト管理 (Projects)']
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: プロジェクトID
+ *     responses:
+ *       200:
+ *         description: ルール設定一覧
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/RuleSettings'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *   put:
+ *     summary: ルール設定一括更新
+ *     description: 指定したルールの設定のみ既存プロファイルにマージします
+ *     tags: ['📁 プロジェクト管理 (Projects)']
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: プロジェクトID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rules
+ *             properties:
+ *               rules:
+ *                 type: object
+ *                 additionalProperties:
+ *                   $ref: '#/components/schemas/RuleOverride'
+ *                 example:
+ *                   DEPTH_TOO_DEEP: { params: { maxDepth: 10 } }
+ *                   NON_SEMANTIC_NAME: { params: { preset: SLASH_HIERARCHY, bannedWords: [copy, tmp] } }
+ *                   FIXED_SIZE_DETECTED: { severity: MINOR }
+ *     responses:
+ *       200:
+ *         description: 更新後のルール設定一覧
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/RuleSettings'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *   delete:
+ *     summary: ルールプロファイルリセット
+ *     description: 全ルールをデフォルト設定に戻します
+ *     tags: ['📁 プロジェクト管理 (Projects)']
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: プロジェクトID
+ *     responses:
+ *       200:
+ *         description: リセット後のルール設定一覧
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+router.get('/:id/rules', authenticateToken(), getRuleSettings);
+router.put('/:id/rules', authenticateToken(), updateRuleSettings);
+router.delete('/:id/rules', authenticateToken(), resetRuleSettings);
+
+/**
+ * @openapi
+ * /api/projects/{id}/rules/{ruleId}:
+ *   put:
+ *     summary: ルール設定更新
+ *     tags: ['📁 プロジェクト管理 (Projects)']
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: プロジェクトID
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ルールID
+ *         example: DEPTH_TOO_DEEP
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RuleOverride'
+ *     responses:
+ *       200:
+ *         description: 更新後のルール設定一覧
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *   delete:
+ *     summary: ルール設定リセット
+ *     description: 指定ルールの設定をデフォルトに戻します
+ *     tags: ['📁 プロジェクト管理 (Projects)']
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: プロジェクトID
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ルールID
+ *     responses:
+ *       200:
+ *         description: リセット後のルール設定一覧
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+router.put('/:id/rules/:ruleId', authenticateToken(), updateRuleSetting);
+router.delete('/:id/rules/:ruleId', authenticateToken(), resetRuleSetting);
+
+/**
+ * @openapi
+ * /api/projects/{id}/suppressions:
+ *   get:
+ *     summary: 違反抑制一覧取得
+ *     description: |
+ *       抑制レジストリに登録された抑制を取得します（期限切れを含む）。
+ *       レイヤー名・説明の `[figlean-ignore RULE_ID]` マーカーによる抑制はレジストリ登録不要です。
+ *     tags: ['📁 プロジェクト管理 (Projects)']
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: プロジェクトID
+ *     responses:
+ *       200:
+ *         description: 抑制一覧
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ViolationSuppression'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *   post:
+ *     summary: 違反抑制登録
+ *     description: 指定ルール・指定フレームの違反を抑制します。同一ルール・同一フレームの抑制は上書きされます
+ *     tags: ['📁 プロジェクト管理 (Projects)']
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: プロジェクトID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ruleId, frameId, reason]
+ *             properties:
+ *               ruleId:
+ *                 type: string
+ *                 example: FIXED_SIZE_DETECTED
+ *               frameId:
+ *                 type: string
+ *                 example: '1:23'
+ *               frameName:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *                 example: 広告枠のため固定サイズ
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *     responses:
+ *       201:
+ *         description: 登録された抑制
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+router.get('/:id/suppressions', authenticateToken(), listSuppressions);
+router.post('/:id/suppressions', authenticateToken(), createSuppression);
+
+/**
+ * @openapi
+ * /api/projects/{id}/suppressions/{suppressionId}:
+ *   delete:
+ *     summary: 違反抑制削除
+ *     tags: ['📁 プロジェクト管理 (Projects)']
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: プロジェクトID
+ *       - in: path
+ *         name: suppressionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: 抑制ID
+ *     responses:
+ *       200:
+ *         description: 削除成功
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+router.delete('/:id/suppressions/:suppressionId', authenticateToken(), deleteSuppression);
+
 /**
  * @openapi
  * components:
@@ -383,6 +782,17 @@ router.delete('/:id', authenticateToken(), deleteProjectController as any);
  *         semanticScore:
  *           type: integer
  *           nullable: true
+ *         accessibilityScore:
+ *           type: integer
+ *           nullable: true
+ *         scoringProfile:
+ *           type: string
+ *           enum: [standard, strict, marketing, prototype]
+ *         breakpoints:
+ *           type: array
+ *           description: ブレークポイント（幅の昇順。未設定時はデフォルト）
+ *           items:
+ *             $ref: '#/components/schemas/ProjectBreakpoint'
  *         analysisStatus:
  *           type: string
  *           enum: [PENDING, IN_PROGRESS, COMPLETED, FAILED]
@@ -400,6 +810,92 @@ router.delete('/:id', authenticateToken(), deleteProjectController as any);
  *         updatedAt:
  *           type: string
  *           format: date-time
+ *     ProjectBreakpoint:
+ *       type: object
+ *       required: [name, width]
+ *       properties:
+ *         name:
+ *           type: string
+ *           pattern: '^[a-z][a-z0-9-]{0,29}$'
+ *           description: ブレークポイント名（Tailwindのscreen名として使用）
+ *           example: mobile
+ *         width:
+ *           type: integer
+ *           minimum: 240
+ *           maximum: 3840
+ *           description: 画面幅（px）
+ *           example: 375
+ *     RuleOverride:
+ *       type: object
+ *       properties:
+ *         enabled:
+ *           type: boolean
+ *           description: falseの場合ルールを実行しない
+ *         severity:
+ *           type: string
+ *           enum: [CRITICAL, MAJOR, MINOR, INFO]
+ *           description: 重要度の上書き
+ *         params:
+ *           type: object
+ *           description: |
+ *             パラメータの上書き（例 maxDepth, minWidth, maxLayers）。
+ *             NON_SEMANTIC_NAME の命名規則は preset（DEFAULT / KEBAB_CASE / BEM / PASCAL_CASE_COMPONENTS / SLASH_HIERARCHY / CUSTOM）、
+ *             patterns（追加で許可する正規表現）、bannedWords（禁止語）で指定します
+ *     RuleSettings:
+ *       type: object
+ *       properties:
+ *         projectId:
+ *           type: string
+ *           format: uuid
+ *         rules:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               definition:
+ *                 type: object
+ *               enabled:
+ *                 type: boolean
+ *               severity:
+ *                 type: string
+ *                 enum: [CRITICAL, MAJOR, MINOR, INFO]
+ *               params:
+ *                 type: object
+ *               overridden:
+ *                 type: boolean
+ *     ViolationSuppression:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         ruleId:
+ *           type: string
+ *         frameId:
+ *           type: string
+ *         frameName:
+ *           type: string
+ *           nullable: true
+ *         reason:
+ *           type: string
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         expired:
+ *           type: boolean
+ *         author:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *             username:
+ *               type: string
+ *             name:
+ *               type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
  *     Pagination:
  *       type: object
  *       properties:
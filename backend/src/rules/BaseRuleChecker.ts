@@ -12,9 +12,20 @@ import type {
   RuleChecker,
   RuleCheckResult,
   RuleCheckContext,
-  RuleViolation
+  RuleViolation,
+  RuleParamValue
 } from '../types/rules';
 
+/**
+ * ルールの対象ノードタイプ（デフォルト）
+ */
+export const DEFAULT_NODE_TYPES = ['FRAME'];
+
+/**
+ * スコアのフレーム正規化・解析フレーム数に数えるノードタイプ（ルールの対象のうちレイアウトの単位になるもの）
+ */
+export const FRAME_LIKE_TYPES = ['FRAME', 'COMPONENT', 'INSTANCE', 'GROUP', 'SECTION'];
+
 /**
  * ルールチェッカー基底クラス
  */
@@ -32,11 +43,27 @@ export abstract class BaseRuleChecker implements RuleChecker {
     return this.definition;
   }
 
+  /**
+   * ルールの対象ノードタイプか判定（未指定時はFRAMEのみ）
+   */
+  protected appliesTo(node: FigmaNode): boolean {
+    return (this.definition.nodeTypes ?? DEFAULT_NODE_TYPES).includes(node.type);
+  }
+
   /**
    * ノードをチェック（サブクラスで実装）
    */
   abstract check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult;
 
+  /**
+   * ルールパラメータを取得
+   * プロファイルの上書き値（context.params）を優先し、無ければ定義のデフォルト値を返す
+   */
+  protected getParam<T extends RuleParamValue>(context: RuleCheckContext, key: string): T {
+    const value = context.params?.[key] ?? this.definition.defaultParams?.[key];
+    return value as T;
+  }
+
   /**
    * 違反を作成
    */
@@ -96,6 +123,21 @@ export function isFrame(node: FigmaNode): boolean {
   return node.type === 'FRAME';
 }
 
+/**
+ * 違反メッセージ用のノード種別ラベルを取得
+ */
+export function getNodeLabel(node: FigmaNode): string {
+  const labels: Record<string, string> = {
+    FRAME: 'Frame',
+    COMPONENT: 'Component',
+    COMPONENT_SET: 'Component Set',
+    INSTANCE: 'Instance',
+    GROUP: 'Group',
+    SECTION: 'Section'
+  };
+  return labels[node.type] ?? node.type;
+}
+
 /**
  * ノードがコンポーネントか判定
  */
@@ -129,6 +171,7 @@ export function isSemanticName(name: string): boolean {
     /^Group\s+\d+$/i,           // "Group 123"
     /^Rectangle\s+\d+$/i,       // "Rectangle 123"
     /^Component\s+\d+$/i,       // "Component 123"
+    /^Section\s+\d+$/i,         // "Section 123"
     /^(未|無|名|title)$/i       // デフォルト名
   ];
 
@@ -141,6 +184,13 @@ export function isSemanticName(name: string): boolean {
   return semanticPatterns.some(pattern => pattern.test(name));
 }
 
+/**
+ * Figmaが自動で付けたレイヤー名（"Frame 12" 等）のままか判定
+ */
+export function isDefaultLayerName(name: string): boolean {
+  return /^(Frame|Group|Rectangle|Component|Section|Instance|Ellipse|Vector|Line|Image)\s+\d+$/i.test(name.trim());
+}
+
 /**
  * 絶対配置が使われているか判定
  */
@@ -215,9 +265,9 @@ export function hasMinWidth(node: FigmaNode): boolean {
 /**
  * レイヤーが乱用されているか判定
  */
-export function hasLayerAbuse(node: FigmaNode): boolean {
+export function hasLayerAbuse(node: FigmaNode, maxLayers: number = 50): boolean {
   // 子要素が多すぎる場合
-  if (node.children && node.children.length > 50) {
+  if (node.children && node.children.length > maxLayers) {
     return true;
   }
 
@@ -227,39 +277,15 @@ export function hasLayerAbuse(node: FigmaNode): boolean {
   return false;
 }
 
-/**
- * コンポーネント化すべきパターンか判定
- */
-export function shouldBeComponent(node: FigmaNode, _context: RuleCheckContext): boolean {
-  // 既にコンポーネントの場合はfalse
-  if (isComponent(node)) {
-    return false;
-  }
-
-  // 同じ構造のノードが3つ以上ある場合
-  // TODO: 構造比較ロジック実装（contextを使用予定）
-
-  // ボタン、カード等の再利用パターン
-  const reusablePatterns = [
-    /button/i,
-    /btn/i,
-    /card/i,
-    /item/i,
-    /tag/i,
-    /badge/i,
-    /chip/i
-  ];
-
-  return reusablePatterns.some(pattern => pattern.test(node.name));
-}
-
 // =====================================
 // Export
 // =====================================
 
 export default {
   BaseRuleChecker,
+  DEFAULT_NODE_TYPES,
   isFrame,
+  getNodeLabel,
   isComponent,
   hasAutoLayout,
   isSemanticName,
@@ -268,6 +294,5 @@ export default {
   hasWrapEnabled,
   calculateDepth,
   hasMinWidth,
-  hasLayerAbuse,
-  shouldBeComponent
+  hasLayerAbuse
 };
\ No newline at end of file
@@ -7,13 +7,35 @@
 // =====================================
 
 import type { FigmaNode } from '../services/figmaApiService';
+import { RuleId } from '../types/rules';
 import type {
   RuleChecker,
   RuleCheckContext,
   RuleViolation,
-  AnalysisResultSummary
+  RuleProfile,
+  SuppressedViolation,
+  SuppressionEntry,
+  AnalysisResultSummary,
+  RuleDefinition,
+  RegisteredRuleDefinition,
+  CustomRuleLogic,
+  AnalyzeDocumentOptions
 } from '../types/rules';
+import path from 'path';
+import { Worker } from 'worker_threads';
 import logger from '../utils/logger';
+import { getRuleOverride, resolveRuleSetting } from './ruleProfile';
+import { CustomRuleChecker } from './customRules';
+import {
+  PluginRuleChecker,
+  discoverPluginModules,
+  loadPluginModule,
+  validatePluginDefinition
+} from './rulePlugins';
+import { SuppressionMatcher, summarizeSuppressions } from './suppression';
+import { buildNodeIndex, NodeIndex } from './nodeIndex';
+import { getNodePath, assignFingerprints } from './violationTracking';
+import { hashJson } from './incrementalAnalysis';
 
 // ルールのインポート
 import {
@@ -32,6 +54,61 @@ import {
   LayerAbuseRule
 } from './advancedRules';
 
+import { GroupAsLayoutRule } from './structureRules';
+import { SpacingOffScaleRule, RadiusOffScaleRule } from './spacingRules';
+import { ColorOffPaletteRule } from './colorRules';
+import { FontSizeOffScaleRule, LineHeightMissingRule } from './typographyRules';
+import {
+  TextContrastLowRule,
+  FontSizeTooSmallRule,
+  TouchTargetTooSmallRule
+} from './accessibilityRules';
+import {
+  BreakpointSectionMissingRule,
+  BreakpointOrderMismatchRule,
+  BreakpointTextMismatchRule
+} from './breakpointRules';
+import { calculateSpacingStats } from './spacingScale';
+import { calculateColorStats } from './colorAnalysis';
+import { calculateTypographyStats } from './typographyAnalysis';
+import { calculateBreakpointStats } from './breakpointVariants';
+import { calculateRepeatedStructureStats } from './repeatedStructures';
+import { DEFAULT_NODE_TYPES, FRAME_LIKE_TYPES } from './BaseRuleChecker';
+
+// =====================================
+// 型定義
+// =====================================
+
+/**
+ * ノード単位のチェック結果（streamNodeResultsの要素）
+ */
+export interface NodeCheckResult {
+  node: FigmaNode;
+  violations: RuleViolation[];
+  suppressed: SuppressedViolation[];
+}
+
+/**
+ * ワーカースレッドへの入力
+ */
+export interface RuleEngineWorkerData {
+  rootNode: FigmaNode;
+  projectId: string;
+  profile?: RuleProfile;
+  suppressions: SuppressionEntry[];
+  customRules: Array<{ definition: RuleDefinition; logic: CustomRuleLogic }>;
+  pluginDirectory?: string;
+  options: AnalyzeDocumentOptions;
+}
+
+/**
+ * ワーカースレッドからの応答
+ */
+export interface RuleEngineWorkerMessage {
+  summary?: AnalysisResultSummary;
+  error?: string;
+}
+
 // =====================================
 // Rule Engine
 // =====================================
@@ -42,6 +119,9 @@ import {
  */
 export class RuleEngine {
   private rules: RuleChecker[];
+  private customRules: CustomRuleChecker[] = [];
+  private pluginRules: PluginRuleChecker[] = [];
+  private pluginDirectory?: string;
 
   constructor() {
     // 全ルールを登録
@@ -58,7 +138,31 @@ export class RuleEngine {
       new HugFillViolationRule(),
       new MinWidthMissingRule(),
       new ComponentNotUsedRule(),
-      new LayerAbuseRule()
+      new LayerAbuseRule(),
+
+      // Structure Rules
+      new GroupAsLayoutRule(),
+
+      // Spacing Rules
+      new SpacingOffScaleRule(),
+      new RadiusOffScaleRule(),
+
+      // Color Rules
+      new ColorOffPaletteRule(),
+
+      // Typography Rules
+      new FontSizeOffScaleRule(),
+      new LineHeightMissingRule(),
+
+      // Accessibility Rules
+      new TextContrastLowRule(),
+      new FontSizeTooSmallRule(),
+      new TouchTargetTooSmallRule(),
+
+      // Breakpoint Rules
+      new BreakpointSectionMissingRule(),
+      new BreakpointOrderMismatchRule(),
+      new BreakpointTextMismatchRule()
     ];
 
     logger.info('ルールエンジン初期化完了', { rulesCount: this.rules.length });
@@ -69,55 +173,68 @@ export class RuleEngine {
    * 
    * @param rootNode - Figmaドキュメントのルートノード
    * @param projectId - プロジェクトID
+   * @param profile - プロジェクト別ルールプロファイル（未指定時は全ルールをデフォルト設定で実行）
+   * @param suppressions - 抑制レジストリのエントリ（レイヤーアノテーションは常に適用）
+   * @param options - 解析オプション（差分解析で省略するサブツリー）
    * @returns 解析結果サマリー
    */
-  analyzeDocument(rootNode: FigmaNode, projectId: string): AnalysisResultSummary {
+  analyzeDocument(
+    rootNode: FigmaNode,
+    projectId: string,
+    profile?: RuleProfile,
+    suppressions: SuppressionEntry[] = [],
+    options: AnalyzeDocumentOptions = {}
+  ): AnalysisResultSummary {
     logger.info('ドキュメント解析開始', { projectId, rootNodeId: rootNode.id });
 
-    // 全ノードを収集
-    const allNodes = this.collectAllNodes(rootNode);
-    const frameNodes = allNodes.filter(node => node.type === 'FRAME');
+    // 1回の走査で全ノード・親・深度のインデックスを構築
+    const index = buildNodeIndex(rootNode);
+    const totalFrames = this.countFrames(index.allNodes, profile);
 
     logger.info('ノード収集完了', {
-      totalNodes: allNodes.length,
-      frameNodes: frameNodes.length
+      totalNodes: index.allNodes.length,
+      frameNodes: totalFrames
     });
 
     // 全違反を収集
     const violations: RuleViolation[] = [];
+    const suppressedViolations: SuppressedViolation[] = [];
     let analyzedFrames = 0;
 
-    // 各Frameに対してルールチェック実行
-    for (const node of frameNodes) {
-      const context: RuleCheckContext = {
-        depth: this.calculateDepth(node, rootNode, allNodes),
-        parentNode: this.findParentNode(node, allNodes),
-        rootNode,
-        allNodes
-      };
+    for (const result of this.streamNodeResults(index, profile, suppressions, options)) {
+      violations.push(...result.violations);
+      suppressedViolations.push(...result.suppressed);
+
+      if (!FRAME_LIKE_TYPES.includes(result.node.type)) {
+        continue;
+      }
 
-      const nodeViolations = this.checkNode(node, context);
-      violations.push(...nodeViolations);
       analyzedFrames++;
 
       // 進捗ログ（100フレームごと）
       if (analyzedFrames % 100 === 0) {
-        logger.info(`解析進捗: ${analyzedFrames}/${frameNodes.length} frames`);
+        logger.info(`解析進捗: ${analyzedFrames}/${totalFrames} frames`);
       }
     }
 
     logger.info('ルールチェック完了', {
       analyzedFrames,
-      totalViolations: violations.length
+      totalViolations: violations.length,
+      suppressedViolations: suppressedViolations.length
     });
 
     // 統計情報を計算
-    const stats = this.calculateStats(allNodes);
+    const stats = this.calculateStats(index.allNodes);
+    const spacing = this.calculateSpacingStats(index.allNodes, profile);
+    const colors = this.calculateColorStats(index.allNodes, profile);
+    const typography = this.calculateTypographyStats(index.allNodes, profile);
+    const breakpoints = this.calculateBreakpointStats(index.allNodes, profile);
+    const repeatedStructures = this.calculateRepeatedStructureStats(index.allNodes, profile);
 
     // 結果サマリーを生成
     const summary: AnalysisResultSummary = {
       projectId,
-      totalFrames: frameNodes.length,
+      totalFrames,
       analyzedFrames,
       scoreResult: {
         figleanScore: 0,  // ScoreCalculatorで計算
@@ -125,6 +242,7 @@ export class RuleEngine {
         componentScore: 0,
         responsiveScore: 0,
         semanticScore: 0,
+        accessibilityScore: 0,
         violations: {
           critical: violations.filter(v => v.severity === 'CRITICAL').length,
           major: violations.filter(v => v.severity === 'MAJOR').length,
@@ -135,7 +253,14 @@ export class RuleEngine {
         canUseGrid: false
       },
       violations,
-      stats
+      suppressedViolations,
+      suppression: summarizeSuppressions(suppressedViolations),
+      stats,
+      spacing,
+      colors,
+      typography,
+      breakpoints,
+      repeatedStructures
     };
 
     logger.info('解析完了', {
@@ -147,21 +272,96 @@ export class RuleEngine {
     return summary;
   }
 
+  /**
+   * ノード単位でルールチェック結果を逐次生成
+   * 全違反を溜め込まずに処理したい呼び出し元（進捗通知・逐次保存等）向け
+   *
+   * @param index - ノードインデックス
+   * @param profile - ルールプロファイル
+   * @param suppressions - 抑制レジストリのエントリ
+   * @param options - 解析オプション
+   */
+  *streamNodeResults(
+    index: NodeIndex,
+    profile?: RuleProfile,
+    suppressions: SuppressionEntry[] = [],
+    options: AnalyzeDocumentOptions = {}
+  ): Generator<NodeCheckResult> {
+    // 有効なルールのいずれかが対象とするノードタイプのみチェック
+    const targetTypes = this.getTargetNodeTypes(profile);
+    const suppressionMatcher = new SuppressionMatcher(suppressions);
+    const getParent = index.getParent;
+
+    // 省略するサブツリー（allNodesは行きがけ順のため、親が省略対象なら子も省略対象）
+    const skipRootIds = new Set(options.skipSubtreeIds ?? []);
+    const skipped = new Set<FigmaNode>();
+
+    for (const node of index.allNodes) {
+      if (skipRootIds.size > 0) {
+        const parent = getParent(node);
+        if (skipRootIds.has(node.id) || (parent && skipped.has(parent))) {
+          skipped.add(node);
+          continue;
+        }
+      }
+
+      if (!targetTypes.has(node.type)) {
+        continue;
+      }
+
+      const context: RuleCheckContext = {
+        depth: index.getDepth(node),
+        parentNode: getParent(node),
+        rootNode: index.rootNode,
+        allNodes: index.allNodes,
+        getParent
+      };
+
+      const violations = this.checkNode(node, context, profile);
+
+      // 前回解析との比較用にフィンガープリントを付与（抑制対象の違反も含む）
+      const fingerprinted = violations.length > 0
+        ? assignFingerprints(violations, getNodePath(node, getParent))
+        : violations;
+
+      // 抑制対象の違反はスコア対象から除外し、件数のみ記録する
+      const { kept, suppressed } = suppressionMatcher.partition(node, fingerprinted);
+
+      yield { node, violations: kept, suppressed };
+    }
+  }
+
   /**
    * 単一ノードに対して全ルールチェック実行
    * 
    * @param node - チェック対象ノード
    * @param context - チェックコンテキスト
+   * @param profile - ルールプロファイル
    * @returns 違反配列
    */
-  private checkNode(node: FigmaNode, context: RuleCheckContext): RuleViolation[] {
+  private checkNode(
+    node: FigmaNode,
+    context: RuleCheckContext,
+    profile?: RuleProfile
+  ): RuleViolation[] {
     const violations: RuleViolation[] = [];
 
-    for (const rule of this.rules) {
+    for (const rule of this.getAllRules()) {
+      const override = getRuleOverride(profile, rule.getDefinition().id);
+
+      // プロファイルで無効化されたルールはスキップ
+      if (override?.enabled === false) {
+        continue;
+      }
+
       try {
-        const result = rule.check(node, context);
+        const result = rule.check(node, { ...context, params: override?.params });
         if (!result.passed) {
-          violations.push(...result.violations);
+          violations.push(
+            ...(override?.severity
+              ? result.violations.map(v => ({ ...v, severity: override.severity! }))
+              : result.violations)
+          );
         }
       } catch (error) {
         logger.error('ルールチェックエラー', {
@@ -177,67 +377,44 @@ export class RuleEngine {
   }
 
   /**
-   * 全ノードを再帰的に収集
-   * 
-   * @param node - 開始ノード
-   * @returns 全ノード配列
+   * 組み込みルールとカスタムルールをまとめて取得
    */
-  private collectAllNodes(node: FigmaNode): FigmaNode[] {
-    const nodes: FigmaNode[] = [node];
-
-    if (node.children && node.children.length > 0) {
-      for (const child of node.children) {
-        nodes.push(...this.collectAllNodes(child));
-      }
-    }
-
-    return nodes;
+  private getAllRules(): RuleChecker[] {
+    return [...this.rules, ...this.pluginRules, ...this.customRules];
   }
 
   /**
-   * ノードの階層深度を計算
-   * 
-   * @param node - 対象ノード
-   * @param rootNode - ルートノード
-   * @param allNodes - 全ノード配列
-   * @returns 階層深度
+   * チェック対象ノードタイプを取得
+   * 有効なルール（組み込み・カスタム）の対象ノードタイプの和集合
+   *
+   * @param profile - ルールプロファイル（無効化されたルールの対象は含めない）
    */
-  private calculateDepth(
-    node: FigmaNode,
-    rootNode: FigmaNode,
-    allNodes: FigmaNode[]
-  ): number {
-    let depth = 0;
-    let current: FigmaNode | undefined = node;
-
-    while (current && current.id !== rootNode.id) {
-      depth++;
-      current = this.findParentNode(current, allNodes);
-      
-      // 無限ループ防止
-      if (depth > 100) {
-        logger.warn('深度計算が100を超えました', { nodeId: node.id });
-        break;
+  private getTargetNodeTypes(profile?: RuleProfile): Set<string> {
+    const types = new Set<string>();
+
+    for (const rule of this.getAllRules()) {
+      const definition = rule.getDefinition();
+      if (getRuleOverride(profile, definition.id)?.enabled === false) {
+        continue;
       }
+      (definition.nodeTypes ?? DEFAULT_NODE_TYPES).forEach(type => types.add(type));
     }
 
-    return depth;
+    return types;
   }
 
   /**
-   * 親ノードを検索
-   * 
-   * @param node - 対象ノード
+   * スコアのフレーム正規化に使うフレーム数を計算
+   * 有効なルールの対象ノードタイプのうち、フレーム相当のもの（COMPONENT・INSTANCE・GROUP等を含む）を数える
+   *
    * @param allNodes - 全ノード配列
-   * @returns 親ノード（見つからない場合はundefined）
+   * @param profile - ルールプロファイル
    */
-  private findParentNode(node: FigmaNode, allNodes: FigmaNode[]): FigmaNode | undefined {
-    for (const candidate of allNodes) {
-      if (candidate.children && candidate.children.some(child => child.id === node.id)) {
-        return candidate;
-      }
-    }
-    return undefined;
+  private countFrames(allNodes: FigmaNode[], profile?: RuleProfile): number {
+    const targetTypes = this.getTargetNodeTypes(profile);
+    const frameTypes = new Set(FRAME_LIKE_TYPES.filter(type => targetTypes.has(type)));
+
+    return allNodes.reduce((count, node) => (frameTypes.has(node.type) ? count + 1 : count), 0);
   }
 
   /**
@@ -274,18 +451,320 @@ export class RuleEngine {
     };
   }
 
+  /**
+   * スペーシング・角丸のスケール適合統計を計算
+   * SPACING_OFF_SCALE / RADIUS_OFF_SCALE と同じスケール（プロファイル指定または学習値）を使用する
+   *
+   * @param allNodes - 全ノード配列
+   * @param profile - ルールプロファイル
+   */
+  private calculateSpacingStats(allNodes: FigmaNode[], profile?: RuleProfile) {
+    const spacingParams = this.getResolvedParams(RuleId.SPACING_OFF_SCALE, profile);
+    const radiusParams = this.getResolvedParams(RuleId.RADIUS_OFF_SCALE, profile);
+
+    return calculateSpacingStats(
+      allNodes,
+      spacingParams.scale as number[],
+      radiusParams.scale as number[],
+      radiusParams.allowFull as boolean
+    );
+  }
+
+  /**
+   * カラーパレット・近似色グループの統計を計算
+   * COLOR_OFF_PALETTE と同じパレット（プロファイル指定または学習値）と閾値を使用する
+   *
+   * @param allNodes - 全ノード配列
+   * @param profile - ルールプロファイル
+   */
+  private calculateColorStats(allNodes: FigmaNode[], profile?: RuleProfile) {
+    const params = this.getResolvedParams(RuleId.COLOR_OFF_PALETTE, profile);
+
+    return calculateColorStats(
+      allNodes,
+      params.threshold as number,
+      params.palette as string[]
+    );
+  }
+
+  /**
+   * タイプスケール・近似テキストスタイルの統計を計算
+   * FONT_SIZE_OFF_SCALE と同じタイプスケール（プロファイル指定または学習値）を使用する
+   *
+   * @param allNodes - 全ノード配列
+   * @param profile - ルールプロファイル
+   */
+  private calculateTypographyStats(allNodes: FigmaNode[], profile?: RuleProfile) {
+    const params = this.getResolvedParams(RuleId.FONT_SIZE_OFF_SCALE, profile);
+
+    return calculateTypographyStats(
+      allNodes,
+      params.scale as number[],
+      params.minUsage as number
+    );
+  }
+
+  /**
+   * ブレークポイントバリアントのグループ・差分件数の統計を計算
+   * BREAKPOINT_SECTION_MISSING と同じ対応付け・基準・許容セクションを使用する
+   *
+   * @param allNodes - 全ノード配列
+   * @param profile - ルールプロファイル
+   */
+  private calculateBreakpointStats(allNodes: FigmaNode[], profile?: RuleProfile) {
+    const params = this.getResolvedParams(RuleId.BREAKPOINT_SECTION_MISSING, profile);
+
+    return calculateBreakpointStats(
+      allNodes,
+      {
+        variantGroups: params.variantGroups as string[],
+        referenceBreakpoint: params.referenceBreakpoint as string,
+        maxDepth: params.maxDepth as number
+      },
+      params.optionalSections as string[]
+    );
+  }
+
+  /**
+   * コンポーネント化されていない繰り返し構造の統計を計算
+   * COMPONENT_NOT_USED と同じ最小出現数・最小レイヤー数を使用する
+   *
+   * @param allNodes - 全ノード配列
+   * @param profile - ルールプロファイル
+   */
+  private calculateRepeatedStructureStats(allNodes: FigmaNode[], profile?: RuleProfile) {
+    const params = this.getResolvedParams(RuleId.COMPONENT_NOT_USED, profile);
+
+    return calculateRepeatedStructureStats(allNodes, {
+      minOccurrences: params.minOccurrences as number,
+      minLayers: params.minLayers as number
+    });
+  }
+
+  /**
+   * 組み込みルールのプロファイル適用後パラメータを取得
+   */
+  private getResolvedParams(ruleId: RuleId, profile?: RuleProfile) {
+    const rule = this.rules.find(r => r.getDefinition().id === ruleId)!;
+    return resolveRuleSetting(rule.getDefinition(), profile).params;
+  }
+
   /**
    * 登録されているルール数を取得
    */
   getRulesCount(): number {
-    return this.rules.length;
+    return this.rules.length + this.pluginRules.length + this.customRules.length;
   }
 
   /**
-   * 登録されているすべてのルール定義を取得
+   * 登録されているすべてのルール定義を取得（プラグイン・カスタムルールを含む）
+   * 各定義には提供元（BUILT_IN / PLUGIN / CUSTOM）とプラグイン名を付与する
    */
-  getAllRuleDefinitions() {
-    return this.rules.map(rule => rule.getDefinition());
+  getAllRuleDefinitions(): RegisteredRuleDefinition[] {
+    return [
+      ...this.rules.map(rule => ({ ...rule.getDefinition(), source: 'BUILT_IN' as const })),
+      ...this.pluginRules.map(rule => ({
+        ...rule.getDefinition(),
+        source: 'PLUGIN' as const,
+        plugin: rule.plugin
+      })),
+      ...this.customRules.map(rule => ({ ...rule.getDefinition(), source: 'CUSTOM' as const }))
+    ];
+  }
+
+  /**
+   * プラグインディレクトリからルールを読み込み（既存のプラグインルールは置き換え）
+   * 定義が不正なもの、組み込みルール・他プラグインとIDが重複するものは登録しない
+   * 読み込みに失敗したモジュール・ルールはログに記録してスキップする
+   *
+   * @param directory - プラグインディレクトリ（未指定・空文字の場合はプラグインを無効化）
+   * @returns 登録されたプラグインルール数
+   */
+  loadPlugins(directory?: string): number {
+    this.pluginRules = [];
+    this.pluginDirectory = directory ? path.resolve(directory) : undefined;
+
+    if (!this.pluginDirectory) {
+      return 0;
+    }
+
+    const registeredIds = new Set(this.rules.map(rule => rule.getDefinition().id));
+    const accepted: PluginRuleChecker[] = [];
+
+    for (const file of discoverPluginModules(this.pluginDirectory)) {
+      const loaded = loadPluginModule(file);
+
+      for (const error of loaded.errors) {
+        logger.error('ルールプラグイン読み込みエラー', { plugin: loaded.plugin, file, error });
+      }
+
+      for (const rule of loaded.rules) {
+        let definition: RuleDefinition | undefined;
+        try {
+          definition = rule.getDefinition();
+        } catch (error) {
+          logger.error('プラグインルール定義取得エラー', {
+            plugin: loaded.plugin,
+            error: error instanceof Error ? error.message : String(error)
+          });
+          continue;
+        }
+
+        const errors = validatePluginDefinition(definition);
+        if (errors.length > 0) {
+          logger.warn('プラグインルール定義が不正なため登録をスキップ', {
+            plugin: loaded.plugin,
+            ruleId: definition?.id,
+            errors
+          });
+          continue;
+        }
+
+        if (registeredIds.has(definition!.id)) {
+          logger.warn('プラグインルールIDが重複しているため登録をスキップ', {
+            plugin: loaded.plugin,
+            ruleId: definition!.id
+          });
+          continue;
+        }
+
+        registeredIds.add(definition!.id);
+        accepted.push(new PluginRuleChecker(rule, loaded.plugin, definition!));
+      }
+    }
+
+    this.pluginRules = accepted;
+
+    // プラグインルールとIDが重複するカスタムルールは外す
+    if (this.customRules.length > 0) {
+      this.setCustomRules(this.customRules);
+    }
+
+    logger.info('ルールプラグイン読み込み完了', {
+      directory: this.pluginDirectory,
+      pluginRulesCount: accepted.length
+    });
+
+    return accepted.length;
+  }
+
+  /**
+   * カスタムルールを登録（既存のカスタムルールは置き換え）
+   * 組み込みルール・プラグインルールとIDが重複するものは登録しない
+   *
+   * @param rules - DB定義から生成したカスタムルール
+   * @returns 登録されたカスタムルール数
+   */
+  setCustomRules(rules: CustomRuleChecker[]): number {
+    const builtInIds = new Set(
+      [...this.rules, ...this.pluginRules].map(rule => rule.getDefinition().id)
+    );
+    const registeredIds = new Set<string>();
+    const accepted: CustomRuleChecker[] = [];
+
+    for (const rule of rules) {
+      const { id } = rule.getDefinition();
+
+      if (builtInIds.has(id) || registeredIds.has(id)) {
+        logger.warn('カスタムルールIDが重複しているため登録をスキップ', { ruleId: id });
+        continue;
+      }
+
+      registeredIds.add(id);
+      accepted.push(rule);
+    }
+
+    this.customRules = accepted;
+
+    logger.info('カスタムルール登録完了', { customRulesCount: accepted.length });
+
+    return accepted.length;
+  }
+
+  /**
+   * ルール構成のシグネチャを取得
+   * プロファイル適用後の設定・プラグイン・カスタムルールのロジックが同じであれば同じ値になる（差分解析の再利用判定に使用）
+   *
+   * @param profile - ルールプロファイル
+   */
+  getRuleSetSignature(profile?: RuleProfile): string {
+    return hashJson({
+      rules: this.getAllRuleDefinitions().map(definition => resolveRuleSetting(definition, profile)),
+      customLogic: this.customRules.map(rule => rule.getLogic())
+    });
+  }
+
+  /**
+   * プロファイル適用後の全ルール設定を取得
+   *
+   * @param profile - ルールプロファイル
+   */
+  getResolvedRuleSettings(profile?: RuleProfile) {
+    return this.getAllRules().map(rule => resolveRuleSetting(rule.getDefinition(), profile));
+  }
+
+  /**
+   * ワーカースレッドでドキュメントを解析
+   * CPU負荷の高い大規模ファイルでメインスレッド（APIリクエスト処理）をブロックしないために使用する
+   *
+   * @param rootNode - Figmaドキュメントのルートノード
+   * @param projectId - プロジェクトID
+   * @param profile - ルールプロファイル
+   * @param suppressions - 抑制レジストリのエントリ
+   * @param options - 解析オプション（差分解析で省略するサブツリー）
+   * @returns 解析結果サマリー
+   */
+  analyzeDocumentInWorker(
+    rootNode: FigmaNode,
+    projectId: string,
+    profile?: RuleProfile,
+    suppressions: SuppressionEntry[] = [],
+    options: AnalyzeDocumentOptions = {}
+  ): Promise<AnalysisResultSummary> {
+    const workerData: RuleEngineWorkerData = {
+      rootNode,
+      projectId,
+      profile,
+      suppressions,
+      customRules: this.customRules.map(rule => ({
+        definition: rule.getDefinition(),
+        logic: rule.getLogic()
+      })),
+      pluginDirectory: this.pluginDirectory,
+      options
+    };
+
+    // ts-nodeで実行中（開発環境）の場合はワーカーでもts-nodeを読み込む
+    const extension = path.extname(__filename);
+    const workerPath = path.join(__dirname, `ruleEngine.worker${extension}`);
+    const execArgv = extension === '.ts' ? ['-r', 'ts-node/register/transpile-only'] : [];
+
+    logger.info('ワーカースレッド解析開始', { projectId, workerPath });
+
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(workerPath, { workerData, execArgv });
+      let settled = false;
+
+      worker.once('message', (message: RuleEngineWorkerMessage) => {
+        settled = true;
+        if (message.error) {
+          reject(new Error(`ワーカースレッド解析エラー: ${message.error}`));
+        } else {
+          resolve(message.summary!);
+        }
+      });
+
+      worker.once('error', error => {
+        settled = true;
+        reject(error);
+      });
+
+      worker.once('exit', code => {
+        if (!settled) {
+          reject(new Error(`ワーカースレッドが異常終了しました（code: ${code}）`));
+        }
+      });
+    });
   }
 }
 
@@ -3,7 +3,8 @@
 // スコア計算エンジン - FIGLEAN Phase 6.5
 // 作成日時: 2026年1月11日
 // 更新日時: 2026年1月19日 - HTML生成条件を60点以上に変更
-// 依存関係: types/rules
+// 更新日時: 2026年10月19日 - 減点・重み・閾値をスコアリングプロファイルで切り替え
+// 依存関係: types/rules, ruleProfile, scoringProfile
 // 説明: 違反情報からFIGLEAN適合度スコアを計算
 // =====================================
 
@@ -11,10 +12,17 @@ import type {
   RuleViolation,
   ScoreResult,
   CategoryScore,
-  AnalysisResultSummary
+  RuleProfile,
+  ScoringProfile,
+  AnalysisResultSummary,
+  ScoreExplanation,
+  PenaltyContribution,
+  ThresholdPlan
 } from '../types/rules';
 import { RuleCategory, Severity } from '../types/rules';
 import logger from '../utils/logger';
+import { applyRuleProfile } from './ruleProfile';
+import { getScoringProfile } from './scoringProfile';
 
 // =====================================
 // Score Calculator
@@ -24,23 +32,6 @@ import logger from '../utils/logger';
  * スコア計算エンジン
  */
 export class ScoreCalculator {
-  // 重要度ごとの減点
-  private static readonly SEVERITY_PENALTY = {
-    [Severity.CRITICAL]: 10,  // 致命的: -10点
-    [Severity.MAJOR]: 5,      // 重大: -5点
-    [Severity.MINOR]: 2,      // 軽微: -2点
-    [Severity.INFO]: 0        // 情報: 減点なし
-  };
-
-  // カテゴリごとの重み付け
-  private static readonly CATEGORY_WEIGHT = {
-    [RuleCategory.LAYOUT]: 0.30,      // 30%
-    [RuleCategory.SIZE]: 0.20,        // 20%
-    [RuleCategory.RESPONSIVE]: 0.25,  // 25%
-    [RuleCategory.SEMANTIC]: 0.10,    // 10%
-    [RuleCategory.COMPONENT]: 0.15    // 15%
-  };
-
   // 最大スコア（100点）
   private static readonly MAX_SCORE = 100;
 
@@ -48,42 +39,57 @@ export class ScoreCalculator {
    * 解析結果サマリーにスコアを計算して付与
    * 
    * @param summary - 解析結果サマリー
+   * @param profile - ルールプロファイル（無効化ルールの除外・重要度上書きに使用）
+   * @param scoringProfile - スコアリングプロファイル（未指定時は標準プロファイル）
    * @returns スコア計算済みサマリー
    */
-  calculateScores(summary: AnalysisResultSummary): AnalysisResultSummary {
+  calculateScores(
+    summary: AnalysisResultSummary,
+    profile?: RuleProfile,
+    scoringProfile: ScoringProfile = getScoringProfile()
+  ): AnalysisResultSummary {
     logger.info('スコア計算開始', {
       projectId: summary.projectId,
-      violationsCount: summary.violations.length
+      violationsCount: summary.violations.length,
+      scoringProfile: scoringProfile.name
     });
 
+    // プロファイルを適用（無効化ルールの違反を除外、重要度を上書き）
+    const violations = applyRuleProfile(summary.violations, profile);
+
     // カテゴリ別スコアを計算
     const categoryScores = this.calculateCategoryScores(
-      summary.violations,
-      summary.totalFrames
+      violations,
+      summary.totalFrames,
+      scoringProfile
     );
 
     // 総合スコアを計算
     const figleanScore = this.calculateOverallScore(categoryScores);
 
-    // HTML生成可否を判定
-    // 🔄 変更: 90 → 60（テスト用に緩和）
-    const canGenerateHTML = figleanScore >= 60;
-    const canUseGrid = figleanScore === 100;
+    // HTML・Grid生成可否を判定
+    const canGenerateHTML = figleanScore >= scoringProfile.thresholds.canGenerateHTML;
+    const canUseGrid = figleanScore >= scoringProfile.thresholds.canUseGrid;
 
     // スコア結果を構築
     const scoreResult: ScoreResult = {
       figleanScore,
-      layoutScore: categoryScores.find(c => c.category === RuleCategory.LAYOUT)?.score || 100,
-      componentScore: categoryScores.find(c => c.category === RuleCategory.COMPONENT)?.score || 100,
-      responsiveScore: categoryScores.find(c => c.category === RuleCategory.RESPONSIVE)?.score || 100,
-      semanticScore: categoryScores.find(c => c.category === RuleCategory.SEMANTIC)?.score || 100,
-      violations: summary.scoreResult.violations,  // 既に計算済み
+      layoutScore: categoryScores.find(c => c.category === RuleCategory.LAYOUT)?.score ?? 100,
+      componentScore: categoryScores.find(c => c.category === RuleCategory.COMPONENT)?.score ?? 100,
+      responsiveScore: categoryScores.find(c => c.category === RuleCategory.RESPONSIVE)?.score ?? 100,
+      semanticScore: categoryScores.find(c => c.category === RuleCategory.SEMANTIC)?.score ?? 100,
+      accessibilityScore: categoryScores.find(c => c.category === RuleCategory.ACCESSIBILITY)?.score ?? 100,
+      violations: profile
+        ? this.countBySeverity(violations)
+        : summary.scoreResult.violations,  // 既に計算済み
       canGenerateHTML,
-      canUseGrid
+      canUseGrid,
+      scoringProfile: scoringProfile.name
     };
 
     logger.info('スコア計算完了', {
       projectId: summary.projectId,
+      scoringProfile: scoringProfile.name,
       figleanScore,
       canGenerateHTML,
       canUseGrid
@@ -92,21 +98,40 @@ export class ScoreCalculator {
     // サマリーを更新して返す
     return {
       ...summary,
+      violations,
       scoreResult
     };
   }
 
+  /**
+   * 重要度別に違反数を集計
+   *
+   * @param violations - 違反配列
+   * @returns 重要度別違反数
+   */
+  private countBySeverity(violations: RuleViolation[]): ScoreResult['violations'] {
+    return {
+      critical: violations.filter(v => v.severity === Severity.CRITICAL).length,
+      major: violations.filter(v => v.severity === Severity.MAJOR).length,
+      minor: violations.filter(v => v.severity === Severity.MINOR).length,
+      info: violations.filter(v => v.severity === Severity.INFO).length
+    };
+  }
+
   /**
    * カテゴリ別スコアを計算
    * 
    * @param violations - 違反配列
    * @param totalFrames - 総Frame数
+   * @param scoringProfile - スコアリングプロファイル
    * @returns カテゴリ別スコア配列
    */
   private calculateCategoryScores(
     violations: RuleViolation[],
-    totalFrames: number
+    totalFrames: number,
+    scoringProfile: ScoringProfile
   ): CategoryScore[] {
+    const { severityPenalty, categoryWeight } = scoringProfile;
     const categories = Object.values(RuleCategory);
     const categoryScores: CategoryScore[] = [];
 
@@ -116,29 +141,48 @@ export class ScoreCalculator {
 
       // 減点を計算
       const totalPenalty = categoryViolations.reduce((sum, violation) => {
-        return sum + ScoreCalculator.SEVERITY_PENALTY[violation.severity];
+        return sum + (severityPenalty[violation.severity] ?? 0);
       }, 0);
 
       // スコアを計算（100点満点から減点）
-      // Frame数で正規化（違反が多くてもFrameが多ければ相対的に影響は少ない）
-      const normalizedPenalty = totalFrames > 0 
-        ? (totalPenalty / totalFrames) * 10  // 10倍してスケール調整
-        : totalPenalty;
-
-      const score = Math.max(0, ScoreCalculator.MAX_SCORE - normalizedPenalty);
+      const normalizedPenalty = this.normalizePenalty(totalPenalty, totalFrames, scoringProfile);
 
       categoryScores.push({
         category,
-        score: Math.round(score),
+        score: this.penaltyToScore(normalizedPenalty),
         maxScore: ScoreCalculator.MAX_SCORE,
         violations: categoryViolations.length,
-        weight: ScoreCalculator.CATEGORY_WEIGHT[category]
+        weight: categoryWeight[category] ?? 0,
+        penalty: totalPenalty,
+        normalizedPenalty: Math.round(normalizedPenalty * 100) / 100
       });
     }
 
     return categoryScores;
   }
 
+  /**
+   * 減点をFrame数で正規化（違反が多くてもFrameが多ければ相対的に影響は少ない）
+   */
+  private normalizePenalty(
+    totalPenalty: number,
+    totalFrames: number,
+    scoringProfile: ScoringProfile
+  ): number {
+    const { frameNormalization } = scoringProfile;
+
+    return frameNormalization.enabled && totalFrames > 0
+      ? (totalPenalty / totalFrames) * frameNormalization.scale
+      : totalPenalty;
+  }
+
+  /**
+   * 正規化済みの減点からカテゴリスコアを算出（0点下限）
+   */
+  private penaltyToScore(normalizedPenalty: number): number {
+    return Math.round(Math.max(0, ScoreCalculator.MAX_SCORE - normalizedPenalty));
+  }
+
   /**
    * 総合スコアを計算（加重平均）
    * 
@@ -162,6 +206,223 @@ export class ScoreCalculator {
     return Math.round(overallScore);
   }
 
+  // =====================================
+  // Explanation
+  // =====================================
+
+  /**
+   * スコアの内訳を説明
+   * カテゴリ別の重み、ルール別・Frame別の減点、HTML生成・Grid生成の閾値を超えるための最小修正セットを返す
+   *
+   * @param violations - スコア対象の違反（ルールプロファイル適用済み）
+   * @param totalFrames - 総Frame数
+   * @param scoringProfile - スコアリングプロファイル
+   * @returns スコアの説明
+   */
+  explainScores(
+    violations: RuleViolation[],
+    totalFrames: number,
+    scoringProfile: ScoringProfile = getScoringProfile()
+  ): ScoreExplanation {
+    const categoryScores = this.calculateCategoryScores(violations, totalFrames, scoringProfile);
+    const figleanScore = this.calculateOverallScore(categoryScores);
+    const totalWeight = categoryScores.reduce((sum, c) => sum + c.weight, 0);
+    const weightShare = (category: string) =>
+      totalWeight > 0 ? (scoringProfile.categoryWeight[category as RuleCategory] ?? 0) / totalWeight : 0;
+
+    // 1件の違反が総合スコアに与える減点（0点下限・丸めを考慮しない概算）
+    const weightedPenalty = (violation: RuleViolation) =>
+      this.normalizePenalty(
+        scoringProfile.severityPenalty[violation.severity] ?? 0,
+        totalFrames,
+        scoringProfile
+      ) * weightShare(violation.category);
+
+    const thresholds = [
+      this.planThreshold('HTML_GENERATION', scoringProfile.thresholds.canGenerateHTML, figleanScore, violations, totalFrames, scoringProfile),
+      this.planThreshold('GRID', scoringProfile.thresholds.canUseGrid, figleanScore, violations, totalFrames, scoringProfile)
+    ];
+
+    return {
+      figleanScore,
+      scoringProfile: scoringProfile.name,
+      totalFrames,
+      frameNormalization: scoringProfile.frameNormalization,
+      categories: categoryScores.map(c => ({
+        ...c,
+        weightShare: Math.round(weightShare(c.category) * 1000) / 1000,
+        scoreLoss: Math.round((c.maxScore - c.score) * weightShare(c.category) * 100) / 100
+      })),
+      rules: this.summarizeContributions(
+        violations,
+        v => String(v.ruleId),
+        v => v.ruleName,
+        scoringProfile,
+        weightedPenalty
+      ),
+      frames: this.summarizeContributions(
+        violations,
+        v => v.frameId,
+        v => v.frameName,
+        scoringProfile,
+        weightedPenalty
+      ),
+      thresholds,
+      nextThreshold: thresholds.find(t => !t.reached) ?? null
+    };
+  }
+
+  /**
+   * 違反をキーごとに集計し、減点の大きい順に並べる
+   */
+  private summarizeContributions(
+    violations: RuleViolation[],
+    getKey: (violation: RuleViolation) => string,
+    getName: (violation: RuleViolation) => string,
+    scoringProfile: ScoringProfile,
+    weightedPenalty: (violation: RuleViolation) => number
+  ): PenaltyContribution[] {
+    const contributions = new Map<string, PenaltyContribution>();
+
+    for (const violation of violations) {
+      const key = getKey(violation);
+      const contribution = contributions.get(key) ?? {
+        key,
+        name: getName(violation),
+        violations: 0,
+        penalty: 0,
+        weightedPenalty: 0
+      };
+
+      contribution.violations++;
+      contribution.penalty += scoringProfile.severityPenalty[violation.severity] ?? 0;
+      contribution.weightedPenalty += weightedPenalty(violation);
+      contributions.set(key, contribution);
+    }
+
+    return [...contributions.values()]
+      .map(c => ({ ...c, weightedPenalty: Math.round(c.weightedPenalty * 100) / 100 }))
+      .sort((a, b) => b.weightedPenalty - a.weightedPenalty || b.penalty - a.penalty);
+  }
+
+  /**
+   * 閾値を超えるための最小修正セットを求める
+   * カテゴリ内では減点の大きい違反から直すのが最善なため、カテゴリごとの修正件数の組み合わせを
+   * 動的計画法で探索し、総合スコア（丸め後）が閾値以上になる最小件数を求める
+   */
+  private planThreshold(
+    target: ThresholdPlan['target'],
+    threshold: number,
+    currentScore: number,
+    violations: RuleViolation[],
+    totalFrames: number,
+    scoringProfile: ScoringProfile
+  ): ThresholdPlan {
+    const plan = {
+      target,
+      threshold,
+      pointsNeeded: Math.max(0, threshold - currentScore)
+    };
+
+    if (currentScore >= threshold) {
+      return { ...plan, reached: true, achievable: true, projectedScore: currentScore, fixes: [] };
+    }
+
+    const { severityPenalty, categoryWeight } = scoringProfile;
+    const penaltyOf = (v: RuleViolation) => severityPenalty[v.severity] ?? 0;
+    const totalWeight = Object.values(RuleCategory).reduce((sum, c) => sum + (categoryWeight[c] ?? 0), 0);
+
+    // 重み付きスコア合計がこの値以上なら、丸め後の総合スコアが閾値に届く
+    const requiredSum = (threshold - 0.5) * totalWeight - 1e-9;
+
+    let fixedSum = 0;
+    let best = [0];
+    const choices: Array<{ candidates: RuleViolation[]; choice: number[] }> = [];
+
+    for (const category of Object.values(RuleCategory)) {
+      const weight = categoryWeight[category] ?? 0;
+      const inCategory = violations.filter(v => v.category === category);
+      const totalPenalty = inCategory.reduce((sum, v) => sum + penaltyOf(v), 0);
+      const scoreAfter = (removed: number) =>
+        this.penaltyToScore(this.normalizePenalty(totalPenalty - removed, totalFrames, scoringProfile)) * weight;
+
+      const sorted = inCategory.filter(v => penaltyOf(v) > 0).sort((a, b) => penaltyOf(b) - penaltyOf(a));
+
+      if (weight <= 0 || sorted.length === 0) {
+        fixedSum += scoreAfter(0);
+        continue;
+      }
+
+      // k件直した場合の重み付きスコア（100点に達した以降は増えないため打ち切る）
+      const gains = [scoreAfter(0)];
+      let removed = 0;
+      for (const violation of sorted) {
+        if (gains[gains.length - 1] >= ScoreCalculator.MAX_SCORE * weight) {
+          break;
+        }
+        removed += penaltyOf(violation);
+        gains.push(scoreAfter(removed));
+      }
+
+      const next = new Array<number>(best.length + gains.length - 1).fill(-Infinity);
+      const choice = new Array<number>(next.length).fill(0);
+
+      for (let total = 0; total < next.length; total++) {
+        for (let k = Math.max(0, total - best.length + 1); k < gains.length && k <= total; k++) {
+          const value = best[total - k] + gains[k];
+          if (value > next[total]) {
+            next[total] = value;
+            choice[total] = k;
+          }
+        }
+      }
+
+      best = next;
+      choices.push({ candidates: sorted, choice });
+    }
+
+    let count = best.findIndex(value => value + fixedSum >= requiredSum);
+    const achievable = count !== -1;
+    if (!achievable) {
+      count = best.length - 1;
+    }
+
+    // 選択したカテゴリごとの修正件数を復元
+    const fixed: RuleViolation[] = [];
+    for (let i = choices.length - 1; i >= 0; i--) {
+      const k = choices[i].choice[count];
+      fixed.push(...choices[i].candidates.slice(0, k));
+      count -= k;
+    }
+
+    // 実際のスコア計算で修正後のスコアを確認
+    fixed.sort((a, b) => penaltyOf(b) - penaltyOf(a));
+    const fixedSet = new Set(fixed);
+    const projectedScore = this.calculateOverallScore(
+      this.calculateCategoryScores(
+        violations.filter(v => !fixedSet.has(v)),
+        totalFrames,
+        scoringProfile
+      )
+    );
+
+    return {
+      ...plan,
+      reached: false,
+      achievable,
+      projectedScore,
+      fixes: fixed.map(v => ({
+        ruleId: String(v.ruleId),
+        ruleName: v.ruleName,
+        category: v.category,
+        severity: v.severity,
+        frameId: v.frameId,
+        frameName: v.frameName,
+        ...(v.fingerprint && { fingerprint: v.fingerprint })
+      }))
+    };
+  }
+
   /**
    * スコアレベルを文字列で取得
    * 
@@ -0,0 +1,273 @@
+// =====================================
+// backend/src/rules/accessibilityRules.ts
+// アクセシビリティルール実装 17-19 - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: BaseRuleChecker, colorAnalysis, typographyAnalysis, html/semanticMapper, types/rules
+// 説明: WCAGに基づくコントラスト比・最小フォントサイズ・タッチターゲットサイズのルールの実装
+// =====================================
+
+import { BaseRuleChecker, getNodeLabel } from './BaseRuleChecker';
+import { toHex, compositeOver, contrastRatio } from './colorAnalysis';
+import { getTextStyle } from './typographyAnalysis';
+import { getSemanticMapper } from '../services/html/semanticMapper';
+import type { RuleCheckResult, RuleCheckContext, TextStyleSignature } from '../types/rules';
+import type { FigmaNode, FigmaPaint } from '../services/figmaApiService';
+import { RuleId, RuleCategory, Severity } from '../types/rules';
+
+// =====================================
+// 設定
+// =====================================
+
+// 祖先に塗りが無い場合の背景色（Figmaキャンバス上のページ背景を白とみなす）
+const DEFAULT_BACKGROUND = '#FFFFFF';
+
+// WCAGの大きいテキスト（18pt以上、または14pt以上の太字）
+const LARGE_TEXT_SIZE = 24;
+const LARGE_BOLD_TEXT_SIZE = 18.66;
+const BOLD_WEIGHT = 700;
+
+// リンクとみなすレイヤー名（"Links" や "LinkedIn-icon" のように続く語があるものは除外）
+const LINK_NAME = /^(link|\u30ea\u30f3\u30af|anchor)(?=$|[\s_\-\/:.(])/i;
+
+// =====================================
+// Rule 17: TEXT_CONTRAST_LOW
+// =====================================
+
+/**
+ * テキストコントラストルール
+ * MAJOR: WCAG 2.1 AA（1.4.3）のコントラスト比を満たさないテキストは読み取れない利用者がいる
+ */
+export class TextContrastLowRule extends BaseRuleChecker {
+  constructor() {
+    super({
+      id: RuleId.TEXT_CONTRAST_LOW,
+      name: 'テキストコントラスト',
+      category: RuleCategory.ACCESSIBILITY,
+      severity: Severity.MAJOR,
+      description: 'テキストと背景のコントラスト比はWCAG AA基準（通常4.5:1、大きいテキスト3:1）以上にしてください',
+      impactTemplate: 'コントラスト不足のテキストはロービジョンの利用者や屋外の画面で読み取れません',
+      scoreImpact: 5,
+      nodeTypes: ['TEXT'],
+      defaultParams: {
+        minRatio: 4.5,          // 通常テキストの最小コントラスト比
+        largeTextMinRatio: 3    // 大きいテキスト（24px以上、または18.66px以上の太字）の最小コントラスト比
+      }
+    });
+  }
+
+  check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
+    // 対象ノードタイプのみチェック
+    if (!this.appliesTo(node)) {
+      return this.passed();
+    }
+
+    const style = getTextStyle(node);
+    const textPaints = getVisiblePaints(node.fills);
+    if (!style || textPaints.length === 0 || textPaints[0].type !== 'SOLID') {
+      return this.passed();
+    }
+
+    // 画像・グラデーション背景などで背景色を特定できない場合は判定しない
+    const background = resolveBackground(node, context);
+    if (!background) {
+      return this.passed();
+    }
+
+    const foreground = compositeOver(toHex(textPaints[0].color!, textPaints[0].opacity), background);
+    const ratio = contrastRatio(foreground, background);
+    const required = isLargeText(style)
+      ? this.getParam<number>(context, 'largeTextMinRatio')
+      : this.getParam<number>(context, 'minRatio');
+
+    if (ratio >= required) {
+      return this.passed();
+    }
+
+    const violation = this.createViolation(
+      node,
+      `${getNodeLabel(node)} "${node.name}" のコントラスト比が不足しています（${foreground} / 背景 ${background}: ${ratio}:1）`,
+      `WCAG AA（${isLargeText(style) ? '大きいテキスト' : '通常テキスト'}）の基準 ${required}:1 を満たしていません`,
+      `文字色または背景色を調整し、コントラスト比を ${required}:1 以上にしてください`,
+      `${ratio}:1`,
+      `${required}:1以上`
+    );
+    return this.failed(violation);
+  }
+}
+
+// =====================================
+// Rule 18: FONT_SIZE_TOO_SMALL
+// =====================================
+
+/**
+ * 最小フォントサイズルール
+ * MINOR: 小さすぎる本文テキストは拡大しないと読めない
+ */
+export class FontSizeTooSmallRule extends BaseRuleChecker {
+  constructor() {
+    super({
+      id: RuleId.FONT_SIZE_TOO_SMALL,
+      name: '最小フォントサイズ',
+      category: RuleCategory.ACCESSIBILITY,
+      severity: Severity.MINOR,
+      description: '本文テキストは最小フォントサイズ以上にしてください',
+      impactTemplate: '小さすぎるテキストは高齢の利用者やモバイル端末で読み取りにくくなります',
+      scoreImpact: 2,
+      nodeTypes: ['TEXT'],
+      defaultParams: {
+        minFontSize: 12  // 本文テキストの最小フォントサイズ（px）
+      }
+    });
+  }
+
+  check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
+    // 対象ノードタイプのみチェック
+    if (!this.appliesTo(node)) {
+      return this.passed();
+    }
+
+    const style = getTextStyle(node);
+    const minFontSize = this.getParam<number>(context, 'minFontSize');
+
+    if (!style || style.fontSize >= minFontSize) {
+      return this.passed();
+    }
+
+    const violation = this.createViolation(
+      node,
+      `${getNodeLabel(node)} "${node.name}" のフォントサイズ ${style.fontSize}px が最小サイズ ${minFontSize}px 未満です`,
+      '本文として読むには小さすぎ、ブラウザの拡大表示に頼ることになります',
+      `フォントサイズを ${minFontSize}px 以上にしてください`,
+      `${style.fontSize}px`,
+      `${minFontSize}px以上`
+    );
+    return this.failed(violation);
+  }
+}
+
+// =====================================
+// Rule 19: TOUCH_TARGET_TOO_SMALL
+// =====================================
+
+/**
+ * タッチターゲットサイズルール
+ * MAJOR: ボタン・リンクが44×44px未満だとタップしにくい（WCAG 2.5.5）
+ */
+export class TouchTargetTooSmallRule extends BaseRuleChecker {
+  constructor() {
+    super({
+      id: RuleId.TOUCH_TARGET_TOO_SMALL,
+      name: 'タッチターゲットサイズ',
+      category: RuleCategory.ACCESSIBILITY,
+      severity: Severity.MAJOR,
+      description: 'ボタン・リンクは44×44px以上のタッチターゲットにしてください',
+      impactTemplate: '小さいタッチターゲットは誤タップを招き、運動機能に障害のある利用者が操作できません',
+      scoreImpact: 4,
+      nodeTypes: ['FRAME', 'COMPONENT', 'INSTANCE'],
+      defaultParams: {
+        minSize: 44  // 最小タッチターゲットサイズ（px、幅・高さとも）
+      }
+    });
+  }
+
+  check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
+    // 対象ノードタイプのみチェック
+    if (!this.appliesTo(node)) {
+      return this.passed();
+    }
+
+    // HTML生成時にbuttonとして出力される名前と、リンクの名前のみ対象
+    const box = node.absoluteBoundingBox;
+    if (!box || node.visible === false || !isInteractiveName(node.name)) {
+      return this.passed();
+    }
+
+    const minSize = this.getParam<number>(context, 'minSize');
+    if (box.width >= minSize && box.height >= minSize) {
+      return this.passed();
+    }
+
+    const size = `${Math.round(box.width)}×${Math.round(box.height)}px`;
+
+    const violation = this.createViolation(
+      node,
+      `${getNodeLabel(node)} "${node.name}" のタッチターゲットが小さすぎます（${size}）`,
+      'モバイル端末でタップしにくく、隣接する要素の誤操作につながります',
+      `Paddingまたは最小幅・最小高さを設定し、${minSize}×${minSize}px以上にしてください`,
+      size,
+      `${minSize}×${minSize}px以上`
+    );
+    return this.failed(violation);
+  }
+}
+
+// =====================================
+// Helpers
+// =====================================
+
+/**
+ * インタラクティブ要素（ボタン・リンク）のレイヤー名か
+ */
+function isInteractiveName(name: string): boolean {
+  return getSemanticMapper().mapToHTMLTag(name) === 'button' || LINK_NAME.test(name.trim());
+}
+
+/**
+ * 表示中の塗りを上から順に取得（Figmaの配列は下から順）
+ */
+function getVisiblePaints(paints: FigmaPaint[] | undefined): FigmaPaint[] {
+  return (paints ?? []).filter(paint => paint.visible !== false).reverse();
+}
+
+/**
+ * テキストの背景色を解決
+ * 最も近い祖先から順にSOLIDの塗りを重ね、不透明な塗りに達した時点で合成する
+ *
+ * @returns 不透明な背景色（画像・グラデーション等で特定できない場合はnull）
+ */
+function resolveBackground(node: FigmaNode, context: RuleCheckContext): string | null {
+  const layers: string[] = [];  // 上から順
+  const composite = () =>
+    layers.reduceRight((background, layer) => compositeOver(layer, background), DEFAULT_BACKGROUND);
+
+  let current = context.getParent ? context.getParent(node) : context.parentNode;
+
+  while (current) {
+    for (const paint of getVisiblePaints(current.fills)) {
+      if (paint.type !== 'SOLID' || !paint.color) {
+        return null;
+      }
+
+      const color = toHex(paint.color, paint.opacity);
+      layers.push(color);
+
+      // 不透明（#RRGGBB）な塗りより下は見えない
+      if (color.length === 7) {
+        return composite();
+      }
+    }
+    current = context.getParent?.(current);
+  }
+
+  return composite();
+}
+
+/**
+ * WCAGの「大きいテキスト」か判定
+ */
+function isLargeText(style: TextStyleSignature): boolean {
+  return (
+    style.fontSize >= LARGE_TEXT_SIZE ||
+    (style.fontSize >= LARGE_BOLD_TEXT_SIZE && style.fontWeight >= BOLD_WEIGHT)
+  );
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  TextContrastLowRule,
+  FontSizeTooSmallRule,
+  TouchTargetTooSmallRule
+};
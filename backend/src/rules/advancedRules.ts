@@ -2,10 +2,12 @@
 // backend/src/rules/advancedRules.ts
 // アドバンスドルール実装 6-10 - FIGLEAN Phase 6.4
 // 作成日時: 2026年1月11日
+// 更新日時: 2026年10月19日 - COMPONENT_NOT_USED を名前ではなく構造の繰り返しで判定
 // 説明: 応用的な5ルールの実装
 // =====================================
 
-import { BaseRuleChecker, hasAutoLayout, hasMinWidth, hasLayerAbuse, shouldBeComponent, isComponent } from './BaseRuleChecker';
+import { BaseRuleChecker, getNodeLabel, hasAutoLayout, hasMinWidth, hasLayerAbuse } from './BaseRuleChecker';
+import { getRepeatedStructureGroup, REPEATED_STRUCTURE_ROOT_TYPES } from './repeatedStructures';
 import type { RuleCheckResult, RuleCheckContext } from '../types/rules';
 import type { FigmaNode } from '../services/figmaApiService';
 import { RuleId, RuleCategory, Severity } from '../types/rules';
@@ -19,35 +21,38 @@ import { RuleId, RuleCategory, Severity } from '../types/rules';
  * MAJOR: 深すぎる階層はパフォーマンスとメンテナンス性を悪化させる
  */
 export class DepthTooDeepRule extends BaseRuleChecker {
-  private static readonly MAX_DEPTH = 8;  // 最大階層深度
-
   constructor() {
     super({
       id: RuleId.DEPTH_TOO_DEEP,
       name: '階層深度制限',
       category: RuleCategory.LAYOUT,
       severity: Severity.MAJOR,
-      description: 'Frame階層は8階層以内に抑えてください',
+      description: 'レイヤー階層は8階層以内に抑えてください',
       impactTemplate: '深すぎる階層はHTML/CSSのパフォーマンスを悪化させます',
-      scoreImpact: 5
+      scoreImpact: 5,
+      nodeTypes: ['FRAME', 'COMPONENT', 'INSTANCE', 'GROUP'],
+      defaultParams: {
+        maxDepth: 8  // 最大階層深度
+      }
     });
   }
 
   check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
-    // FRAMEタイプのみチェック
-    if (node.type !== 'FRAME') {
+    // 対象ノードタイプのみチェック
+    if (!this.appliesTo(node)) {
       return this.passed();
     }
 
     // 現在の深度が最大を超えているかチェック
-    if (context.depth > DepthTooDeepRule.MAX_DEPTH) {
+    const maxDepth = this.getParam<number>(context, 'maxDepth');
+    if (context.depth > maxDepth) {
       const violation = this.createViolation(
         node,
-        `Frame "${node.name}" の階層が深すぎます（現在: ${context.depth}階層）`,
+        `${getNodeLabel(node)} "${node.name}" の階層が深すぎます（現在: ${context.depth}階層）`,
         'HTML/CSSのレンダリングパフォーマンスが低下し、メンテナンスが困難になります',
         'フラットな構造に再設計するか、コンポーネント化して階層を整理してください',
         `${context.depth}階層`,
-        `${DepthTooDeepRule.MAX_DEPTH}階層以内`
+        `${maxDepth}階層以内`
       );
       return this.failed(violation);
     }
@@ -73,13 +78,17 @@ export class HugFillViolationRule extends BaseRuleChecker {
       severity: Severity.MAJOR,
       description: 'Hug ContentsとFill Containerを適切に使い分けてください',
       impactTemplate: '不適切なサイズ設定はレイアウト崩れの原因になります',
-      scoreImpact: 5
+      scoreImpact: 5,
+      nodeTypes: ['FRAME', 'COMPONENT', 'INSTANCE'],
+      defaultParams: {
+        maxHugChildren: 3  // Hug Contentsを許容する最大子要素数
+      }
     });
   }
 
   check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
-    // FRAMEタイプでAuto Layout有りのみチェック
-    if (node.type !== 'FRAME' || !hasAutoLayout(node)) {
+    // 対象ノードタイプでAuto Layout有りのみチェック
+    if (!this.appliesTo(node) || !hasAutoLayout(node)) {
       return this.passed();
     }
 
@@ -95,10 +104,11 @@ export class HugFillViolationRule extends BaseRuleChecker {
     const isHug = node.primaryAxisSizingMode === 'AUTO';
     
     // 子要素がある場合、Hugは推奨されない
-    if (hasChildren && isHug && node.children!.length > 3) {
+    const maxHugChildren = this.getParam<number>(context, 'maxHugChildren');
+    if (hasChildren && isHug && node.children!.length > maxHugChildren) {
       const violation = this.createViolation(
         node,
-        `Frame "${node.name}" は子要素が多いのにHug Contentsを使用しています`,
+        `${getNodeLabel(node)} "${node.name}" は子要素が多いのにHug Contentsを使用しています`,
         'レスポンシブ時にレイアウトが崩れる可能性があります',
         'Fill Containerに変更するか、子要素のサイズ設定を見直してください',
         'Hug Contents',
@@ -128,13 +138,17 @@ export class MinWidthMissingRule extends BaseRuleChecker {
       severity: Severity.MINOR,
       description: 'レスポンシブ対応のため最小幅を設定してください',
       impactTemplate: '最小幅がないと、モバイル表示時に要素が縮みすぎる可能性があります',
-      scoreImpact: 3
+      scoreImpact: 3,
+      nodeTypes: ['FRAME', 'COMPONENT', 'INSTANCE'],
+      defaultParams: {
+        minWidth: 120  // 推奨最小幅（px）
+      }
     });
   }
 
-  check(node: FigmaNode, _context: RuleCheckContext): RuleCheckResult {
-    // FRAMEタイプでAuto Layout有りのみチェック
-    if (node.type !== 'FRAME' || !hasAutoLayout(node)) {
+  check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
+    // 対象ノードタイプでAuto Layout有りのみチェック
+    if (!this.appliesTo(node) || !hasAutoLayout(node)) {
       return this.passed();
     }
 
@@ -144,15 +158,33 @@ export class MinWidthMissingRule extends BaseRuleChecker {
       return this.passed();
     }
 
+    const minWidth = this.getParam<number>(context, 'minWidth');
+
+    // 最小幅が明示されている場合は推奨値と比較
+    if (node.minWidth !== undefined) {
+      if (node.minWidth < minWidth) {
+        const violation = this.createViolation(
+          node,
+          `${getNodeLabel(node)} "${node.name}" の最小幅が小さすぎます（${node.minWidth}px）`,
+          'モバイル表示時に要素が縮みすぎて、ユーザビリティが低下する可能性があります',
+          `Min Widthを${minWidth}px以上に設定してください`,
+          `Min Width: ${node.minWidth}px`,
+          `Min Width: ${minWidth}px以上`
+        );
+        return this.failed(violation);
+      }
+      return this.passed();
+    }
+
     // 最小幅が設定されているかチェック
     if (!hasMinWidth(node)) {
       const violation = this.createViolation(
         node,
-        `Frame "${node.name}" に最小幅が設定されていません`,
+        `${getNodeLabel(node)} "${node.name}" に最小幅が設定されていません`,
         'モバイル表示時に要素が縮みすぎて、ユーザビリティが低下する可能性があります',
-        'Min Widthを設定してください（例: ボタンは120px以上推奨）',
+        `Min Widthを設定してください（例: ボタンは${minWidth}px以上推奨）`,
         '未設定',
-        'Min Width: 120px以上'
+        `Min Width: ${minWidth}px以上`
       );
       return this.failed(violation);
     }
@@ -167,7 +199,8 @@ export class MinWidthMissingRule extends BaseRuleChecker {
 
 /**
  * コンポーネント化推奨ルール
- * MINOR: 繰り返しパターンはコンポーネント化すべき
+ * MINOR: 同じ構造が繰り返し使われている箇所はコンポーネント化すべき
+ * 違反はグループごとに1件、最初の出現箇所に報告する
  */
 export class ComponentNotUsedRule extends BaseRuleChecker {
   constructor() {
@@ -176,37 +209,45 @@ export class ComponentNotUsedRule extends BaseRuleChecker {
       name: 'コンポーネント化推奨',
       category: RuleCategory.COMPONENT,
       severity: Severity.MINOR,
-      description: '再利用可能なパターンはコンポーネント化してください',
+      description: '同じ構造を繰り返し使う場合はコンポーネント化してください',
       impactTemplate: 'コンポーネント化しないと、デザインの一貫性とメンテナンス性が低下します',
-      scoreImpact: 2
+      scoreImpact: 2,
+      nodeTypes: REPEATED_STRUCTURE_ROOT_TYPES,
+      defaultParams: {
+        minOccurrences: 3,  // 同じ構造がこの数以上ある場合に報告
+        minLayers: 3        // ルートを含むレイヤー数がこの数未満の単純な構造は対象外
+      }
     });
   }
 
   check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
-    // FRAMEタイプのみチェック
-    if (node.type !== 'FRAME') {
+    // 対象ノードタイプのみチェック
+    if (!this.appliesTo(node)) {
       return this.passed();
     }
 
-    // 既にコンポーネントの場合はスキップ
-    if (isComponent(node)) {
-      return this.passed();
-    }
+    const group = getRepeatedStructureGroup(
+      context.allNodes,
+      {
+        minOccurrences: this.getParam<number>(context, 'minOccurrences'),
+        minLayers: this.getParam<number>(context, 'minLayers')
+      },
+      node.id
+    );
 
-    // コンポーネント化すべきパターンかチェック
-    if (shouldBeComponent(node, context)) {
-      const violation = this.createViolation(
-        node,
-        `Frame "${node.name}" はコンポーネント化すべきパターンです`,
-        '同じデザインを複数箇所で使用する場合、メンテナンス性が低下します',
-        'Create Component（Cmd/Ctrl + Option/Alt + K）でコンポーネント化してください',
-        'Frame',
-        'Component'
-      );
-      return this.failed(violation);
+    if (!group) {
+      return this.passed();
     }
 
-    return this.passed();
+    const violation = this.createViolation(
+      node,
+      `${getNodeLabel(node)} "${node.name}" と同じ構造（${group.layerCount}レイヤー）が${group.occurrences}箇所で繰り返されています`,
+      '同じデザインを個別に編集する必要があり、変更漏れや見た目のばらつきが起きやすくなります',
+      `"${group.suggestedName}" としてコンポーネント化し、残り${group.occurrences - 1}箇所をインスタンスに置き換えてください（推定 ${group.estimatedLayerSaving} レイヤー削減）`,
+      `${group.occurrences}箇所: ${group.nodeIds.join(', ')}`,
+      `Component "${group.suggestedName}"`
+    );
+    return this.failed(violation);
   }
 }
 
@@ -225,28 +266,33 @@ export class LayerAbuseRule extends BaseRuleChecker {
       name: 'レイヤー整理',
       category: RuleCategory.LAYOUT,
       severity: Severity.MAJOR,
-      description: '1つのFrameに50個以上のレイヤーを配置しないでください',
+      description: '1つのFrame・Component・Groupに50個以上のレイヤーを配置しないでください',
       impactTemplate: 'レイヤーが多すぎるとパフォーマンスが低下し、メンテナンスが困難になります',
-      scoreImpact: 5
+      scoreImpact: 5,
+      nodeTypes: ['FRAME', 'COMPONENT', 'GROUP'],
+      defaultParams: {
+        maxLayers: 50  // 1Frameあたりの最大レイヤー数
+      }
     });
   }
 
-  check(node: FigmaNode, _context: RuleCheckContext): RuleCheckResult {
-    // FRAMEタイプのみチェック
-    if (node.type !== 'FRAME') {
+  check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
+    // 対象ノードタイプのみチェック
+    if (!this.appliesTo(node)) {
       return this.passed();
     }
 
     // レイヤー乱用をチェック
-    if (hasLayerAbuse(node)) {
+    const maxLayers = this.getParam<number>(context, 'maxLayers');
+    if (hasLayerAbuse(node, maxLayers)) {
       const childCount = node.children?.length || 0;
       const violation = this.createViolation(
         node,
-        `Frame "${node.name}" に${childCount}個のレイヤーがあります`,
+        `${getNodeLabel(node)} "${node.name}" に${childCount}個のレイヤーがあります`,
         'レイヤーが多すぎると、HTML/CSSのパフォーマンスが低下し、メンテナンスが困難になります',
         'グループ化、コンポーネント化、または構造の見直しを行ってください',
         `${childCount}個のレイヤー`,
-        '50個以内'
+        `${maxLayers}個以内`
       );
       return this.failed(violation);
     }
@@ -0,0 +1,155 @@
+// =====================================
+// backend/src/rules/analysisComparison.ts
+// 解析比較ユーティリティ - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: types/rules
+// 説明: 2つの解析（Figmaファイルのバージョン違い等）のカテゴリ別スコアの差分、
+//       追加・解消された違反、変化したトップレベルフレームを求める
+// =====================================
+
+import type {
+  AnalysisComparison,
+  AnalysisSnapshot,
+  ComparedScore,
+  ComparedViolation,
+  FrameAnalysisCache,
+  FrameChange,
+  ScoreDelta
+} from '../types/rules';
+
+// =====================================
+// 設定
+// =====================================
+
+export const COMPARED_SCORES: ComparedScore[] = [
+  'figleanScore',
+  'layoutScore',
+  'componentScore',
+  'responsiveScore',
+  'semanticScore',
+  'accessibilityScore'
+];
+
+// =====================================
+// 違反
+// =====================================
+
+/**
+ * 解析内の違反をフィンガープリントで索引化
+ * フィンガープリント導入前の違反はルールID・ノードIDで識別する
+ */
+function indexViolations(cache: FrameAnalysisCache): Map<string, ComparedViolation> {
+  const violations = new Map<string, ComparedViolation>();
+
+  for (const [topLevelFrameId, entry] of Object.entries(cache.frames)) {
+    for (const violation of entry.violations) {
+      const fingerprint = violation.fingerprint ?? `${violation.ruleId}:${violation.frameId}`;
+      violations.set(fingerprint, {
+        fingerprint,
+        ruleId: String(violation.ruleId),
+        ruleName: violation.ruleName,
+        severity: violation.severity,
+        category: violation.category,
+        frameId: violation.frameId,
+        frameName: violation.frameName,
+        nodePath: violation.nodePath ?? null,
+        description: violation.description,
+        topLevelFrameId
+      });
+    }
+  }
+
+  return violations;
+}
+
+// =====================================
+// フレーム
+// =====================================
+
+/**
+ * トップレベルフレームの追加・削除・内容の変化を検出
+ */
+function diffFrames(base: FrameAnalysisCache, target: FrameAnalysisCache): AnalysisComparison['frames'] {
+  const changes: FrameChange[] = [];
+  let unchanged = 0;
+
+  for (const [frameId, after] of Object.entries(target.frames)) {
+    const before = base.frames[frameId];
+
+    if (before && before.hash === after.hash) {
+      unchanged++;
+      continue;
+    }
+
+    changes.push({
+      frameId,
+      frameName: after.name ?? before?.name ?? null,
+      status: before ? 'CHANGED' : 'ADDED',
+      violationsBefore: before?.violations.length ?? 0,
+      violationsAfter: after.violations.length
+    });
+  }
+
+  for (const [frameId, before] of Object.entries(base.frames)) {
+    if (!target.frames[frameId]) {
+      changes.push({
+        frameId,
+        frameName: before.name ?? null,
+        status: 'REMOVED',
+        violationsBefore: before.violations.length,
+        violationsAfter: 0
+      });
+    }
+  }
+
+  return { changes, unchanged };
+}
+
+// =====================================
+// 比較
+// =====================================
+
+/**
+ * 2つの解析を比較（base → target の変化）
+ *
+ * @param base - 比較元の解析（例: 前回リリースのバージョン）
+ * @param target - 比較先の解析
+ */
+export function compareAnalyses(base: AnalysisSnapshot, target: AnalysisSnapshot): AnalysisComparison {
+  const scores = Object.fromEntries(
+    COMPARED_SCORES.map(key => [
+      key,
+      { base: base.scores[key], target: target.scores[key], delta: target.scores[key] - base.scores[key] }
+    ])
+  ) as Record<ComparedScore, ScoreDelta>;
+
+  const before = indexViolations(base.frameCache);
+  const after = indexViolations(target.frameCache);
+
+  const { frameCache: _baseCache, ...baseInfo } = base;
+  const { frameCache: _targetCache, ...targetInfo } = target;
+
+  return {
+    base: baseInfo,
+    target: targetInfo,
+    scopeMatches:
+      base.scope.type === target.scope.type &&
+      [...base.scope.nodeIds].sort().join(',') === [...target.scope.nodeIds].sort().join(','),
+    scores,
+    violations: {
+      added: [...after.values()].filter(violation => !before.has(violation.fingerprint)),
+      removed: [...before.values()].filter(violation => !after.has(violation.fingerprint)),
+      persisting: [...after.keys()].filter(fingerprint => before.has(fingerprint)).length
+    },
+    frames: diffFrames(base.frameCache, target.frameCache)
+  };
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  COMPARED_SCORES,
+  compareAnalyses
+};
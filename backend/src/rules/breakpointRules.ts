@@ -0,0 +1,213 @@
+// =====================================
+// backend/src/rules/breakpointRules.ts
+// ブレークポイント整合性ルール実装 20-22 - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: BaseRuleChecker, breakpointVariants, types/rules
+// 説明: 同一画面のDesktop/Tablet/Mobileフレーム間のセクション欠落・並び順・テキストの差異に関するルールの実装
+// =====================================
+
+import { BaseRuleChecker, getNodeLabel } from './BaseRuleChecker';
+import {
+  getBreakpointFindings,
+  isOptionalSection,
+  BREAKPOINT_CONTAINER_TYPES,
+  BREAKPOINT_LABELS,
+  DEFAULT_BREAKPOINT_MAX_DEPTH
+} from './breakpointVariants';
+import type { BreakpointAnalysisParams } from './breakpointVariants';
+import type { BreakpointFinding, BreakpointFindingKind, RuleCheckResult, RuleCheckContext } from '../types/rules';
+import type { FigmaNode } from '../services/figmaApiService';
+import { RuleId, RuleCategory, Severity } from '../types/rules';
+
+// =====================================
+// 設定
+// =====================================
+
+// バリアントのグループ化・比較のパラメータ（3ルール共通。上書きする場合は各ルールに同じ値を指定する）
+const BREAKPOINT_DEFAULT_PARAMS = {
+  variantGroups: [] as string[],              // 明示的な対応付け（例: "desktop=1:2, tablet=1:3, mobile=Home SP"）
+  referenceBreakpoint: 'DESKTOP',             // 比較の基準（グループに無い場合は最も幅の広いフレーム）
+  maxDepth: DEFAULT_BREAKPOINT_MAX_DEPTH      // 比較するバリアントフレームからの深さ
+};
+
+// =====================================
+// Base
+// =====================================
+
+/**
+ * ブレークポイント整合性ルールの基底クラス
+ * 同一解析内で共有するバリアント解析結果から、このノードで報告する差分を取り出す
+ */
+abstract class BreakpointRuleChecker extends BaseRuleChecker {
+  protected findings(node: FigmaNode, context: RuleCheckContext, kind: BreakpointFindingKind): BreakpointFinding[] {
+    if (!this.appliesTo(node)) {
+      return [];
+    }
+
+    const params: BreakpointAnalysisParams = {
+      variantGroups: this.getParam<string[]>(context, 'variantGroups'),
+      referenceBreakpoint: this.getParam<string>(context, 'referenceBreakpoint'),
+      maxDepth: this.getParam<number>(context, 'maxDepth')
+    };
+
+    return getBreakpointFindings(context.allNodes, params, node.id, kind);
+  }
+}
+
+/**
+ * 違反メッセージ用の "Home（Mobile）" 形式のラベル
+ */
+function describeVariant(finding: BreakpointFinding): string {
+  return `${finding.group}（${BREAKPOINT_LABELS[finding.breakpoint]}）`;
+}
+
+// =====================================
+// Rule 20: BREAKPOINT_SECTION_MISSING
+// =====================================
+
+/**
+ * ブレークポイント間のセクション欠落ルール
+ * MAJOR: 基準のブレークポイントにあるセクションが別のブレークポイントに無いと、レスポンシブHTMLで内容が欠ける
+ */
+export class BreakpointSectionMissingRule extends BreakpointRuleChecker {
+  constructor() {
+    super({
+      id: RuleId.BREAKPOINT_SECTION_MISSING,
+      name: 'ブレークポイント間のセクション欠落',
+      category: RuleCategory.RESPONSIVE,
+      severity: Severity.MAJOR,
+      description: '同じ画面のDesktop/Tablet/Mobileフレームには同じセクションを配置してください',
+      impactTemplate: 'ブレークポイントごとにセクションが異なると、1つのレスポンシブHTMLにまとめられません',
+      scoreImpact: 4,
+      nodeTypes: BREAKPOINT_CONTAINER_TYPES,
+      defaultParams: {
+        ...BREAKPOINT_DEFAULT_PARAMS,
+        optionalSections: []  // 欠落を許容するセクション名（例: モバイルでは出さない "Sidebar"）
+      }
+    });
+  }
+
+  check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
+    const optionalSections = this.getParam<string[]>(context, 'optionalSections');
+    const findings = this.findings(node, context, 'MISSING_SECTION').filter(
+      finding => !isOptionalSection(finding.expected, optionalSections)
+    );
+
+    if (findings.length === 0) {
+      return this.passed();
+    }
+
+    return this.failed(
+      ...findings.map(finding =>
+        this.createViolation(
+          node,
+          `${describeVariant(finding)} の ${getNodeLabel(node)} "${node.name}" に ${BREAKPOINT_LABELS[finding.referenceBreakpoint]} 版のセクション "${finding.expected}" がありません`,
+          'ブレークポイント間で構成が一致せず、HTML生成時にこのセクションの表示・非表示を切り替えられません',
+          `"${finding.expected}" を追加してください（表示しない場合は非表示レイヤーとして配置するか、optionalSections に追加してください）`,
+          finding.detected,
+          finding.expected
+        )
+      )
+    );
+  }
+}
+
+// =====================================
+// Rule 21: BREAKPOINT_ORDER_MISMATCH
+// =====================================
+
+/**
+ * ブレークポイント間の並び順ルール
+ * MINOR: セクションの並び順が異なると、同じマークアップをCSSだけで切り替えられない
+ */
+export class BreakpointOrderMismatchRule extends BreakpointRuleChecker {
+  constructor() {
+    super({
+      id: RuleId.BREAKPOINT_ORDER_MISMATCH,
+      name: 'ブレークポイント間の並び順',
+      category: RuleCategory.RESPONSIVE,
+      severity: Severity.MINOR,
+      description: '同じ画面のDesktop/Tablet/Mobileフレームではセクションを同じ順序で配置してください',
+      impactTemplate: 'ブレークポイントごとに並び順が異なると、order指定や重複したマークアップが必要になります',
+      scoreImpact: 2,
+      nodeTypes: BREAKPOINT_CONTAINER_TYPES,
+      defaultParams: { ...BREAKPOINT_DEFAULT_PARAMS }
+    });
+  }
+
+  check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
+    const findings = this.findings(node, context, 'ORDER_MISMATCH');
+
+    if (findings.length === 0) {
+      return this.passed();
+    }
+
+    return this.failed(
+      ...findings.map(finding =>
+        this.createViolation(
+          node,
+          `${describeVariant(finding)} の ${getNodeLabel(node)} "${node.name}" のセクションの並び順が ${BREAKPOINT_LABELS[finding.referenceBreakpoint]} 版と異なります`,
+          'HTMLではDOM順が1つのため、ブレークポイントごとにorderクラスでの並べ替えが必要になります',
+          `${BREAKPOINT_LABELS[finding.referenceBreakpoint]} 版と同じ順序（${finding.expected}）に揃えてください`,
+          finding.detected,
+          finding.expected
+        )
+      )
+    );
+  }
+}
+
+// =====================================
+// Rule 22: BREAKPOINT_TEXT_MISMATCH
+// =====================================
+
+/**
+ * ブレークポイント間のテキスト差異ルール
+ * MINOR: 同じテキストの内容がブレークポイントで異なると、どちらかが更新漏れの可能性が高い
+ */
+export class BreakpointTextMismatchRule extends BreakpointRuleChecker {
+  constructor() {
+    super({
+      id: RuleId.BREAKPOINT_TEXT_MISMATCH,
+      name: 'ブレークポイント間のテキスト差異',
+      category: RuleCategory.RESPONSIVE,
+      severity: Severity.MINOR,
+      description: '同じ画面のDesktop/Tablet/Mobileフレームでは同じテキストを使用してください',
+      impactTemplate: 'ブレークポイントごとに文言が異なると、HTMLで出し分けが必要になり、更新漏れの原因になります',
+      scoreImpact: 1,
+      nodeTypes: ['TEXT'],
+      defaultParams: { ...BREAKPOINT_DEFAULT_PARAMS }
+    });
+  }
+
+  check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
+    const findings = this.findings(node, context, 'TEXT_MISMATCH');
+
+    if (findings.length === 0) {
+      return this.passed();
+    }
+
+    return this.failed(
+      ...findings.map(finding =>
+        this.createViolation(
+          node,
+          `${describeVariant(finding)} のテキスト "${node.name}" の内容が ${BREAKPOINT_LABELS[finding.referenceBreakpoint]} 版と異なります`,
+          'ブレークポイントごとに文言の出し分けが必要になり、一方だけ更新される不整合が起きやすくなります',
+          `${BREAKPOINT_LABELS[finding.referenceBreakpoint]} 版の文言「${finding.expected}」に揃えてください`,
+          finding.detected,
+          finding.expected
+        )
+      )
+    );
+  }
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  BreakpointSectionMissingRule,
+  BreakpointOrderMismatchRule,
+  BreakpointTextMismatchRule
+};
@@ -0,0 +1,540 @@
+// =====================================
+// backend/src/rules/breakpointVariants.ts
+// ブレークポイントバリアント解析ユーティリティ - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: BaseRuleChecker, violationTracking, types/rules
+// 説明: 同一画面のDesktop/Tablet/Mobileフレームを命名規則または明示的な対応付けでグループ化し、
+//       基準ブレークポイントとのサブツリー差分（セクション欠落・並び順・テキスト）を検出する
+// =====================================
+
+import type { FigmaNode } from '../services/figmaApiService';
+import type {
+  BreakpointFinding,
+  BreakpointFindingKind,
+  BreakpointName,
+  BreakpointStats,
+  BreakpointVariantFrame,
+  BreakpointVariantGroup
+} from '../types/rules';
+import { isDefaultLayerName } from './BaseRuleChecker';
+import { normalizeNodeName } from './violationTracking';
+
+// =====================================
+// 型定義
+// =====================================
+
+/**
+ * 解析単位のブレークポイント解析結果（同一解析内のルールチェックと統計で共有）
+ */
+export interface BreakpointAnalysis {
+  groups: BreakpointVariantGroup[];
+  findingsByNodeId: Map<string, BreakpointFinding[]>;  // 報告先ノードID → 差分
+}
+
+/**
+ * グループ化・差分検出のパラメータ
+ */
+export interface BreakpointAnalysisParams {
+  variantGroups: string[];        // 明示的な対応付け（例: "desktop=1:2, tablet=1:3, mobile=Home SP"）
+  referenceBreakpoint: string;    // 比較の基準にするブレークポイント
+  maxDepth: number;               // 差分を比較するバリアントフレームからの深さ
+}
+
+// =====================================
+// 設定
+// =====================================
+
+// ブレークポイントの並び順（グループ内のフレーム順・基準の優先順）
+export const BREAKPOINT_ORDER: BreakpointName[] = ['DESKTOP', 'TABLET', 'MOBILE'];
+
+// 違反メッセージ用のブレークポイント名
+export const BREAKPOINT_LABELS: Record<BreakpointName, string> = {
+  DESKTOP: 'Desktop',
+  TABLET: 'Tablet',
+  MOBILE: 'Mobile'
+};
+
+// フレーム名に含まれるブレークポイントの表記（小文字・NFKC正規化後）
+const BREAKPOINT_ALIASES: Record<BreakpointName, string[]> = {
+  DESKTOP: ['desktop', 'pc', 'web', 'デスクトップ'],
+  TABLET: ['tablet', 'ipad', 'タブレット'],
+  MOBILE: ['mobile', 'sp', 'phone', 'smartphone', 'スマホ', 'モバイル']
+};
+
+// 差分を報告するコンテナのノードタイプ
+export const BREAKPOINT_CONTAINER_TYPES = ['FRAME', 'COMPONENT', 'INSTANCE', 'GROUP', 'SECTION'];
+
+// バリアントフレームとして扱うノードタイプ
+const VARIANT_FRAME_TYPES = ['FRAME', 'COMPONENT'];
+
+// フレーム名の区切り（"Home / Desktop"、"Home - SP"、"Home (Mobile)" 等）
+const NAME_SEPARATOR = /[\s/|\-–—_:()[\]（）【】]+/;
+
+// 画面名から除外する幅の表記（"Desktop 1440"、"375px" 等）
+const WIDTH_TOKEN = /^\d+(px)?$/;
+
+// テキスト差分の表示上限（文字数）
+const TEXT_PREVIEW_LENGTH = 40;
+
+// 既定の比較深さ
+export const DEFAULT_BREAKPOINT_MAX_DEPTH = 6;
+
+// =====================================
+// Naming
+// =====================================
+
+/**
+ * ブレークポイントの表記をブレークポイント名に変換
+ */
+export function parseBreakpoint(token: string): BreakpointName | null {
+  const normalized = token.normalize('NFKC').trim().toLowerCase();
+
+  for (const breakpoint of BREAKPOINT_ORDER) {
+    if (normalized === breakpoint.toLowerCase() || BREAKPOINT_ALIASES[breakpoint].includes(normalized)) {
+      return breakpoint;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * フレーム名からブレークポイントと画面名を取り出す
+ * ブレークポイントの表記がちょうど1種類含まれ、残りの語が画面名になる場合のみ対象
+ *
+ * @param name - フレーム名（例: "Home / Desktop"）
+ * @returns ブレークポイントと画面名（例: { breakpoint: 'DESKTOP', screen: 'Home' }）
+ */
+export function parseVariantName(name: string): { breakpoint: BreakpointName; screen: string } | null {
+  const tokens = name.normalize('NFKC').split(NAME_SEPARATOR).filter(token => token.length > 0);
+  const breakpoints = new Set<BreakpointName>();
+  const screenTokens: string[] = [];
+
+  for (const token of tokens) {
+    const breakpoint = parseBreakpoint(token);
+    if (breakpoint) {
+      breakpoints.add(breakpoint);
+    } else if (!WIDTH_TOKEN.test(token.toLowerCase())) {
+      screenTokens.push(token);
+    }
+  }
+
+  if (breakpoints.size !== 1 || screenTokens.length === 0) {
+    return null;
+  }
+
+  return { breakpoint: [...breakpoints][0], screen: screenTokens.join(' ') };
+}
+
+// =====================================
+// Grouping
+// =====================================
+
+/**
+ * バリアント候補のフレームを列挙（ページ直下と、ページ直下のSection内のフレーム）
+ */
+function collectCandidateFrames(allNodes: FigmaNode[]): FigmaNode[] {
+  const frames: FigmaNode[] = [];
+
+  for (const page of allNodes.filter(node => node.type === 'CANVAS')) {
+    for (const child of page.children ?? []) {
+      if (child.type === 'SECTION') {
+        frames.push(...(child.children ?? []).filter(node => VARIANT_FRAME_TYPES.includes(node.type)));
+      } else if (VARIANT_FRAME_TYPES.includes(child.type)) {
+        frames.push(child);
+      }
+    }
+  }
+
+  return frames;
+}
+
+function toVariantFrame(breakpoint: BreakpointName, node: FigmaNode): BreakpointVariantFrame {
+  return {
+    breakpoint,
+    frameId: node.id,
+    frameName: node.name,
+    width: node.absoluteBoundingBox?.width ?? null
+  };
+}
+
+/**
+ * 明示的な対応付けを解析
+ * 各エントリは "ブレークポイント=フレームIDまたはフレーム名" のカンマ区切り（不正な指定は無視する）
+ *
+ * @param entries - variantGroups パラメータ
+ * @param allNodes - 解析対象の全ノード
+ * @param candidates - バリアント候補のフレーム（フレーム名での指定に使用）
+ */
+function parseExplicitGroups(
+  entries: string[],
+  allNodes: FigmaNode[],
+  candidates: FigmaNode[]
+): Array<Map<BreakpointName, FigmaNode>> {
+  const nodeById = new Map(allNodes.map(node => [node.id, node]));
+  const groups: Array<Map<BreakpointName, FigmaNode>> = [];
+
+  for (const entry of entries) {
+    const members = new Map<BreakpointName, FigmaNode>();
+
+    for (const part of entry.split(',')) {
+      const separator = part.indexOf('=');
+      if (separator < 0) {
+        continue;
+      }
+
+      const breakpoint = parseBreakpoint(part.slice(0, separator));
+      const ref = part.slice(separator + 1).trim();
+      const node = nodeById.get(ref.replace(/-/g, ':')) ?? candidates.find(frame => frame.name.trim() === ref);
+
+      if (breakpoint && node && !members.has(breakpoint)) {
+        members.set(breakpoint, node);
+      }
+    }
+
+    if (members.size >= 2) {
+      groups.push(members);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * バリアントフレームをグループ化
+ * 明示的な対応付けを優先し、残りのフレームを命名規則（画面名が同じでブレークポイントが異なる）で対応付ける
+ * 同じ画面名・ブレークポイントのフレームが複数ある場合は先に見つかったものを使う
+ *
+ * @param allNodes - 解析対象の全ノード
+ * @param params - グループ化のパラメータ
+ * @returns 2つ以上のブレークポイントを持つグループ
+ */
+export function groupVariantFrames(
+  allNodes: FigmaNode[],
+  params: BreakpointAnalysisParams
+): Array<{ group: BreakpointVariantGroup; nodes: Map<BreakpointName, FigmaNode> }> {
+  const candidates = collectCandidateFrames(allNodes);
+  const result: Array<{ group: BreakpointVariantGroup; nodes: Map<BreakpointName, FigmaNode> }> = [];
+  const assigned = new Set<string>();
+
+  const addGroup = (name: string, source: BreakpointVariantGroup['source'], nodes: Map<BreakpointName, FigmaNode>) => {
+    const breakpoints = BREAKPOINT_ORDER.filter(breakpoint => nodes.has(breakpoint));
+    const referenceBreakpoint = resolveReferenceBreakpoint(nodes, params.referenceBreakpoint);
+
+    nodes.forEach(node => assigned.add(node.id));
+    result.push({
+      group: {
+        name,
+        source,
+        referenceBreakpoint,
+        frames: breakpoints.map(breakpoint => toVariantFrame(breakpoint, nodes.get(breakpoint)!))
+      },
+      nodes
+    });
+  };
+
+  for (const members of parseExplicitGroups(params.variantGroups, allNodes, candidates)) {
+    if ([...members.values()].some(node => assigned.has(node.id))) {
+      continue;
+    }
+    const reference = members.get(resolveReferenceBreakpoint(members, params.referenceBreakpoint))!;
+    addGroup(parseVariantName(reference.name)?.screen ?? reference.name, 'MAPPING', members);
+  }
+
+  const byScreen = new Map<string, { name: string; nodes: Map<BreakpointName, FigmaNode> }>();
+  for (const frame of candidates) {
+    const parsed = assigned.has(frame.id) ? null : parseVariantName(frame.name);
+    if (!parsed) {
+      continue;
+    }
+
+    const key = normalizeNodeName(parsed.screen);
+    const entry = byScreen.get(key) ?? { name: parsed.screen, nodes: new Map<BreakpointName, FigmaNode>() };
+    if (!entry.nodes.has(parsed.breakpoint)) {
+      entry.nodes.set(parsed.breakpoint, frame);
+    }
+    byScreen.set(key, entry);
+  }
+
+  for (const { name, nodes } of byScreen.values()) {
+    if (nodes.size >= 2) {
+      addGroup(name, 'NAMING', nodes);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 比較の基準にするブレークポイントを決定
+ * 指定のブレークポイントが無いグループでは最も幅の広いフレームを基準にする
+ */
+function resolveReferenceBreakpoint(nodes: Map<BreakpointName, FigmaNode>, preferred: string): BreakpointName {
+  const breakpoint = parseBreakpoint(preferred);
+  if (breakpoint && nodes.has(breakpoint)) {
+    return breakpoint;
+  }
+
+  const width = (name: BreakpointName) => nodes.get(name)?.absoluteBoundingBox?.width ?? 0;
+  return BREAKPOINT_ORDER
+    .filter(name => nodes.has(name))
+    .reduce((widest, name) => (width(name) > width(widest) ? name : widest));
+}
+
+// =====================================
+// Diff
+// =====================================
+
+/**
+ * 基準とバリアントの子ノードの対応付け結果
+ */
+interface ChildPairing {
+  pairs: Array<[FigmaNode, FigmaNode]>;  // [基準側, バリアント側]
+  missing: FigmaNode[];                  // バリアント側に対応するノードが無い基準側の名前付きセクション
+}
+
+/**
+ * 子ノードを対応付け
+ * - 名前付きのノード: 正規化した名前（同名は出現順）で対応付け
+ * - テキスト: 名前で対応付けた後、残りを出現順で対応付け（レイヤー名が内容から自動生成されるため）
+ * - 自動命名のノード: 同じノードタイプ内の出現順で対応付け（欠落・並び順の判定対象外）
+ */
+function pairChildren(reference: FigmaNode[], variant: FigmaNode[]): ChildPairing {
+  const pairs: Array<[FigmaNode, FigmaNode]> = [];
+  const missing: FigmaNode[] = [];
+  const used = new Set<FigmaNode>();
+
+  const keyed = (nodes: FigmaNode[]) => {
+    const occurrences = new Map<string, number>();
+    const keys = new Map<string, FigmaNode>();
+    for (const node of nodes) {
+      if (isDefaultLayerName(node.name)) {
+        continue;
+      }
+      const name = `${node.type === 'TEXT' ? 'text' : 'node'}:${normalizeNodeName(node.name)}`;
+      const occurrence = occurrences.get(name) ?? 0;
+      occurrences.set(name, occurrence + 1);
+      keys.set(`${name}#${occurrence}`, node);
+    }
+    return keys;
+  };
+
+  const variantByKey = keyed(variant);
+  const unpaired: FigmaNode[] = [];
+
+  for (const [key, node] of keyed(reference)) {
+    const counterpart = variantByKey.get(key);
+    if (counterpart) {
+      pairs.push([node, counterpart]);
+      used.add(counterpart);
+    } else if (node.type === 'TEXT') {
+      unpaired.push(node);
+    } else if (node.visible !== false) {
+      missing.push(node);
+    }
+  }
+
+  // 名前で対応付かなかったテキスト・自動命名のノードは出現順で対応付け
+  const positional = (match: (node: FigmaNode) => boolean, refs: FigmaNode[]) => {
+    const remaining = variant.filter(node => !used.has(node) && match(node));
+    refs.forEach((node, index) => {
+      if (remaining[index]) {
+        pairs.push([node, remaining[index]]);
+        used.add(remaining[index]);
+      }
+    });
+  };
+
+  positional(node => node.type === 'TEXT', unpaired);
+  for (const type of new Set(reference.filter(node => isDefaultLayerName(node.name)).map(node => node.type))) {
+    positional(
+      node => node.type === type && isDefaultLayerName(node.name),
+      reference.filter(node => node.type === type && isDefaultLayerName(node.name))
+    );
+  }
+
+  return { pairs, missing };
+}
+
+/**
+ * テキスト内容を比較用に正規化
+ */
+function normalizeText(text: string | undefined): string {
+  return (text ?? '').normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
+
+function previewText(text: string): string {
+  return text.length > TEXT_PREVIEW_LENGTH ? `${text.slice(0, TEXT_PREVIEW_LENGTH)}…` : text;
+}
+
+/**
+ * 基準フレームとバリアントフレームのサブツリーを比較して差分を収集
+ */
+function diffSubtrees(
+  reference: FigmaNode,
+  variant: FigmaNode,
+  depth: number,
+  base: Pick<BreakpointFinding, 'group' | 'breakpoint' | 'referenceBreakpoint'>,
+  maxDepth: number,
+  findings: BreakpointFinding[]
+): void {
+  const add = (kind: BreakpointFindingKind, nodeId: string, referenceNodeId: string, detected: string, expected: string) =>
+    findings.push({ kind, ...base, nodeId, referenceNodeId, detected, expected });
+
+  const { pairs, missing } = pairChildren(reference.children ?? [], variant.children ?? []);
+
+  for (const section of missing) {
+    add('MISSING_SECTION', variant.id, section.id, 'なし', section.name);
+  }
+
+  // 名前で対応付いたセクションの並び順（基準側の順に並べたときのバリアント側の順）
+  const variantChildren = variant.children ?? [];
+  const sections = pairs
+    .filter(([node]) => node.type !== 'TEXT' && !isDefaultLayerName(node.name))
+    .sort(([a], [b]) => (reference.children ?? []).indexOf(a) - (reference.children ?? []).indexOf(b));
+  const variantOrder = [...sections].sort(([, a], [, b]) => variantChildren.indexOf(a) - variantChildren.indexOf(b));
+
+  if (sections.some((pair, index) => pair !== variantOrder[index])) {
+    add(
+      'ORDER_MISMATCH',
+      variant.id,
+      reference.id,
+      variantOrder.map(([, node]) => node.name).join(' → '),
+      sections.map(([node]) => node.name).join(' → ')
+    );
+  }
+
+  for (const [referenceChild, variantChild] of pairs) {
+    if (referenceChild.type === 'TEXT' && variantChild.type === 'TEXT') {
+      const expected = normalizeText(referenceChild.characters);
+      const detected = normalizeText(variantChild.characters);
+      if (expected !== detected) {
+        add('TEXT_MISMATCH', variantChild.id, referenceChild.id, previewText(detected), previewText(expected));
+      }
+      continue;
+    }
+
+    if (depth + 1 < maxDepth && BREAKPOINT_CONTAINER_TYPES.includes(variantChild.type)) {
+      diffSubtrees(referenceChild, variantChild, depth + 1, base, maxDepth, findings);
+    }
+  }
+}
+
+// =====================================
+// Analysis
+// =====================================
+
+// 解析結果のキャッシュ（キーはパラメータ）
+const analysisCache = new WeakMap<FigmaNode[], Map<string, BreakpointAnalysis>>();
+
+/**
+ * バリアントフレームをグループ化し、基準ブレークポイントとの差分を検出
+ *
+ * @param allNodes - 解析対象の全ノード
+ * @param params - グループ化・差分検出のパラメータ
+ */
+export function analyzeBreakpoints(allNodes: FigmaNode[], params: BreakpointAnalysisParams): BreakpointAnalysis {
+  const cacheKey = JSON.stringify([params.variantGroups, params.referenceBreakpoint, params.maxDepth]);
+  const cached = analysisCache.get(allNodes) ?? new Map<string, BreakpointAnalysis>();
+  const hit = cached.get(cacheKey);
+  if (hit) {
+    return hit;
+  }
+
+  const groups = groupVariantFrames(allNodes, params);
+  const findingsByNodeId = new Map<string, BreakpointFinding[]>();
+
+  for (const { group, nodes } of groups) {
+    const reference = nodes.get(group.referenceBreakpoint)!;
+    const findings: BreakpointFinding[] = [];
+
+    for (const frame of group.frames.filter(frame => frame.breakpoint !== group.referenceBreakpoint)) {
+      diffSubtrees(
+        reference,
+        nodes.get(frame.breakpoint)!,
+        0,
+        { group: group.name, breakpoint: frame.breakpoint, referenceBreakpoint: group.referenceBreakpoint },
+        params.maxDepth,
+        findings
+      );
+    }
+
+    for (const finding of findings) {
+      findingsByNodeId.set(finding.nodeId, [...(findingsByNodeId.get(finding.nodeId) ?? []), finding]);
+    }
+  }
+
+  const analysis: BreakpointAnalysis = { groups: groups.map(({ group }) => group), findingsByNodeId };
+  cached.set(cacheKey, analysis);
+  analysisCache.set(allNodes, cached);
+  return analysis;
+}
+
+/**
+ * ノードで報告する差分を取得
+ */
+export function getBreakpointFindings(
+  allNodes: FigmaNode[],
+  params: BreakpointAnalysisParams,
+  nodeId: string,
+  kind: BreakpointFindingKind
+): BreakpointFinding[] {
+  return (analyzeBreakpoints(allNodes, params).findingsByNodeId.get(nodeId) ?? []).filter(
+    finding => finding.kind === kind
+  );
+}
+
+/**
+ * セクション名が欠落を許容するセクションか判定
+ *
+ * @param name - セクション名
+ * @param optionalSections - 欠落を許容するセクション名（正規化して比較）
+ */
+export function isOptionalSection(name: string, optionalSections: string[]): boolean {
+  const normalized = normalizeNodeName(name);
+  return optionalSections.some(section => normalizeNodeName(section) === normalized);
+}
+
+// =====================================
+// 統計
+// =====================================
+
+/**
+ * ブレークポイント整合性の統計を算出
+ *
+ * @param allNodes - 解析対象の全ノード
+ * @param params - グループ化・差分検出のパラメータ
+ * @param optionalSections - 欠落を許容するセクション名
+ */
+export function calculateBreakpointStats(
+  allNodes: FigmaNode[],
+  params: BreakpointAnalysisParams,
+  optionalSections: string[] = []
+): BreakpointStats {
+  const analysis = analyzeBreakpoints(allNodes, params);
+  const findings = [...analysis.findingsByNodeId.values()].flat();
+  const count = (kind: BreakpointFindingKind) => findings.filter(finding => finding.kind === kind).length;
+
+  return {
+    groups: analysis.groups,
+    missingSections: findings.filter(
+      finding => finding.kind === 'MISSING_SECTION' && !isOptionalSection(finding.expected, optionalSections)
+    ).length,
+    orderMismatches: count('ORDER_MISMATCH'),
+    textMismatches: count('TEXT_MISMATCH')
+  };
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  parseBreakpoint,
+  parseVariantName,
+  groupVariantFrames,
+  analyzeBreakpoints,
+  getBreakpointFindings,
+  isOptionalSection,
+  calculateBreakpointStats
+};
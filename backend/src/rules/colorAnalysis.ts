@@ -0,0 +1,471 @@
+// =====================================
+// backend/src/rules/colorAnalysis.ts
+// カラー解析ユーティリティ - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: types/rules
+// 説明: 塗り・線の色収集、CIEDE2000色差による近似色クラスタリング、パレット判定、カラー統計、WCAGコントラスト比
+// =====================================
+
+import type { FigmaNode, FigmaPaint } from '../services/figmaApiService';
+import type { ColorGroup, ColorPaletteDefinition, ColorStats } from '../types/rules';
+
+// =====================================
+// 型定義
+// =====================================
+
+/**
+ * ノード内の色の使用箇所
+ */
+export interface ColorUsage {
+  property: 'fills' | 'strokes';
+  index: number;   // fills / strokes 配列内の位置
+  color: string;   // #RRGGBB / #RRGGBBAA
+}
+
+/**
+ * 色のパレット照合結果
+ * - canonical: 近似色グループの代表色（どのグループにも属さない場合はnull）
+ * - nearest: 最も近いパレット色（パレットが空の場合はnull）
+ */
+export interface PaletteMatch {
+  canonical: string | null;
+  nearest: string | null;
+  deltaE: number;
+}
+
+/**
+ * 解析単位のカラー解析結果（同一解析内のルールチェックと統計で共有）
+ */
+export interface ColorAnalysis {
+  palette: ColorPaletteDefinition;
+  threshold: number;
+  groups: ColorGroup[];
+  matches: Map<string, PaletteMatch>;
+  totalUsages: number;
+}
+
+interface Lab {
+  L: number;
+  a: number;
+  b: number;
+}
+
+// =====================================
+// 設定
+// =====================================
+
+// 塗り・線を評価するノードタイプ
+export const COLOR_NODE_TYPES = [
+  'FRAME',
+  'COMPONENT',
+  'INSTANCE',
+  'RECTANGLE',
+  'ELLIPSE',
+  'POLYGON',
+  'STAR',
+  'LINE',
+  'VECTOR',
+  'BOOLEAN_OPERATION',
+  'TEXT'
+];
+
+// 近似色とみなす色差の既定値（CIEDE2000で約2.3が知覚できる最小差）
+export const DEFAULT_COLOR_THRESHOLD = 3;
+
+// =====================================
+// 色の収集
+// =====================================
+
+/**
+ * ノードの塗り・線の色を取得（表示中のSOLIDのみ）
+ */
+export function getColorUsages(node: FigmaNode): ColorUsage[] {
+  if (!COLOR_NODE_TYPES.includes(node.type) || node.visible === false) {
+    return [];
+  }
+
+  const usages: ColorUsage[] = [];
+  const collect = (property: ColorUsage['property'], paints: FigmaPaint[] | undefined) => {
+    (paints ?? []).forEach((paint, index) => {
+      if (paint.type === 'SOLID' && paint.visible !== false && paint.color) {
+        usages.push({ property, index, color: toHex(paint.color, paint.opacity) });
+      }
+    });
+  };
+
+  collect('fills', node.fills);
+  collect('strokes', node.strokes);
+
+  return usages;
+}
+
+/**
+ * Figmaの色（0-1のRGBA）を16進表記に変換
+ * 不透明度（color.a × paint.opacity）が1未満の場合は #RRGGBBAA
+ */
+export function toHex(color: NonNullable<FigmaPaint['color']>, opacity: number = 1): string {
+  const channel = (value: number) =>
+    Math.round(Math.min(1, Math.max(0, value)) * 255).toString(16).padStart(2, '0').toUpperCase();
+
+  const alpha = (color.a ?? 1) * opacity;
+  const rgb = `#${channel(color.r)}${channel(color.g)}${channel(color.b)}`;
+
+  return alpha < 1 ? `${rgb}${channel(alpha)}` : rgb;
+}
+
+/**
+ * 16進表記を正規化（#RGB / #RRGGBB / #RRGGBBAA、不正な値はnull）
+ */
+export function normalizeHex(value: string): string | null {
+  const hex = value.trim().replace(/^#/, '').toUpperCase();
+
+  if (/^[0-9A-F]{3}$/.test(hex)) {
+    return `#${hex.split('').map(c => c + c).join('')}`;
+  }
+  if (/^[0-9A-F]{6}$/.test(hex)) {
+    return `#${hex}`;
+  }
+  if (/^[0-9A-F]{8}$/.test(hex)) {
+    return hex.endsWith('FF') ? `#${hex.slice(0, 6)}` : `#${hex}`;
+  }
+
+  return null;
+}
+
+// =====================================
+// 色差（CIEDE2000）
+// =====================================
+
+/**
+ * 16進表記の色をCIE L*a*b*（D65）に変換（不透明度は無視）
+ */
+export function hexToLab(hex: string): Lab {
+  const linear = (offset: number) => {
+    const c = parseInt(hex.slice(offset, offset + 2), 16) / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  const r = linear(1);
+  const g = linear(3);
+  const b = linear(5);
+
+  const x = (0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / 0.95047;
+  const y = 0.2126729 * r + 0.7151522 * g + 0.0721750 * b;
+  const z = (0.0193339 * r + 0.1191920 * g + 0.9503041 * b) / 1.08883;
+
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+
+  return {
+    L: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz)
+  };
+}
+
+/**
+ * CIEDE2000色差
+ */
+export function deltaE2000(lab1: Lab, lab2: Lab): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const deg = (r: number) => (r * 180) / Math.PI;
+  const pow25To7 = Math.pow(25, 7);
+
+  const C1 = Math.hypot(lab1.a, lab1.b);
+  const C2 = Math.hypot(lab2.a, lab2.b);
+  const Cbar7 = Math.pow((C1 + C2) / 2, 7);
+  const G = 0.5 * (1 - Math.sqrt(Cbar7 / (Cbar7 + pow25To7)));
+
+  const a1 = (1 + G) * lab1.a;
+  const a2 = (1 + G) * lab2.a;
+  const C1p = Math.hypot(a1, lab1.b);
+  const C2p = Math.hypot(a2, lab2.b);
+  const hue = (b: number, a: number) => (b === 0 && a === 0 ? 0 : (deg(Math.atan2(b, a)) + 360) % 360);
+  const h1p = hue(lab1.b, a1);
+  const h2p = hue(lab2.b, a2);
+
+  const dLp = lab2.L - lab1.L;
+  const dCp = C2p - C1p;
+
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) {
+      dhp -= 360;
+    } else if (dhp < -180) {
+      dhp += 360;
+    }
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin(rad(dhp / 2));
+
+  const Lbarp = (lab1.L + lab2.L) / 2;
+  const Cbarp = (C1p + C2p) / 2;
+
+  let hbarp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) {
+      hbarp = (h1p + h2p) / 2;
+    } else {
+      hbarp = h1p + h2p < 360 ? (h1p + h2p + 360) / 2 : (h1p + h2p - 360) / 2;
+    }
+  }
+
+  const T = 1
+    - 0.17 * Math.cos(rad(hbarp - 30))
+    + 0.24 * Math.cos(rad(2 * hbarp))
+    + 0.32 * Math.cos(rad(3 * hbarp + 6))
+    - 0.20 * Math.cos(rad(4 * hbarp - 63));
+
+  const dTheta = 30 * Math.exp(-Math.pow((hbarp - 275) / 25, 2));
+  const Cbarp7 = Math.pow(Cbarp, 7);
+  const RC = 2 * Math.sqrt(Cbarp7 / (Cbarp7 + pow25To7));
+  const SL = 1 + (0.015 * Math.pow(Lbarp - 50, 2)) / Math.sqrt(20 + Math.pow(Lbarp - 50, 2));
+  const SC = 1 + 0.045 * Cbarp;
+  const SH = 1 + 0.015 * Cbarp * T;
+  const RT = -Math.sin(rad(2 * dTheta)) * RC;
+
+  const l = dLp / SL;
+  const c = dCp / SC;
+  const h = dHp / SH;
+
+  return Math.sqrt(l * l + c * c + h * h + RT * c * h);
+}
+
+/**
+ * 2色の色差（不透明度が異なる色は比較対象外としてInfinity）
+ */
+export function colorDistance(color1: string, color2: string): number {
+  if (alphaOf(color1) !== alphaOf(color2)) {
+    return Infinity;
+  }
+  return round(deltaE2000(hexToLab(color1), hexToLab(color2)));
+}
+
+// =====================================
+// コントラスト（WCAG 2.x）
+// =====================================
+
+/**
+ * 半透明色を背景色に合成（背景は不透明であること）
+ *
+ * @returns 合成後の不透明色（#RRGGBB）
+ */
+export function compositeOver(foreground: string, background: string): string {
+  const alpha = parseInt(alphaOf(foreground), 16) / 255;
+  const mix = (offset: number) => {
+    const fg = parseInt(foreground.slice(offset, offset + 2), 16);
+    const bg = parseInt(background.slice(offset, offset + 2), 16);
+    return Math.round(fg * alpha + bg * (1 - alpha)).toString(16).padStart(2, '0').toUpperCase();
+  };
+
+  return `#${mix(1)}${mix(3)}${mix(5)}`;
+}
+
+/**
+ * 相対輝度（WCAG定義、不透明度は無視）
+ */
+export function relativeLuminance(hex: string): number {
+  const linear = (offset: number) => {
+    const c = parseInt(hex.slice(offset, offset + 2), 16) / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+
+  return 0.2126 * linear(1) + 0.7152 * linear(3) + 0.0722 * linear(5);
+}
+
+/**
+ * コントラスト比（1〜21、小数第2位で切り捨て）
+ */
+export function contrastRatio(color1: string, color2: string): number {
+  const l1 = relativeLuminance(color1);
+  const l2 = relativeLuminance(color2);
+  const ratio = (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+
+  // 基準値ちょうどを切り上げで合格にしないよう切り捨てる
+  return Math.floor(ratio * 100) / 100;
+}
+
+// =====================================
+// クラスタリング
+// =====================================
+
+// 解析結果のキャッシュ（同一解析内の全ノードで共有、キーは閾値とプロファイルのパレット）
+const analysisCache = new WeakMap<FigmaNode[], Map<string, ColorAnalysis>>();
+
+/**
+ * ファイル内の色を近似色グループにクラスタリング
+ * プロファイルでパレットが指定されていればパレット色を代表色とし、
+ * 無ければ使用回数の多い順に、既存の代表色から閾値以内の色をまとめていく
+ *
+ * @param allNodes - 解析対象の全ノード
+ * @param threshold - 近似色とみなす色差（CIEDE2000）
+ * @param profilePalette - プロファイル指定のパレット（空配列の場合は学習）
+ */
+export function analyzeColors(
+  allNodes: FigmaNode[],
+  threshold: number = DEFAULT_COLOR_THRESHOLD,
+  profilePalette: string[] = []
+): ColorAnalysis {
+  const paletteColors = [...new Set(
+    profilePalette.map(normalizeHex).filter((hex): hex is string => hex !== null)
+  )];
+  const cacheKey = `${threshold}|${paletteColors.join(',')}`;
+
+  const cached = analysisCache.get(allNodes) ?? new Map<string, ColorAnalysis>();
+  const hit = cached.get(cacheKey);
+  if (hit) {
+    return hit;
+  }
+
+  // 色ごとの使用回数・使用ノードを集計
+  const usageByColor = new Map<string, { usageCount: number; nodeIds: Set<string> }>();
+  let totalUsages = 0;
+
+  for (const node of allNodes) {
+    for (const { color } of getColorUsages(node)) {
+      const entry = usageByColor.get(color) ?? { usageCount: 0, nodeIds: new Set<string>() };
+      entry.usageCount++;
+      entry.nodeIds.add(node.id);
+      usageByColor.set(color, entry);
+      totalUsages++;
+    }
+  }
+
+  // 使用回数の多い順（同数は色コード順）に代表色へ割り当て
+  const colors = [...usageByColor.keys()].sort((a, b) =>
+    usageByColor.get(b)!.usageCount - usageByColor.get(a)!.usageCount || a.localeCompare(b)
+  );
+
+  const isProfile = paletteColors.length > 0;
+  const canonicals = [...paletteColors];
+  const matches = new Map<string, PaletteMatch>();
+
+  for (const color of colors) {
+    let nearest: string | null = null;
+    let nearestDelta = Infinity;
+
+    for (const canonical of canonicals) {
+      const delta = colorDistance(color, canonical);
+      if (delta < nearestDelta) {
+        nearest = canonical;
+        nearestDelta = delta;
+      }
+    }
+
+    if (nearest && nearestDelta <= threshold) {
+      matches.set(color, { canonical: nearest, nearest, deltaE: nearestDelta });
+    } else if (isProfile) {
+      // パレット外かつどのパレット色にも近くない色（グループに属さない）
+      matches.set(color, { canonical: null, nearest, deltaE: nearestDelta });
+    } else {
+      canonicals.push(color);
+      matches.set(color, { canonical: color, nearest: color, deltaE: 0 });
+    }
+  }
+
+  // 代表色ごとにグループ化
+  const groupMap = new Map<string, ColorGroup>();
+  for (const color of colors) {
+    const match = matches.get(color)!;
+    if (!match.canonical) {
+      continue;
+    }
+
+    const group = groupMap.get(match.canonical) ?? { canonical: match.canonical, totalUsage: 0, members: [] };
+    const usage = usageByColor.get(color)!;
+    group.totalUsage += usage.usageCount;
+    group.members.push({
+      color,
+      usageCount: usage.usageCount,
+      nodeIds: [...usage.nodeIds],
+      deltaE: match.deltaE
+    });
+    groupMap.set(match.canonical, group);
+  }
+
+  const analysis: ColorAnalysis = {
+    palette: {
+      source: isProfile ? 'PROFILE' : 'LEARNED',
+      colors: isProfile ? paletteColors : canonicals
+    },
+    threshold,
+    groups: [...groupMap.values()].sort((a, b) => b.totalUsage - a.totalUsage),
+    matches,
+    totalUsages
+  };
+
+  cached.set(cacheKey, analysis);
+  analysisCache.set(allNodes, cached);
+
+  return analysis;
+}
+
+/**
+ * 色がパレット上の色か判定
+ */
+export function isOnPalette(color: string, analysis: ColorAnalysis): boolean {
+  return analysis.matches.get(color)?.canonical === color;
+}
+
+// =====================================
+// 統計
+// =====================================
+
+/**
+ * カラー統計を算出
+ *
+ * @param allNodes - 解析対象の全ノード
+ * @param threshold - 近似色とみなす色差
+ * @param profilePalette - プロファイル指定のパレット
+ */
+export function calculateColorStats(
+  allNodes: FigmaNode[],
+  threshold?: number,
+  profilePalette?: string[]
+): ColorStats {
+  const analysis = analyzeColors(allNodes, threshold, profilePalette);
+  const colors = [...analysis.matches.keys()];
+
+  return {
+    palette: analysis.palette,
+    threshold: analysis.threshold,
+    totalUsages: analysis.totalUsages,
+    distinctColors: colors.length,
+    nearDuplicateGroups: analysis.groups.filter(group =>
+      group.members.some(member => member.color !== group.canonical)
+    ),
+    offPaletteColors: colors.filter(color => !isOnPalette(color, analysis)).length
+  };
+}
+
+// =====================================
+// Helpers
+// =====================================
+
+function alphaOf(hex: string): string {
+  return hex.length === 9 ? hex.slice(7) : 'FF';
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  getColorUsages,
+  toHex,
+  normalizeHex,
+  hexToLab,
+  deltaE2000,
+  colorDistance,
+  compositeOver,
+  relativeLuminance,
+  contrastRatio,
+  analyzeColors,
+  isOnPalette,
+  calculateColorStats
+};
@@ -0,0 +1,120 @@
+// =====================================
+// backend/src/rules/colorRules.ts
+// カラールール実装 14 - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: BaseRuleChecker, colorAnalysis, types/rules
+// 説明: 塗り・線の色のパレット整合性（近似色のばらつき）ルールの実装
+// =====================================
+
+import { BaseRuleChecker, getNodeLabel } from './BaseRuleChecker';
+import {
+  analyzeColors,
+  getColorUsages,
+  COLOR_NODE_TYPES,
+  DEFAULT_COLOR_THRESHOLD,
+  ColorUsage,
+  PaletteMatch
+} from './colorAnalysis';
+import type { RuleCheckResult, RuleCheckContext } from '../types/rules';
+import type { FigmaNode } from '../services/figmaApiService';
+import { RuleId, RuleCategory, Severity } from '../types/rules';
+
+// =====================================
+// Rule 14: COLOR_OFF_PALETTE
+// =====================================
+
+/**
+ * カラーパレットルール
+ * MINOR: パレット色とわずかに異なる色は、Tailwindのカラートークンに集約できず任意値クラスになる
+ */
+export class ColorOffPaletteRule extends BaseRuleChecker {
+  constructor() {
+    super({
+      id: RuleId.COLOR_OFF_PALETTE,
+      name: 'カラーパレット',
+      category: RuleCategory.COLOR,
+      severity: Severity.MINOR,
+      description: '塗り・線にはカラーパレットの色を使用してください',
+      impactTemplate: 'パレットとわずかに異なる色は任意値クラス（例: bg-[#3B82F5]）になり、配色の一貫性が低下します',
+      scoreImpact: 2,
+      nodeTypes: COLOR_NODE_TYPES,
+      defaultParams: {
+        palette: [],                          // パレット色（#RRGGBB）。空の場合はファイル内の色から学習
+        threshold: DEFAULT_COLOR_THRESHOLD    // 近似色とみなす色差（CIEDE2000）
+      }
+    });
+  }
+
+  check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
+    // 対象ノードタイプのみチェック
+    if (!this.appliesTo(node)) {
+      return this.passed();
+    }
+
+    const usages = getColorUsages(node);
+    if (usages.length === 0) {
+      return this.passed();
+    }
+
+    const analysis = analyzeColors(
+      context.allNodes,
+      this.getParam<number>(context, 'threshold'),
+      this.getParam<string[]>(context, 'palette')
+    );
+
+    const offPalette = usages
+      .map(usage => ({ usage, match: analysis.matches.get(usage.color)! }))
+      .filter(({ usage, match }) => match.canonical !== usage.color);
+
+    if (offPalette.length === 0) {
+      return this.passed();
+    }
+
+    // 近似色グループに属する色は代表色へ統一、属さない色は最も近いパレット色を提示
+    const unifiable = offPalette.filter(({ match }) => match.canonical !== null);
+    const suggestion = unifiable.length === offPalette.length
+      ? `${formatExpected(offPalette)} に統一してください（AutoFix: 色の統一で一括修正できます）`
+      : `パレット色に変更するか、パレットに追加してください（最も近い色: ${formatExpected(offPalette)}）`;
+
+    const violation = this.createViolation(
+      node,
+      `${getNodeLabel(node)} "${node.name}" がパレット外の色を使用しています（${formatDetected(offPalette)}）`,
+      '近似色ごとに別のカラークラスが生成され、テーマ変更時に修正漏れが発生します',
+      suggestion,
+      formatDetected(offPalette),
+      formatExpected(offPalette)
+    );
+    return this.failed(violation);
+  }
+}
+
+// =====================================
+// Helpers
+// =====================================
+
+interface OffPaletteColor {
+  usage: ColorUsage;
+  match: PaletteMatch;
+}
+
+function formatDetected(items: OffPaletteColor[]): string {
+  return items
+    .map(({ usage, match }) =>
+      `${usage.property}[${usage.index}]: ${usage.color}${Number.isFinite(match.deltaE) ? ` (ΔE ${match.deltaE})` : ''}`
+    )
+    .join(', ');
+}
+
+function formatExpected(items: OffPaletteColor[]): string {
+  return items
+    .map(({ usage, match }) => `${usage.property}[${usage.index}]: ${match.canonical ?? match.nearest ?? '-'}`)
+    .join(', ');
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  ColorOffPaletteRule
+};
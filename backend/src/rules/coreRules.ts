@@ -2,10 +2,12 @@
 // backend/src/rules/coreRules.ts
 // コアルール実装 1-5 - FIGLEAN Phase 6.4
 // 作成日時: 2026年1月11日
+// 更新日時: 2026年10月19日 - NON_SEMANTIC_NAMEにプロジェクト別の命名規則（プリセット・正規表現・禁止語）を追加
 // 説明: 最重要5ルールの実装
 // =====================================
 
-import { BaseRuleChecker, hasAutoLayout, hasAbsolutePositioning, hasFixedSize, hasWrapEnabled, isSemanticName } from './BaseRuleChecker';
+import { BaseRuleChecker, getNodeLabel, hasAutoLayout, hasAbsolutePositioning, hasFixedSize, hasWrapEnabled } from './BaseRuleChecker';
+import { resolveNamingPolicy, evaluateName, suggestName, describeNamingPolicy } from './namingPolicy';
 import type { RuleCheckResult, RuleCheckContext } from '../types/rules';
 import type { FigmaNode } from '../services/figmaApiService';
 import { RuleId, RuleCategory, Severity } from '../types/rules';
@@ -25,15 +27,16 @@ export class AutoLayoutRequiredRule extends BaseRuleChecker {
       name: 'Auto Layout必須',
       category: RuleCategory.LAYOUT,
       severity: Severity.CRITICAL,
-      description: 'FrameにはAuto Layoutを設定する必要があります',
+      description: 'Frame・ComponentにはAuto Layoutを設定する必要があります',
       impactTemplate: 'Auto Layoutなしでは、レスポンシブなHTML/CSSに変換できません',
-      scoreImpact: 10
+      scoreImpact: 10,
+      nodeTypes: ['FRAME', 'COMPONENT']
     });
   }
 
   check(node: FigmaNode, _context: RuleCheckContext): RuleCheckResult {
-    // FRAMEタイプのみチェック
-    if (node.type !== 'FRAME') {
+    // 対象ノードタイプのみチェック
+    if (!this.appliesTo(node)) {
       return this.passed();
     }
 
@@ -41,7 +44,7 @@ export class AutoLayoutRequiredRule extends BaseRuleChecker {
     if (!hasAutoLayout(node)) {
       const violation = this.createViolation(
         node,
-        `Frame "${node.name}" にAuto Layoutが設定されていません`,
+        `${getNodeLabel(node)} "${node.name}" にAuto Layoutが設定されていません`,
         'レスポンシブなFlexbox/Gridレイアウトに変換できず、HTML生成が不可能です',
         'Auto Layout設定を追加してください（Shift + A）',
         'NONE',
@@ -71,13 +74,32 @@ export class AbsolutePositioningRule extends BaseRuleChecker {
       severity: Severity.CRITICAL,
       description: '絶対配置（Absolute Positioning）は使用禁止です',
       impactTemplate: '絶対配置では画面サイズに応じた柔軟なレイアウトが実現できません',
-      scoreImpact: 10
+      scoreImpact: 10,
+      nodeTypes: ['FRAME', 'COMPONENT', 'INSTANCE', 'GROUP']
     });
   }
 
   check(node: FigmaNode, _context: RuleCheckContext): RuleCheckResult {
-    // FRAMEタイプのみチェック
-    if (node.type !== 'FRAME') {
+    // 対象ノードタイプのみチェック
+    if (!this.appliesTo(node)) {
+      return this.passed();
+    }
+
+    // Auto Layout内で絶対配置された要素（全対象タイプ共通）
+    if (node.layoutPositioning === 'ABSOLUTE') {
+      const violation = this.createViolation(
+        node,
+        `${getNodeLabel(node)} "${node.name}" は親のAuto Layout内で絶対配置されています`,
+        'Auto Layoutの流れから外れるため、画面幅が変わると他の要素と重なる可能性があります',
+        'Absolute positionを解除し、Auto Layoutの並びに含めてください',
+        'Position: Absolute',
+        'Position: Auto'
+      );
+      return this.failed(violation);
+    }
+
+    // インスタンス・グループのレイアウトはコンポーネント本体・GROUP_AS_LAYOUTで判定
+    if (node.type === 'INSTANCE' || node.type === 'GROUP') {
       return this.passed();
     }
 
@@ -85,7 +107,7 @@ export class AbsolutePositioningRule extends BaseRuleChecker {
     if (hasAbsolutePositioning(node)) {
       const violation = this.createViolation(
         node,
-        `Frame "${node.name}" で絶対配置が使用されています`,
+        `${getNodeLabel(node)} "${node.name}" で絶対配置が使用されています`,
         'レスポンシブ対応が困難になり、モバイル表示で崩れる可能性が高いです',
         'Auto Layoutを使用して相対配置に変更してください',
         '絶対配置',
@@ -115,13 +137,19 @@ export class FixedSizeDetectedRule extends BaseRuleChecker {
       severity: Severity.MAJOR,
       description: '固定サイズ（Fixed Width/Height）の使用を避けてください',
       impactTemplate: '固定サイズでは画面サイズに応じた柔軟なレイアウトができません',
-      scoreImpact: 5
+      scoreImpact: 5,
+      nodeTypes: ['FRAME', 'COMPONENT', 'INSTANCE']
     });
   }
 
   check(node: FigmaNode, _context: RuleCheckContext): RuleCheckResult {
-    // FRAMEタイプのみチェック
-    if (node.type !== 'FRAME') {
+    // 対象ノードタイプのみチェック
+    if (!this.appliesTo(node)) {
+      return this.passed();
+    }
+
+    // インスタンスはAuto Layoutを持つ場合のサイズ上書きのみチェック（レイアウト自体はコンポーネント本体で判定）
+    if (node.type === 'INSTANCE' && !hasAutoLayout(node)) {
       return this.passed();
     }
 
@@ -133,7 +161,7 @@ export class FixedSizeDetectedRule extends BaseRuleChecker {
 
       const violation = this.createViolation(
         node,
-        `Frame "${node.name}" で固定サイズが使用されています`,
+        `${getNodeLabel(node)} "${node.name}" で固定サイズが使用されています`,
         'レスポンシブ対応が制限され、異なる画面サイズで適切に表示されない可能性があります',
         'Hug Contents または Fill Container に変更してください',
         detectedValue,
@@ -163,18 +191,23 @@ export class WrapOffRule extends BaseRuleChecker {
       severity: Severity.MAJOR,
       description: '複数要素を含むAuto LayoutではWrapを有効にしてください',
       impactTemplate: 'Wrapがないと、モバイル表示時に横スクロールが発生します',
-      scoreImpact: 5
+      scoreImpact: 5,
+      nodeTypes: ['FRAME', 'COMPONENT'],
+      defaultParams: {
+        minChildren: 3  // チェック対象とする最小子要素数
+      }
     });
   }
 
-  check(node: FigmaNode, _context: RuleCheckContext): RuleCheckResult {
-    // FRAMEタイプでAuto Layout有りのみチェック
-    if (node.type !== 'FRAME' || !hasAutoLayout(node)) {
+  check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
+    // 対象ノードタイプでAuto Layout有りのみチェック
+    if (!this.appliesTo(node) || !hasAutoLayout(node)) {
       return this.passed();
     }
 
-    // 子要素が3つ以上ある場合のみチェック
-    if (!node.children || node.children.length < 3) {
+    // 子要素が一定数（デフォルト3つ）以上ある場合のみチェック
+    const minChildren = this.getParam<number>(context, 'minChildren');
+    if (!node.children || node.children.length < minChildren) {
       return this.passed();
     }
 
@@ -182,7 +215,7 @@ export class WrapOffRule extends BaseRuleChecker {
     if (!hasWrapEnabled(node)) {
       const violation = this.createViolation(
         node,
-        `Frame "${node.name}" でWrapが無効になっています（子要素: ${node.children.length}個）`,
+        `${getNodeLabel(node)} "${node.name}" でWrapが無効になっています（子要素: ${node.children.length}個）`,
         'モバイル表示時に要素が折り返されず、横スクロールが発生する可能性があります',
         'Auto Layout設定で "Wrap" を有効にしてください',
         'Wrap: OFF',
@@ -202,6 +235,7 @@ export class WrapOffRule extends BaseRuleChecker {
 /**
  * セマンティック命名ルール
  * MINOR: 命名規則はメンテナンス性とSEOに影響
+ * 命名規則はプロジェクトのルールプロファイル（preset / patterns / bannedWords）で設定する
  */
 export class NonSemanticNameRule extends BaseRuleChecker {
   constructor() {
@@ -210,32 +244,59 @@ export class NonSemanticNameRule extends BaseRuleChecker {
       name: 'セマンティック命名',
       category: RuleCategory.SEMANTIC,
       severity: Severity.MINOR,
-      description: 'Frameには意味のある名前を付けてください',
+      description: 'Frame・Component・Group・Sectionには意味のある名前を付けてください',
       impactTemplate: '適切な命名はコードの可読性とSEOに影響します',
-      scoreImpact: 2
+      scoreImpact: 2,
+      nodeTypes: ['FRAME', 'COMPONENT', 'GROUP', 'SECTION'],
+      defaultParams: {
+        preset: 'DEFAULT',  // DEFAULT / KEBAB_CASE / BEM / PASCAL_CASE_COMPONENTS / SLASH_HIERARCHY / CUSTOM
+        patterns: [],       // 追加で許可する名前の正規表現（名前全体に一致）
+        bannedWords: []     // 名前に含めてはいけない単語（例: "copy", "tmp"）
+      }
     });
   }
 
-  check(node: FigmaNode, _context: RuleCheckContext): RuleCheckResult {
-    // FRAMEタイプのみチェック
-    if (node.type !== 'FRAME') {
+  check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
+    // 対象ノードタイプのみチェック
+    if (!this.appliesTo(node)) {
       return this.passed();
     }
 
-    // セマンティックな命名かチェック
-    if (!isSemanticName(node.name)) {
-      const violation = this.createViolation(
-        node,
-        `Frame "${node.name}" は非セマンティックな名前です`,
-        'HTML生成時のclass名やID、アクセシビリティに影響します',
-        'header, section-hero, card-product などの意味のある名前に変更してください',
-        node.name,
-        'section-* / header / nav / card-*'
-      );
-      return this.failed(violation);
+    // 命名規則に適合するかチェック
+    const policy = resolveNamingPolicy({
+      preset: this.getParam<string>(context, 'preset'),
+      patterns: this.getParam<string[]>(context, 'patterns'),
+      bannedWords: this.getParam<string[]>(context, 'bannedWords')
+    });
+    const evaluation = evaluateName(node, policy);
+
+    if (evaluation.compliant) {
+      return this.passed();
     }
 
-    return this.passed();
+    const label = `${getNodeLabel(node)} "${node.name}"`;
+    const rule = describeNamingPolicy(policy);
+    const suggested = suggestName(node, policy, context.parentNode);
+
+    const descriptions = {
+      DEFAULT_NAME: `${label} はFigmaの自動命名のままです`,
+      BANNED_WORD: `${label} に使用禁止の単語（${evaluation.bannedWords.join(', ')}）が含まれています`,
+      PATTERN: policy.preset === 'DEFAULT'
+        ? `${label} は非セマンティックな名前です`
+        : `${label} は命名規則（${rule}）に従っていません`
+    };
+
+    const violation = this.createViolation(
+      node,
+      descriptions[evaluation.reason!],
+      'HTML生成時のclass名やID、アクセシビリティに影響します',
+      suggested
+        ? `"${suggested}" に変更してください（命名規則: ${rule}）`
+        : `命名規則（${rule}）に従った名前に変更してください`,
+      node.name,
+      suggested ?? rule
+    );
+    return this.failed(violation);
   }
 }
 
@@ -0,0 +1,399 @@
+// =====================================
+// backend/src/rules/customRules.ts
+// カスタムルール実装 - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: BaseRuleChecker, types/rules, errors
+// 説明: RuleDefinition.checkLogic（宣言的ルール言語）のコンパイルと実行
+// =====================================
+
+import { BaseRuleChecker, DEFAULT_NODE_TYPES } from './BaseRuleChecker';
+import type {
+  RuleCheckResult,
+  RuleCheckContext,
+  RuleDefinition,
+  CustomRuleCondition,
+  CustomRuleCount,
+  CustomRuleLogic,
+  CustomRuleOperator
+} from '../types/rules';
+import type { FigmaNode } from '../services/figmaApiService';
+import { ValidationError } from '../errors';
+
+// =====================================
+// 型定義
+// =====================================
+
+/**
+ * コンパイル済み条件式
+ */
+type CompiledCondition = (node: FigmaNode, context: RuleCheckContext) => boolean;
+
+const OPERATORS: CustomRuleOperator[] = [
+  'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'notIn', 'exists', 'notExists', 'matches'
+];
+
+const COUNT_OPERATORS: CustomRuleCount['op'][] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte'];
+
+// 条件式のネスト上限（不正データによるスタック溢れ防止）
+const MAX_CONDITION_DEPTH = 20;
+
+// =====================================
+// Custom Rule Checker
+// =====================================
+
+/**
+ * カスタムルールチェッカー
+ * DBのRuleDefinition.checkLogicから生成され、組み込みルールと同様に実行される
+ */
+export class CustomRuleChecker extends BaseRuleChecker {
+  private readonly condition: CompiledCondition;
+  private readonly logic: CustomRuleLogic;
+
+  constructor(definition: RuleDefinition, logic: CustomRuleLogic) {
+    super({ ...definition, nodeTypes: logic.nodeTypes ?? DEFAULT_NODE_TYPES });
+    this.logic = logic;
+    this.condition = compileCondition(logic.condition, 'condition', 0);
+  }
+
+  /**
+   * チェックロジックを取得（ワーカースレッドへの受け渡し用）
+   */
+  getLogic(): CustomRuleLogic {
+    return this.logic;
+  }
+
+  check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
+    // 対象ノードタイプのみチェック
+    if (!this.appliesTo(node)) {
+      return this.passed();
+    }
+
+    if (!this.condition(node, context)) {
+      return this.passed();
+    }
+
+    const violation = this.createViolation(
+      node,
+      renderTemplate(this.logic.message ?? this.definition.description, node),
+      this.definition.impactTemplate,
+      this.logic.suggestion ? renderTemplate(this.logic.suggestion, node) : undefined,
+      this.logic.detectedValue ? renderTemplate(this.logic.detectedValue, node) : undefined,
+      this.logic.expectedValue ? renderTemplate(this.logic.expectedValue, node) : undefined
+    );
+    return this.failed(violation);
+  }
+}
+
+// =====================================
+// Parse / Compile
+// =====================================
+
+/**
+ * checkLogic（JSONまたはJSON文字列）を検証してCustomRuleLogicに変換
+ *
+ * @param raw - RuleDefinition.checkLogic の値
+ * @returns 検証済みチェックロジック
+ * @throws ValidationError - 構文エラー
+ */
+export function parseCheckLogic(raw: unknown): CustomRuleLogic {
+  let value = raw;
+
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      throw new ValidationError('checkLogicのJSONが不正です', 'checkLogic');
+    }
+  }
+
+  if (!isObject(value)) {
+    throw new ValidationError('checkLogicはオブジェクトである必要があります', 'checkLogic');
+  }
+
+  if (value.condition === undefined) {
+    throw new ValidationError('checkLogic.conditionは必須です', 'checkLogic.condition');
+  }
+
+  if (
+    value.nodeTypes !== undefined &&
+    (!Array.isArray(value.nodeTypes) || !value.nodeTypes.every(t => typeof t === 'string'))
+  ) {
+    throw new ValidationError('checkLogic.nodeTypesは文字列配列である必要があります', 'checkLogic.nodeTypes');
+  }
+
+  for (const key of ['message', 'suggestion', 'detectedValue', 'expectedValue']) {
+    if (value[key] !== undefined && typeof value[key] !== 'string') {
+      throw new ValidationError(`checkLogic.${key}は文字列である必要があります`, `checkLogic.${key}`);
+    }
+  }
+
+  // 条件式は構文チェックのためにコンパイルしておく
+  compileCondition(value.condition, 'condition', 0);
+
+  return value as unknown as CustomRuleLogic;
+}
+
+/**
+ * 条件式をコンパイル
+ * 正規表現などはここで一度だけ生成し、ノードごとの評価コストを抑える
+ *
+ * @param raw - 条件式
+ * @param path - エラー表示用のパス
+ * @param depth - ネスト深度
+ */
+function compileCondition(raw: unknown, path: string, depth: number): CompiledCondition {
+  if (depth > MAX_CONDITION_DEPTH) {
+    throw new ValidationError(`条件式のネストが深すぎます（最大${MAX_CONDITION_DEPTH}）`, path);
+  }
+
+  if (!isObject(raw)) {
+    throw new ValidationError('条件式はオブジェクトである必要があります', path);
+  }
+
+  const cond = raw as CustomRuleCondition;
+
+  if ('all' in cond || 'any' in cond) {
+    const items = 'all' in cond ? cond.all : cond.any;
+    const key = 'all' in cond ? 'all' : 'any';
+
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new ValidationError(`${key}は1つ以上の条件式の配列である必要があります`, `${path}.${key}`);
+    }
+
+    const compiled = items.map((item, i) => compileCondition(item, `${path}.${key}[${i}]`, depth + 1));
+
+    return key === 'all'
+      ? (node, context) => compiled.every(c => c(node, context))
+      : (node, context) => compiled.some(c => c(node, context));
+  }
+
+  if ('not' in cond) {
+    const inner = compileCondition(cond.not, `${path}.not`, depth + 1);
+    return (node, context) => !inner(node, context);
+  }
+
+  if ('property' in cond) {
+    return compilePropertyCondition(cond, path);
+  }
+
+  if ('name' in cond) {
+    const regex = compileRegex(cond.name, cond.flags, `${path}.name`);
+    return node => regex.test(node.name);
+  }
+
+  if ('parent' in cond) {
+    const inner = compileCondition(cond.parent, `${path}.parent`, depth + 1);
+
+    return (node, context) => {
+      const parent = findParent(node, context);
+      if (!parent) {
+        return false;
+      }
+      return inner(parent, { ...context, parentNode: findParent(parent, context) });
+    };
+  }
+
+  if ('children' in cond) {
+    return compileChildrenCondition(cond.children, `${path}.children`, depth);
+  }
+
+  throw new ValidationError(
+    '不明な条件式です（all / any / not / property / name / parent / children のいずれかを指定してください）',
+    path
+  );
+}
+
+/**
+ * プロパティ比較条件をコンパイル
+ */
+function compilePropertyCondition(
+  cond: { property: string; op: CustomRuleOperator; value?: unknown; flags?: string },
+  path: string
+): CompiledCondition {
+  if (typeof cond.property !== 'string' || cond.property.length === 0) {
+    throw new ValidationError('propertyは文字列である必要があります', `${path}.property`);
+  }
+
+  if (!OPERATORS.includes(cond.op)) {
+    throw new ValidationError(`opは${OPERATORS.join(', ')}のいずれかである必要があります`, `${path}.op`);
+  }
+
+  const segments = cond.property.split('.');
+  const expected = cond.value;
+
+  switch (cond.op) {
+    case 'exists':
+      return node => getPropertyValue(node, segments) !== undefined;
+
+    case 'notExists':
+      return node => getPropertyValue(node, segments) === undefined;
+
+    case 'eq':
+      return node => getPropertyValue(node, segments) === expected;
+
+    case 'neq':
+      return node => getPropertyValue(node, segments) !== expected;
+
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      if (typeof expected !== 'number') {
+        throw new ValidationError(`${cond.op}のvalueは数値である必要があります`, `${path}.value`);
+      }
+      const op = cond.op;
+      return node => {
+        const actual = getPropertyValue(node, segments);
+        return typeof actual === 'number' && compareNumber(actual, op, expected);
+      };
+    }
+
+    case 'in':
+    case 'notIn': {
+      if (!Array.isArray(expected)) {
+        throw new ValidationError(`${cond.op}のvalueは配列である必要があります`, `${path}.value`);
+      }
+      const negate = cond.op === 'notIn';
+      return node => expected.includes(getPropertyValue(node, segments)) !== negate;
+    }
+
+    case 'matches': {
+      const regex = compileRegex(expected, cond.flags, `${path}.value`);
+      return node => {
+        const actual = getPropertyValue(node, segments);
+        return typeof actual === 'string' && regex.test(actual);
+      };
+    }
+  }
+}
+
+/**
+ * 子ノード条件をコンパイル
+ */
+function compileChildrenCondition(
+  raw: unknown,
+  path: string,
+  depth: number
+): CompiledCondition {
+  if (!isObject(raw)) {
+    throw new ValidationError('childrenはオブジェクトである必要があります', path);
+  }
+
+  const keys = ['some', 'every', 'none', 'count'].filter(k => raw[k] !== undefined);
+  if (keys.length !== 1) {
+    throw new ValidationError('childrenには some / every / none / count のいずれか1つを指定してください', path);
+  }
+
+  const key = keys[0];
+  const childContext = (node: FigmaNode, context: RuleCheckContext): RuleCheckContext => ({
+    ...context,
+    depth: context.depth + 1,
+    parentNode: node
+  });
+
+  if (key === 'count') {
+    const count = raw.count as CustomRuleCount & { where?: CustomRuleCondition };
+
+    if (!isObject(count) || !COUNT_OPERATORS.includes(count.op) || typeof count.value !== 'number') {
+      throw new ValidationError('countは { op, value, where? } 形式である必要があります', `${path}.count`);
+    }
+
+    const where = count.where !== undefined
+      ? compileCondition(count.where, `${path}.count.where`, depth + 1)
+      : undefined;
+
+    return (node, context) => {
+      const children = node.children ?? [];
+      const matched = where
+        ? children.filter(child => where(child, childContext(node, context))).length
+        : children.length;
+      return compareNumber(matched, count.op, count.value);
+    };
+  }
+
+  const inner = compileCondition(raw[key], `${path}.${key}`, depth + 1);
+
+  return (node, context) => {
+    const children = node.children ?? [];
+    const test = (child: FigmaNode) => inner(child, childContext(node, context));
+
+    if (key === 'some') return children.some(test);
+    if (key === 'every') return children.length > 0 && children.every(test);
+    return !children.some(test);
+  };
+}
+
+// =====================================
+// Helpers
+// =====================================
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function compileRegex(pattern: unknown, flags: unknown, path: string): RegExp {
+  if (typeof pattern !== 'string') {
+    throw new ValidationError('正規表現は文字列である必要があります', path);
+  }
+
+  if (flags !== undefined && (typeof flags !== 'string' || !/^[imsu]*$/.test(flags))) {
+    throw new ValidationError('flagsは i / m / s / u の組み合わせである必要があります', path);
+  }
+
+  try {
+    return new RegExp(pattern, flags as string | undefined);
+  } catch {
+    throw new ValidationError(`正規表現が不正です: ${pattern}`, path);
+  }
+}
+
+function compareNumber(actual: number, op: CustomRuleCount['op'], expected: number): boolean {
+  switch (op) {
+    case 'eq': return actual === expected;
+    case 'neq': return actual !== expected;
+    case 'gt': return actual > expected;
+    case 'gte': return actual >= expected;
+    case 'lt': return actual < expected;
+    case 'lte': return actual <= expected;
+  }
+}
+
+function getPropertyValue(node: FigmaNode, segments: string[]): unknown {
+  let current: any = node;
+
+  for (const segment of segments) {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+
+  return current;
+}
+
+function findParent(node: FigmaNode, context: RuleCheckContext): FigmaNode | undefined {
+  return context.getParent ? context.getParent(node) : undefined;
+}
+
+/**
+ * テンプレート文字列を展開
+ * {name} {type} {id} や {absoluteBoundingBox.width} をノードの値で置換する
+ */
+function renderTemplate(template: string, node: FigmaNode): string {
+  return template.replace(/\{([a-zA-Z0-9_.]+)\}/g, (match, key: string) => {
+    const value = getPropertyValue(node, key.split('.'));
+    if (value === undefined || value === null) {
+      return match;
+    }
+    return typeof value === 'number' ? String(Math.round(value * 100) / 100) : String(value);
+  });
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  CustomRuleChecker,
+  parseCheckLogic
+};
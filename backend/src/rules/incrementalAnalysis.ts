@@ -0,0 +1,241 @@
+// =====================================
+// backend/src/rules/incrementalAnalysis.ts
+// 差分解析ユーティリティ - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: crypto, BaseRuleChecker, suppression, types/rules
+// 説明: トップレベルフレームごとのコンテンツハッシュを算出し、変更のないフレームの前回解析結果を再利用する
+// =====================================
+
+import { createHash } from 'crypto';
+import type { FigmaNode } from '../services/figmaApiService';
+import type {
+  AnalysisResultSummary,
+  FrameAnalysisCache,
+  FrameAnalysisCacheEntry,
+  RuleViolation,
+  SuppressedViolation
+} from '../types/rules';
+import { summarizeSuppressions } from './suppression';
+import { FRAME_LIKE_TYPES } from './BaseRuleChecker';
+
+// =====================================
+// Hash
+// =====================================
+
+/**
+ * JSONシリアライズ可能な値のハッシュを生成
+ */
+export function hashJson(value: unknown): string {
+  return createHash('sha1').update(JSON.stringify(value) ?? '').digest('hex');
+}
+
+/**
+ * トップレベルフレーム（ページ直下のノード）を列挙
+ */
+function collectTopLevelFrames(document: FigmaNode): Array<{ page: FigmaNode; frame: FigmaNode }> {
+  const frames: Array<{ page: FigmaNode; frame: FigmaNode }> = [];
+
+  for (const page of document.children ?? []) {
+    for (const frame of page.children ?? []) {
+      frames.push({ page, frame });
+    }
+  }
+
+  return frames;
+}
+
+/**
+ * トップレベルフレームごとのコンテンツハッシュを算出
+ * ページ自身の属性（名前・背景・抑制マーカー）もノードパスやコントラスト判定に影響するためハッシュに含める
+ *
+ * @param document - Figmaドキュメントのルートノード
+ * @returns トップレベルフレームID → ハッシュ
+ */
+export function computeFrameHashes(document: FigmaNode): Map<string, string> {
+  const hashes = new Map<string, string>();
+
+  for (const { page, frame } of collectTopLevelFrames(document)) {
+    const { children: _children, ...pageProps } = page;
+    hashes.set(frame.id, hashJson({ page: pageProps, frame }));
+  }
+
+  return hashes;
+}
+
+/**
+ * ファイル全体から学習した値（スケール・パレット・近似グループ）のハッシュを生成
+ * これが変わると変更のないフレームでも違反が変わりうるため、差分解析の結果は使えない
+ */
+export function createContextSignature(summary: AnalysisResultSummary): string {
+  return hashJson({
+    spacingScale: summary.spacing.spacingScale,
+    radiusScale: summary.spacing.radiusScale,
+    palette: summary.colors.palette,
+    colorGroups: summary.colors.nearDuplicateGroups.map(group => [
+      group.canonical,
+      group.members.map(member => member.color)
+    ]),
+    typeScale: summary.typography.typeScale,
+    typographyGroups: summary.typography.nearDuplicateGroups.map(group => [
+      group.label,
+      group.members.map(member => member.label)
+    ]),
+    breakpointGroups: summary.breakpoints.groups.map(group => [
+      group.referenceBreakpoint,
+      group.frames.map(frame => frame.frameId)
+    ]),
+    repeatedStructures: summary.repeatedStructures.groups.map(group => [
+      group.suggestedName,
+      group.nodeIds
+    ])
+  });
+}
+
+// =====================================
+// Reuse
+// =====================================
+
+/**
+ * 前回結果を再利用できるトップレベルフレームを取得
+ * ルール設定等（inputSignature）が変わっている場合は再利用しない
+ * ブレークポイントバリアントのグループは、1つでも変更されたフレームがあればグループ全体を再解析する
+ *
+ * @param hashes - 今回のトップレベルフレームハッシュ
+ * @param cache - 前回解析のキャッシュ
+ * @param inputSignature - 今回のルール設定・プロファイル・抑制レジストリのハッシュ
+ * @returns 再利用できるトップレベルフレームID
+ */
+export function findReusableFrames(
+  hashes: Map<string, string>,
+  cache: FrameAnalysisCache | null,
+  inputSignature: string
+): string[] {
+  if (!cache || cache.inputSignature !== inputSignature) {
+    return [];
+  }
+
+  const reusable = new Set(
+    [...hashes].filter(([id, hash]) => cache.frames[id]?.hash === hash).map(([id]) => id)
+  );
+
+  for (const group of cache.variantGroups ?? []) {
+    if (group.some(id => !reusable.has(id))) {
+      group.forEach(id => reusable.delete(id));
+    }
+  }
+
+  return [...reusable];
+}
+
+/**
+ * 今回の解析結果に、再利用するフレームの前回結果をマージ
+ *
+ * @param summary - 再利用フレームを除いて解析したサマリー（スコア計算前）
+ * @param cache - 前回解析のキャッシュ
+ * @param reusedFrameIds - 再利用するトップレベルフレームID
+ * @returns マージ後のサマリー
+ */
+export function mergeCachedFrames(
+  summary: AnalysisResultSummary,
+  cache: FrameAnalysisCache,
+  reusedFrameIds: string[]
+): AnalysisResultSummary {
+  const entries = reusedFrameIds.map(id => cache.frames[id]);
+  const violations = [...summary.violations, ...entries.flatMap(entry => entry.violations)];
+  const suppressedViolations = [
+    ...summary.suppressedViolations,
+    ...entries.flatMap(entry => entry.suppressedViolations)
+  ];
+
+  return {
+    ...summary,
+    analyzedFrames: summary.analyzedFrames + entries.reduce((sum, entry) => sum + entry.frameCount, 0),
+    scoreResult: {
+      ...summary.scoreResult,
+      violations: {
+        critical: violations.filter(v => v.severity === 'CRITICAL').length,
+        major: violations.filter(v => v.severity === 'MAJOR').length,
+        minor: violations.filter(v => v.severity === 'MINOR').length,
+        info: violations.filter(v => v.severity === 'INFO').length
+      }
+    },
+    violations,
+    suppressedViolations,
+    suppression: summarizeSuppressions(suppressedViolations)
+  };
+}
+
+/**
+ * 次回の差分解析用キャッシュを構築
+ * トップレベルフレームの外（ページ直下以外）の違反は毎回再解析するためキャッシュしない
+ *
+ * @param document - Figmaドキュメントのルートノード
+ * @param summary - 解析結果サマリー（スコア計算前、再利用分をマージ済み）
+ * @param hashes - トップレベルフレームハッシュ
+ * @param inputSignature - ルール設定・プロファイル・抑制レジストリのハッシュ
+ */
+export function buildFrameAnalysisCache(
+  document: FigmaNode,
+  summary: AnalysisResultSummary,
+  hashes: Map<string, string>,
+  inputSignature: string
+): FrameAnalysisCache {
+  const frames: Record<string, FrameAnalysisCacheEntry> = {};
+  const frameByNodeId = new Map<string, string>();
+
+  for (const { frame } of collectTopLevelFrames(document)) {
+    const entry: FrameAnalysisCacheEntry = {
+      hash: hashes.get(frame.id)!,
+      name: frame.name,
+      frameCount: 0,
+      violations: [],
+      suppressedViolations: []
+    };
+    frames[frame.id] = entry;
+
+    const stack: FigmaNode[] = [frame];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      frameByNodeId.set(node.id, frame.id);
+      if (FRAME_LIKE_TYPES.includes(node.type)) {
+        entry.frameCount++;
+      }
+      stack.push(...(node.children ?? []));
+    }
+  }
+
+  const entryOf = (violation: RuleViolation) => {
+    const frameId = frameByNodeId.get(violation.frameId);
+    return frameId ? frames[frameId] : undefined;
+  };
+
+  summary.violations.forEach(violation => entryOf(violation)?.violations.push(violation));
+  summary.suppressedViolations.forEach((suppressed: SuppressedViolation) =>
+    entryOf(suppressed.violation)?.suppressedViolations.push(suppressed)
+  );
+
+  // バリアントフレーム（Section内のフレームを含む）をトップレベルフレームIDに変換
+  const variantGroups = summary.breakpoints.groups
+    .map(group => [...new Set(group.frames.map(frame => frameByNodeId.get(frame.frameId)))])
+    .filter((ids): ids is string[] => ids.length > 1 && ids.every(id => id !== undefined));
+
+  return {
+    inputSignature,
+    contextSignature: createContextSignature(summary),
+    frames,
+    variantGroups
+  };
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  hashJson,
+  computeFrameHashes,
+  createContextSignature,
+  findReusableFrames,
+  mergeCachedFrames,
+  buildFrameAnalysisCache
+};
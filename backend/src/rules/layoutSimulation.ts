@@ -0,0 +1,738 @@
+// =====================================
+// backend/src/rules/layoutSimulation.ts
+// ブレークポイント幅のレイアウトシミュレーション - FIGLEAN
+// 作成日時: 2026年10月19日
+// 更新日時: 2026年10月19日 - フォントメトリクスによるテキストの行数・はみ出し・切れの予測
+// 更新日時: 2026年10月19日 - 比較元（翻訳前等）のフレームをベースラインにしたシミュレーション
+// 更新日時: 2026年10月19日 - ブレークポイント幅での各ノードの位置・サイズ（予測のオーバーレイ描画用）
+// 依存関係: BaseRuleChecker, textMetrics
+// 説明: トップレベルフレームを各ブレークポイントの画面幅に置き換え、Auto Layoutのサイズ設定（FIXED / HUG / FILL）・
+//       Wrap・Gap、Auto Layout外の制約（constraints）に従って横幅を再計算し、
+//       はみ出すフレームと最小幅を下回る子要素、折り返しで切れる・崩れるテキストをその量（px）とともに検出する
+// =====================================
+
+import type { FigmaNode } from '../services/figmaApiService';
+import { hasAutoLayout } from './BaseRuleChecker';
+import { estimateTextLayout, estimateWidthForLines, resolveTextMetricsStyle } from './textMetrics';
+
+// =====================================
+// 型定義
+// =====================================
+
+/**
+ * 横方向のサイズ設定
+ */
+export type LayoutSizing = 'FIXED' | 'HUG' | 'FILL';
+
+/**
+ * シミュレーションするブレークポイント
+ */
+export interface SimulationBreakpoint {
+  name: string;
+  width: number;  // 画面幅（px）
+}
+
+/**
+ * 検出した問題の種類
+ * - OVERFLOW: 固定幅の子要素が親の幅に収まらない（はみ出し）
+ * - SQUEEZE: Fill Container・制約で伸縮する子要素が最小幅（Min Width）を下回る
+ * - TEXT: 伸縮するテキストが折り返しで切れる・はみ出す・行数が大きく増える
+ */
+export type LayoutIssueKind = 'OVERFLOW' | 'SQUEEZE' | 'TEXT';
+
+/**
+ * 問題が発生したレイアウト（OVERFLOWは問題のコンテナ、SQUEEZEは親コンテナのレイアウト）
+ */
+export type SimulatedLayout = 'HORIZONTAL' | 'WRAP' | 'VERTICAL' | 'CONSTRAINTS';
+
+/**
+ * はみ出しの原因となった子要素
+ */
+export interface LayoutIssueCause {
+  nodeId: string;
+  nodeName: string;
+  sizing: LayoutSizing;
+  width: number;
+}
+
+/**
+ * テキストの問題の内容
+ * - WORD_OVERFLOW: 最長の単語が幅に収まらず横にはみ出す
+ * - CLIPPED: 高さ固定・最大行数の設定で、折り返した行が切れる（省略される）
+ * - EXCESSIVE_WRAP: デザイン時より行数が大きく増える（1行の見出しが3行以上になる等）
+ */
+export type TextIssueOutcome = 'WORD_OVERFLOW' | 'CLIPPED' | 'EXCESSIVE_WRAP';
+
+/**
+ * テキストの問題の詳細（textMetricsによる概算）
+ */
+export interface TextIssueDetail {
+  outcome: TextIssueOutcome;
+  fontFamily: string;         // 字幅の計算に使ったフォントファミリー
+  fontSize: number;
+  lineCount: number;          // ブレークポイント幅での行数
+  designLineCount: number;    // デザイン時の幅での行数
+  visibleLines: number | null; // 表示できる行数（高さ固定・最大行数の設定が無ければnull）
+  lineHeight: number;
+}
+
+/**
+ * シミュレーションで検出した問題（幅はすべてpx、整数に丸める）
+ */
+export interface LayoutIssue {
+  kind: LayoutIssueKind;
+  layout: SimulatedLayout;
+  breakpoint: string;
+  screenWidth: number;
+  topLevelFrameId: string;
+  topLevelFrameName: string;
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
+  isTopLevel: boolean;        // トップレベルフレーム自身の問題（画面の横スクロール）
+  availableWidth: number;     // OVERFLOW: コンテンツ領域の幅 / SQUEEZE・TEXT: 割り当てられた幅
+  requiredWidth: number;      // OVERFLOW: 子要素に必要な幅 / SQUEEZE: 最小幅 / TEXT: 問題が起きない最小の幅
+  amount: number;             // 超過・不足した幅
+  causes: LayoutIssueCause[]; // OVERFLOWの原因（幅の大きい順）
+  text?: TextIssueDetail;     // TEXTの詳細
+}
+
+/**
+ * トップレベルフレーム × ブレークポイントのシミュレーション結果
+ */
+export interface FrameSimulation {
+  frameId: string;
+  frameName: string;
+  designWidth: number;
+  breakpoint: string;
+  screenWidth: number;
+  issues: LayoutIssue[];
+}
+
+/**
+ * ブレークポイント幅で再計算したノードの位置・サイズ（トップレベルフレームの左上が原点、px）
+ * 縦方向はWrapの折り返しのみ再計算し、それ以外はデザイン時の位置・高さを使う
+ */
+export interface SimulatedBox {
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
+  depth: number;   // トップレベルフレームが0
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * シミュレーション中の状態
+ */
+interface SimulationContext {
+  frame: FigmaNode;
+  breakpoint: SimulationBreakpoint;
+  issues: LayoutIssue[];
+  boxes?: SimulatedBox[];  // 指定時のみノードの位置・サイズを記録
+}
+
+/**
+ * ノードを配置する位置（トップレベルフレーム基準）
+ */
+interface Placement {
+  x: number;
+  y: number;
+  depth: number;
+}
+
+// =====================================
+// 設定
+// =====================================
+
+// 丸め誤差として無視する幅（px）
+const TOLERANCE = 1;
+
+// 1件の問題に記録する原因の最大数
+const MAX_CAUSES = 3;
+
+// 画面として扱うトップレベルノード（SECTIONは配下のフレームを画面として扱う）
+const SCREEN_TYPES = ['FRAME', 'COMPONENT', 'INSTANCE'];
+
+// 行数の増加を「崩れ」とする閾値: デザイン時の行数 n に対して max(2n - 1, n + 1) 行を超える
+const maxAcceptableLines = (designLineCount: number) => Math.max(designLineCount * 2 - 1, designLineCount + 1);
+
+// =====================================
+// サイズ設定
+// =====================================
+
+function isVisible(node: FigmaNode): boolean {
+  return node.visible !== false;
+}
+
+function designWidthOf(node: FigmaNode): number {
+  return node.absoluteBoundingBox?.width ?? 0;
+}
+
+function designHeightOf(node: FigmaNode): number {
+  return node.absoluteBoundingBox?.height ?? 0;
+}
+
+/**
+ * 親の中での子要素のデザイン時の位置
+ */
+function designOffsetOf(child: FigmaNode, parent: FigmaNode): { x: number; y: number } {
+  const box = parent.absoluteBoundingBox;
+  const childBox = child.absoluteBoundingBox;
+  return box && childBox ? { x: childBox.x - box.x, y: childBox.y - box.y } : { x: 0, y: 0 };
+}
+
+/**
+ * 横方向のサイズ設定を判定
+ * layoutSizingHorizontal が無いデータは、親のAuto Layoutでの伸長（layoutGrow / layoutAlign）と
+ * 自身のAuto Layoutのサイズモードから判定する
+ */
+export function resolveHorizontalSizing(node: FigmaNode, parent?: FigmaNode): LayoutSizing {
+  if (node.layoutSizingHorizontal) {
+    return node.layoutSizingHorizontal;
+  }
+
+  if (parent && hasAutoLayout(parent) && node.layoutPositioning !== 'ABSOLUTE') {
+    if (parent.layoutMode === 'HORIZONTAL' && node.layoutGrow === 1) {
+      return 'FILL';
+    }
+    if (parent.layoutMode === 'VERTICAL' && node.layoutAlign === 'STRETCH') {
+      return 'FILL';
+    }
+  }
+
+  if (hasAutoLayout(node)) {
+    const mode = node.layoutMode === 'HORIZONTAL' ? node.primaryAxisSizingMode : node.counterAxisSizingMode;
+    return mode === 'AUTO' ? 'HUG' : 'FIXED';
+  }
+
+  return 'FIXED';
+}
+
+/**
+ * 縮小できる下限の幅（Min Width設定）
+ * コンテナの内容による下限は配下のはみ出し、テキストの下限はTEXTの問題として報告する
+ */
+function minWidthOf(node: FigmaNode): number | null {
+  return node.minWidth !== undefined && node.minWidth > 0 ? node.minWidth : null;
+}
+
+// =====================================
+// 問題の記録
+// =====================================
+
+function baseIssue(node: FigmaNode, ctx: SimulationContext) {
+  return {
+    breakpoint: ctx.breakpoint.name,
+    screenWidth: ctx.breakpoint.width,
+    topLevelFrameId: ctx.frame.id,
+    topLevelFrameName: ctx.frame.name,
+    nodeId: node.id,
+    nodeName: node.name,
+    nodeType: node.type,
+    isTopLevel: node.id === ctx.frame.id
+  };
+}
+
+function recordOverflow(
+  node: FigmaNode,
+  layout: SimulatedLayout,
+  availableWidth: number,
+  requiredWidth: number,
+  causes: LayoutIssueCause[],
+  ctx: SimulationContext
+): void {
+  if (requiredWidth - availableWidth <= TOLERANCE) {
+    return;
+  }
+
+  ctx.issues.push({
+    kind: 'OVERFLOW',
+    layout,
+    ...baseIssue(node, ctx),
+    availableWidth: Math.round(availableWidth),
+    requiredWidth: Math.round(requiredWidth),
+    amount: Math.round(requiredWidth - availableWidth),
+    causes: [...causes]
+      .sort((a, b) => b.width - a.width)
+      .slice(0, MAX_CAUSES)
+      .map(cause => ({ ...cause, width: Math.round(cause.width) }))
+  });
+}
+
+/**
+ * 伸縮する子要素に割り当てた幅が最小幅を下回っていれば記録
+ */
+function checkSqueeze(node: FigmaNode, assignedWidth: number, layout: SimulatedLayout, ctx: SimulationContext): void {
+  const min = minWidthOf(node);
+  if (min === null || min - assignedWidth <= TOLERANCE) {
+    return;
+  }
+
+  ctx.issues.push({
+    kind: 'SQUEEZE',
+    layout,
+    ...baseIssue(node, ctx),
+    availableWidth: Math.round(assignedWidth),
+    requiredWidth: Math.round(min),
+    amount: Math.round(min - assignedWidth),
+    causes: []
+  });
+}
+
+/**
+ * 表示できる行数（高さ固定のテキストボックス・最大行数の省略設定）
+ * textAutoResize が無いデータは、縦方向のサイズ設定が FIXED のときに高さ固定とみなす
+ */
+function visibleLinesOf(node: FigmaNode, lineHeight: number): number | null {
+  const style = node.style;
+  const limits: number[] = [];
+
+  const fixedHeight = style?.textAutoResize
+    ? style.textAutoResize === 'NONE' || style.textAutoResize === 'TRUNCATE'
+    : node.layoutSizingVertical === 'FIXED';
+  const height = node.absoluteBoundingBox?.height;
+  if (fixedHeight && height !== undefined) {
+    limits.push(Math.max(Math.floor((height + TOLERANCE) / lineHeight), 1));
+  }
+  if (style?.textTruncation === 'ENDING' && style.maxLines && style.maxLines > 0) {
+    limits.push(style.maxLines);
+  }
+
+  return limits.length > 0 ? Math.min(...limits) : null;
+}
+
+/**
+ * 伸縮するテキストを割り当てた幅で折り返し、はみ出し・切れ・行数の大幅な増加を記録
+ * 1つのテキストにつき、最も深刻な問題（はみ出し → 切れ → 行数の増加）を1件記録する
+ */
+function checkText(node: FigmaNode, assignedWidth: number, layout: SimulatedLayout, ctx: SimulationContext): void {
+  const characters = node.characters ?? '';
+  if (node.type !== 'TEXT' || characters.trim() === '') {
+    return;
+  }
+
+  const style = resolveTextMetricsStyle(node.style);
+  const estimate = estimateTextLayout(characters, style, assignedWidth);
+  const designLineCount = estimateTextLayout(characters, style, designWidthOf(node)).lineCount;
+  const visibleLines = visibleLinesOf(node, style.lineHeight);
+
+  let outcome: TextIssueOutcome;
+  let requiredWidth: number | null;
+  if (estimate.overflowsWidth) {
+    outcome = 'WORD_OVERFLOW';
+    requiredWidth = estimate.longestWordWidth;
+  } else if (visibleLines !== null && estimate.lineCount > visibleLines) {
+    outcome = 'CLIPPED';
+    requiredWidth = estimateWidthForLines(characters, style, visibleLines);
+  } else if (estimate.lineCount > maxAcceptableLines(designLineCount)) {
+    outcome = 'EXCESSIVE_WRAP';
+    requiredWidth = estimateWidthForLines(characters, style, maxAcceptableLines(designLineCount));
+  } else {
+    return;
+  }
+
+  // どの幅でも収まらない（改行の数が表示できる行数を超える）場合は、デザイン時の幅を必要な幅とする
+  const required = Math.max(requiredWidth ?? designWidthOf(node), assignedWidth);
+
+  ctx.issues.push({
+    kind: 'TEXT',
+    layout,
+    ...baseIssue(node, ctx),
+    availableWidth: Math.round(assignedWidth),
+    requiredWidth: Math.round(required),
+    amount: Math.round(required - assignedWidth),
+    causes: [],
+    text: {
+      outcome,
+      fontFamily: style.fontFamily,
+      fontSize: style.fontSize,
+      lineCount: estimate.lineCount,
+      designLineCount,
+      visibleLines,
+      lineHeight: Math.round(style.lineHeight)
+    }
+  });
+}
+
+/**
+ * 伸縮する子要素に割り当てた幅を検査（Min Width・テキストの折り返し）
+ */
+function checkResized(node: FigmaNode, assignedWidth: number, layout: SimulatedLayout, ctx: SimulationContext): void {
+  checkSqueeze(node, assignedWidth, layout, ctx);
+  checkText(node, assignedWidth, layout, ctx);
+}
+
+function toCause(node: FigmaNode, sizing: LayoutSizing, width: number): LayoutIssueCause {
+  return { nodeId: node.id, nodeName: node.name, sizing, width };
+}
+
+// =====================================
+// レイアウト計算
+// =====================================
+
+function childPlacement(at: Placement, x: number, y: number): Placement {
+  return { x: at.x + x, y: at.y + y, depth: at.depth + 1 };
+}
+
+function recordBox(node: FigmaNode, width: number, at: Placement, ctx: SimulationContext): void {
+  ctx.boxes?.push({
+    nodeId: node.id,
+    nodeName: node.name,
+    nodeType: node.type,
+    depth: at.depth,
+    x: Math.round(at.x),
+    y: Math.round(at.y),
+    width: Math.round(width),
+    height: Math.round(designHeightOf(node))
+  });
+}
+
+/**
+ * サイズが変化しないノード（GROUP配下等）の子孫をデザイン時の位置で記録
+ */
+function recordStatic(node: FigmaNode, at: Placement, ctx: SimulationContext): void {
+  for (const child of (node.children ?? []).filter(isVisible)) {
+    const offset = designOffsetOf(child, node);
+    const placement = childPlacement(at, offset.x, offset.y);
+    recordBox(child, designWidthOf(child), placement, ctx);
+    recordStatic(child, placement, ctx);
+  }
+}
+
+/**
+ * 交差軸方向の配置による子要素の位置（縦並びの横方向）
+ */
+function alignOffset(align: FigmaNode['counterAxisAlignItems'], content: number, width: number): number {
+  if (align === 'CENTER') return (content - width) / 2;
+  if (align === 'MAX') return content - width;
+  return 0;
+}
+
+/**
+ * ノードに幅を割り当て、配下の子要素の幅を再計算
+ * GROUPは子要素の外接矩形のため、サイズは変化しないものとして扱う
+ */
+function layoutNode(node: FigmaNode, width: number, ctx: SimulationContext, at: Placement): void {
+  recordBox(node, width, at, ctx);
+
+  const children = (node.children ?? []).filter(isVisible);
+  if (children.length === 0 || node.type === 'TEXT') {
+    return;
+  }
+  if (node.type === 'GROUP') {
+    if (ctx.boxes) recordStatic(node, at, ctx);
+    return;
+  }
+
+  if (hasAutoLayout(node)) {
+    layoutAutoLayout(node, children.filter(child => child.layoutPositioning !== 'ABSOLUTE'), width, ctx, at);
+    layoutConstraints(node, children.filter(child => child.layoutPositioning === 'ABSOLUTE'), width, ctx, at);
+    return;
+  }
+
+  layoutConstraints(node, children, width, ctx, at);
+}
+
+/**
+ * Auto Layoutの子要素の幅と位置を計算
+ * - FIXED / HUG: デザイン時の幅を維持（HUGは内容の幅）
+ * - FILL: 横並び（Wrapなし）は固定幅とGapを除いた残りを均等に分配、縦並びはコンテンツ領域の幅
+ * - 位置: 横並びは左から順に、Wrapは幅に収まらない子要素を次の行に送る。縦方向はWrap以外デザイン時の位置
+ */
+function layoutAutoLayout(
+  node: FigmaNode,
+  flow: FigmaNode[],
+  width: number,
+  ctx: SimulationContext,
+  at: Placement
+): void {
+  const paddingLeft = node.paddingLeft ?? 0;
+  const content = width - paddingLeft - (node.paddingRight ?? 0);
+  const items = flow.map(child => ({
+    child,
+    sizing: resolveHorizontalSizing(child, node),
+    designWidth: designWidthOf(child)
+  }));
+
+  if (node.layoutMode === 'VERTICAL' || node.layoutWrap === 'WRAP') {
+    const layout: SimulatedLayout = node.layoutMode === 'VERTICAL' ? 'VERTICAL' : 'WRAP';
+    const overflowing: LayoutIssueCause[] = [];
+    const gap = node.itemSpacing ?? 0;
+    const rowGap = node.counterAxisSpacing ?? gap;
+    const row = { x: 0, y: node.paddingTop ?? 0, height: 0 };
+
+    for (const { child, sizing, designWidth } of items) {
+      // 縦並びは交差軸いっぱい、Wrapは1行に収まる幅まで縮む
+      const childWidth =
+        sizing === 'FILL' ? Math.max(layout === 'VERTICAL' ? content : Math.min(designWidth, content), 0) : designWidth;
+
+      if (sizing === 'FILL') {
+        checkResized(child, childWidth, layout, ctx);
+      } else if (designWidth > content) {
+        overflowing.push(toCause(child, sizing, designWidth));
+      }
+
+      if (layout === 'VERTICAL') {
+        const x = paddingLeft + alignOffset(node.counterAxisAlignItems, content, childWidth);
+        layoutNode(child, childWidth, ctx, childPlacement(at, x, designOffsetOf(child, node).y));
+        continue;
+      }
+
+      if (row.x > 0 && row.x + childWidth > content + TOLERANCE) {
+        row.y += row.height + rowGap;
+        row.x = 0;
+        row.height = 0;
+      }
+      layoutNode(child, childWidth, ctx, childPlacement(at, paddingLeft + row.x, row.y));
+      row.x += childWidth + gap;
+      row.height = Math.max(row.height, designHeightOf(child));
+    }
+
+    recordOverflow(node, layout, content, Math.max(0, ...overflowing.map(cause => cause.width)), overflowing, ctx);
+    return;
+  }
+
+  // 横並び（Wrapなし）: SPACE_BETWEENのGapは自動（最小0）
+  const gap = node.primaryAxisAlignItems === 'SPACE_BETWEEN' ? 0 : node.itemSpacing ?? 0;
+  const fixedItems = items.filter(item => item.sizing !== 'FILL');
+  const fillItems = items.filter(item => item.sizing === 'FILL');
+  const required =
+    fixedItems.reduce((sum, item) => sum + item.designWidth, 0) + gap * Math.max(items.length - 1, 0);
+
+  recordOverflow(
+    node,
+    'HORIZONTAL',
+    content,
+    required,
+    fixedItems.map(item => toCause(item.child, item.sizing, item.designWidth)),
+    ctx
+  );
+
+  const share = fillItems.length > 0 ? Math.max(content - required, 0) / fillItems.length : 0;
+
+  // 余白は主軸方向の配置（中央・右寄せ・両端揃え）に従って配る
+  const free = fillItems.length > 0 ? 0 : Math.max(content - required, 0);
+  const spacing =
+    node.primaryAxisAlignItems === 'SPACE_BETWEEN' && items.length > 1 ? free / (items.length - 1) : gap;
+  let x =
+    paddingLeft +
+    (node.primaryAxisAlignItems === 'CENTER' ? free / 2 : node.primaryAxisAlignItems === 'MAX' ? free : 0);
+
+  for (const { child, sizing, designWidth } of items) {
+    const childWidth = sizing === 'FILL' ? share : designWidth;
+    if (sizing === 'FILL') {
+      checkResized(child, share, 'HORIZONTAL', ctx);
+    }
+    layoutNode(child, childWidth, ctx, childPlacement(at, x, designOffsetOf(child, node).y));
+    x += childWidth + spacing;
+  }
+}
+
+/**
+ * Auto Layout外（絶対配置）の子要素の位置と幅を制約（constraints.horizontal）に従って計算
+ */
+function layoutConstraints(
+  node: FigmaNode,
+  children: FigmaNode[],
+  width: number,
+  ctx: SimulationContext,
+  at: Placement
+): void {
+  const box = node.absoluteBoundingBox;
+  if (children.length === 0) {
+    return;
+  }
+  if (!box || box.width <= 0) {
+    children.forEach(child => {
+      const offset = designOffsetOf(child, node);
+      layoutNode(child, designWidthOf(child), ctx, childPlacement(at, offset.x, offset.y));
+    });
+    return;
+  }
+
+  const ratio = width / box.width;
+  const overflowing: LayoutIssueCause[] = [];
+  let maxExtent = width;
+
+  for (const child of children) {
+    const childBox = child.absoluteBoundingBox;
+    if (!childBox) {
+      continue;
+    }
+
+    const left = childBox.x - box.x;
+    const right = box.width - left - childBox.width;
+    let x = left;
+    let childWidth = childBox.width;
+    let stretches = false;
+
+    switch (child.constraints?.horizontal) {
+      case 'RIGHT':
+        x = width - right - childBox.width;
+        break;
+      case 'CENTER':
+        x = left + (width - box.width) / 2;
+        break;
+      case 'LEFT_RIGHT':
+        childWidth = Math.max(width - left - right, 0);
+        stretches = true;
+        break;
+      case 'SCALE':
+        x = left * ratio;
+        childWidth = childBox.width * ratio;
+        stretches = true;
+        break;
+    }
+
+    // 左右どちらかにはみ出した幅
+    const over = Math.max(x + childWidth - width, 0) + Math.max(-x, 0);
+    if (over > TOLERANCE) {
+      overflowing.push(toCause(child, 'FIXED', childWidth));
+      maxExtent = Math.max(maxExtent, width + over);
+    }
+
+    if (stretches) {
+      checkResized(child, childWidth, 'CONSTRAINTS', ctx);
+    }
+    layoutNode(child, childWidth, ctx, childPlacement(at, x, childBox.y - box.y));
+  }
+
+  recordOverflow(node, 'CONSTRAINTS', width, maxExtent, overflowing, ctx);
+}
+
+// =====================================
+// シミュレーション
+// =====================================
+
+/**
+ * 画面として扱うトップレベルフレームを列挙（ページ直下、またはページ直下のSECTION配下）
+ */
+export function collectScreenFrames(document: FigmaNode): FigmaNode[] {
+  const frames: FigmaNode[] = [];
+  const visit = (nodes: FigmaNode[]) => {
+    for (const node of nodes.filter(isVisible)) {
+      if (node.type === 'SECTION') {
+        visit(node.children ?? []);
+      } else if (SCREEN_TYPES.includes(node.type) && node.absoluteBoundingBox) {
+        frames.push(node);
+      }
+    }
+  };
+
+  for (const page of document.children ?? []) {
+    visit(page.children ?? []);
+  }
+
+  return frames;
+}
+
+function runSimulation(
+  frame: FigmaNode,
+  breakpoint: SimulationBreakpoint,
+  boxes?: SimulatedBox[]
+): LayoutIssue[] {
+  const ctx: SimulationContext = { frame, breakpoint, issues: [], boxes };
+  layoutNode(frame, breakpoint.width, ctx, { x: 0, y: 0, depth: 0 });
+  return ctx.issues;
+}
+
+// ベースラインとの照合キー（同じノードでもレイアウト・テキストの問題の内容ごとに比較する）
+function issueKey(issue: LayoutIssue): string {
+  return `${issue.kind}:${issue.layout}:${issue.nodeId}${issue.text ? `:${issue.text.outcome}` : ''}`;
+}
+
+/**
+ * トップレベルフレームの幅を画面幅にしてレイアウトを再計算
+ * デザイン時の幅で既に発生しているはみ出し（意図的なはみ出し・クリップ）は、画面幅で悪化した場合のみ報告する
+ *
+ * @param frame - トップレベルフレーム
+ * @param breakpoint - シミュレーションするブレークポイント
+ * @param baselineFrame - デザイン時の幅で比較するフレーム（省略時は frame。翻訳後のテキストを翻訳前と比較する場合等に指定）
+ */
+export function simulateFrame(
+  frame: FigmaNode,
+  breakpoint: SimulationBreakpoint,
+  baselineFrame: FigmaNode = frame
+): FrameSimulation {
+  const designWidth = designWidthOf(frame);
+  const baseline = new Map(
+    runSimulation(baselineFrame, { name: 'design', width: designWidthOf(baselineFrame) }).map(issue => [
+      issueKey(issue),
+      issue.amount
+    ])
+  );
+
+  const issues = runSimulation(frame, breakpoint).filter(
+    issue => issue.amount - (baseline.get(issueKey(issue)) ?? 0) > TOLERANCE
+  );
+
+  return {
+    frameId: frame.id,
+    frameName: frame.name,
+    designWidth: Math.round(designWidth),
+    breakpoint: breakpoint.name,
+    screenWidth: breakpoint.width,
+    issues
+  };
+}
+
+/**
+ * トップレベルフレームをシミュレーションし、ブレークポイント幅での各ノードの位置・サイズを併せて返す
+ *
+ * @param frame - トップレベルフレーム
+ * @param breakpoint - シミュレーションするブレークポイント（デザイン時の幅以上も可）
+ * @returns シミュレーション結果と、フレーム配下の表示中のノードの位置・サイズ（描画順）
+ */
+export function simulateFrameLayout(
+  frame: FigmaNode,
+  breakpoint: SimulationBreakpoint
+): { simulation: FrameSimulation; boxes: SimulatedBox[] } {
+  const boxes: SimulatedBox[] = [];
+  runSimulation(frame, breakpoint, boxes);
+
+  return { simulation: simulateFrame(frame, breakpoint), boxes };
+}
+
+/**
+ * ドキュメント内の画面を、デザイン時の幅より狭いブレークポイントでシミュレーション
+ *
+ * @param document - Figmaドキュメントのルートノード
+ * @param breakpoints - シミュレーションするブレークポイント
+ * @param baselineDocument - ベースラインとするドキュメント（省略時は document。フレームはIDで対応付ける）
+ * @returns フレーム × ブレークポイントごとの結果（デザイン幅以上のブレークポイントは含まない）
+ */
+export function simulateBreakpoints(
+  document: FigmaNode,
+  breakpoints: SimulationBreakpoint[],
+  baselineDocument?: FigmaNode
+): FrameSimulation[] {
+  const results: FrameSimulation[] = [];
+  const baselineFrames = new Map(
+    (baselineDocument ? collectScreenFrames(baselineDocument) : []).map(frame => [frame.id, frame])
+  );
+
+  for (const frame of collectScreenFrames(document)) {
+    for (const breakpoint of breakpoints) {
+      if (breakpoint.width < designWidthOf(frame) - TOLERANCE) {
+        results.push(simulateFrame(frame, breakpoint, baselineFrames.get(frame.id) ?? frame));
+      }
+    }
+  }
+
+  return results;
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  resolveHorizontalSizing,
+  collectScreenFrames,
+  simulateFrame,
+  simulateFrameLayout,
+  simulateBreakpoints
+};
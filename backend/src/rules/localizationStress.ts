@@ -0,0 +1,368 @@
+// =====================================
+// backend/src/rules/localizationStress.ts
+// 翻訳による文字列長の変化のストレステスト - FIGLEAN
+// 作成日時: 2026年10月19日
+// 更新日時: 2026年10月19日 - 各フレームのデザイン時の幅でのシミュレーション（ブレークポイントがすべてデザイン幅以上の画面）
+// 依存関係: BaseRuleChecker, layoutSimulation, textMetrics
+// 説明: すべてのTEXTノードの内容を言語ごとの伸縮率で擬似翻訳した文字列に置き換え（Hugのテキスト・Auto Layoutは幅を追従）、
+//       ブレークポイント幅・各フレームのデザイン時の幅でレイアウトシミュレーションを再実行して、翻訳後にのみ崩れるフレームを抽出する
+// =====================================
+
+import type { FigmaNode } from '../services/figmaApiService';
+import { hasAutoLayout } from './BaseRuleChecker';
+import {
+  collectScreenFrames,
+  resolveHorizontalSizing,
+  simulateBreakpoints,
+  simulateFrame,
+  type FrameSimulation,
+  type SimulationBreakpoint
+} from './layoutSimulation';
+import { estimateTextWidth, isCjkCharacter, resolveTextMetricsStyle, type TextMetricsStyle } from './textMetrics';
+
+// =====================================
+// 型定義
+// =====================================
+
+/**
+ * 擬似翻訳する言語
+ */
+export interface LocalizationProfile {
+  locale: string;
+  label: string;
+  expansion: number;         // 英語を1としたときのテキスト幅の比率
+  script: 'LATIN' | 'CJK';   // LATINは単語単位、CJKは1文字単位で改行
+  sample: string;            // 擬似翻訳の文字列の素材（この言語の典型的な語長・文字種）
+}
+
+/**
+ * 翻訳後にのみ崩れるフレーム（翻訳前は同じブレークポイントで問題が無い）
+ */
+export type LocalizationBreak = FrameSimulation;
+
+/**
+ * 言語ごとのストレステスト結果
+ */
+export interface LocalizationStressResult {
+  locale: string;
+  label: string;
+  expansion: number;
+  translatedTexts: number;   // 擬似翻訳したTEXTノード数（翻訳前と同じ言語のテキストは対象外）
+  frames: LocalizationBreak[];
+}
+
+// =====================================
+// 設定
+// =====================================
+
+/**
+ * 言語ごとの伸縮率（英語からの翻訳で一般的なテキスト幅の増減）
+ * 翻訳前の言語はテキストごとに判定し（CJKが過半なら日本語、それ以外は英語）、伸縮率の比で擬似翻訳する
+ */
+export const LOCALIZATION_PROFILES: Record<string, LocalizationProfile> = {
+  en: {
+    locale: 'en',
+    label: '英語',
+    expansion: 1,
+    script: 'LATIN',
+    sample: 'Save your account settings and manage notifications for every project in one place'
+  },
+  de: {
+    locale: 'de',
+    label: 'ドイツ語',
+    expansion: 1.35,
+    script: 'LATIN',
+    sample: 'Datenschutzeinstellungen für Ihr Benutzerkonto werden automatisch gespeichert und können jederzeit geändert werden'
+  },
+  fr: {
+    locale: 'fr',
+    label: 'フランス語',
+    expansion: 1.2,
+    script: 'LATIN',
+    sample: 'Les paramètres de confidentialité de votre compte sont enregistrés automatiquement et modifiables à tout moment'
+  },
+  es: {
+    locale: 'es',
+    label: 'スペイン語',
+    expansion: 1.25,
+    script: 'LATIN',
+    sample: 'La configuración de privacidad de su cuenta se guarda automáticamente y puede modificarse en cualquier momento'
+  },
+  ja: {
+    locale: 'ja',
+    label: '日本語',
+    expansion: 0.9,
+    script: 'CJK',
+    sample: 'アカウントのプライバシー設定は自動的に保存され、いつでもアカウント設定から変更できます'
+  },
+  zh: {
+    locale: 'zh',
+    label: '中国語',
+    expansion: 0.75,
+    script: 'CJK',
+    sample: '您的帐户隐私设置会自动保存，并可随时在帐户设置中更改'
+  }
+};
+
+// 伸縮率の比がこの範囲内なら擬似翻訳しない
+const EXPANSION_EPSILON = 0.01;
+
+// 各フレームをデザイン時の幅でシミュレーションした結果のブレークポイント名
+export const DESIGN_WIDTH_BREAKPOINT = 'design';
+
+// =====================================
+// 検証
+// =====================================
+
+/**
+ * 対応している言語か判定（プロトタイプのプロパティ名は対象外）
+ */
+export function isLocalizationLocale(locale: unknown): locale is string {
+  return typeof locale === 'string' && Object.prototype.hasOwnProperty.call(LOCALIZATION_PROFILES, locale);
+}
+
+/**
+ * ストレステストする言語の指定を検証
+ *
+ * @returns エラーメッセージ（問題が無ければ空配列）
+ */
+export function validateLocalizationLocales(locales: string[]): string[] {
+  if (locales.length === 0) {
+    return ['翻訳のストレステストをする言語を1つ以上指定してください'];
+  }
+
+  const unknown = locales.filter(locale => !isLocalizationLocale(locale));
+  return unknown.length > 0
+    ? [`未対応の言語です: ${unknown.join(', ')}（対応: ${Object.keys(LOCALIZATION_PROFILES).join(', ')}）`]
+    : [];
+}
+
+// =====================================
+// 擬似翻訳
+// =====================================
+
+/**
+ * テキストの翻訳前の言語を判定（CJKの文字が過半なら日本語、それ以外は英語）
+ */
+function detectSourceProfile(text: string): LocalizationProfile {
+  const chars = [...text].filter(char => !/\s/.test(char));
+  const cjk = chars.filter(isCjkCharacter).length;
+  return cjk * 2 > chars.length ? LOCALIZATION_PROFILES.ja : LOCALIZATION_PROFILES.en;
+}
+
+/**
+ * 段落を、翻訳前の幅 × ratio になるまで言語の素材の単語（CJKは文字）を並べた文字列に置き換える
+ * 最後の単語は幅に収まるところで切る
+ */
+function localizeParagraph(
+  paragraph: string,
+  style: TextMetricsStyle,
+  profile: LocalizationProfile,
+  ratio: number
+): string {
+  if (paragraph.trim() === '') {
+    return paragraph;
+  }
+
+  const target = estimateTextWidth(paragraph, style) * ratio;
+  const separator = profile.script === 'CJK' ? '' : ' ';
+  const tokens = profile.script === 'CJK' ? [...profile.sample] : profile.sample.split(' ');
+  const separatorWidth = estimateTextWidth(separator, style);
+
+  let result = '';
+  let width = 0;
+  for (let i = 0; width < target; i++) {
+    const token = tokens[i % tokens.length];
+    const prefix = result ? separator : '';
+    const tokenWidth = (result ? separatorWidth : 0) + estimateTextWidth(token, style);
+
+    if (width + tokenWidth <= target) {
+      result += prefix + token;
+      width += tokenWidth;
+      continue;
+    }
+
+    // 収まる文字数まで切り詰めて終了（1文字も入らない場合も、空文字にはしない）
+    let partial = '';
+    for (const char of token) {
+      const next = partial + char;
+      if (width + estimateTextWidth(prefix + next, style) > target && (result || partial)) break;
+      partial = next;
+    }
+    result += partial ? prefix + partial : '';
+    break;
+  }
+
+  return result;
+}
+
+/**
+ * テキストを擬似翻訳（改行の位置は維持）
+ *
+ * @returns 擬似翻訳した文字列（翻訳前と同じ言語なら null）
+ */
+export function localizeText(text: string, style: TextMetricsStyle, profile: LocalizationProfile): string | null {
+  const source = detectSourceProfile(text);
+  const ratio = profile.expansion / source.expansion;
+  if (source.locale === profile.locale || Math.abs(ratio - 1) < EXPANSION_EPSILON) {
+    return null;
+  }
+
+  return text
+    .split('\n')
+    .map(paragraph => localizeParagraph(paragraph, style, profile, ratio))
+    .join('\n');
+}
+
+function widestParagraph(text: string, style: TextMetricsStyle): number {
+  return Math.max(0, ...text.split('\n').map(paragraph => estimateTextWidth(paragraph, style)));
+}
+
+function withWidth(node: FigmaNode, width: number): FigmaNode {
+  return node.absoluteBoundingBox ? { ...node, absoluteBoundingBox: { ...node.absoluteBoundingBox, width } } : node;
+}
+
+/**
+ * ノードを擬似翻訳したコピーを生成
+ * 幅がテキストに追従するノード（Hugのテキスト・Auto Layout）は、子要素の幅の増減を反映する
+ */
+function localizeNode(
+  node: FigmaNode,
+  profile: LocalizationProfile,
+  counter: { translated: number },
+  parent?: FigmaNode
+): FigmaNode {
+  if (node.type === 'TEXT') {
+    const style = resolveTextMetricsStyle(node.style);
+    const characters = node.characters ?? '';
+    const localized = characters.trim() ? localizeText(characters, style, profile) : null;
+    if (localized === null) {
+      return node;
+    }
+
+    counter.translated++;
+    const translated = { ...node, characters: localized };
+    const hugs =
+      node.style?.textAutoResize === 'WIDTH_AND_HEIGHT' || resolveHorizontalSizing(node, parent) === 'HUG';
+    const before = widestParagraph(characters, style);
+    const box = node.absoluteBoundingBox;
+    if (!hugs || !box || before <= 0) {
+      return translated;
+    }
+
+    return withWidth(translated, box.width * (widestParagraph(localized, style) / before));
+  }
+
+  if (!node.children) {
+    return node;
+  }
+
+  const children = node.children.map(child => localizeNode(child, profile, counter, node));
+  const localized = { ...node, children };
+  const box = node.absoluteBoundingBox;
+  if (!box || !hasAutoLayout(node) || resolveHorizontalSizing(node, parent) !== 'HUG') {
+    return localized;
+  }
+
+  // Hugのコンテナ: 横並びは子要素の幅の増減の合計、縦並びは最も広い子要素に合わせる
+  const flow = node.children
+    .map((child, i) => ({ before: child, after: children[i] }))
+    .filter(({ before }) => before.visible !== false && before.layoutPositioning !== 'ABSOLUTE');
+  const widthOf = (child: FigmaNode) => child.absoluteBoundingBox?.width ?? 0;
+
+  if (node.layoutMode === 'HORIZONTAL') {
+    const delta = flow.reduce((sum, { before, after }) => sum + widthOf(after) - widthOf(before), 0);
+    return delta === 0 ? localized : withWidth(localized, Math.max(box.width + delta, 0));
+  }
+
+  const padding = (node.paddingLeft ?? 0) + (node.paddingRight ?? 0);
+  const widest = Math.max(0, ...flow.map(({ after }) => widthOf(after)));
+  return widest + padding > box.width ? withWidth(localized, widest + padding) : localized;
+}
+
+/**
+ * ドキュメント内のすべてのTEXTノードを擬似翻訳したコピーを生成（ノードIDは維持）
+ */
+export function localizeDocument(
+  document: FigmaNode,
+  profile: LocalizationProfile
+): { document: FigmaNode; translatedTexts: number } {
+  const counter = { translated: 0 };
+  return { document: localizeNode(document, profile, counter), translatedTexts: counter.translated };
+}
+
+// =====================================
+// ストレステスト
+// =====================================
+
+/**
+ * ブレークポイント幅（デザイン時の幅より狭いもの）に加えて、各フレームを翻訳前のデザイン時の幅でシミュレーション
+ * すべてのブレークポイントがデザイン時の幅以上の画面（モバイル幅のデザイン等）も、翻訳による崩れを検出する
+ */
+function simulateWithDesignWidth(
+  document: FigmaNode,
+  breakpoints: SimulationBreakpoint[],
+  baselineDocument: FigmaNode
+): FrameSimulation[] {
+  const baselineFrames = new Map(collectScreenFrames(baselineDocument).map(frame => [frame.id, frame]));
+  const atDesignWidth = collectScreenFrames(document).map(frame => {
+    const baselineFrame = baselineFrames.get(frame.id) ?? frame;
+    const width = Math.round(baselineFrame.absoluteBoundingBox?.width ?? 0);
+    return simulateFrame(frame, { name: DESIGN_WIDTH_BREAKPOINT, width }, baselineFrame);
+  });
+
+  return [...simulateBreakpoints(document, breakpoints, baselineDocument), ...atDesignWidth];
+}
+
+/**
+ * 言語ごとに擬似翻訳したドキュメントでブレークポイント幅・デザイン時の幅のシミュレーションを再実行し、
+ * 翻訳前は問題が無く、翻訳後にのみ崩れるフレーム × ブレークポイントを抽出する
+ * 翻訳後のフレームは翻訳前のフレームのデザイン幅での結果をベースラインにする（翻訳で生じたはみ出しを意図的なものとして除外しない）
+ *
+ * @param document - Figmaドキュメントのルートノード
+ * @param breakpoints - シミュレーションするブレークポイント
+ * @param locales - ストレステストする言語（LOCALIZATION_PROFILES のキー。未対応の言語は無視）
+ */
+export function runLocalizationStress(
+  document: FigmaNode,
+  breakpoints: SimulationBreakpoint[],
+  locales: string[]
+): LocalizationStressResult[] {
+  // 翻訳前のデザイン時の幅での結果はベースラインと同じため問題を含まない（ブレークポイント幅のみ判定）
+  const brokenInSource = new Set(
+    simulateBreakpoints(document, breakpoints)
+      .filter(simulation => simulation.issues.length > 0)
+      .map(simulation => `${simulation.frameId}:${simulation.breakpoint}`)
+  );
+
+  return locales.filter(isLocalizationLocale).map(locale => {
+    const profile = LOCALIZATION_PROFILES[locale];
+    const localized = localizeDocument(document, profile);
+    const frames = simulateWithDesignWidth(localized.document, breakpoints, document).filter(
+      simulation =>
+        simulation.issues.length > 0 && !brokenInSource.has(`${simulation.frameId}:${simulation.breakpoint}`)
+    );
+
+    return {
+      locale: profile.locale,
+      label: profile.label,
+      expansion: profile.expansion,
+      translatedTexts: localized.translatedTexts,
+      frames
+    };
+  });
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  LOCALIZATION_PROFILES,
+  DESIGN_WIDTH_BREAKPOINT,
+  isLocalizationLocale,
+  validateLocalizationLocales,
+  localizeText,
+  localizeDocument,
+  runLocalizationStress
+};
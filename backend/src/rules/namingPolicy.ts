@@ -0,0 +1,358 @@
+// =====================================
+// backend/src/rules/namingPolicy.ts
+// 命名規則ユーティリティ - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: BaseRuleChecker, suppression, types/rules
+// 説明: プロジェクトの命名規則（プリセット・カスタム正規表現・禁止語）によるレイヤー名の判定と、規則に適合する名前の提案
+// =====================================
+
+import type { FigmaNode } from '../services/figmaApiService';
+import type { NamingPolicy, NamingPreset, RuleParams } from '../types/rules';
+import { isSemanticName, isDefaultLayerName } from './BaseRuleChecker';
+import { stripIgnoreAnnotations } from './suppression';
+
+// =====================================
+// 型定義
+// =====================================
+
+/**
+ * 命名規則の判定結果
+ * DEFAULT_NAME: Figmaの自動命名のまま / BANNED_WORD: 禁止語を含む / PATTERN: プリセット・正規表現に一致しない
+ */
+export interface NamingEvaluation {
+  compliant: boolean;
+  reason?: 'DEFAULT_NAME' | 'BANNED_WORD' | 'PATTERN';
+  bannedWords: string[];  // 名前に含まれていた禁止語
+}
+
+/**
+ * プリセット定義
+ */
+interface NamingPresetDefinition {
+  label: string;
+  example: string;
+  test: (name: string, node: FigmaNode) => boolean;
+}
+
+// =====================================
+// 設定
+// =====================================
+
+const KEBAB_SEGMENT = '[a-z][a-z0-9]*(?:-[a-z0-9]+)*';
+const PASCAL_SEGMENT = '[A-Z][a-zA-Z0-9]*';
+
+const KEBAB_CASE = new RegExp(`^${KEBAB_SEGMENT}$`);
+const BEM = new RegExp(`^${KEBAB_SEGMENT}(?:__${KEBAB_SEGMENT})?(?:--${KEBAB_SEGMENT})?$`);
+const SLASH_HIERARCHY = new RegExp(`^${KEBAB_SEGMENT}(?:/${KEBAB_SEGMENT})*$`);
+const PASCAL_CASE = new RegExp(`^${PASCAL_SEGMENT}(?:/${PASCAL_SEGMENT})*$`);
+
+// コンポーネントとして命名するノードタイプ
+const COMPONENT_TYPES = ['COMPONENT', 'COMPONENT_SET'];
+
+// バリアントのプロパティ名（"Size=Large, State=Hover"）はFigmaが生成するため判定しない
+const VARIANT_PROPERTY_NAME = /^[^=,]+=[^=,]+(?:,\s*[^=,]+=[^=,]+)*$/;
+
+// カスタム正規表現の最大長
+const MAX_PATTERN_LENGTH = 200;
+
+// 自動命名から名前を作れない場合のノードタイプ別の名前
+const FALLBACK_WORDS: Record<string, string[]> = {
+  FRAME: ['section'],
+  SECTION: ['section'],
+  GROUP: ['container'],
+  COMPONENT: ['component'],
+  COMPONENT_SET: ['component']
+};
+
+// 自動命名から名前を作るときに使うテキストの単語数
+const MAX_TEXT_WORDS = 3;
+
+/**
+ * 命名規則プリセット
+ */
+export const NAMING_PRESETS: Record<NamingPreset, NamingPresetDefinition> = {
+  DEFAULT: {
+    label: 'セマンティック',
+    example: 'section-hero / header / card-product',
+    test: name => isSemanticName(name)
+  },
+  KEBAB_CASE: {
+    label: 'kebab-case',
+    example: 'card-header',
+    test: name => KEBAB_CASE.test(name)
+  },
+  BEM: {
+    label: 'BEM',
+    example: 'card__title--large',
+    test: name => BEM.test(name)
+  },
+  PASCAL_CASE_COMPONENTS: {
+    label: 'PascalCase（コンポーネント）',
+    example: 'ProductCard / product-list',
+    test: (name, node) => (COMPONENT_TYPES.includes(node.type) ? PASCAL_CASE : KEBAB_CASE).test(name)
+  },
+  SLASH_HIERARCHY: {
+    label: 'スラッシュ階層',
+    example: 'card/header',
+    test: name => SLASH_HIERARCHY.test(name)
+  },
+  CUSTOM: {
+    label: 'カスタム',
+    example: '',
+    test: () => false
+  }
+};
+
+// =====================================
+// Policy
+// =====================================
+
+/**
+ * 組み込みの命名プリセット名か判定（プロトタイプのプロパティ名は対象外）
+ */
+export function isNamingPreset(name: unknown): name is NamingPreset {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(NAMING_PRESETS, name);
+}
+
+/**
+ * NON_SEMANTIC_NAME のパラメータから命名規則を解決（不明なプリセットはDEFAULT）
+ */
+export function resolveNamingPolicy(params: RuleParams): NamingPolicy {
+  const preset = String(params.preset ?? 'DEFAULT');
+
+  return {
+    preset: isNamingPreset(preset) ? preset : 'DEFAULT',
+    patterns: ((params.patterns ?? []) as string[]).map(String),
+    bannedWords: ((params.bannedWords ?? []) as string[]).map(word => String(word).toLowerCase())
+  };
+}
+
+/**
+ * 命名規則パラメータのバリデーション（ルールプロファイル更新時）
+ *
+ * @returns エラーメッセージ（問題が無い場合は空配列）
+ */
+export function validateNamingPolicyParams(params: RuleParams): string[] {
+  const errors: string[] = [];
+
+  if (params.preset !== undefined && !isNamingPreset(String(params.preset))) {
+    errors.push(`presetは${Object.keys(NAMING_PRESETS).join(', ')}のいずれかである必要があります`);
+  }
+
+  for (const pattern of (params.patterns ?? []) as string[]) {
+    if (String(pattern).length > MAX_PATTERN_LENGTH) {
+      errors.push(`patternsの正規表現は${MAX_PATTERN_LENGTH}文字以内で指定してください: ${pattern}`);
+    } else if (!compilePattern(String(pattern))) {
+      errors.push(`patternsに不正な正規表現があります: ${pattern}`);
+    }
+  }
+
+  return errors;
+}
+
+// 正規表現のキャッシュ（不正なものはnull）
+const patternCache = new Map<string, RegExp | null>();
+
+/**
+ * カスタム正規表現をコンパイル（名前全体に一致させる）
+ */
+function compilePattern(pattern: string): RegExp | null {
+  if (!patternCache.has(pattern)) {
+    try {
+      patternCache.set(pattern, new RegExp(`^(?:${pattern})$`));
+    } catch {
+      patternCache.set(pattern, null);
+    }
+  }
+  return patternCache.get(pattern)!;
+}
+
+// =====================================
+// Evaluate
+// =====================================
+
+/**
+ * レイヤー名を単語に分割（区切り文字・camelCaseの境界で分割し、小文字化）
+ */
+export function splitNameWords(name: string): string[] {
+  return name
+    .normalize('NFKC')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(word => word.length > 0)
+    .map(word => word.toLowerCase());
+}
+
+/**
+ * レイヤー名が命名規則に適合するか判定
+ * 自動命名・禁止語はプリセットによらず不適合とし、プリセットまたはカスタム正規表現のいずれかに一致すれば適合とする
+ *
+ * @param node - 対象ノード
+ * @param policy - 命名規則
+ * @param name - 判定する名前（未指定時はノード名）
+ */
+export function evaluateName(node: FigmaNode, policy: NamingPolicy, name: string = node.name): NamingEvaluation {
+  const stripped = stripIgnoreAnnotations(name).trim();
+
+  if (isDefaultLayerName(stripped)) {
+    return { compliant: false, reason: 'DEFAULT_NAME', bannedWords: [] };
+  }
+
+  const words = new Set(splitNameWords(stripped));
+  const bannedWords = policy.bannedWords.filter(word => words.has(word));
+  if (bannedWords.length > 0) {
+    return { compliant: false, reason: 'BANNED_WORD', bannedWords };
+  }
+
+  // コンポーネントセット内のバリアント名はFigmaのプロパティ表記のため対象外
+  if (policy.preset !== 'DEFAULT' && node.type === 'COMPONENT' && VARIANT_PROPERTY_NAME.test(stripped)) {
+    return { compliant: true, bannedWords: [] };
+  }
+
+  // CUSTOM で正規表現が未指定の場合は自動命名・禁止語のみ判定する
+  const presetMatches = policy.preset === 'CUSTOM'
+    ? policy.patterns.length === 0
+    : NAMING_PRESETS[policy.preset].test(stripped, node);
+  const matches =
+    presetMatches || policy.patterns.some(pattern => compilePattern(pattern)?.test(stripped) ?? false);
+
+  return matches
+    ? { compliant: true, bannedWords: [] }
+    : { compliant: false, reason: 'PATTERN', bannedWords: [] };
+}
+
+// =====================================
+// Suggest
+// =====================================
+
+/**
+ * 名前の素になる単語を取得（禁止語・自動命名の語を除く）
+ * 自動命名の場合は最初のテキストの内容、それも無ければノードタイプから作る
+ */
+function getBaseWords(node: FigmaNode, segment: string, policy: NamingPolicy): string[] {
+  const usable = (words: string[]) => words.filter(word => !policy.bannedWords.includes(word));
+
+  if (!isDefaultLayerName(segment)) {
+    const words = usable(splitNameWords(segment));
+    if (words.length > 0) {
+      return words;
+    }
+  }
+
+  const text = findFirstText(node);
+  const textWords = usable(splitNameWords(text?.characters ?? text?.name ?? '')).slice(0, MAX_TEXT_WORDS);
+  if (textWords.length > 0) {
+    return textWords;
+  }
+
+  return FALLBACK_WORDS[node.type] ?? ['item'];
+}
+
+function findFirstText(node: FigmaNode): FigmaNode | undefined {
+  for (const child of node.children ?? []) {
+    const found = child.type === 'TEXT' ? child : findFirstText(child);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 単語をkebab-caseに整形（数字だけの語は前の語に連結して、各語が英字で始まるようにする）
+ */
+function toKebab(words: string[]): string {
+  const merged: string[] = [];
+  for (const word of words) {
+    if (/^\d/.test(word) && merged.length > 0) {
+      merged[merged.length - 1] += word;
+    } else if (/^\d/.test(word)) {
+      merged.push(`item${word}`);
+    } else {
+      merged.push(word);
+    }
+  }
+  return merged.join('-');
+}
+
+function toPascal(words: string[]): string {
+  const pascal = words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+  return /^\d/.test(pascal) ? `Item${pascal}` : pascal;
+}
+
+function toCamel(words: string[]): string {
+  const pascal = toPascal(words);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+/**
+ * 規則に適合する名前を提案
+ * プリセットの形式で整形し、適合しない場合（カスタム正規表現のみの規則等）は他の形式も試す
+ *
+ * @param node - 対象ノード
+ * @param policy - 命名規則
+ * @param parentNode - 親ノード（BEMのブロック名に使用）
+ * @returns 提案する名前（規則に適合する名前を作れない場合はundefined）
+ */
+export function suggestName(node: FigmaNode, policy: NamingPolicy, parentNode?: FigmaNode): string | undefined {
+  const name = stripIgnoreAnnotations(node.name).trim();
+  const segments = name.split('/').map(segment => segment.trim()).filter(segment => segment.length > 0);
+  const segmentWords = (segments.length > 0 ? segments : [name]).map(segment => getBaseWords(node, segment, policy));
+  const words = segmentWords.flat();
+
+  const candidates: string[] = [];
+
+  switch (policy.preset) {
+    case 'BEM': {
+      // 親がBEMのブロックであれば、その要素（block__element）として命名する
+      const parentName = parentNode ? stripIgnoreAnnotations(parentNode.name).trim() : '';
+      const block = BEM.test(parentName) && !parentName.includes('__') ? parentName.split('--')[0] : null;
+      candidates.push(block ? `${block}__${toKebab(words)}` : toKebab(words));
+      break;
+    }
+    case 'PASCAL_CASE_COMPONENTS':
+      candidates.push(
+        COMPONENT_TYPES.includes(node.type) ? segmentWords.map(toPascal).join('/') : toKebab(words)
+      );
+      break;
+    case 'SLASH_HIERARCHY':
+      candidates.push(segmentWords.map(toKebab).join('/'));
+      break;
+    default:
+      candidates.push(toKebab(words));
+  }
+
+  candidates.push(toKebab(words), segmentWords.map(toKebab).join('/'), toPascal(words), words.join('_'), toCamel(words));
+
+  return candidates.find(candidate => evaluateName(node, policy, candidate).compliant);
+}
+
+/**
+ * 命名規則の説明（違反メッセージ用）
+ */
+export function describeNamingPolicy(policy: NamingPolicy): string {
+  const preset = NAMING_PRESETS[policy.preset];
+  const parts = policy.preset === 'CUSTOM' ? [] : [`${preset.label}（例: ${preset.example}）`];
+
+  if (policy.patterns.length > 0) {
+    parts.push(`正規表現: ${policy.patterns.join(' | ')}`);
+  }
+
+  return parts.length > 0 ? parts.join(' または ') : preset.label;
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  NAMING_PRESETS,
+  isNamingPreset,
+  resolveNamingPolicy,
+  validateNamingPolicyParams,
+  splitNameWords,
+  evaluateName,
+  suggestName,
+  describeNamingPolicy
+};
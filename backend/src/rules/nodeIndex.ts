@@ -0,0 +1,102 @@
+// =====================================
+// backend/src/rules/nodeIndex.ts
+// ノードインデックス - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: figmaApiService (FigmaNode型)
+// 説明: 1回の走査で全ノード・親ノード・階層深度のインデックスを構築（大規模ファイル向け）
+// =====================================
+
+import type { FigmaNode } from '../services/figmaApiService';
+
+// =====================================
+// 型定義
+// =====================================
+
+/**
+ * ノードインデックス
+ * 親ノード・深度をO(1)で参照できる
+ */
+export interface NodeIndex {
+  rootNode: FigmaNode;
+  allNodes: FigmaNode[];  // 深さ優先・行きがけ順（ルートを含む）
+  getParent(node: FigmaNode): FigmaNode | undefined;
+  getDepth(node: FigmaNode): number;
+}
+
+// =====================================
+// Build
+// =====================================
+
+/**
+ * ノードインデックスを構築
+ * 再帰を使わずスタックで走査するため、深いツリーでもスタック溢れしない
+ *
+ * @param rootNode - ルートノード
+ * @returns ノードインデックス
+ */
+export function buildNodeIndex(rootNode: FigmaNode): NodeIndex {
+  const allNodes: FigmaNode[] = [];
+  const parents = new Map<FigmaNode, FigmaNode>();
+  const depths = new Map<FigmaNode, number>([[rootNode, 0]]);
+  const stack: FigmaNode[] = [rootNode];
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    allNodes.push(node);
+
+    const children = node.children;
+    if (!children || children.length === 0) {
+      continue;
+    }
+
+    const childDepth = depths.get(node)! + 1;
+
+    // 行きがけ順を保つため逆順に積む
+    for (let i = children.length - 1; i >= 0; i--) {
+      const child = children[i];
+      parents.set(child, node);
+      depths.set(child, childDepth);
+      stack.push(child);
+    }
+  }
+
+  return {
+    rootNode,
+    allNodes,
+    getParent: node => parents.get(node),
+    getDepth: node => depths.get(node) ?? 0
+  };
+}
+
+/**
+ * ノード数をカウント（インデックスを作らない軽量版）
+ *
+ * @param rootNode - ルートノード
+ * @returns ルートを含むノード数
+ */
+export function countNodes(rootNode: FigmaNode): number {
+  let count = 0;
+  const stack: FigmaNode[] = [rootNode];
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    count++;
+
+    if (node.children) {
+      for (const child of node.children) {
+        stack.push(child);
+      }
+    }
+  }
+
+  return count;
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  buildNodeIndex,
+  countNodes
+};
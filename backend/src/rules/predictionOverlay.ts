@@ -0,0 +1,249 @@
+// =====================================
+// backend/src/rules/predictionOverlay.ts
+// 崩壊予測のオーバーレイSVG描画 - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: BaseRuleChecker, layoutSimulation
+// 説明: ブレークポイント幅で再計算したフレームのボックスツリー（absoluteBoundingBox基準）をSVGで描画し、
+//       はみ出した領域・縮んだ要素・予測の対象ノードを強調表示する（各ボックスにノード名のラベル）
+// =====================================
+
+import type { FigmaNode } from '../services/figmaApiService';
+import { hasAutoLayout } from './BaseRuleChecker';
+import {
+  collectScreenFrames,
+  type LayoutIssue,
+  type SimulatedBox,
+  type SimulationBreakpoint
+} from './layoutSimulation';
+
+// =====================================
+// 型定義
+// =====================================
+
+/**
+ * オーバーレイの描画内容
+ */
+export interface PredictionOverlayInput {
+  frame: FigmaNode;                  // トップレベルフレーム
+  breakpoint: SimulationBreakpoint;
+  boxes: SimulatedBox[];             // layoutSimulation.simulateFrameLayout の結果
+  issues: LayoutIssue[];
+  highlightNodeId?: string | null;   // 予測の対象ノード
+}
+
+// =====================================
+// 設定
+// =====================================
+
+// 描画するボックスの上限（超えた分は深い階層から省略）
+const MAX_BOXES = 1500;
+
+const MARGIN = 16;
+const HEADER_HEIGHT = 28;
+const LABEL_FONT_SIZE = 10;
+const LABEL_CHAR_WIDTH = 6;  // ラベルの切り詰めに使う1文字の幅の目安（px）
+
+const COLORS = {
+  screen: '#0f172a',
+  box: '#94a3b8',
+  label: '#475569',
+  overflow: '#dc2626',
+  squeeze: '#ea580c',
+  highlight: '#2563eb'
+};
+
+// =====================================
+// ヘルパー
+// =====================================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function rect(x: number, y: number, width: number, height: number, attributes: string): string {
+  return `<rect x="${x}" y="${y}" width="${Math.max(width, 0)}" height="${Math.max(height, 0)}" ${attributes}/>`;
+}
+
+/**
+ * ボックスの幅に収まるようにラベルを切り詰め（1文字も入らなければ null）
+ */
+function fitLabel(name: string, width: number): string | null {
+  const maxChars = Math.floor((width - 6) / LABEL_CHAR_WIDTH);
+  if (maxChars < 1) {
+    return null;
+  }
+  const chars = [...name];
+  return chars.length <= maxChars ? name : `${chars.slice(0, Math.max(maxChars - 1, 1)).join('')}…`;
+}
+
+function indexNodes(node: FigmaNode, index = new Map<string, FigmaNode>()): Map<string, FigmaNode> {
+  index.set(node.id, node);
+  (node.children ?? []).forEach(child => indexNodes(child, index));
+  return index;
+}
+
+function containsNode(node: FigmaNode, nodeId: string): boolean {
+  return node.id === nodeId || (node.children ?? []).some(child => containsNode(child, nodeId));
+}
+
+/**
+ * ノードを含むトップレベルフレーム（画面）を検索
+ */
+export function findScreenFrame(document: FigmaNode, nodeId: string): FigmaNode | undefined {
+  return collectScreenFrames(document).find(frame => containsNode(frame, nodeId));
+}
+
+// =====================================
+// 描画
+// =====================================
+
+/**
+ * はみ出しの問題から、コンテナのコンテンツ領域の外に出た部分の矩形を求める
+ */
+function overflowRegions(
+  issue: LayoutIssue,
+  boxes: Map<string, SimulatedBox>,
+  nodes: Map<string, FigmaNode>
+): Array<{ x: number; y: number; width: number; height: number }> {
+  const container = boxes.get(issue.nodeId);
+  if (!container) {
+    return [];
+  }
+
+  const node = nodes.get(issue.nodeId);
+  const inset = (side: 'paddingLeft' | 'paddingRight') =>
+    issue.layout !== 'CONSTRAINTS' && node && hasAutoLayout(node) ? node[side] ?? 0 : 0;
+  const left = container.x + inset('paddingLeft');
+  const right = container.x + container.width - inset('paddingRight');
+
+  return issue.causes.flatMap(cause => {
+    const box = boxes.get(cause.nodeId);
+    if (!box) return [];
+
+    const regions = [];
+    if (box.x + box.width > right) {
+      const start = Math.max(box.x, right);
+      regions.push({ x: start, y: box.y, width: box.x + box.width - start, height: box.height });
+    }
+    if (box.x < left) {
+      regions.push({ x: box.x, y: box.y, width: Math.min(left, box.x + box.width) - box.x, height: box.height });
+    }
+    return regions;
+  });
+}
+
+/**
+ * 崩壊予測のオーバーレイをSVGで描画
+ * - 画面（ブレークポイント幅）の外側は赤で塗り、はみ出した領域は赤の斜線で強調
+ * - はみ出しの原因の要素は赤、最小幅・テキストの問題がある要素は橙、予測の対象ノードは青の枠
+ *
+ * @returns SVG文字列
+ */
+export function renderPredictionOverlay(input: PredictionOverlayInput): string {
+  const { frame, breakpoint, issues, highlightNodeId } = input;
+  const boxes = input.boxes.length > MAX_BOXES
+    ? [...input.boxes].sort((a, b) => a.depth - b.depth).slice(0, MAX_BOXES)
+    : input.boxes;
+  const boxById = new Map(boxes.map(box => [box.nodeId, box]));
+  const nodes = indexNodes(frame);
+
+  const minX = Math.min(0, ...boxes.map(box => box.x));
+  const maxX = Math.max(breakpoint.width, ...boxes.map(box => box.x + box.width));
+  const maxY = Math.max(1, ...boxes.map(box => box.y + box.height));
+  const width = maxX - minX + MARGIN * 2;
+  const height = maxY + MARGIN * 2 + HEADER_HEIGHT;
+
+  const overflowCauses = new Set(
+    issues.filter(issue => issue.kind === 'OVERFLOW').flatMap(issue => issue.causes.map(cause => cause.nodeId))
+  );
+  const overflowContainers = new Set(issues.filter(issue => issue.kind === 'OVERFLOW').map(issue => issue.nodeId));
+  const squeezed = new Set(issues.filter(issue => issue.kind !== 'OVERFLOW').map(issue => issue.nodeId));
+
+  const parts: string[] = [];
+
+  // 見出し
+  parts.push(
+    `<text x="${MARGIN}" y="${MARGIN + 4}" font-size="12" font-weight="bold" fill="${COLORS.screen}">` +
+      `${escapeXml(`${frame.name} — ${breakpoint.name} (${breakpoint.width}px)`)}</text>`
+  );
+
+  parts.push(`<g transform="translate(${MARGIN - minX} ${MARGIN + HEADER_HEIGHT})">`);
+
+  // 画面と画面外
+  parts.push(rect(0, 0, breakpoint.width, maxY, `fill="#ffffff" stroke="${COLORS.screen}" stroke-width="2"`));
+  if (maxX > breakpoint.width) {
+    parts.push(rect(breakpoint.width, 0, maxX - breakpoint.width, maxY, `fill="${COLORS.overflow}" fill-opacity="0.08"`));
+  }
+  if (minX < 0) {
+    parts.push(rect(minX, 0, -minX, maxY, `fill="${COLORS.overflow}" fill-opacity="0.08"`));
+  }
+
+  // ボックスツリー
+  for (const box of boxes) {
+    const stroke = overflowCauses.has(box.nodeId)
+      ? `stroke="${COLORS.overflow}" stroke-width="2"`
+      : overflowContainers.has(box.nodeId)
+        ? `stroke="${COLORS.overflow}" stroke-width="1.5" stroke-dasharray="4 2"`
+        : squeezed.has(box.nodeId)
+          ? `stroke="${COLORS.squeeze}" stroke-width="2"`
+          : `stroke="${COLORS.box}" stroke-width="1"`;
+    const fill = squeezed.has(box.nodeId) ? `fill="${COLORS.squeeze}" fill-opacity="0.15"` : 'fill="none"';
+    const label = fitLabel(box.nodeName, box.width);
+
+    parts.push(
+      `<g><title>${escapeXml(`${box.nodeName} (${box.nodeType}) ${box.width}×${box.height}px`)}</title>` +
+        rect(box.x, box.y, box.width, box.height, `${fill} ${stroke}`) +
+        (label
+          ? `<text x="${box.x + 3}" y="${box.y + LABEL_FONT_SIZE + 1}" font-size="${LABEL_FONT_SIZE}" fill="${COLORS.label}">${escapeXml(label)}</text>`
+          : '') +
+        '</g>'
+    );
+  }
+
+  // はみ出した領域
+  for (const issue of issues.filter(entry => entry.kind === 'OVERFLOW')) {
+    for (const region of overflowRegions(issue, boxById, nodes)) {
+      parts.push(
+        rect(region.x, region.y, region.width, region.height, `fill="url(#overflow-hatch)" stroke="${COLORS.overflow}" stroke-width="1"`)
+      );
+    }
+  }
+
+  // 予測の対象ノード
+  const highlight = highlightNodeId ? boxById.get(highlightNodeId) : undefined;
+  if (highlight) {
+    parts.push(
+      rect(highlight.x - 2, highlight.y - 2, highlight.width + 4, highlight.height + 4, `fill="none" stroke="${COLORS.highlight}" stroke-width="3"`)
+    );
+  }
+
+  // 画面の右端
+  parts.push(
+    `<line x1="${breakpoint.width}" y1="0" x2="${breakpoint.width}" y2="${maxY}" stroke="${COLORS.screen}" stroke-width="1" stroke-dasharray="6 4"/>`
+  );
+  parts.push('</g>');
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif">`,
+    '<defs><pattern id="overflow-hatch" width="6" height="6" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">' +
+      `<rect width="6" height="6" fill="${COLORS.overflow}" fill-opacity="0.15"/>` +
+      `<line x1="0" y1="0" x2="0" y2="6" stroke="${COLORS.overflow}" stroke-width="2" stroke-opacity="0.6"/></pattern></defs>`,
+    rect(0, 0, width, height, 'fill="#f8fafc"'),
+    ...parts,
+    '</svg>'
+  ].join('\n');
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  findScreenFrame,
+  renderPredictionOverlay
+};
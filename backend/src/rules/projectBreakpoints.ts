@@ -0,0 +1,170 @@
+// =====================================
+// backend/src/rules/projectBreakpoints.ts
+// プロジェクトのブレークポイント定義 - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: layoutSimulation, types/rules
+// 説明: プロジェクトごとの名前付きブレークポイントの検証・解決と、
+//       レイアウトシミュレーション結果からのブレークポイント別対応可否の集計
+// =====================================
+
+import type { BreakpointReadiness, ProjectBreakpoint } from '../types/rules';
+import type { FrameSimulation } from './layoutSimulation';
+
+// =====================================
+// 設定
+// =====================================
+
+/**
+ * デフォルトのブレークポイント（プロジェクト未設定時）
+ */
+export const DEFAULT_PROJECT_BREAKPOINTS: ProjectBreakpoint[] = [
+  { name: 'mobile', width: 375 },
+  { name: 'tablet', width: 768 },
+  { name: 'desktop', width: 1440 }
+];
+
+export const MAX_PROJECT_BREAKPOINTS = 10;
+export const MIN_BREAKPOINT_WIDTH = 240;
+export const MAX_BREAKPOINT_WIDTH = 3840;
+
+// Tailwindのscreen名・CSSクラスのプレフィックスとして使える名前
+const BREAKPOINT_NAME_PATTERN = /^[a-z][a-z0-9-]{0,29}$/;
+
+// =====================================
+// 検証・解決
+// =====================================
+
+/**
+ * ブレークポイント設定を検証
+ *
+ * @returns エラーメッセージ（問題が無ければ空配列）
+ */
+export function validateProjectBreakpoints(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return ['ブレークポイントは { name, width } の配列で指定してください'];
+  }
+
+  const errors: string[] = [];
+
+  if (value.length === 0 || value.length > MAX_PROJECT_BREAKPOINTS) {
+    errors.push(`ブレークポイントは1〜${MAX_PROJECT_BREAKPOINTS}件で指定してください`);
+  }
+
+  value.forEach((breakpoint, i) => {
+    if (typeof breakpoint?.name !== 'string' || !BREAKPOINT_NAME_PATTERN.test(breakpoint.name)) {
+      errors.push(`ブレークポイント${i + 1}件目: 名前は英小文字で始まる英小文字・数字・ハイフン（30文字以内）で指定してください`);
+    }
+    if (
+      !Number.isInteger(breakpoint?.width) ||
+      breakpoint.width < MIN_BREAKPOINT_WIDTH ||
+      breakpoint.width > MAX_BREAKPOINT_WIDTH
+    ) {
+      errors.push(
+        `ブレークポイント${i + 1}件目: 幅は${MIN_BREAKPOINT_WIDTH}〜${MAX_BREAKPOINT_WIDTH}の整数（px）で指定してください`
+      );
+    }
+  });
+
+  const names = value.map(breakpoint => breakpoint?.name);
+  const widths = value.map(breakpoint => breakpoint?.width);
+  if (new Set(names).size !== names.length) {
+    errors.push('ブレークポイントの名前が重複しています');
+  }
+  if (new Set(widths).size !== widths.length) {
+    errors.push('ブレークポイントの幅が重複しています');
+  }
+
+  return errors;
+}
+
+/**
+ * 保存済みのブレークポイント設定を解決（未設定・不正な場合はデフォルト）
+ *
+ * @returns 幅の昇順に並べたブレークポイント
+ */
+export function resolveProjectBreakpoints(stored?: unknown): ProjectBreakpoint[] {
+  const breakpoints =
+    stored !== null && stored !== undefined && validateProjectBreakpoints(stored).length === 0
+      ? (stored as ProjectBreakpoint[]).map(({ name, width }) => ({ name, width }))
+      : DEFAULT_PROJECT_BREAKPOINTS;
+
+  return [...breakpoints].sort((a, b) => a.width - b.width);
+}
+
+// =====================================
+// 対応可否
+// =====================================
+
+/**
+ * シミュレーション結果からブレークポイント別の対応可否を集計
+ * デザイン幅がブレークポイント以下のフレームはシミュレーション対象外のため、はみ出し無しとして扱う
+ *
+ * @param simulations - layoutSimulation.simulateBreakpoints の結果
+ * @param breakpoints - プロジェクトのブレークポイント
+ */
+export function summarizeBreakpointReadiness(
+  simulations: FrameSimulation[],
+  breakpoints: ProjectBreakpoint[]
+): BreakpointReadiness[] {
+  return breakpoints.map(breakpoint => {
+    const results = simulations.filter(simulation => simulation.breakpoint === breakpoint.name);
+    const overflowFrames = results.filter(result => result.issues.some(issue => issue.kind === 'OVERFLOW')).length;
+
+    return {
+      ...breakpoint,
+      ready: overflowFrames === 0,
+      simulatedFrames: results.length,
+      overflowFrames,
+      squeezedNodes: results.reduce(
+        (sum, result) => sum + result.issues.filter(issue => issue.kind === 'SQUEEZE').length,
+        0
+      ),
+      textIssues: results.reduce(
+        (sum, result) => sum + result.issues.filter(issue => issue.kind === 'TEXT').length,
+        0
+      )
+    };
+  });
+}
+
+/**
+ * AnalysisResult.mobileReady / tabletReady / desktopReady を導出
+ * "mobile" / "tablet" / "desktop" という名前のブレークポイントがあればその結果、
+ * 無ければ狭い順に1番目・2番目、最も広いブレークポイントの結果を使う
+ * ブレークポイントが3件未満の場合は、デフォルトのブレークポイント幅に最も近いブレークポイントの結果を使う
+ */
+export function resolveReadinessFlags(
+  readiness: BreakpointReadiness[]
+): { mobileReady: boolean; tabletReady: boolean; desktopReady: boolean } {
+  const sorted = [...readiness].sort((a, b) => a.width - b.width);
+  const nearest = (name: string) => {
+    const width = DEFAULT_PROJECT_BREAKPOINTS.find(breakpoint => breakpoint.name === name)!.width;
+    // 同じ距離なら狭い方（より厳しい結果）を使う
+    return sorted.reduce<BreakpointReadiness | undefined>(
+      (best, entry) => (!best || Math.abs(entry.width - width) < Math.abs(best.width - width) ? entry : best),
+      undefined
+    );
+  };
+  const find = (name: string, position: BreakpointReadiness | undefined) =>
+    readiness.find(entry => entry.name === name) ??
+    (sorted.length >= DEFAULT_PROJECT_BREAKPOINTS.length ? position : nearest(name));
+
+  return {
+    mobileReady: find('mobile', sorted[0])?.ready ?? false,
+    tabletReady: find('tablet', sorted[1])?.ready ?? false,
+    desktopReady: find('desktop', sorted[sorted.length - 1])?.ready ?? true
+  };
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  DEFAULT_PROJECT_BREAKPOINTS,
+  MAX_PROJECT_BREAKPOINTS,
+  validateProjectBreakpoints,
+  resolveProjectBreakpoints,
+  summarizeBreakpointReadiness,
+  resolveReadinessFlags
+};
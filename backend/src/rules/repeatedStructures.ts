@@ -0,0 +1,282 @@
+// =====================================
+// backend/src/rules/repeatedStructures.ts
+// 繰り返し構造検出ユーティリティ - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: BaseRuleChecker, namingPolicy, types/rules
+// 説明: ノードタイプ・レイアウト設定・子要素の構成からサブツリーの構造ハッシュを求め、
+//       コンポーネント化されていない同一構造のグループ（コンポーネント化の候補）を検出する
+// =====================================
+
+import { createHash } from 'crypto';
+import type { FigmaNode } from '../services/figmaApiService';
+import type { RepeatedStructureGroup, RepeatedStructureStats } from '../types/rules';
+import { isDefaultLayerName } from './BaseRuleChecker';
+import { resolveNamingPolicy, splitNameWords, suggestName } from './namingPolicy';
+
+// =====================================
+// 型定義
+// =====================================
+
+/**
+ * 検出のパラメータ
+ */
+export interface RepeatedStructureParams {
+  minOccurrences: number;  // グループとして報告する最小出現数
+  minLayers: number;       // 対象にする最小レイヤー数（ルートを含む。単純な構造は対象外）
+}
+
+/**
+ * 解析単位の検出結果（同一解析内のルールチェックと統計で共有）
+ */
+export interface RepeatedStructureAnalysis {
+  groups: RepeatedStructureGroup[];
+  groupsByNodeId: Map<string, RepeatedStructureGroup>;  // 報告先ノードID（各グループの最初の出現箇所） → グループ
+}
+
+// =====================================
+// 設定
+// =====================================
+
+// 繰り返し構造のルートになりうるノードタイプ
+export const REPEATED_STRUCTURE_ROOT_TYPES = ['FRAME', 'GROUP'];
+
+// 配下がコンポーネントで管理されているノードタイプ
+const COMPONENT_SCOPE_TYPES = ['COMPONENT', 'COMPONENT_SET', 'INSTANCE'];
+
+// コンポーネント名の候補はPascalCase（"Card / Product" → "Card/Product"）
+const COMPONENT_NAMING_POLICY = resolveNamingPolicy({ preset: 'PASCAL_CASE_COMPONENTS' });
+
+// =====================================
+// 構造ハッシュ
+// =====================================
+
+function isVisible(node: FigmaNode): boolean {
+  return node.visible !== false;
+}
+
+/**
+ * ノード自身の構造（名前・テキスト内容・位置・サイズ・余白の数値は含めない）
+ * 余白のズレはスペーシングルールで検出するため、同じ構成であれば同一構造として扱う
+ */
+function describeShape(node: FigmaNode): unknown[] {
+  return [
+    node.type,
+    node.layoutMode ?? 'NONE',
+    node.layoutWrap ?? 'NO_WRAP',
+    node.primaryAxisSizingMode ?? null,
+    node.counterAxisSizingMode ?? null,
+    node.primaryAxisAlignItems ?? null,
+    node.layoutPositioning ?? 'AUTO'
+  ];
+}
+
+/**
+ * 表示中のサブツリーの構造ハッシュとレイヤー数を求める（子の順序も構造に含む）
+ */
+function hashSubtree(
+  node: FigmaNode,
+  hashes: Map<FigmaNode, { hash: string; layerCount: number }>
+): { hash: string; layerCount: number } {
+  const children = (node.children ?? []).filter(isVisible).map(child => hashSubtree(child, hashes));
+  const entry = {
+    hash: createHash('sha1')
+      .update(JSON.stringify([describeShape(node), children.map(child => child.hash)]))
+      .digest('hex')
+      .slice(0, 16),
+    layerCount: 1 + children.reduce((sum, child) => sum + child.layerCount, 0)
+  };
+
+  hashes.set(node, entry);
+  return entry;
+}
+
+// =====================================
+// 検出
+// =====================================
+
+/**
+ * 出現箇所の名前に共通する先頭の単語（"chip-new", "chip-sale" → "chip"）、
+ * 共通する単語が無い場合は最も多く使われている名前を代表にして、コンポーネント名の候補を生成
+ */
+function suggestComponentName(nodes: FigmaNode[]): string {
+  const wordLists = nodes
+    .filter(node => !isDefaultLayerName(node.name))
+    .map(node => splitNameWords(node.name));
+  const common: string[] = [];
+  for (const [i, word] of (wordLists[0] ?? []).entries()) {
+    if (!wordLists.every(words => words[i] === word)) {
+      break;
+    }
+    common.push(word);
+  }
+
+  const counts = new Map<string, number>();
+  for (const node of nodes) {
+    counts.set(node.name, (counts.get(node.name) ?? 0) + 1);
+  }
+  const representative = nodes.find(
+    node => counts.get(node.name) === Math.max(...counts.values())
+  )!;
+  const name = common.length > 0 ? common.join(' ') : representative.name;
+
+  return suggestName({ ...representative, name, type: 'COMPONENT' }, COMPONENT_NAMING_POLICY) ?? 'Item';
+}
+
+/**
+ * コンポーネント化されていない繰り返し構造のグループを検出
+ * ページ直下のフレーム（画面そのもの）と、コンポーネント・インスタンス配下のノードは対象外
+ * 入れ子になった繰り返しは、外側のグループに全て含まれる場合は報告しない（外側をコンポーネント化すれば解消するため）
+ */
+export function findRepeatedStructures(
+  allNodes: FigmaNode[],
+  params: RepeatedStructureParams
+): RepeatedStructureGroup[] {
+  const hashes = new Map<FigmaNode, { hash: string; layerCount: number }>();
+  const parents = new Map<FigmaNode, FigmaNode>();
+  const excluded = new Set<FigmaNode>();
+
+  // allNodesは行きがけ順のため、親を処理してから子を処理する
+  for (const node of allNodes) {
+    const parent = parents.get(node);
+    if (!isVisible(node) || (parent && excluded.has(parent)) || COMPONENT_SCOPE_TYPES.includes(node.type)) {
+      excluded.add(node);
+    }
+    for (const child of node.children ?? []) {
+      parents.set(child, node);
+    }
+  }
+
+  const candidates = new Map<string, FigmaNode[]>();
+
+  for (const node of allNodes) {
+    const parent = parents.get(node);
+    if (
+      !REPEATED_STRUCTURE_ROOT_TYPES.includes(node.type) ||
+      excluded.has(node) ||
+      !parent ||
+      parent.type === 'CANVAS'
+    ) {
+      continue;
+    }
+
+    const { hash, layerCount } = hashes.get(node) ?? hashSubtree(node, hashes);
+    if (layerCount < params.minLayers) {
+      continue;
+    }
+    candidates.set(hash, [...(candidates.get(hash) ?? []), node]);
+  }
+
+  // レイヤー数の多い（外側の）グループから採用し、採用したグループの配下を記録する
+  const order = new Map(allNodes.map((node, i) => [node, i]));
+  const covered = new Set<FigmaNode>();
+  const groups: Array<{ first: number; group: RepeatedStructureGroup }> = [];
+
+  const sorted = [...candidates.entries()]
+    .filter(([, nodes]) => nodes.length >= params.minOccurrences)
+    .map(([hash, nodes]) => ({ hash, nodes, layerCount: hashes.get(nodes[0])!.layerCount }))
+    .sort((a, b) => b.layerCount - a.layerCount);
+
+  for (const { hash, nodes, layerCount } of sorted) {
+    if (nodes.every(node => covered.has(node))) {
+      continue;
+    }
+
+    groups.push({
+      first: order.get(nodes[0])!,
+      group: {
+        hash,
+        occurrences: nodes.length,
+        nodeIds: nodes.map(node => node.id),
+        nodeNames: nodes.map(node => node.name),
+        layerCount,
+        suggestedName: suggestComponentName(nodes),
+        // 1箇所をメインコンポーネントにすると、残りの出現箇所はインスタンス1レイヤーで済む
+        estimatedLayerSaving: (nodes.length - 1) * (layerCount - 1)
+      }
+    });
+
+    const stack = nodes.flatMap(node => node.children ?? []);
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      covered.add(node);
+      stack.push(...(node.children ?? []));
+    }
+  }
+
+  return groups.sort((a, b) => a.first - b.first).map(({ group }) => group);
+}
+
+// =====================================
+// 解析単位のキャッシュ
+// =====================================
+
+// 同一解析内（同じallNodes配列）で、ノードごとのルールチェックと統計計算が結果を共有する
+const analysisCache = new WeakMap<FigmaNode[], Map<string, RepeatedStructureAnalysis>>();
+
+/**
+ * 繰り返し構造を検出（同一解析・同一パラメータでは一度だけ計算）
+ */
+export function analyzeRepeatedStructures(
+  allNodes: FigmaNode[],
+  params: RepeatedStructureParams
+): RepeatedStructureAnalysis {
+  const cacheKey = JSON.stringify([params.minOccurrences, params.minLayers]);
+  const cached = analysisCache.get(allNodes) ?? new Map<string, RepeatedStructureAnalysis>();
+  const hit = cached.get(cacheKey);
+  if (hit) {
+    return hit;
+  }
+
+  const groups = findRepeatedStructures(allNodes, params);
+  const analysis: RepeatedStructureAnalysis = {
+    groups,
+    groupsByNodeId: new Map(groups.map(group => [group.nodeIds[0], group]))
+  };
+
+  cached.set(cacheKey, analysis);
+  analysisCache.set(allNodes, cached);
+  return analysis;
+}
+
+/**
+ * ノードを最初の出現箇所とする繰り返し構造のグループを取得
+ */
+export function getRepeatedStructureGroup(
+  allNodes: FigmaNode[],
+  params: RepeatedStructureParams,
+  nodeId: string
+): RepeatedStructureGroup | undefined {
+  return analyzeRepeatedStructures(allNodes, params).groupsByNodeId.get(nodeId);
+}
+
+// =====================================
+// 統計
+// =====================================
+
+/**
+ * 繰り返し構造の統計を計算
+ */
+export function calculateRepeatedStructureStats(
+  allNodes: FigmaNode[],
+  params: RepeatedStructureParams
+): RepeatedStructureStats {
+  const { groups } = analyzeRepeatedStructures(allNodes, params);
+
+  return {
+    groups,
+    repeatedNodes: groups.reduce((sum, group) => sum + group.occurrences, 0),
+    estimatedLayerSaving: groups.reduce((sum, group) => sum + group.estimatedLayerSaving, 0)
+  };
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  REPEATED_STRUCTURE_ROOT_TYPES,
+  findRepeatedStructures,
+  analyzeRepeatedStructures,
+  getRepeatedStructureGroup,
+  calculateRepeatedStructureStats
+};
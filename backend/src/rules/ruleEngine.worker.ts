@@ -0,0 +1,41 @@
+// =====================================
+// backend/src/rules/ruleEngine.worker.ts
+// ルールエンジン ワーカースレッド - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: worker_threads, RuleEngine, customRules, rulePlugins
+// 説明: RuleEngine.analyzeDocumentInWorker から起動され、別スレッドでドキュメント解析を実行
+// =====================================
+
+import { parentPort, workerData } from 'worker_threads';
+import { getRuleEngine } from './RuleEngine';
+import type { RuleEngineWorkerData, RuleEngineWorkerMessage } from './RuleEngine';
+import { CustomRuleChecker } from './customRules';
+
+const data = workerData as RuleEngineWorkerData;
+let message: RuleEngineWorkerMessage;
+
+try {
+  const engine = getRuleEngine();
+
+  // メインスレッドと同じプラグインディレクトリから読み込み（関数はスレッド間で受け渡せないため）
+  engine.loadPlugins(data.pluginDirectory);
+
+  // メインスレッドで読み込み済みのカスタムルールを再構築
+  engine.setCustomRules(
+    data.customRules.map(rule => new CustomRuleChecker(rule.definition, rule.logic))
+  );
+
+  message = {
+    summary: engine.analyzeDocument(
+      data.rootNode,
+      data.projectId,
+      data.profile,
+      data.suppressions,
+      data.options
+    )
+  };
+} catch (error) {
+  message = { error: error instanceof Error ? error.message : String(error) };
+}
+
+parentPort!.postMessage(message);
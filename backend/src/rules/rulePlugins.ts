@@ -0,0 +1,289 @@
+// =====================================
+// backend/src/rules/rulePlugins.ts
+// ルールプラグインローダー - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: fs, path, types/rules, utils/logger
+// 説明: プラグインディレクトリのモジュールからRuleChecker実装を読み込み、ルール単位でエラーを隔離して実行する
+// =====================================
+
+import fs from 'fs';
+import path from 'path';
+import type { FigmaNode } from '../services/figmaApiService';
+import type {
+  RuleChecker,
+  RuleCheckContext,
+  RuleCheckResult,
+  RuleDefinition
+} from '../types/rules';
+import { RuleCategory, Severity } from '../types/rules';
+import logger from '../utils/logger';
+
+// =====================================
+// 設定
+// =====================================
+
+// プラグインとして読み込むモジュールの拡張子（ts-nodeで実行中は.tsも読み込む）
+const PLUGIN_EXTENSIONS = path.extname(__filename) === '.ts'
+  ? ['.js', '.cjs', '.ts']
+  : ['.js', '.cjs'];
+
+// このエラー回数に達したプラグインルールは以降の解析で無効化する
+const MAX_PLUGIN_RULE_ERRORS = 10;
+
+// =====================================
+// 型定義
+// =====================================
+
+/**
+ * プラグインモジュールの読み込み結果
+ */
+export interface RulePluginModule {
+  plugin: string;          // プラグイン名（ファイル名から拡張子を除いたもの）
+  file: string;            // モジュールの絶対パス
+  rules: RuleChecker[];
+  errors: string[];        // 読み込めなかったルールのエラー
+}
+
+// =====================================
+// Plugin Rule Checker
+// =====================================
+
+/**
+ * プラグインルールチェッカー
+ * 読み込み時の定義を固定し、check() の例外・不正な戻り値をルール単位で握りつぶして解析全体を止めない
+ */
+export class PluginRuleChecker implements RuleChecker {
+  private readonly definition: RuleDefinition;
+  private errorCount = 0;
+  private disabled = false;
+
+  constructor(
+    private readonly inner: RuleChecker,
+    readonly plugin: string,
+    definition: RuleDefinition
+  ) {
+    this.definition = Object.freeze({ ...definition });
+  }
+
+  getDefinition(): RuleDefinition {
+    return this.definition;
+  }
+
+  check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
+    if (this.disabled) {
+      return { passed: true, violations: [] };
+    }
+
+    try {
+      const result = this.inner.check(node, context);
+
+      if (!result || typeof result.passed !== 'boolean' || !Array.isArray(result.violations)) {
+        throw new Error('check() は { passed, violations } を返す必要があります');
+      }
+
+      return result;
+    } catch (error) {
+      this.recordError(node, error);
+      return { passed: true, violations: [] };
+    }
+  }
+
+  /**
+   * エラーを記録し、上限に達したら無効化
+   */
+  private recordError(node: FigmaNode, error: unknown): void {
+    this.errorCount++;
+
+    logger.error('プラグインルールチェックエラー', {
+      plugin: this.plugin,
+      ruleId: this.definition.id,
+      nodeId: node.id,
+      errorCount: this.errorCount,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    if (this.errorCount >= MAX_PLUGIN_RULE_ERRORS) {
+      this.disabled = true;
+      logger.warn('エラーが続いたためプラグインルールを無効化', {
+        plugin: this.plugin,
+        ruleId: this.definition.id,
+        errorCount: this.errorCount
+      });
+    }
+  }
+}
+
+// =====================================
+// Discovery
+// =====================================
+
+/**
+ * プラグインディレクトリ内のモジュールを列挙
+ * 直下のファイルと、index（またはpackage.jsonのmain）を持つサブディレクトリが対象
+ * 「_」「.」で始まるもの、型定義・テストファイルは除外する
+ *
+ * @param directory - プラグインディレクトリ
+ * @returns モジュールの絶対パス（名前順）
+ */
+export function discoverPluginModules(directory: string): string[] {
+  const root = path.resolve(directory);
+
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    logger.warn('ルールプラグインディレクトリが見つかりません', { directory: root });
+    return [];
+  }
+
+  const modules: string[] = [];
+
+  for (const entry of fs.readdirSync(root, { withFileTypes: true })) {
+    if (/^[_.]/.test(entry.name) || /\.(d|test|spec)\.[cm]?[jt]s$/.test(entry.name)) {
+      continue;
+    }
+
+    const fullPath = path.join(root, entry.name);
+
+    if (entry.isFile() && PLUGIN_EXTENSIONS.includes(path.extname(entry.name))) {
+      modules.push(fullPath);
+    } else if (entry.isDirectory()) {
+      try {
+        modules.push(require.resolve(fullPath));
+      } catch {
+        // エントリーポイントの無いディレクトリは対象外
+      }
+    }
+  }
+
+  return modules.sort();
+}
+
+// =====================================
+// Load
+// =====================================
+
+/**
+ * プラグインモジュールを読み込み、エクスポートされたRuleCheckerを取り出す
+ * default / rules / 名前付きエクスポートのインスタンス・配列・クラス（引数なしで生成）に対応する
+ * 1つのルールの生成・定義取得に失敗しても、同じモジュールの他のルールは読み込む
+ *
+ * @param file - モジュールの絶対パス
+ * @returns 読み込み結果（モジュール自体の読み込みに失敗した場合はrulesが空）
+ */
+export function loadPluginModule(file: string): RulePluginModule {
+  const plugin = getPluginName(file);
+  const result: RulePluginModule = { plugin, file, rules: [], errors: [] };
+
+  let exported: Record<string, unknown>;
+  try {
+    exported = require(file);
+  } catch (error) {
+    result.errors.push(`モジュールを読み込めません: ${error instanceof Error ? error.message : String(error)}`);
+    return result;
+  }
+
+  const candidates = new Set<unknown>();
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(item => candidates.add(item));
+    } else if (value !== null && value !== undefined) {
+      candidates.add(value);
+    }
+  };
+
+  if (isRuleChecker(exported) || isRuleCheckerClass(exported)) {
+    collect(exported);
+  } else {
+    Object.values(exported ?? {}).forEach(collect);
+  }
+
+  for (const candidate of candidates) {
+    try {
+      if (isRuleChecker(candidate)) {
+        result.rules.push(candidate);
+      } else if (isRuleCheckerClass(candidate)) {
+        result.rules.push(new candidate());
+      }
+    } catch (error) {
+      const name = typeof candidate === 'function' ? candidate.name : 'anonymous';
+      result.errors.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * プラグインルールの定義を検証
+ *
+ * @returns エラーメッセージ（問題が無い場合は空配列）
+ */
+export function validatePluginDefinition(definition: RuleDefinition | undefined): string[] {
+  if (!definition || typeof definition !== 'object') {
+    return ['getDefinition() がルール定義を返しません'];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof definition.id !== 'string' || !/^[A-Z][A-Z0-9_]*$/.test(definition.id)) {
+    errors.push('idは英大文字・数字・アンダースコアの文字列である必要があります');
+  }
+  if (typeof definition.name !== 'string' || definition.name.length === 0) {
+    errors.push('nameは必須です');
+  }
+  if (!Object.values(RuleCategory).includes(definition.category)) {
+    errors.push(`categoryは${Object.values(RuleCategory).join(', ')}のいずれかである必要があります`);
+  }
+  if (!Object.values(Severity).includes(definition.severity)) {
+    errors.push(`severityは${Object.values(Severity).join(', ')}のいずれかである必要があります`);
+  }
+  if (definition.nodeTypes !== undefined && !Array.isArray(definition.nodeTypes)) {
+    errors.push('nodeTypesは文字列の配列である必要があります');
+  }
+
+  return errors;
+}
+
+// =====================================
+// Helpers
+// =====================================
+
+/**
+ * プラグイン名を取得（index.jsの場合はディレクトリ名）
+ */
+function getPluginName(file: string): string {
+  const base = path.basename(file, path.extname(file));
+  return base === 'index' ? path.basename(path.dirname(file)) : base;
+}
+
+/**
+ * RuleCheckerインスタンスか判定
+ */
+function isRuleChecker(value: unknown): value is RuleChecker {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as RuleChecker).getDefinition === 'function' &&
+    typeof (value as RuleChecker).check === 'function'
+  );
+}
+
+/**
+ * RuleChecker実装クラスか判定
+ */
+function isRuleCheckerClass(value: unknown): value is new () => RuleChecker {
+  return (
+    typeof value === 'function' &&
+    typeof value.prototype?.getDefinition === 'function' &&
+    typeof value.prototype?.check === 'function'
+  );
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  PluginRuleChecker,
+  discoverPluginModules,
+  loadPluginModule,
+  validatePluginDefinition
+};
@@ -0,0 +1,127 @@
+// =====================================
+// backend/src/rules/ruleProfile.ts
+// ルールプロファイル適用ユーティリティ - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: types/rules
+// 説明: プロジェクト別ルールプロファイル（有効/無効・重要度・パラメータ）の解決と適用
+// =====================================
+
+import type {
+  RuleDefinition,
+  RuleOverride,
+  RuleProfile,
+  RuleViolation,
+  ResolvedRuleSetting
+} from '../types/rules';
+
+// =====================================
+// Default Profile
+// =====================================
+
+/**
+ * デフォルトプロファイル（全ルール有効・定義どおりの重要度とパラメータ）
+ */
+export const DEFAULT_RULE_PROFILE: RuleProfile = {
+  rules: {}
+};
+
+// =====================================
+// Resolve
+// =====================================
+
+/**
+ * ルールの個別設定を取得
+ *
+ * @param profile - ルールプロファイル（未指定時はデフォルト）
+ * @param ruleId - ルールID
+ * @returns 個別設定（未設定の場合はundefined）
+ */
+export function getRuleOverride(
+  profile: RuleProfile | undefined,
+  ruleId: string
+): RuleOverride | undefined {
+  return profile?.rules[ruleId];
+}
+
+/**
+ * ルールが有効か判定
+ */
+export function isRuleEnabled(profile: RuleProfile | undefined, ruleId: string): boolean {
+  return getRuleOverride(profile, ruleId)?.enabled !== false;
+}
+
+/**
+ * ルール定義にプロファイルを適用した設定を取得
+ *
+ * @param definition - ルール定義
+ * @param profile - ルールプロファイル
+ * @returns プロファイル適用後の設定
+ */
+export function resolveRuleSetting(
+  definition: RuleDefinition,
+  profile?: RuleProfile
+): ResolvedRuleSetting {
+  const override = getRuleOverride(profile, definition.id);
+
+  return {
+    definition,
+    enabled: override?.enabled !== false,
+    severity: override?.severity ?? definition.severity,
+    params: {
+      ...(definition.defaultParams ?? {}),
+      ...(override?.params ?? {})
+    },
+    overridden: override !== undefined
+  };
+}
+
+// =====================================
+// Apply
+// =====================================
+
+/**
+ * 違反配列にプロファイルを適用
+ * 無効化されたルールの違反を除外し、重要度の上書きを反映する
+ *
+ * @param violations - 違反配列
+ * @param profile - ルールプロファイル
+ * @returns プロファイル適用後の違反配列
+ */
+export function applyRuleProfile(
+  violations: RuleViolation[],
+  profile?: RuleProfile
+): RuleViolation[] {
+  if (!profile) {
+    return violations;
+  }
+
+  const result: RuleViolation[] = [];
+
+  for (const violation of violations) {
+    const override = getRuleOverride(profile, violation.ruleId);
+
+    if (override?.enabled === false) {
+      continue;
+    }
+
+    result.push(
+      override?.severity && override.severity !== violation.severity
+        ? { ...violation, severity: override.severity }
+        : violation
+    );
+  }
+
+  return result;
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  DEFAULT_RULE_PROFILE,
+  getRuleOverride,
+  isRuleEnabled,
+  resolveRuleSetting,
+  applyRuleProfile
+};
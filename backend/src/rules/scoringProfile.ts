@@ -0,0 +1,184 @@
+// =====================================
+// backend/src/rules/scoringProfile.ts
+// スコアリングプロファイル定義 - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: types/rules
+// 説明: プロジェクトごとに選択できる名前付きスコアリングプロファイル（減点・重み・閾値）の定義と解決
+// =====================================
+
+import { RuleCategory, Severity } from '../types/rules';
+import type { ScoringProfile } from '../types/rules';
+
+// =====================================
+// Built-in Profiles
+// =====================================
+
+/**
+ * デフォルトのスコアリングプロファイル名
+ */
+export const DEFAULT_SCORING_PROFILE_NAME = 'standard';
+
+/**
+ * 標準プロファイル
+ * プロファイル導入前のScoreCalculatorと同じ値（既存プロジェクトのスコアを変えない）
+ */
+const STANDARD_PROFILE: ScoringProfile = {
+  name: 'standard',
+  label: 'Standard',
+  description: '標準的な評価。HTML生成は60点以上、Grid生成は100点のみ',
+  severityPenalty: {
+    [Severity.CRITICAL]: 10,
+    [Severity.MAJOR]: 5,
+    [Severity.MINOR]: 2,
+    [Severity.INFO]: 0
+  },
+  categoryWeight: {
+    [RuleCategory.LAYOUT]: 0.30,
+    [RuleCategory.SIZE]: 0.20,
+    [RuleCategory.RESPONSIVE]: 0.25,
+    [RuleCategory.SEMANTIC]: 0.10,
+    [RuleCategory.COMPONENT]: 0.15,
+    [RuleCategory.SPACING]: 0,        // 総合スコア対象外（standardValueMatchで評価）
+    [RuleCategory.COLOR]: 0,          // 総合スコア対象外（近似色グループで評価）
+    [RuleCategory.TEXT]: 0,           // 総合スコア対象外（タイプスケール・近似スタイルで評価）
+    [RuleCategory.ACCESSIBILITY]: 0.15
+  },
+  frameNormalization: {
+    enabled: true,
+    scale: 10
+  },
+  thresholds: {
+    canGenerateHTML: 60,
+    canUseGrid: 100
+  }
+};
+
+/**
+ * 厳格プロファイル
+ * 本番実装前の最終チェック向け。減点を重くし、HTML生成は90点以上
+ */
+const STRICT_PROFILE: ScoringProfile = {
+  ...STANDARD_PROFILE,
+  name: 'strict',
+  label: 'Strict',
+  description: '本番実装向けの厳格な評価。減点が重く、HTML生成は90点以上',
+  severityPenalty: {
+    [Severity.CRITICAL]: 15,
+    [Severity.MAJOR]: 8,
+    [Severity.MINOR]: 3,
+    [Severity.INFO]: 0
+  },
+  thresholds: {
+    canGenerateHTML: 90,
+    canUseGrid: 100
+  }
+};
+
+/**
+ * マーケティングプロファイル
+ * LP・キャンペーンページ向け。レスポンシブとアクセシビリティを重視し、コンポーネント化・命名は軽め
+ */
+const MARKETING_PROFILE: ScoringProfile = {
+  ...STANDARD_PROFILE,
+  name: 'marketing',
+  label: 'Marketing',
+  description: 'LP・キャンペーンページ向け。レスポンシブとアクセシビリティを重視',
+  categoryWeight: {
+    ...STANDARD_PROFILE.categoryWeight,
+    [RuleCategory.LAYOUT]: 0.25,
+    [RuleCategory.SIZE]: 0.15,
+    [RuleCategory.RESPONSIVE]: 0.30,
+    [RuleCategory.SEMANTIC]: 0.05,
+    [RuleCategory.COMPONENT]: 0.05,
+    [RuleCategory.ACCESSIBILITY]: 0.20
+  },
+  thresholds: {
+    canGenerateHTML: 75,
+    canUseGrid: 100
+  }
+};
+
+/**
+ * プロトタイププロファイル
+ * 検証用の試作向け。減点を軽くし、レイアウト構造のみを重視
+ */
+const PROTOTYPE_PROFILE: ScoringProfile = {
+  ...STANDARD_PROFILE,
+  name: 'prototype',
+  label: 'Prototype',
+  description: '試作・検証向けの緩い評価。命名規則は評価せず、HTML生成は50点以上',
+  severityPenalty: {
+    [Severity.CRITICAL]: 6,
+    [Severity.MAJOR]: 3,
+    [Severity.MINOR]: 1,
+    [Severity.INFO]: 0
+  },
+  categoryWeight: {
+    ...STANDARD_PROFILE.categoryWeight,
+    [RuleCategory.LAYOUT]: 0.40,
+    [RuleCategory.SIZE]: 0.20,
+    [RuleCategory.RESPONSIVE]: 0.20,
+    [RuleCategory.SEMANTIC]: 0,
+    [RuleCategory.COMPONENT]: 0.10,
+    [RuleCategory.ACCESSIBILITY]: 0.10
+  },
+  frameNormalization: {
+    enabled: true,
+    scale: 5
+  },
+  thresholds: {
+    canGenerateHTML: 50,
+    canUseGrid: 95
+  }
+};
+
+/**
+ * 組み込みスコアリングプロファイル（プロファイル名 → 定義）
+ */
+export const SCORING_PROFILES: Record<string, ScoringProfile> = {
+  [STANDARD_PROFILE.name]: STANDARD_PROFILE,
+  [STRICT_PROFILE.name]: STRICT_PROFILE,
+  [MARKETING_PROFILE.name]: MARKETING_PROFILE,
+  [PROTOTYPE_PROFILE.name]: PROTOTYPE_PROFILE
+};
+
+// =====================================
+// Resolve
+// =====================================
+
+/**
+ * 組み込みプロファイル名か判定
+ */
+export function isScoringProfileName(name: unknown): name is string {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(SCORING_PROFILES, name);
+}
+
+/**
+ * スコアリングプロファイルを取得
+ * 未指定・不明なプロファイル名の場合は標準プロファイルを返す
+ *
+ * @param name - プロファイル名
+ * @returns スコアリングプロファイル
+ */
+export function getScoringProfile(name?: string | null): ScoringProfile {
+  return isScoringProfileName(name) ? SCORING_PROFILES[name] : STANDARD_PROFILE;
+}
+
+/**
+ * 組み込みスコアリングプロファイル一覧を取得
+ */
+export function listScoringProfiles(): ScoringProfile[] {
+  return Object.values(SCORING_PROFILES);
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  DEFAULT_SCORING_PROFILE_NAME,
+  SCORING_PROFILES,
+  isScoringProfileName,
+  getScoringProfile,
+  listScoringProfiles
+};
@@ -0,0 +1,157 @@
+// =====================================
+// backend/src/rules/spacingRules.ts
+// スペーシングルール実装 12-13 - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: BaseRuleChecker, spacingScale, types/rules
+// 説明: スペーシング（Gap・Padding）と角丸のスケール整合性ルールの実装
+// =====================================
+
+import { BaseRuleChecker, getNodeLabel } from './BaseRuleChecker';
+import {
+  getSpacingValues,
+  getRadiusValues,
+  resolveScale,
+  isOnScale,
+  nearestOnScale,
+  describeScale,
+  ScaleValue
+} from './spacingScale';
+import type { RuleCheckResult, RuleCheckContext, ScaleDefinition } from '../types/rules';
+import type { FigmaNode } from '../services/figmaApiService';
+import { RuleId, RuleCategory, Severity } from '../types/rules';
+
+// =====================================
+// Rule 12: SPACING_OFF_SCALE
+// =====================================
+
+/**
+ * スペーシングスケールルール
+ * MINOR: スケール外のGap・PaddingはTailwindの任意値クラスになり、余白の一貫性を損なう
+ */
+export class SpacingOffScaleRule extends BaseRuleChecker {
+  constructor() {
+    super({
+      id: RuleId.SPACING_OFF_SCALE,
+      name: 'スペーシングスケール',
+      category: RuleCategory.SPACING,
+      severity: Severity.MINOR,
+      description: 'Gap・Paddingはスペーシングスケール（4/8px）上の値を使用してください',
+      impactTemplate: 'スケール外の余白は任意値クラス（例: gap-[13px]）になり、デザインの一貫性が低下します',
+      scoreImpact: 2,
+      nodeTypes: ['FRAME', 'COMPONENT', 'INSTANCE'],
+      defaultParams: {
+        scale: []  // 許容値（px）。空の場合はファイル内の値から基準単位を学習
+      }
+    });
+  }
+
+  check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
+    // 対象ノードタイプのみチェック
+    if (!this.appliesTo(node)) {
+      return this.passed();
+    }
+
+    const values = getSpacingValues(node);
+    if (values.length === 0) {
+      return this.passed();
+    }
+
+    const scale = resolveScale('spacing', this.getParam<number[]>(context, 'scale'), context.allNodes);
+    const offScale = values.filter(v => !isOnScale(v.value, scale));
+
+    if (offScale.length === 0) {
+      return this.passed();
+    }
+
+    const violation = this.createViolation(
+      node,
+      `${getNodeLabel(node)} "${node.name}" のスペーシングがスケール外です（${formatValues(offScale)}）`,
+      '任意値のTailwindクラスが生成され、画面間で余白がばらつきます',
+      `${formatNearest(offScale, scale)} に変更してください（スケール: ${describeScale(scale)}）`,
+      formatValues(offScale),
+      formatNearest(offScale, scale)
+    );
+    return this.failed(violation);
+  }
+}
+
+// =====================================
+// Rule 13: RADIUS_OFF_SCALE
+// =====================================
+
+/**
+ * 角丸スケールルール
+ * MINOR: スケール外の角丸はTailwindの任意値クラスになる
+ */
+export class RadiusOffScaleRule extends BaseRuleChecker {
+  constructor() {
+    super({
+      id: RuleId.RADIUS_OFF_SCALE,
+      name: '角丸スケール',
+      category: RuleCategory.SPACING,
+      severity: Severity.MINOR,
+      description: '角丸（Corner Radius）は角丸スケール上の値を使用してください',
+      impactTemplate: 'スケール外の角丸は任意値クラス（例: rounded-[5px]）になり、デザインの一貫性が低下します',
+      scoreImpact: 1,
+      nodeTypes: ['FRAME', 'COMPONENT', 'INSTANCE', 'RECTANGLE'],
+      defaultParams: {
+        scale: [],       // 許容値（px）。空の場合はファイル内の値から基準単位を学習
+        allowFull: true  // 短辺の半分以上（ピル型・円形）の角丸を対象外にする
+      }
+    });
+  }
+
+  check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
+    // 対象ノードタイプのみチェック
+    if (!this.appliesTo(node)) {
+      return this.passed();
+    }
+
+    const values = getRadiusValues(node, this.getParam<boolean>(context, 'allowFull'));
+    if (values.length === 0) {
+      return this.passed();
+    }
+
+    const scale = resolveScale('radius', this.getParam<number[]>(context, 'scale'), context.allNodes);
+    const offScale = values.filter(v => !isOnScale(v.value, scale));
+
+    if (offScale.length === 0) {
+      return this.passed();
+    }
+
+    const violation = this.createViolation(
+      node,
+      `${getNodeLabel(node)} "${node.name}" の角丸がスケール外です（${formatValues(offScale)}）`,
+      '任意値のTailwindクラスが生成され、コンポーネント間で角丸がばらつきます',
+      `${formatNearest(offScale, scale)} に変更してください（スケール: ${describeScale(scale)}）`,
+      formatValues(offScale),
+      formatNearest(offScale, scale)
+    );
+    return this.failed(violation);
+  }
+}
+
+// =====================================
+// Helpers
+// =====================================
+
+function formatValues(values: ScaleValue[]): string {
+  return values.map(v => `${v.property}: ${round(v.value)}px`).join(', ');
+}
+
+function formatNearest(values: ScaleValue[], scale: ScaleDefinition): string {
+  return values.map(v => `${v.property}: ${nearestOnScale(v.value, scale)}px`).join(', ');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  SpacingOffScaleRule,
+  RadiusOffScaleRule
+};
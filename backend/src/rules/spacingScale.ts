@@ -0,0 +1,284 @@
+// =====================================
+// backend/src/rules/spacingScale.ts
+// スペーシングスケールユーティリティ - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: BaseRuleChecker, types/rules
+// 説明: スペーシング・角丸の値収集、スケール学習、最近傍値の算出、スケール適合統計
+// =====================================
+
+import type { FigmaNode } from '../services/figmaApiService';
+import type { ScaleDefinition, SpacingStats } from '../types/rules';
+import { hasAutoLayout } from './BaseRuleChecker';
+
+// =====================================
+// 型定義
+// =====================================
+
+/**
+ * スケール対象の値
+ */
+export interface ScaleValue {
+  property: string;  // itemSpacing / paddingLeft / cornerRadius 等
+  value: number;
+}
+
+export type ScaleKind = 'spacing' | 'radius';
+
+// =====================================
+// 設定
+// =====================================
+
+// 基準単位の候補（大きい順に評価）
+const BASE_UNIT_CANDIDATES: Record<ScaleKind, number[]> = {
+  spacing: [8, 4],
+  radius: [4, 2]
+};
+
+// 学習値が無い場合の既定基準単位
+const DEFAULT_BASE_UNIT: Record<ScaleKind, number> = {
+  spacing: 4,
+  radius: 2
+};
+
+// 基準単位とみなすのに必要な適合率
+const DOMINANT_RATIO = 0.8;
+
+// 浮動小数の誤差許容（px）
+const EPSILON = 0.01;
+
+// =====================================
+// 値の収集
+// =====================================
+
+/**
+ * ノードのスペーシング値を取得（Auto Layoutノードのみ、0は除外）
+ */
+export function getSpacingValues(node: FigmaNode): ScaleValue[] {
+  if (!hasAutoLayout(node)) {
+    return [];
+  }
+
+  const values: ScaleValue[] = [];
+  const push = (property: string, value: number | undefined) => {
+    if (value !== undefined && value > 0) {
+      values.push({ property, value });
+    }
+  };
+
+  // SPACE_BETWEENの場合itemSpacingは使われない
+  if (node.primaryAxisAlignItems !== 'SPACE_BETWEEN') {
+    push('itemSpacing', node.itemSpacing);
+  }
+  if (node.layoutWrap === 'WRAP') {
+    push('counterAxisSpacing', node.counterAxisSpacing);
+  }
+  push('paddingTop', node.paddingTop);
+  push('paddingRight', node.paddingRight);
+  push('paddingBottom', node.paddingBottom);
+  push('paddingLeft', node.paddingLeft);
+
+  return values;
+}
+
+/**
+ * ノードの角丸値を取得（0は除外）
+ *
+ * @param node - 対象ノード
+ * @param allowFull - 短辺の半分以上（ピル型・円形）の角丸を除外するか
+ */
+export function getRadiusValues(node: FigmaNode, allowFull: boolean = true): ScaleValue[] {
+  const box = node.absoluteBoundingBox;
+  const fullRadius = box ? Math.min(box.width, box.height) / 2 : Infinity;
+  const isExcluded = (value: number) => value <= 0 || (allowFull && value >= fullRadius - EPSILON);
+
+  if (node.rectangleCornerRadii) {
+    const corners = ['topLeft', 'topRight', 'bottomRight', 'bottomLeft'];
+    return node.rectangleCornerRadii
+      .map((value, i) => ({ property: `cornerRadius.${corners[i]}`, value }))
+      .filter(item => !isExcluded(item.value));
+  }
+
+  if (node.cornerRadius !== undefined && !isExcluded(node.cornerRadius)) {
+    return [{ property: 'cornerRadius', value: node.cornerRadius }];
+  }
+
+  return [];
+}
+
+// =====================================
+// スケール解決
+// =====================================
+
+// 学習結果のキャッシュ（同一解析内の全ノードで共有）
+const learnedScaleCache = new WeakMap<FigmaNode[], Partial<Record<ScaleKind, ScaleDefinition>>>();
+
+/**
+ * スケールを解決
+ * プロファイルで値が指定されていればそれを使い、無ければファイル内の値から学習する
+ *
+ * @param kind - spacing / radius
+ * @param profileScale - プロファイル指定の許容値（空配列の場合は学習）
+ * @param allNodes - 解析対象の全ノード
+ */
+export function resolveScale(
+  kind: ScaleKind,
+  profileScale: number[] | undefined,
+  allNodes: FigmaNode[]
+): ScaleDefinition {
+  if (profileScale && profileScale.length > 0) {
+    return {
+      source: 'PROFILE',
+      values: [...profileScale].sort((a, b) => a - b)
+    };
+  }
+
+  const cached = learnedScaleCache.get(allNodes) ?? {};
+  if (!cached[kind]) {
+    const values = allNodes.flatMap(node =>
+      (kind === 'spacing' ? getSpacingValues(node) : getRadiusValues(node)).map(v => v.value)
+    );
+    cached[kind] = learnScale(values, kind);
+    learnedScaleCache.set(allNodes, cached);
+  }
+
+  return cached[kind]!;
+}
+
+/**
+ * 値の分布から基準単位を学習
+ * 候補のうち、値の DOMINANT_RATIO 以上が倍数になる最大の単位を採用する
+ */
+export function learnScale(values: number[], kind: ScaleKind): ScaleDefinition {
+  if (values.length === 0) {
+    return { source: 'DEFAULT', baseUnit: DEFAULT_BASE_UNIT[kind] };
+  }
+
+  for (const baseUnit of BASE_UNIT_CANDIDATES[kind]) {
+    const matched = values.filter(value => isOnScale(value, { source: 'LEARNED', baseUnit })).length;
+    if (matched / values.length >= DOMINANT_RATIO) {
+      return { source: 'LEARNED', baseUnit };
+    }
+  }
+
+  return { source: 'DEFAULT', baseUnit: DEFAULT_BASE_UNIT[kind] };
+}
+
+// =====================================
+// 判定
+// =====================================
+
+/**
+ * 基準単位スケールの許容値か判定（倍数、または小さい値向けの半単位）
+ */
+export function isOnScale(value: number, scale: ScaleDefinition): boolean {
+  if (scale.values) {
+    return scale.values.some(allowed => Math.abs(allowed - value) <= EPSILON);
+  }
+
+  const baseUnit = scale.baseUnit!;
+  const remainder = value % baseUnit;
+  const isMultiple = remainder <= EPSILON || baseUnit - remainder <= EPSILON;
+
+  return isMultiple || Math.abs(value - baseUnit / 2) <= EPSILON;
+}
+
+/**
+ * スケール上の最も近い値を取得（等距離の場合は大きい値）
+ */
+export function nearestOnScale(value: number, scale: ScaleDefinition): number {
+  const candidates = scale.values ?? (() => {
+    const baseUnit = scale.baseUnit!;
+    const lower = Math.floor(value / baseUnit) * baseUnit;
+    return [baseUnit / 2, lower, lower + baseUnit].filter(v => v > 0);
+  })();
+
+  let nearest = candidates[0];
+  for (const candidate of candidates) {
+    const diff = Math.abs(candidate - value);
+    const best = Math.abs(nearest - value);
+    if (diff < best || (diff === best && candidate > nearest)) {
+      nearest = candidate;
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * スケールの表示用文字列
+ */
+export function describeScale(scale: ScaleDefinition): string {
+  return scale.values
+    ? scale.values.map(v => `${v}px`).join(' / ')
+    : `${scale.baseUnit}pxの倍数`;
+}
+
+// =====================================
+// 統計
+// =====================================
+
+/**
+ * スペーシング・角丸のスケール適合統計を算出
+ *
+ * @param allNodes - 解析対象の全ノード
+ * @param spacingProfileScale - プロファイル指定のスペーシング許容値
+ * @param radiusProfileScale - プロファイル指定の角丸許容値
+ * @param allowFullRadius - ピル型・円形の角丸を除外するか
+ */
+export function calculateSpacingStats(
+  allNodes: FigmaNode[],
+  spacingProfileScale?: number[],
+  radiusProfileScale?: number[],
+  allowFullRadius: boolean = true
+): SpacingStats {
+  const spacingScale = resolveScale('spacing', spacingProfileScale, allNodes);
+  const radiusScale = resolveScale('radius', radiusProfileScale, allNodes);
+
+  let totalValues = 0;
+  let onScaleValues = 0;
+  const offScaleSpacing = new Set<number>();
+
+  for (const node of allNodes) {
+    for (const { value } of getSpacingValues(node)) {
+      totalValues++;
+      if (isOnScale(value, spacingScale)) {
+        onScaleValues++;
+      } else {
+        offScaleSpacing.add(value);
+      }
+    }
+
+    for (const { value } of getRadiusValues(node, allowFullRadius)) {
+      totalValues++;
+      if (isOnScale(value, radiusScale)) {
+        onScaleValues++;
+      }
+    }
+  }
+
+  return {
+    spacingScale,
+    radiusScale,
+    totalValues,
+    onScaleValues,
+    standardValueMatch: totalValues > 0
+      ? Math.round((onScaleValues / totalValues) * 1000) / 10
+      : 100,
+    redundantSpacingCount: offScaleSpacing.size
+  };
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  getSpacingValues,
+  getRadiusValues,
+  resolveScale,
+  learnScale,
+  isOnScale,
+  nearestOnScale,
+  describeScale,
+  calculateSpacingStats
+};
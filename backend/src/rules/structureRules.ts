@@ -0,0 +1,110 @@
+// =====================================
+// backend/src/rules/structureRules.ts
+// 構造ルール実装 11 - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: BaseRuleChecker, types/rules
+// 説明: レイヤー構造（コンテナの種類）に関するルールの実装
+// =====================================
+
+import { BaseRuleChecker, getNodeLabel } from './BaseRuleChecker';
+import type { RuleCheckResult, RuleCheckContext } from '../types/rules';
+import type { FigmaNode } from '../services/figmaApiService';
+import { RuleId, RuleCategory, Severity } from '../types/rules';
+
+// =====================================
+// Rule 11: GROUP_AS_LAYOUT
+// =====================================
+
+/**
+ * GROUPレイアウトコンテナ禁止ルール
+ * MAJOR: 要素を縦横に並べるGROUPはAuto Layout Frameに置き換えるべき
+ */
+export class GroupAsLayoutRule extends BaseRuleChecker {
+  constructor() {
+    super({
+      id: RuleId.GROUP_AS_LAYOUT,
+      name: 'GROUPのレイアウト利用禁止',
+      category: RuleCategory.LAYOUT,
+      severity: Severity.MAJOR,
+      description: '要素を並べるコンテナにはGROUPではなくAuto Layout Frameを使用してください',
+      impactTemplate: 'GROUPは子要素の座標をそのまま保持するため、HTML生成時に絶対配置になります',
+      scoreImpact: 5,
+      nodeTypes: ['GROUP'],
+      defaultParams: {
+        minChildren: 2  // レイアウトコンテナとみなす最小子要素数
+      }
+    });
+  }
+
+  check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
+    // 対象ノードタイプのみチェック
+    if (!this.appliesTo(node)) {
+      return this.passed();
+    }
+
+    const minChildren = this.getParam<number>(context, 'minChildren');
+    const boxes = (node.children ?? [])
+      .filter(child => child.visible !== false && child.absoluteBoundingBox)
+      .map(child => child.absoluteBoundingBox!);
+
+    if (boxes.length < minChildren) {
+      return this.passed();
+    }
+
+    // 子要素が重ならずに一方向へ並んでいればレイアウト用途とみなす
+    // （アイコン等の重ね合わせGROUPは対象外）
+    const direction = detectStackDirection(boxes);
+    if (!direction) {
+      return this.passed();
+    }
+
+    const violation = this.createViolation(
+      node,
+      `${getNodeLabel(node)} "${node.name}" が${boxes.length}個の要素を${direction === 'HORIZONTAL' ? '横' : '縦'}に並べるレイアウトコンテナとして使われています`,
+      'GROUPは子要素の位置を固定座標で保持するため、画面幅に応じた再配置ができません',
+      'GROUPを選択して Shift + A でAuto Layout Frameに変換してください',
+      'GROUP',
+      `Auto Layout Frame (${direction})`
+    );
+    return this.failed(violation);
+  }
+}
+
+// =====================================
+// Helpers
+// =====================================
+
+type Box = NonNullable<FigmaNode['absoluteBoundingBox']>;
+
+/**
+ * 矩形群の並び方向を判定
+ * 指定軸で並べ替えたときに隣り合う矩形が重ならなければ、その軸方向に並んでいるとみなす
+ *
+ * @returns 並び方向（重なりがありどちらにも並んでいない場合はnull）
+ */
+function detectStackDirection(boxes: Box[]): 'HORIZONTAL' | 'VERTICAL' | null {
+  const isStacked = (start: 'x' | 'y', size: 'width' | 'height') => {
+    const sorted = [...boxes].sort((a, b) => a[start] - b[start]);
+    return sorted.every((box, i) =>
+      i === 0 || sorted[i - 1][start] + sorted[i - 1][size] <= box[start] + 0.5
+    );
+  };
+
+  if (isStacked('x', 'width')) {
+    return 'HORIZONTAL';
+  }
+
+  if (isStacked('y', 'height')) {
+    return 'VERTICAL';
+  }
+
+  return null;
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  GroupAsLayoutRule
+};
@@ -0,0 +1,182 @@
+// =====================================
+// backend/src/rules/suppression.ts
+// 違反抑制ユーティリティ - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: types/rules
+// 説明: レイヤーアノテーション（[figlean-ignore RULE_ID]）と抑制レジストリによる違反抑制
+// =====================================
+
+import type { FigmaNode } from '../services/figmaApiService';
+import type {
+  RuleViolation,
+  SuppressedViolation,
+  SuppressionEntry,
+  SuppressionSummary
+} from '../types/rules';
+
+// =====================================
+// Annotation
+// =====================================
+
+/**
+ * 抑制マーカー
+ * [figlean-ignore] は全ルール、[figlean-ignore RULE_A RULE_B] / [figlean-ignore RULE_A, RULE_B] は指定ルールのみ抑制
+ */
+const IGNORE_ANNOTATION_PATTERN = /\[figlean-ignore(?:\s+([^\]]*))?\]/gi;
+
+/**
+ * 全ルールを表すワイルドカード
+ */
+export const ALL_RULES = '*';
+
+/**
+ * テキストから抑制対象ルールIDを抽出
+ *
+ * @param text - レイヤー名・説明など
+ * @returns 抑制対象ルールID（全ルールの場合は ALL_RULES を含む）
+ */
+export function parseIgnoreAnnotations(text: string | undefined): Set<string> {
+  const ruleIds = new Set<string>();
+
+  if (!text) {
+    return ruleIds;
+  }
+
+  for (const match of text.matchAll(IGNORE_ANNOTATION_PATTERN)) {
+    const ids = (match[1] ?? '').split(/[\s,]+/).filter(Boolean);
+
+    if (ids.length === 0) {
+      ruleIds.add(ALL_RULES);
+      continue;
+    }
+
+    ids.forEach(id => ruleIds.add(id.toUpperCase()));
+  }
+
+  return ruleIds;
+}
+
+/**
+ * テキストから抑制マーカーを取り除く
+ */
+export function stripIgnoreAnnotations(text: string): string {
+  return text.replace(IGNORE_ANNOTATION_PATTERN, '');
+}
+
+/**
+ * ノードのレイヤー名・説明から抑制対象ルールIDを取得
+ */
+export function getAnnotatedRuleIds(node: FigmaNode): Set<string> {
+  const ruleIds = parseIgnoreAnnotations(node.name);
+  parseIgnoreAnnotations(node.description).forEach(id => ruleIds.add(id));
+  return ruleIds;
+}
+
+// =====================================
+// Matcher
+// =====================================
+
+/**
+ * 違反抑制マッチャー
+ * アノテーションを優先し、次に有効期限内のレジストリエントリを照合する
+ */
+export class SuppressionMatcher {
+  private readonly registry = new Map<string, SuppressionEntry>();
+
+  /**
+   * @param entries - 抑制レジストリのエントリ
+   * @param now - 有効期限判定の基準日時
+   */
+  constructor(entries: SuppressionEntry[] = [], now: Date = new Date()) {
+    for (const entry of entries) {
+      if (entry.expiresAt && entry.expiresAt.getTime() <= now.getTime()) {
+        continue;
+      }
+      this.registry.set(registryKey(entry.ruleId, entry.frameId), entry);
+    }
+  }
+
+  /**
+   * ノードの違反を抑制対象と通常違反に振り分け
+   *
+   * @param node - 違反が検出されたノード
+   * @param violations - ノードの違反
+   * @returns 通常違反と抑制された違反
+   */
+  partition(
+    node: FigmaNode,
+    violations: RuleViolation[]
+  ): { kept: RuleViolation[]; suppressed: SuppressedViolation[] } {
+    const kept: RuleViolation[] = [];
+    const suppressed: SuppressedViolation[] = [];
+
+    if (violations.length === 0) {
+      return { kept, suppressed };
+    }
+
+    const annotated = getAnnotatedRuleIds(node);
+
+    for (const violation of violations) {
+      if (annotated.has(ALL_RULES) || annotated.has(violation.ruleId)) {
+        suppressed.push({ violation, source: 'ANNOTATION' });
+        continue;
+      }
+
+      const entry = this.registry.get(registryKey(violation.ruleId, violation.frameId));
+      if (entry) {
+        suppressed.push({
+          violation,
+          source: 'REGISTRY',
+          suppressionId: entry.id,
+          reason: entry.reason
+        });
+        continue;
+      }
+
+      kept.push(violation);
+    }
+
+    return { kept, suppressed };
+  }
+}
+
+// =====================================
+// Summary
+// =====================================
+
+/**
+ * 抑制件数サマリーを作成
+ *
+ * @param suppressed - 抑制された違反
+ */
+export function summarizeSuppressions(suppressed: SuppressedViolation[]): SuppressionSummary {
+  const summary: SuppressionSummary = {
+    total: suppressed.length,
+    bySource: { ANNOTATION: 0, REGISTRY: 0 },
+    byRule: {}
+  };
+
+  for (const item of suppressed) {
+    summary.bySource[item.source]++;
+    summary.byRule[item.violation.ruleId] = (summary.byRule[item.violation.ruleId] ?? 0) + 1;
+  }
+
+  return summary;
+}
+
+function registryKey(ruleId: string, frameId: string): string {
+  return `${ruleId}:${frameId}`;
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  ALL_RULES,
+  parseIgnoreAnnotations,
+  stripIgnoreAnnotations,
+  getAnnotatedRuleIds,
+  SuppressionMatcher,
+  summarizeSuppressions
+};
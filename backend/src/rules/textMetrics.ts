@@ -0,0 +1,333 @@
+// =====================================
+// backend/src/rules/textMetrics.ts
+// フォントメトリクスによるテキストレイアウトの概算 - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: figmaApiService（型のみ）
+// 説明: 主要フォントファミリーの平均字幅テーブルと、文字列・fontSize・letterSpacing・fontFamilyから
+//       テキストの幅・行数・最長の単語の幅を概算する（ブラウザの折り返しと同様に単語単位、CJKは1文字単位で改行）
+// =====================================
+
+import type { FigmaTypeStyle } from '../services/figmaApiService';
+
+// =====================================
+// 型定義
+// =====================================
+
+/**
+ * 文字の種類ごとの平均字幅（em = fontSizeに対する比率）
+ */
+export interface GlyphWidthTable {
+  lowercase: number;
+  uppercase: number;
+  digit: number;
+  space: number;
+  punctuation: number;
+  cjk: number;
+}
+
+/**
+ * 字幅テーブルを持つフォントファミリー
+ */
+interface FontFamilyMetrics {
+  name: string;
+  aliases: string[];  // 小文字のファミリー名（前方一致）
+  widths: GlyphWidthTable;
+}
+
+/**
+ * 字幅計算に使うテキストスタイル
+ */
+export interface TextMetricsStyle {
+  fontFamily: string;   // 字幅テーブルのフォントファミリー名
+  fontSize: number;
+  letterSpacing: number;
+  lineHeight: number;
+  widths: GlyphWidthTable;
+  weightFactor: number; // 太字による欧文の字幅の増加率
+}
+
+/**
+ * 指定幅でのテキストの折り返し結果（幅はpx）
+ */
+export interface TextLayoutEstimate {
+  lineCount: number;
+  height: number;            // lineCount × 行の高さ
+  longestLineWidth: number;
+  longestWordWidth: number;  // 改行できない最長の単位の幅
+  overflowsWidth: boolean;   // 最長の単語が指定幅に収まらない
+}
+
+// =====================================
+// 字幅テーブル
+// =====================================
+
+const SANS_CJK: Omit<GlyphWidthTable, 'cjk'> = {
+  lowercase: 0.52, uppercase: 0.66, digit: 0.56, space: 0.22, punctuation: 0.3
+};
+
+/**
+ * 主要フォントファミリーの平均字幅（各フォントの英文テキストでの実測平均を丸めた値）
+ * 和文フォントの欧文は標準的なゴシック体の値、CJKは全角1文字 = 1em
+ */
+const FONT_FAMILY_METRICS: FontFamilyMetrics[] = [
+  {
+    name: 'Inter',
+    aliases: ['inter'],
+    widths: { lowercase: 0.54, uppercase: 0.7, digit: 0.62, space: 0.28, punctuation: 0.32, cjk: 1 }
+  },
+  {
+    name: 'Roboto',
+    aliases: ['roboto'],
+    widths: { lowercase: 0.51, uppercase: 0.65, digit: 0.56, space: 0.25, punctuation: 0.29, cjk: 1 }
+  },
+  {
+    name: 'Helvetica',
+    aliases: ['helvetica', 'arial'],
+    widths: { lowercase: 0.5, uppercase: 0.67, digit: 0.56, space: 0.28, punctuation: 0.3, cjk: 1 }
+  },
+  {
+    name: 'SF Pro',
+    aliases: ['sf pro', 'sf ui', '-apple-system', 'system-ui'],
+    widths: { lowercase: 0.52, uppercase: 0.67, digit: 0.58, space: 0.26, punctuation: 0.3, cjk: 1 }
+  },
+  {
+    name: 'Open Sans',
+    aliases: ['open sans'],
+    widths: { lowercase: 0.53, uppercase: 0.66, digit: 0.57, space: 0.26, punctuation: 0.29, cjk: 1 }
+  },
+  {
+    name: 'Lato',
+    aliases: ['lato'],
+    widths: { lowercase: 0.49, uppercase: 0.63, digit: 0.58, space: 0.19, punctuation: 0.29, cjk: 1 }
+  },
+  {
+    name: 'Montserrat',
+    aliases: ['montserrat'],
+    widths: { lowercase: 0.58, uppercase: 0.74, digit: 0.66, space: 0.26, punctuation: 0.31, cjk: 1 }
+  },
+  {
+    name: 'Poppins',
+    aliases: ['poppins'],
+    widths: { lowercase: 0.56, uppercase: 0.72, digit: 0.62, space: 0.25, punctuation: 0.31, cjk: 1 }
+  },
+  {
+    name: 'Source Sans',
+    aliases: ['source sans'],
+    widths: { lowercase: 0.47, uppercase: 0.6, digit: 0.5, space: 0.2, punctuation: 0.27, cjk: 1 }
+  },
+  {
+    name: 'Noto Sans JP',
+    aliases: ['noto sans jp', 'noto sans cjk', 'hiragino', 'yu gothic', '游ゴシック', 'meiryo', 'メイリオ', 'm plus', 'zen kaku gothic'],
+    widths: { ...SANS_CJK, cjk: 1 }
+  },
+  {
+    name: 'Georgia',
+    aliases: ['georgia'],
+    widths: { lowercase: 0.51, uppercase: 0.7, digit: 0.58, space: 0.24, punctuation: 0.3, cjk: 1 }
+  },
+  {
+    name: 'Times',
+    aliases: ['times', 'noto serif', 'serif'],
+    widths: { lowercase: 0.45, uppercase: 0.66, digit: 0.5, space: 0.25, punctuation: 0.28, cjk: 1 }
+  },
+  {
+    name: 'Monospace',
+    aliases: ['roboto mono', 'sf mono', 'menlo', 'monaco', 'courier', 'jetbrains mono', 'source code pro', 'fira code', 'monospace'],
+    widths: { lowercase: 0.6, uppercase: 0.6, digit: 0.6, space: 0.6, punctuation: 0.6, cjk: 1 }
+  }
+];
+
+/**
+ * テーブルに無いフォントの字幅（一般的なサンセリフ体）
+ */
+const DEFAULT_METRICS: FontFamilyMetrics = {
+  name: 'Sans-serif',
+  aliases: [],
+  widths: { lowercase: 0.52, uppercase: 0.66, digit: 0.57, space: 0.27, punctuation: 0.3, cjk: 1 }
+};
+
+const DEFAULT_FONT_SIZE = 16;
+
+// 行間Autoの行の高さ（fontSizeに対する比率）
+const DEFAULT_LINE_HEIGHT_RATIO = 1.2;
+
+// 太字（fontWeight 600以上）の欧文の字幅の増加率
+const BOLD_WEIGHT = 600;
+const BOLD_WIDTH_FACTOR = 1.06;
+
+// 丸め誤差として無視する幅（px）
+const TOLERANCE = 1;
+
+// CJK（かな・漢字・全角記号）は1文字ごとに改行できる
+const CJK_CHARACTER = /[\u3000-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef]/;
+const LINE_TOKEN = /[\u3000-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef]|[^\s\u3000-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef]+|[^\S\n]+/g;
+
+// =====================================
+// スタイル解決
+// =====================================
+
+/**
+ * フォントファミリー名から字幅テーブルを解決（完全一致 → 前方一致 → 汎用ファミリー → デフォルト）
+ */
+export function resolveFontMetrics(fontFamily?: string): { name: string; widths: GlyphWidthTable } {
+  const family = (fontFamily ?? '').trim().toLowerCase();
+  if (!family) {
+    return DEFAULT_METRICS;
+  }
+
+  const match =
+    FONT_FAMILY_METRICS.find(metrics => metrics.aliases.includes(family)) ??
+    FONT_FAMILY_METRICS.find(metrics => metrics.aliases.some(alias => family.startsWith(alias))) ??
+    (family.includes('mono')
+      ? FONT_FAMILY_METRICS.find(metrics => metrics.name === 'Monospace')
+      : family.includes('serif') && !family.includes('sans')
+        ? FONT_FAMILY_METRICS.find(metrics => metrics.name === 'Times')
+        : undefined);
+
+  return match ?? DEFAULT_METRICS;
+}
+
+/**
+ * Figmaのテキストスタイルから字幅計算用のスタイルを解決
+ */
+export function resolveTextMetricsStyle(style?: FigmaTypeStyle): TextMetricsStyle {
+  const fontSize = style?.fontSize ?? DEFAULT_FONT_SIZE;
+  const metrics = resolveFontMetrics(style?.fontFamily);
+
+  return {
+    fontFamily: metrics.name,
+    fontSize,
+    letterSpacing: style?.letterSpacing ?? 0,
+    lineHeight: style?.lineHeightPx && style.lineHeightPx > 0 ? style.lineHeightPx : fontSize * DEFAULT_LINE_HEIGHT_RATIO,
+    widths: metrics.widths,
+    weightFactor: (style?.fontWeight ?? 400) >= BOLD_WEIGHT ? BOLD_WIDTH_FACTOR : 1
+  };
+}
+
+// =====================================
+// 幅の計算
+// =====================================
+
+/**
+ * CJK（かな・漢字・全角記号）の文字か
+ */
+export function isCjkCharacter(char: string): boolean {
+  return CJK_CHARACTER.test(char);
+}
+
+function glyphWidthEm(char: string, style: TextMetricsStyle): number {
+  const { widths } = style;
+
+  if (isCjkCharacter(char)) return widths.cjk;
+
+  let width: number;
+  if (/\s/.test(char)) width = widths.space;
+  else if (/\p{Lu}/u.test(char)) width = widths.uppercase;
+  else if (/\p{L}/u.test(char)) width = widths.lowercase;
+  else if (/\p{Nd}/u.test(char)) width = widths.digit;
+  else width = widths.punctuation;
+
+  return width * style.weightFactor;
+}
+
+/**
+ * 文字列の幅を概算（改行は考慮しない）
+ */
+export function estimateTextWidth(text: string, style: TextMetricsStyle): number {
+  return [...text].reduce((sum, char) => sum + glyphWidthEm(char, style) * style.fontSize + style.letterSpacing, 0);
+}
+
+/**
+ * 段落（改行区切り）を改行できる単位（単語・CJKの1文字・空白）に分割
+ */
+function tokenize(text: string, style: TextMetricsStyle): Array<Array<{ width: number; isSpace: boolean }>> {
+  return text.split('\n').map(paragraph =>
+    (paragraph.match(LINE_TOKEN) ?? []).map(token => ({
+      width: estimateTextWidth(token, style),
+      isSpace: /^\s+$/.test(token)
+    }))
+  );
+}
+
+/**
+ * 指定幅でテキストを折り返した行数を概算
+ * 行頭の空白は詰め、幅に収まらない単語は1行に置いてはみ出させる（CSSの overflow-wrap: normal と同じ）
+ *
+ * @param text - テキスト（characters）
+ * @param style - resolveTextMetricsStyle の結果
+ * @param maxWidth - テキストボックスの幅（px）
+ */
+export function estimateTextLayout(text: string, style: TextMetricsStyle, maxWidth: number): TextLayoutEstimate {
+  let lineCount = 0;
+  let longestLineWidth = 0;
+  let longestWordWidth = 0;
+
+  for (const tokens of tokenize(text, style)) {
+    let lineWidth = 0;
+    let hasContent = false;
+    lineCount++;
+
+    for (const token of tokens) {
+      if (token.isSpace) {
+        if (hasContent) lineWidth += token.width;
+        continue;
+      }
+
+      longestWordWidth = Math.max(longestWordWidth, token.width);
+      if (hasContent && lineWidth + token.width > maxWidth + TOLERANCE) {
+        longestLineWidth = Math.max(longestLineWidth, lineWidth);
+        lineCount++;
+        lineWidth = 0;
+      }
+      lineWidth += token.width;
+      hasContent = true;
+    }
+
+    longestLineWidth = Math.max(longestLineWidth, lineWidth);
+  }
+
+  return {
+    lineCount,
+    height: lineCount * style.lineHeight,
+    longestLineWidth,
+    longestWordWidth,
+    overflowsWidth: longestWordWidth - maxWidth > TOLERANCE
+  };
+}
+
+/**
+ * 指定した行数以内に収まる最小の幅を概算（改行を含むなど、どの幅でも収まらない場合は null）
+ */
+export function estimateWidthForLines(text: string, style: TextMetricsStyle, maxLines: number): number | null {
+  const paragraphs = text.split('\n');
+  if (paragraphs.length > maxLines) {
+    return null;
+  }
+
+  let low = Math.floor(estimateTextLayout(text, style, 0).longestWordWidth);
+  let high = Math.ceil(Math.max(...paragraphs.map(paragraph => estimateTextWidth(paragraph, style))));
+
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (estimateTextLayout(text, style, mid).lineCount <= maxLines) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+
+  return high;
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  resolveFontMetrics,
+  resolveTextMetricsStyle,
+  isCjkCharacter,
+  estimateTextWidth,
+  estimateTextLayout,
+  estimateWidthForLines
+};
@@ -0,0 +1,309 @@
+// =====================================
+// backend/src/rules/typographyAnalysis.ts
+// タイポグラフィ解析ユーティリティ - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: spacingScale, types/rules
+// 説明: テキストスタイルの収集、タイプスケール学習、近似テキストスタイルのクラスタリング、タイポグラフィ統計
+// =====================================
+
+import type { FigmaNode } from '../services/figmaApiService';
+import type {
+  ScaleDefinition,
+  TextStyleGroup,
+  TextStyleSignature,
+  TypographyStats
+} from '../types/rules';
+import { isOnScale } from './spacingScale';
+
+// =====================================
+// 型定義
+// =====================================
+
+/**
+ * 解析単位のタイポグラフィ解析結果（同一解析内のルールチェックと統計で共有）
+ */
+export interface TypographyAnalysis {
+  typeScale: ScaleDefinition;
+  groups: TextStyleGroup[];
+  canonicalByKey: Map<string, TextStyleSignature>;  // スタイルキー → 所属グループの代表スタイル
+}
+
+// =====================================
+// 設定
+// =====================================
+
+// 学習値が無い場合の既定タイプスケール（Tailwindの text-xs 〜 text-9xl）
+const DEFAULT_TYPE_SCALE = [12, 14, 16, 18, 20, 24, 30, 36, 48, 60, 72, 96, 128];
+
+// タイプスケールに含めるのに必要な既定の使用テキストノード数
+export const DEFAULT_MIN_SCALE_USAGE = 2;
+
+// 近似テキストスタイルとみなす差の上限
+const FONT_SIZE_TOLERANCE = 1;         // px
+const LINE_HEIGHT_TOLERANCE = 2;       // px
+const LETTER_SPACING_TOLERANCE = 0.5;  // px
+
+// =====================================
+// スタイルの収集
+// =====================================
+
+/**
+ * テキストノードのスタイルを取得（TEXT以外・非表示・フォントサイズ不明の場合はnull）
+ */
+export function getTextStyle(node: FigmaNode): TextStyleSignature | null {
+  const style = node.style;
+  if (node.type !== 'TEXT' || node.visible === false || !style?.fontSize) {
+    return null;
+  }
+
+  // 行間Auto（INTRINSIC_%）はAPIが計算値を返すが、明示的な指定ではない
+  const hasLineHeight = style.lineHeightPx !== undefined && style.lineHeightUnit !== 'INTRINSIC_%';
+
+  return {
+    fontFamily: style.fontFamily ?? '',
+    fontWeight: style.fontWeight ?? 400,
+    fontSize: round(style.fontSize),
+    lineHeightPx: hasLineHeight ? round(style.lineHeightPx!) : null,
+    letterSpacing: round(style.letterSpacing ?? 0)
+  };
+}
+
+/**
+ * テキストスタイルの識別キー
+ */
+export function getStyleKey(style: TextStyleSignature): string {
+  return [
+    style.fontFamily.toLowerCase(),
+    style.fontWeight,
+    style.fontSize,
+    style.lineHeightPx ?? 'auto',
+    style.letterSpacing
+  ].join('/');
+}
+
+/**
+ * テキストスタイルの表示用文字列（例: "Inter 400 16px/24px"）
+ */
+export function describeTextStyle(style: TextStyleSignature): string {
+  const lineHeight = style.lineHeightPx !== null ? `${style.lineHeightPx}px` : 'Auto';
+  const letterSpacing = style.letterSpacing !== 0 ? ` ${style.letterSpacing}px` : '';
+  return `${style.fontFamily} ${style.fontWeight} ${style.fontSize}px/${lineHeight}${letterSpacing}`;
+}
+
+// =====================================
+// タイプスケール
+// =====================================
+
+// 学習結果のキャッシュ（同一解析内の全ノードで共有）
+const typeScaleCache = new WeakMap<FigmaNode[], Map<number, ScaleDefinition>>();
+
+/**
+ * タイプスケールを解決
+ * プロファイルで値が指定されていればそれを使い、無ければ minUsage 以上のテキストノードで
+ * 使われているフォントサイズをスケールとして学習する（該当なしの場合は既定スケール）
+ *
+ * @param profileScale - プロファイル指定のフォントサイズ（空配列の場合は学習）
+ * @param minUsage - 学習時にスケールに含める最小使用数
+ * @param allNodes - 解析対象の全ノード
+ */
+export function resolveTypeScale(
+  profileScale: number[] | undefined,
+  minUsage: number = DEFAULT_MIN_SCALE_USAGE,
+  allNodes: FigmaNode[]
+): ScaleDefinition {
+  if (profileScale && profileScale.length > 0) {
+    return {
+      source: 'PROFILE',
+      values: [...profileScale].sort((a, b) => a - b)
+    };
+  }
+
+  const cached = typeScaleCache.get(allNodes) ?? new Map<number, ScaleDefinition>();
+  const hit = cached.get(minUsage);
+  if (hit) {
+    return hit;
+  }
+
+  const counts = new Map<number, number>();
+  for (const node of allNodes) {
+    const style = getTextStyle(node);
+    if (style) {
+      counts.set(style.fontSize, (counts.get(style.fontSize) ?? 0) + 1);
+    }
+  }
+
+  const learned = [...counts.entries()]
+    .filter(([, count]) => count >= minUsage)
+    .map(([size]) => size)
+    .sort((a, b) => a - b);
+
+  const scale: ScaleDefinition = learned.length > 0
+    ? { source: 'LEARNED', values: learned }
+    : { source: 'DEFAULT', values: DEFAULT_TYPE_SCALE };
+
+  cached.set(minUsage, scale);
+  typeScaleCache.set(allNodes, cached);
+
+  return scale;
+}
+
+// =====================================
+// クラスタリング
+// =====================================
+
+// 解析結果のキャッシュ（キーはタイプスケール）
+const analysisCache = new WeakMap<FigmaNode[], Map<string, TypographyAnalysis>>();
+
+/**
+ * テキストスタイルを近似グループにクラスタリング
+ * 代表スタイルには「スケール上のサイズ」「行間指定あり」「使用数が多い」ものを優先し、
+ * 同じフォント・ウェイトでサイズ・行間・字間の差が許容範囲内のスタイルをまとめる
+ *
+ * @param allNodes - 解析対象の全ノード
+ * @param typeScale - タイプスケール
+ */
+export function analyzeTypography(allNodes: FigmaNode[], typeScale: ScaleDefinition): TypographyAnalysis {
+  const cacheKey = JSON.stringify(typeScale);
+  const cached = analysisCache.get(allNodes) ?? new Map<string, TypographyAnalysis>();
+  const hit = cached.get(cacheKey);
+  if (hit) {
+    return hit;
+  }
+
+  // スタイルごとの使用数・使用ノードを集計
+  const usageByKey = new Map<string, { style: TextStyleSignature; usageCount: number; nodeIds: string[] }>();
+  for (const node of allNodes) {
+    const style = getTextStyle(node);
+    if (!style) {
+      continue;
+    }
+    const key = getStyleKey(style);
+    const entry = usageByKey.get(key) ?? { style, usageCount: 0, nodeIds: [] };
+    entry.usageCount++;
+    entry.nodeIds.push(node.id);
+    usageByKey.set(key, entry);
+  }
+
+  const priority = (style: TextStyleSignature) =>
+    (isOnScale(style.fontSize, typeScale) ? 2 : 0) + (style.lineHeightPx !== null ? 1 : 0);
+
+  const keys = [...usageByKey.keys()].sort((a, b) => {
+    const x = usageByKey.get(a)!;
+    const y = usageByKey.get(b)!;
+    return priority(y.style) - priority(x.style) || y.usageCount - x.usageCount || a.localeCompare(b);
+  });
+
+  // 優先度順に既存の代表スタイルへ割り当て（該当なしは新しい代表スタイル）
+  const groups: TextStyleGroup[] = [];
+  const canonicalByKey = new Map<string, TextStyleSignature>();
+
+  for (const key of keys) {
+    const { style, usageCount, nodeIds } = usageByKey.get(key)!;
+    let group = groups.find(g => isNearlyIdentical(style, g.canonical));
+
+    if (!group) {
+      group = { canonical: style, label: describeTextStyle(style), totalUsage: 0, members: [] };
+      groups.push(group);
+    }
+
+    group.totalUsage += usageCount;
+    group.members.push({ style, label: describeTextStyle(style), usageCount, nodeIds });
+    canonicalByKey.set(key, group.canonical);
+  }
+
+  const analysis: TypographyAnalysis = {
+    typeScale,
+    groups: groups.sort((a, b) => b.totalUsage - a.totalUsage),
+    canonicalByKey
+  };
+
+  cached.set(cacheKey, analysis);
+  analysisCache.set(allNodes, cached);
+
+  return analysis;
+}
+
+/**
+ * 2つのテキストスタイルがほぼ同じ見た目か判定（行間未指定は任意の行間と近似とみなす）
+ */
+export function isNearlyIdentical(a: TextStyleSignature, b: TextStyleSignature): boolean {
+  return (
+    a.fontFamily.toLowerCase() === b.fontFamily.toLowerCase() &&
+    a.fontWeight === b.fontWeight &&
+    Math.abs(a.fontSize - b.fontSize) <= FONT_SIZE_TOLERANCE &&
+    (a.lineHeightPx === null ||
+      b.lineHeightPx === null ||
+      Math.abs(a.lineHeightPx - b.lineHeightPx) <= LINE_HEIGHT_TOLERANCE) &&
+    Math.abs(a.letterSpacing - b.letterSpacing) <= LETTER_SPACING_TOLERANCE
+  );
+}
+
+// =====================================
+// 統計
+// =====================================
+
+/**
+ * タイポグラフィ統計を算出
+ *
+ * @param allNodes - 解析対象の全ノード
+ * @param profileScale - プロファイル指定のフォントサイズ
+ * @param minUsage - 学習時にスケールに含める最小使用数
+ */
+export function calculateTypographyStats(
+  allNodes: FigmaNode[],
+  profileScale?: number[],
+  minUsage?: number
+): TypographyStats {
+  const typeScale = resolveTypeScale(profileScale, minUsage, allNodes);
+  const analysis = analyzeTypography(allNodes, typeScale);
+
+  let textNodes = 0;
+  let missingLineHeight = 0;
+  const offScaleFontSizes = new Set<number>();
+
+  for (const node of allNodes) {
+    const style = getTextStyle(node);
+    if (!style) {
+      continue;
+    }
+
+    textNodes++;
+    if (style.lineHeightPx === null) {
+      missingLineHeight++;
+    }
+    if (!isOnScale(style.fontSize, typeScale)) {
+      offScaleFontSizes.add(style.fontSize);
+    }
+  }
+
+  return {
+    typeScale,
+    textNodes,
+    distinctStyles: analysis.canonicalByKey.size,
+    missingLineHeight,
+    offScaleFontSizes: [...offScaleFontSizes].sort((a, b) => a - b),
+    nearDuplicateGroups: analysis.groups.filter(group => group.members.length > 1)
+  };
+}
+
+// =====================================
+// Helpers
+// =====================================
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  getTextStyle,
+  getStyleKey,
+  describeTextStyle,
+  resolveTypeScale,
+  analyzeTypography,
+  isNearlyIdentical,
+  calculateTypographyStats
+};
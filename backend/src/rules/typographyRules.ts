@@ -0,0 +1,145 @@
+// =====================================
+// backend/src/rules/typographyRules.ts
+// タイポグラフィルール実装 15-16 - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: BaseRuleChecker, typographyAnalysis, spacingScale, types/rules
+// 説明: テキストノードのフォントサイズ（タイプスケール）と行間指定に関するルールの実装
+// =====================================
+
+import { BaseRuleChecker, getNodeLabel } from './BaseRuleChecker';
+import {
+  getTextStyle,
+  getStyleKey,
+  resolveTypeScale,
+  analyzeTypography,
+  DEFAULT_MIN_SCALE_USAGE
+} from './typographyAnalysis';
+import { isOnScale, nearestOnScale, describeScale } from './spacingScale';
+import type { RuleCheckResult, RuleCheckContext } from '../types/rules';
+import type { FigmaNode } from '../services/figmaApiService';
+import { RuleId, RuleCategory, Severity } from '../types/rules';
+
+// =====================================
+// Rule 15: FONT_SIZE_OFF_SCALE
+// =====================================
+
+/**
+ * タイプスケールルール
+ * MINOR: スケール外のフォントサイズはTailwindの任意値クラスになり、文字サイズの階層が崩れる
+ */
+export class FontSizeOffScaleRule extends BaseRuleChecker {
+  constructor() {
+    super({
+      id: RuleId.FONT_SIZE_OFF_SCALE,
+      name: 'タイプスケール',
+      category: RuleCategory.TEXT,
+      severity: Severity.MINOR,
+      description: 'フォントサイズはタイプスケール上の値を使用してください',
+      impactTemplate: 'スケール外のフォントサイズは任意値クラス（例: text-[15px]）になり、文字サイズの階層が曖昧になります',
+      scoreImpact: 2,
+      nodeTypes: ['TEXT'],
+      defaultParams: {
+        scale: [],                          // 許容フォントサイズ（px）。空の場合はファイル内の値から学習
+        minUsage: DEFAULT_MIN_SCALE_USAGE   // 学習時にスケールに含める最小使用テキストノード数
+      }
+    });
+  }
+
+  check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
+    // 対象ノードタイプのみチェック
+    if (!this.appliesTo(node)) {
+      return this.passed();
+    }
+
+    const style = getTextStyle(node);
+    if (!style) {
+      return this.passed();
+    }
+
+    const typeScale = resolveTypeScale(
+      this.getParam<number[]>(context, 'scale'),
+      this.getParam<number>(context, 'minUsage'),
+      context.allNodes
+    );
+
+    if (isOnScale(style.fontSize, typeScale)) {
+      return this.passed();
+    }
+
+    // 近似スタイルグループの代表スタイルがスケール上にあれば、それへの統一を提案
+    const canonical = analyzeTypography(context.allNodes, typeScale).canonicalByKey.get(getStyleKey(style));
+    const unifiable = canonical !== undefined && isOnScale(canonical.fontSize, typeScale);
+    const expected = unifiable ? canonical!.fontSize : nearestOnScale(style.fontSize, typeScale);
+
+    const violation = this.createViolation(
+      node,
+      `${getNodeLabel(node)} "${node.name}" のフォントサイズ ${style.fontSize}px がタイプスケール外です`,
+      '任意値のTailwindクラスが生成され、見出し・本文の文字サイズがばらつきます',
+      unifiable
+        ? `${expected}px のスタイルに統一してください（AutoFix: タイポグラフィの統一で一括修正できます）`
+        : `${expected}px に変更してください（スケール: ${describeScale(typeScale)}）`,
+      `${style.fontSize}px`,
+      `${expected}px`
+    );
+    return this.failed(violation);
+  }
+}
+
+// =====================================
+// Rule 16: LINE_HEIGHT_MISSING
+// =====================================
+
+/**
+ * 行間指定ルール
+ * MINOR: 行間Autoはフォントごとに描画が異なり、HTMLでFigmaと同じ行間を再現できない
+ */
+export class LineHeightMissingRule extends BaseRuleChecker {
+  constructor() {
+    super({
+      id: RuleId.LINE_HEIGHT_MISSING,
+      name: '行間指定',
+      category: RuleCategory.TEXT,
+      severity: Severity.MINOR,
+      description: 'テキストには行間（Line Height）を明示的に指定してください',
+      impactTemplate: '行間Autoはブラウザ・フォントによって高さが変わり、レイアウトがずれます',
+      scoreImpact: 1,
+      nodeTypes: ['TEXT'],
+      defaultParams: {
+        recommendedRatio: 1.5  // 推奨行間（フォントサイズに対する倍率）
+      }
+    });
+  }
+
+  check(node: FigmaNode, context: RuleCheckContext): RuleCheckResult {
+    // 対象ノードタイプのみチェック
+    if (!this.appliesTo(node)) {
+      return this.passed();
+    }
+
+    const style = getTextStyle(node);
+    if (!style || style.lineHeightPx !== null) {
+      return this.passed();
+    }
+
+    const recommended = Math.round(style.fontSize * this.getParam<number>(context, 'recommendedRatio'));
+
+    const violation = this.createViolation(
+      node,
+      `${getNodeLabel(node)} "${node.name}" の行間が指定されていません（${style.fontSize}px / Auto）`,
+      'leading-normal相当で出力され、Figmaのデザインとテキストの高さが一致しません',
+      `Line Height を ${recommended}px に設定してください`,
+      'Auto',
+      `${recommended}px`
+    );
+    return this.failed(violation);
+  }
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  FontSizeOffScaleRule,
+  LineHeightMissingRule
+};
@@ -0,0 +1,269 @@
+// =====================================
+// backend/src/rules/violationTracking.ts
+// 違反追跡ユーティリティ - FIGLEAN
+// 作成日時: 2026年10月19日
+// 更新日時: 2026年10月19日 - 解析範囲外の違反を解決とせず次回の比較に持ち越す振り分けを追加
+// 依存関係: crypto, suppression, types/rules
+// 説明: 違反のフィンガープリント生成と、前回解析との比較（NEW / PERSISTING / RESOLVED）
+// =====================================
+
+import { createHash } from 'crypto';
+import type { FigmaNode } from '../services/figmaApiService';
+import { ViolationStatus } from '../types/rules';
+import type {
+  AnalysisScope,
+  RuleViolation,
+  TrackedViolation,
+  ViolationTrackingSummary
+} from '../types/rules';
+import { stripIgnoreAnnotations } from './suppression';
+
+// =====================================
+// 型定義
+// =====================================
+
+/**
+ * 今回の違反に付与する追跡情報
+ */
+export interface ViolationTrackingInfo {
+  status: ViolationStatus.NEW | ViolationStatus.PERSISTING;
+  firstDetectedAt: Date;
+}
+
+/**
+ * 前回解析との比較結果
+ */
+export interface ViolationComparison {
+  byFingerprint: Map<string, ViolationTrackingInfo>;
+  resolved: TrackedViolation[];
+  summary: ViolationTrackingSummary;
+}
+
+/**
+ * 前回までの違反を今回の解析範囲の内外に振り分けた結果
+ */
+export interface ScopedTrackedViolations {
+  inScope: TrackedViolation[];     // 今回の解析結果と比較する違反
+  outOfScope: TrackedViolation[];  // 今回は検出対象外のため次回以降の比較に持ち越す違反
+}
+
+// =====================================
+// Node Path
+// =====================================
+
+const PATH_SEPARATOR = '/';
+
+/**
+ * レイヤー名を正規化
+ * 抑制マーカー・全角/半角・大文字/小文字・空白の差異ではパスが変わらないようにする
+ */
+export function normalizeNodeName(name: string | undefined): string {
+  return stripIgnoreAnnotations(name ?? '')
+    .normalize('NFKC')
+    .replace(/\//g, '-')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * ルート（DOCUMENT）を除いたノードの正規化パスを取得
+ *
+ * @param node - 対象ノード
+ * @param getParent - 親ノード参照（NodeIndex.getParent）
+ * @returns 正規化したノードパス（例: "page 1/header/button"）
+ */
+export function getNodePath(
+  node: FigmaNode,
+  getParent: (node: FigmaNode) => FigmaNode | undefined
+): string {
+  const names: string[] = [];
+
+  for (let current: FigmaNode | undefined = node; current; current = getParent(current)) {
+    if (current.type === 'DOCUMENT') {
+      break;
+    }
+    names.push(normalizeNodeName(current.name));
+  }
+
+  return names.reverse().join(PATH_SEPARATOR);
+}
+
+// =====================================
+// Fingerprint
+// =====================================
+
+/**
+ * 違反のフィンガープリントを生成
+ * ルールID・ノードID・正規化ノードパスが同じであれば、解析をまたいで同じ値になる
+ *
+ * @param occurrence - 同一ノードで同じルールの違反が複数ある場合の出現順（0始まり）
+ */
+export function createFingerprint(
+  ruleId: string,
+  nodeId: string,
+  nodePath: string,
+  occurrence = 0
+): string {
+  return createHash('sha1')
+    .update([ruleId, nodeId, nodePath, occurrence > 0 ? String(occurrence) : ''].join('\u0000'))
+    .digest('hex');
+}
+
+/**
+ * 単一ノードの違反にノードパスとフィンガープリントを付与
+ */
+export function assignFingerprints(
+  violations: RuleViolation[],
+  nodePath: string
+): RuleViolation[] {
+  const occurrences = new Map<string, number>();
+
+  return violations.map(violation => {
+    const ruleId = String(violation.ruleId);
+    const occurrence = occurrences.get(ruleId) ?? 0;
+    occurrences.set(ruleId, occurrence + 1);
+
+    return {
+      ...violation,
+      nodePath,
+      fingerprint: createFingerprint(ruleId, violation.frameId, nodePath, occurrence)
+    };
+  });
+}
+
+// =====================================
+// Scope
+// =====================================
+
+/**
+ * ドキュメント配下のノードIDと、解析範囲のルート（ページ・ルートノード）の正規化パスを収集
+ */
+function collectScopeIndex(
+  document: FigmaNode,
+  rootIds: Set<string>
+): { nodeIds: Set<string>; rootPaths: string[] } {
+  const nodeIds = new Set<string>();
+  const rootPaths: string[] = [];
+
+  const visit = (node: FigmaNode, names: string[]): void => {
+    const path = node.type === 'DOCUMENT' ? names : [...names, normalizeNodeName(node.name)];
+
+    nodeIds.add(node.id);
+    if (rootIds.has(node.id)) {
+      rootPaths.push(path.join(PATH_SEPARATOR));
+    }
+    node.children?.forEach(child => visit(child, path));
+  };
+
+  visit(document, []);
+  return { nodeIds, rootPaths };
+}
+
+/**
+ * 前回までの違反を今回の解析範囲の内外に振り分け
+ * ページ・ノード単位の解析では範囲外の違反を検出しないため、範囲外の違反を解決（RESOLVED）とせず、
+ * 初回検出日時を保ったまま次回以降の比較に持ち越す
+ * - ノードがファイルに残っている: 今回の解析範囲のドキュメントに含まれるか
+ * - ノードが削除された: ノードパスが今回の解析範囲のページ・ルートノード配下か
+ *
+ * @param previous - 前回までの違反
+ * @param fileDocument - ファイル全体のドキュメント
+ * @param scopedDocument - 今回の解析範囲に絞り込んだドキュメント
+ * @param scope - 今回の解析範囲
+ */
+export function partitionByScope(
+  previous: TrackedViolation[],
+  fileDocument: FigmaNode,
+  scopedDocument: FigmaNode,
+  scope: AnalysisScope
+): ScopedTrackedViolations {
+  if (scope.type === 'FILE') {
+    return { inScope: previous, outOfScope: [] };
+  }
+
+  const file = collectScopeIndex(fileDocument, new Set(scope.nodeIds));
+  const scoped = collectScopeIndex(scopedDocument, new Set());
+
+  const isInScope = (violation: TrackedViolation): boolean => {
+    if (violation.frameId && file.nodeIds.has(violation.frameId)) {
+      return scoped.nodeIds.has(violation.frameId);
+    }
+
+    const nodePath = violation.nodePath;
+    return !!nodePath && file.rootPaths.some(
+      root => nodePath === root || nodePath.startsWith(root + PATH_SEPARATOR)
+    );
+  };
+
+  return {
+    inScope: previous.filter(isInScope),
+    outOfScope: previous.filter(violation => !isInScope(violation))
+  };
+}
+
+// =====================================
+// Comparison
+// =====================================
+
+/**
+ * 今回の違反を前回解析の違反と比較し、追跡状態を分類
+ * 今回抑制された違反は「解決」ではないため、RESOLVEDには含めない
+ *
+ * @param current - 今回の違反（フィンガープリント付与済み）
+ * @param previous - 前回解析の違反
+ * @param suppressedFingerprints - 今回抑制された違反のフィンガープリント
+ * @param analyzedAt - 今回の解析日時（NEWの初回検出日時）
+ */
+export function compareViolations(
+  current: RuleViolation[],
+  previous: TrackedViolation[],
+  suppressedFingerprints: Set<string> = new Set(),
+  analyzedAt: Date = new Date()
+): ViolationComparison {
+  const previousByFingerprint = new Map(previous.map(v => [v.fingerprint, v]));
+  const byFingerprint = new Map<string, ViolationTrackingInfo>();
+  const summary: ViolationTrackingSummary = { new: 0, persisting: 0, resolved: 0 };
+
+  for (const violation of current) {
+    if (!violation.fingerprint) {
+      continue;
+    }
+
+    const matched = previousByFingerprint.get(violation.fingerprint);
+
+    if (matched) {
+      byFingerprint.set(violation.fingerprint, {
+        status: ViolationStatus.PERSISTING,
+        firstDetectedAt: new Date(matched.firstDetectedAt)
+      });
+      summary.persisting++;
+    } else {
+      byFingerprint.set(violation.fingerprint, {
+        status: ViolationStatus.NEW,
+        firstDetectedAt: analyzedAt
+      });
+      summary.new++;
+    }
+  }
+
+  const resolved = previous.filter(
+    v => !byFingerprint.has(v.fingerprint) && !suppressedFingerprints.has(v.fingerprint)
+  );
+  summary.resolved = resolved.length;
+
+  return { byFingerprint, resolved, summary };
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  normalizeNodeName,
+  getNodePath,
+  createFingerprint,
+  assignFingerprints,
+  partitionByScope,
+  compareViolations
+};
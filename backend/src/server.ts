@@ -9,6 +9,7 @@
 
 import app, { prisma } from './app';
 import { config } from './config/env';
+import { getRuleEngine } from './rules/RuleEngine';
 
 const PORT = config.port;
 
@@ -31,6 +32,12 @@ async function connectDatabase(): Promise<void> {
 async function startServer(): Promise<void> {
   // DB接続確認
   await connectDatabase();
+
+  // ルールプラグイン読み込み
+  if (config.ruleEnginePluginDir) {
+    const count = getRuleEngine().loadPlugins(config.ruleEnginePluginDir);
+    console.log(`🧩 Rule plugins loaded: ${count}`);
+  }
   
   // HTTPサーバー起動
   const server = app.listen(PORT, '0.0.0.0', () => {
@@ -4,8 +4,13 @@
 // 機能説明:
 //   - プロジェクト診断サマリー取得ロジック
 //   - ルール違反一覧取得ロジック（ページング、フィルター付き）
+//   - 前回解析との比較（NEW / PERSISTING / RESOLVED）の集計・絞り込み
 //   - 崩壊予測一覧取得ロジック
+//   - 翻訳による文字列長の変化のストレステスト（翻訳後にのみ崩れるフレームの予測）
+//   - 崩壊予測のオーバーレイSVG（ブレークポイント幅でのボックスツリー）の描画
 //   - 改善提案一覧取得ロジック
+//   - スコアの内訳（ルール別・Frame別の減点、閾値までの最小修正セット）取得ロジック
+//   - 解析履歴の一覧と、2つの解析（Figmaファイルのバージョン違い等）の比較
 //   - DB操作とビジネスロジックを集約
 // 作成日: 2026-01-16
 // 更新日: 2026-01-16 - 初回作成（Controller層からロジック分離）
@@ -18,10 +23,32 @@
 
 import { PrismaClient } from '@prisma/client';
 import logger from '../utils/logger';
-import { ValidationError } from '../errors';
+import { NotFoundError, ValidationError } from '../errors';
+import { getRuleEngine } from '../rules/RuleEngine';
+import { getScoreCalculator } from '../rules/ScoreCalculator';
+import { getScoringProfile } from '../rules/scoringProfile';
+import { compareAnalyses as compareAnalysisSnapshots } from '../rules/analysisComparison';
+import { resolveProjectBreakpoints } from '../rules/projectBreakpoints';
+import { simulateFrameLayout } from '../rules/layoutSimulation';
+import { findScreenFrame, renderPredictionOverlay } from '../rules/predictionOverlay';
+import { predictLocalizationBreaks } from './predictionService';
+import { resolveAnalysisScope } from './figmaImportService';
+import type { FigmaFileDetail, FigmaNode } from './figmaApiService';
+import { ViolationStatus, RuleCategory, Severity } from '../types/rules';
+import type {
+  TrackedViolation,
+  ScoringProfile,
+  RuleViolation,
+  AnalysisScope,
+  AnalysisSnapshot,
+  FrameAnalysisCache
+} from '../types/rules';
 
 const prisma = new PrismaClient();
 
+// 解析範囲が記録されていない（範囲指定導入前の）解析はファイル全体を対象としている
+const FILE_SCOPE: AnalysisScope = { type: 'FILE', nodeIds: [], names: [], label: 'ファイル全体' };
+
 // =====================================
 // 型定義
 // =====================================
@@ -29,6 +56,7 @@ const prisma = new PrismaClient();
 interface ViolationFilters {
   severity?: 'CRITICAL' | 'MAJOR' | 'MINOR';
   commentPosted?: boolean;
+  status?: 'NEW' | 'PERSISTING' | 'RESOLVED';
 }
 
 interface PaginationParams {
@@ -52,9 +80,10 @@ export async function fetchAnalysisSummary(userId: string, projectId: string) {
     throw new ValidationError('プロジェクトが見つかりません');
   }
 
-  // 診断結果取得
+  // 診断結果取得（最新の解析）
   const analysis = await prisma.analysisResult.findFirst({
-    where: { projectId }
+    where: { projectId, versionSnapshot: false },
+    orderBy: { createdAt: 'desc' }
   });
 
   if (!analysis) {
@@ -62,6 +91,8 @@ export async function fetchAnalysisSummary(userId: string, projectId: string) {
     return null;
   }
 
+  const scoringProfileConfig = analysis.scoringProfileConfig as ScoringProfile | null;
+
   // 違反統計を集計
   const violationStats = await calculateViolationStats(projectId);
 
@@ -77,8 +108,46 @@ export async function fetchAnalysisSummary(userId: string, projectId: string) {
   return {
     figleanScore: analysis.figleanScore,
     canGenerateHTML: analysis.htmlGeneratable,
-    canUseGrid: analysis.figleanScore === 100, // 100点の場合のみGrid可能
+    // 解析時のスコアリングプロファイルの閾値で判定（既定は100点のみGrid可能）
+    canUseGrid: analysis.figleanScore >= (scoringProfileConfig?.thresholds.canUseGrid ?? 100),
+    scoringProfile: analysis.scoringProfile,
+    // スコアの対象範囲（範囲指定のない解析はファイル全体）
+    scope: (analysis.analysisScope as AnalysisScope | null) ?? FILE_SCOPE,
+    // 解析したFigmaファイルのバージョン（バージョン記録導入前の解析はnull）
+    figmaVersion: analysis.figmaVersion,
+    figmaVersionLabel: analysis.figmaVersionLabel,
     violations: violationStats,
+    tracking: {
+      new: analysis.newViolations,
+      persisting: analysis.persistingViolations,
+      resolved: analysis.resolvedViolations
+    },
+    // 差分解析で前回結果を再利用したトップレベルフレーム数
+    skippedFrames: analysis.skippedFrames,
+    suppressed: {
+      total: analysis.suppressedViolations,
+      ...((analysis.suppressionBreakdown ?? { bySource: {}, byRule: {} }) as Record<string, unknown>)
+    },
+    colors: {
+      offPaletteColors: analysis.offPaletteColors ?? 0,
+      nearDuplicateGroups: analysis.colorGroups ?? []
+    },
+    typography: {
+      offScaleFontSizes: analysis.offScaleFontSizes ?? 0,
+      missingLineHeight: analysis.missingLineHeight ?? 0,
+      nearDuplicateGroups: analysis.typographyGroups ?? []
+    },
+    // ブレークポイント整合性（ブレークポイント解析導入前の解析は未設定）
+    breakpoints: analysis.breakpointStats ?? null,
+    // コンポーネント化されていない繰り返し構造（繰り返し構造検出導入前の解析は未設定）
+    repeatedStructures: analysis.repeatedStructures ?? null,
+    // プロジェクトのブレークポイント別の対応可否（レイアウトシミュレーション導入前の解析は未設定）
+    responsive: {
+      mobileReady: analysis.mobileReady,
+      tabletReady: analysis.tabletReady,
+      desktopReady: analysis.desktopReady,
+      breakpoints: analysis.breakpointReadiness ?? null
+    },
     totalFrames,
     analyzedAt: analysis.createdAt
   };
@@ -136,10 +205,19 @@ export async function fetchViolations(
     throw new ValidationError('プロジェクトが見つかりません');
   }
 
+  if (filters.status && !Object.values(ViolationStatus).includes(filters.status as ViolationStatus)) {
+    throw new ValidationError('statusはNEW / PERSISTING / RESOLVEDのいずれかを指定してください');
+  }
+
   // ページングパラメータ
   const limitNum = Math.min(pagination.limit || 50, 100);
   const offsetNum = pagination.offset || 0;
 
+  // 解決済みの違反はRuleViolationに残らないため、最新の解析結果から取得
+  if (filters.status === ViolationStatus.RESOLVED) {
+    return fetchResolvedViolations(projectId, filters, limitNum, offsetNum);
+  }
+
   // WHERE条件構築
   const whereCondition = buildWhereCondition(projectId, filters);
 
@@ -174,6 +252,55 @@ export async function fetchViolations(
   };
 }
 
+// =====================================
+// 解決済み違反一覧取得（内部ヘルパー）
+// =====================================
+
+async function fetchResolvedViolations(
+  projectId: string,
+  filters: ViolationFilters,
+  limitNum: number,
+  offsetNum: number
+) {
+  const analysis = await prisma.analysisResult.findFirst({
+    where: { projectId, versionSnapshot: false },
+    orderBy: { createdAt: 'desc' },
+    select: { resolvedViolationItems: true }
+  });
+
+  // コメント投稿状態は解決済みの違反には無いため、重要度のみで絞り込む
+  const resolved = ((analysis?.resolvedViolationItems as TrackedViolation[] | null) ?? [])
+    .filter(v => !filters.severity || v.severity === filters.severity);
+
+  const violations = resolved.slice(offsetNum, offsetNum + limitNum).map(v => ({
+    fingerprint: v.fingerprint,
+    frameName: v.frameName,
+    frameId: v.frameId,
+    framePath: v.nodePath,
+    ruleId: v.ruleId,
+    ruleName: v.ruleName,
+    ruleCategory: v.category,
+    severity: v.severity,
+    description: v.description,
+    trackingStatus: ViolationStatus.RESOLVED,
+    firstDetectedAt: v.firstDetectedAt
+  }));
+
+  logger.info('✅ [SERVICE] 解決済みルール違反一覧取得成功', {
+    projectId,
+    count: violations.length,
+    total: resolved.length
+  });
+
+  return {
+    violations,
+    total: resolved.length,
+    limit: limitNum,
+    offset: offsetNum,
+    hasMore: offsetNum + violations.length < resolved.length
+  };
+}
+
 // =====================================
 // WHERE条件構築（内部ヘルパー）
 // =====================================
@@ -185,6 +312,10 @@ function buildWhereCondition(projectId: string, filters: ViolationFilters) {
     whereCondition.severity = filters.severity;
   }
 
+  if (filters.status) {
+    whereCondition.trackingStatus = filters.status;
+  }
+
   if (filters.commentPosted !== undefined) {
     whereCondition.commentPosted = filters.commentPosted;
   }
@@ -225,6 +356,141 @@ export async function fetchPredictions(userId: string, projectId: string) {
   return predictions;
 }
 
+// =====================================
+// 翻訳のストレステスト
+// =====================================
+
+/**
+ * 最新の解析のFigmaデータを、その解析と同じ範囲（ページ・ルートノード）に絞り込んで取得
+ *
+ * @throws NotFoundError - Figmaデータが無い（未解析）
+ */
+async function loadLatestDocument(projectId: string): Promise<FigmaNode> {
+  const analysis = await prisma.analysisResult.findFirst({
+    where: { projectId, versionSnapshot: false },
+    orderBy: { createdAt: 'desc' },
+    select: { rawFigmaData: true, analysisScope: true }
+  });
+
+  const fileDetail = analysis?.rawFigmaData as unknown as FigmaFileDetail | null | undefined;
+  if (!fileDetail?.document) {
+    throw new NotFoundError('Figmaデータが見つかりません。先に診断を実行してください');
+  }
+
+  const scope = (analysis!.analysisScope as AnalysisScope | null) ?? FILE_SCOPE;
+  return resolveAnalysisScope(
+    fileDetail.document,
+    scope.type === 'PAGES' ? scope.nodeIds : undefined,
+    scope.type === 'NODE' ? scope.nodeIds[0] : null
+  ).document;
+}
+
+/**
+ * 最新の解析のFigmaデータ・解析範囲で、擬似翻訳したテキストの崩壊予測を実行（結果は保存しない）
+ *
+ * @param locales - ストレステストする言語（検証済み）
+ */
+export async function fetchLocalizationStress(userId: string, projectId: string, locales: string[]) {
+  logger.info('🌐 [SERVICE] fetchLocalizationStress 開始', { userId, projectId, locales });
+
+  // プロジェクトの所有権確認
+  const project = await prisma.project.findUnique({
+    where: { id: projectId, userId }
+  });
+
+  if (!project) {
+    throw new ValidationError('プロジェクトが見つかりません');
+  }
+
+  const document = await loadLatestDocument(projectId);
+
+  const localization = predictLocalizationBreaks(
+    projectId,
+    document,
+    resolveProjectBreakpoints(project.breakpoints),
+    locales
+  );
+
+  logger.info('✅ [SERVICE] 翻訳ストレステスト成功', { projectId, locales });
+
+  return localization;
+}
+
+// =====================================
+// 崩壊予測のオーバーレイ
+// =====================================
+
+/**
+ * 崩壊予測の対象ノードを含む画面を、ブレークポイント幅で再計算したボックスツリーのSVGとして描画
+ *
+ * @param breakpointName - 描画するブレークポイント名（省略時は予測のブレークポイント）
+ * @returns SVG文字列
+ */
+export async function fetchPredictionOverlay(
+  userId: string,
+  projectId: string,
+  predictionId: string,
+  breakpointName?: string
+): Promise<string> {
+  logger.info('🖼️ [SERVICE] fetchPredictionOverlay 開始', { userId, projectId, predictionId, breakpointName });
+
+  // プロジェクトの所有権確認
+  const project = await prisma.project.findUnique({
+    where: { id: projectId, userId }
+  });
+
+  if (!project) {
+    throw new ValidationError('プロジェクトが見つかりません');
+  }
+
+  const prediction = await prisma.breakPrediction.findFirst({
+    where: { id: predictionId, projectId }
+  });
+
+  if (!prediction) {
+    throw new NotFoundError('崩壊予測が見つかりません');
+  }
+
+  if (!prediction.affectedFrameId) {
+    throw new ValidationError('この崩壊予測には対象のノードがないため、オーバーレイを描画できません');
+  }
+
+  const breakpoints = resolveProjectBreakpoints(project.breakpoints);
+  const name = breakpointName ?? prediction.breakpoint;
+  const breakpoint = breakpoints.find(entry => entry.name === name);
+
+  if (!breakpoint) {
+    throw new ValidationError(
+      `ブレークポイントを指定してください（${breakpoints.map(entry => entry.name).join(', ')}）`
+    );
+  }
+
+  const document = await loadLatestDocument(projectId);
+  const frame = findScreenFrame(document, prediction.affectedFrameId);
+
+  if (!frame) {
+    throw new NotFoundError(`対象のノードが最新の解析のFigmaデータに見つかりません: ${prediction.affectedFrame}`);
+  }
+
+  const { simulation, boxes } = simulateFrameLayout(frame, breakpoint);
+  const svg = renderPredictionOverlay({
+    frame,
+    breakpoint,
+    boxes,
+    issues: simulation.issues,
+    highlightNodeId: prediction.affectedFrameId
+  });
+
+  logger.info('✅ [SERVICE] 崩壊予測のオーバーレイ描画成功', {
+    projectId,
+    predictionId,
+    frameId: frame.id,
+    boxes: boxes.length
+  });
+
+  return svg;
+}
+
 // =====================================
 // 改善提案取得
 // =====================================
@@ -258,6 +524,243 @@ export async function fetchSuggestions(userId: string, projectId: string) {
   return suggestions;
 }
 
+// =====================================
+// スコアの内訳取得
+// =====================================
+
+export async function fetchScoreExplanation(userId: string, projectId: string) {
+  logger.info('🧮 [SERVICE] fetchScoreExplanation 開始', { userId, projectId });
+
+  // プロジェクトの所有権確認
+  const project = await prisma.project.findUnique({
+    where: { id: projectId, userId }
+  });
+
+  if (!project) {
+    throw new ValidationError('プロジェクトが見つかりません');
+  }
+
+  const analysis = await prisma.analysisResult.findFirst({
+    where: { projectId, versionSnapshot: false },
+    orderBy: { createdAt: 'desc' },
+    select: {
+      figleanScore: true,
+      totalFrames: true,
+      scoringProfile: true,
+      scoringProfileConfig: true,
+      createdAt: true
+    }
+  });
+
+  if (!analysis) {
+    logger.info('ℹ️ [SERVICE] 診断結果未作成', { projectId });
+    return null;
+  }
+
+  const violations = await prisma.ruleViolation.findMany({
+    where: { projectId }
+  });
+
+  // 保存済みカテゴリはDBのenumに丸められているため、スコア計算時のカテゴリはルール定義から解決する
+  const categoryByRuleId = new Map(
+    getRuleEngine().getAllRuleDefinitions().map(d => [String(d.id), d.category])
+  );
+
+  // 重要度もDBのenumに丸められている（INFO → MINOR）ため、スコア計算時の重要度を使う
+  const scoreViolations: RuleViolation[] = violations.map(v => ({
+    ruleId: v.ruleId,
+    ruleName: v.ruleName,
+    severity: (v.scoreSeverity ?? v.severity) as Severity,
+    category: categoryByRuleId.get(v.ruleId) ?? (v.ruleCategory as RuleCategory),
+    frameName: v.frameName,
+    frameId: v.frameId ?? '',
+    description: v.description,
+    impact: v.impact ?? '',
+    ...(v.fingerprint && { fingerprint: v.fingerprint })
+  }));
+
+  // 解析時のスコアリングプロファイルで計算（プロファイル定義が後から変わっても過去のスコアを再現する）
+  const scoringProfile =
+    (analysis.scoringProfileConfig as ScoringProfile | null) ?? getScoringProfile(analysis.scoringProfile);
+
+  const explanation = getScoreCalculator().explainScores(
+    scoreViolations,
+    analysis.totalFrames,
+    scoringProfile
+  );
+
+  // 再計算したスコアが保存済みのスコアと異なる場合（重要度を記録する前の解析など）は両方を返す
+  const scoreMismatch = explanation.figleanScore !== analysis.figleanScore;
+  if (scoreMismatch) {
+    logger.warn('⚠️ [SERVICE] 内訳のスコアが保存済みのスコアと一致しません', {
+      projectId,
+      figleanScore: explanation.figleanScore,
+      storedScore: analysis.figleanScore
+    });
+  }
+
+  logger.info('✅ [SERVICE] スコアの内訳取得成功', {
+    projectId,
+    figleanScore: explanation.figleanScore,
+    storedScore: analysis.figleanScore,
+    nextThreshold: explanation.nextThreshold?.target ?? null
+  });
+
+  return {
+    ...explanation,
+    storedFigleanScore: analysis.figleanScore,
+    scoreMismatch,
+    analyzedAt: analysis.createdAt
+  };
+}
+
+// =====================================
+// 解析履歴・比較
+// =====================================
+
+/**
+ * 比較用に解析結果から読み込む項目
+ */
+const SNAPSHOT_SELECT = {
+  id: true,
+  createdAt: true,
+  figmaVersion: true,
+  figmaVersionLabel: true,
+  analysisScope: true,
+  figleanScore: true,
+  layoutScore: true,
+  componentScore: true,
+  responsiveScore: true,
+  semanticScore: true,
+  accessibilityScore: true,
+  frameAnalysisCache: true
+} as const;
+
+export async function fetchAnalysisHistory(userId: string, projectId: string) {
+  logger.info('🕒 [SERVICE] fetchAnalysisHistory 開始', { userId, projectId });
+
+  // プロジェクトの所有権確認
+  const project = await prisma.project.findUnique({
+    where: { id: projectId, userId }
+  });
+
+  if (!project) {
+    throw new ValidationError('プロジェクトが見つかりません');
+  }
+
+  const analyses = await prisma.analysisResult.findMany({
+    where: { projectId },
+    orderBy: { createdAt: 'desc' },
+    select: {
+      id: true,
+      createdAt: true,
+      figmaVersion: true,
+      figmaVersionLabel: true,
+      versionSnapshot: true,
+      analysisScope: true,
+      figleanScore: true,
+      totalViolations: true,
+      frameAnalysisCache: true
+    }
+  });
+
+  logger.info('✅ [SERVICE] 解析履歴取得成功', { projectId, count: analyses.length });
+
+  return analyses.map(analysis => ({
+    analysisId: analysis.id,
+    analyzedAt: analysis.createdAt,
+    figmaVersion: analysis.figmaVersion,
+    figmaVersionLabel: analysis.figmaVersionLabel,
+    versionSnapshot: analysis.versionSnapshot,
+    scope: (analysis.analysisScope as AnalysisScope | null) ?? FILE_SCOPE,
+    figleanScore: analysis.figleanScore,
+    totalViolations: analysis.totalViolations,
+    // 差分解析のキャッシュ（トップレベルフレームごとの違反）が無い解析は比較できない
+    comparable: analysis.frameAnalysisCache !== null
+  }));
+}
+
+/**
+ * 2つの解析を比較
+ *
+ * @param baseId - 比較元の解析ID
+ * @param targetId - 比較先の解析ID（未指定時は最新の解析）
+ * @throws NotFoundError - 解析が見つからない
+ * @throws ValidationError - 比較に必要なデータが無い
+ */
+export async function compareAnalyses(
+  userId: string,
+  projectId: string,
+  baseId: string,
+  targetId?: string
+) {
+  logger.info('🆚 [SERVICE] compareAnalyses 開始', { userId, projectId, baseId, targetId });
+
+  // プロジェクトの所有権確認
+  const project = await prisma.project.findUnique({
+    where: { id: projectId, userId }
+  });
+
+  if (!project) {
+    throw new ValidationError('プロジェクトが見つかりません');
+  }
+
+  const [base, target] = await Promise.all([
+    prisma.analysisResult.findFirst({ where: { id: baseId, projectId }, select: SNAPSHOT_SELECT }),
+    prisma.analysisResult.findFirst({
+      where: { projectId, ...(targetId ? { id: targetId } : { versionSnapshot: false }) },
+      orderBy: { createdAt: 'desc' },
+      select: SNAPSHOT_SELECT
+    })
+  ]);
+
+  if (!base) {
+    throw new NotFoundError(`比較元の解析が見つかりません: ${baseId}`);
+  }
+  if (!target) {
+    throw new NotFoundError(`比較先の解析が見つかりません: ${targetId ?? '最新の解析'}`);
+  }
+
+  const toSnapshot = (analysis: typeof base): AnalysisSnapshot => {
+    if (!analysis.frameAnalysisCache) {
+      throw new ValidationError(
+        `解析 ${analysis.id} にはフレームごとの解析結果が保存されていないため比較できません（再解析してください）`
+      );
+    }
+
+    return {
+      analysisId: analysis.id,
+      analyzedAt: analysis.createdAt,
+      figmaVersion: analysis.figmaVersion,
+      figmaVersionLabel: analysis.figmaVersionLabel,
+      scope: (analysis.analysisScope as AnalysisScope | null) ?? FILE_SCOPE,
+      scores: {
+        figleanScore: analysis.figleanScore,
+        layoutScore: analysis.layoutScore,
+        componentScore: analysis.componentScore,
+        responsiveScore: analysis.responsiveScore,
+        semanticScore: analysis.semanticScore,
+        accessibilityScore: analysis.accessibilityScore
+      },
+      frameCache: analysis.frameAnalysisCache as unknown as FrameAnalysisCache
+    };
+  };
+
+  const comparison = compareAnalysisSnapshots(toSnapshot(base), toSnapshot(target));
+
+  logger.info('✅ [SERVICE] 解析比較成功', {
+    projectId,
+    baseId: base.id,
+    targetId: target.id,
+    scoreDelta: comparison.scores.figleanScore.delta,
+    addedViolations: comparison.violations.added.length,
+    removedViolations: comparison.violations.removed.length,
+    changedFrames: comparison.frames.changes.length
+  });
+
+  return comparison;
+}
+
 // =====================================
 // プロジェクト再解析
 // =====================================
@@ -278,6 +781,14 @@ export async function reanalyzeProject(userId: string, projectId: string) {
     throw new ValidationError('Figmaファイルキーが設定されていません');
   }
 
+  // 前回のページ指定を引き継ぐ（ルートノード指定はProject.figmaNodeIdから解決される）
+  const previous = await prisma.analysisResult.findFirst({
+    where: { projectId, versionSnapshot: false },
+    orderBy: { createdAt: 'desc' },
+    select: { analysisScope: true }
+  });
+  const previousScope = previous?.analysisScope as AnalysisScope | null | undefined;
+
   // Figmaインポートサービスを使用して再解析実行
   const figmaImportService = require('./figmaImportService');
   
@@ -285,6 +796,7 @@ export async function reanalyzeProject(userId: string, projectId: string) {
     userId,
     projectId,
     fileKey: project.figmaFileKey,
+    pageIds: previousScope?.type === 'PAGES' ? previousScope.nodeIds : undefined,
     analyzeAll: true
   });
 
@@ -308,6 +820,11 @@ export default {
   fetchAnalysisSummary,
   fetchViolations,
   fetchPredictions,
+  fetchLocalizationStress,
+  fetchPredictionOverlay,
   fetchSuggestions,
+  fetchScoreExplanation,
+  fetchAnalysisHistory,
+  compareAnalyses,
   reanalyzeProject
 };
\ No newline at end of file
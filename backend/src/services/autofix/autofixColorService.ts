@@ -0,0 +1,92 @@
+// =====================================
+// ファイルパス: backend/src/services/autofix/autofixColorService.ts
+// 概要: AutoFix色統一（UNIFY_COLORS）サービス
+// 機能説明: 最新解析結果の近似色グループから、ノードごとの色の置換内容を生成
+// 作成日: 2026-10-19
+// 更新日: 2026-10-19
+// 更新理由: 新規作成
+// 依存関係: PrismaClient, types/rules, utils/logger
+// =====================================
+
+import { PrismaClient } from '@prisma/client';
+import type { ColorGroup } from '../../types/rules';
+import logger from '../../utils/logger';
+
+const prisma = new PrismaClient();
+
+// =====================================
+// 型定義
+// =====================================
+
+export interface ColorReplacement {
+  from: string;    // 置換元の色（近似色）
+  to: string;      // 置換先の色（グループの代表色）
+  deltaE: number;  // 色差（CIEDE2000）
+}
+
+/**
+ * FigmaノードID → 色の置換内容
+ */
+export type ColorReplacementMap = Map<string, ColorReplacement[]>;
+
+// =====================================
+// 置換内容生成
+// =====================================
+
+/**
+ * プロジェクトの最新解析結果から色の置換内容を読み込み
+ */
+export async function loadColorReplacements(projectId: string): Promise<ColorReplacementMap> {
+  const analysis = await prisma.analysisResult.findFirst({
+    where: { projectId, versionSnapshot: false },
+    orderBy: { createdAt: 'desc' },
+    select: { colorGroups: true },
+  });
+
+  const groups = (analysis?.colorGroups as ColorGroup[] | null) ?? [];
+  const replacements = buildColorReplacements(groups);
+
+  logger.info('色の置換内容読み込み完了', {
+    projectId,
+    groupCount: groups.length,
+    nodeCount: replacements.size,
+  });
+
+  return replacements;
+}
+
+/**
+ * 近似色グループからノードごとの置換内容を生成
+ * 代表色以外の構成色を使用しているノードが置換対象になる
+ */
+export function buildColorReplacements(groups: ColorGroup[]): ColorReplacementMap {
+  const replacements: ColorReplacementMap = new Map();
+
+  for (const group of groups) {
+    for (const member of group.members) {
+      if (member.color === group.canonical) {
+        continue;
+      }
+
+      for (const nodeId of member.nodeIds) {
+        const items = replacements.get(nodeId) ?? [];
+        items.push({ from: member.color, to: group.canonical, deltaE: member.deltaE });
+        replacements.set(nodeId, items);
+      }
+    }
+  }
+
+  return replacements;
+}
+
+/**
+ * UNIFY_COLORS の修正前後の値を生成（colors[i] が対応する置換元・置換先）
+ */
+export function generateUnifyColorsValues(
+  replacements: ColorReplacement[]
+): { beforeValue: any; afterValue: any } {
+  return {
+    beforeValue: { colors: replacements.map((r) => r.from) },
+    afterValue: { colors: replacements.map((r) => r.to) },
+  };
+}
@@ -5,7 +5,7 @@
 // 作成日: 2026-01-17
 // 更新日: 2026-01-17
 // 更新理由: エラーカウントロジック修正、try-catch構造修正
-// 依存関係: PrismaClient, utils/figmaModifier, types/autofix, utils/logger
+// 依存関係: PrismaClient, utils/figmaModifier, types/autofix, autofixColorService, autofixTypographyService, utils/logger
 // =====================================
 
 import { PrismaClient } from '@prisma/client';
@@ -19,6 +19,16 @@ import {
   FigmaNodeUpdate,
 } from '../../types/autofix';
 import { modifyFigmaNodes } from '../../utils/figmaModifier';
+import {
+  loadColorReplacements,
+  generateUnifyColorsValues,
+  ColorReplacementMap,
+} from './autofixColorService';
+import {
+  loadTypographyReplacements,
+  generateUnifyTypographyValues,
+  TextStyleReplacementMap,
+} from './autofixTypographyService';
 import logger from '../../utils/logger';
 
 const prisma = new PrismaClient();
@@ -101,6 +111,7 @@ export async function executeAutoFix(
   let failedCount = 0;
   const figmaChanges: any[] = [];
   const deletedComments: string[] = [];
+  const styleReplacements = await loadStyleReplacements(projectId, violations);
 
   for (const violation of violations) {
     try {
@@ -126,7 +137,8 @@ export async function executeAutoFix(
       const result = await processViolationFix(
         violation,
         project.figmaFileKey!,
-        figmaAccessToken
+        figmaAccessToken,
+        styleReplacements
       );
 
       itemResults.push(result);
@@ -250,7 +262,8 @@ export async function executeAutoFix(
 async function processViolationFix(
   violation: any,
   figmaFileKey: string,
-  figmaAccessToken: string
+  figmaAccessToken: string,
+  styleReplacements: StyleReplacements
 ): Promise<AutoFixItemResult> {
   const { ruleId, frameId, frameName } = violation;
 
@@ -260,8 +273,12 @@ async function processViolationFix(
     throw new Error(`Unsupported rule: ${ruleId}`);
   }
 
-  // 修正前後の値生成
-  const { beforeValue, afterValue } = generateFixValues(fixMapping.fixType, violation);
+  // 修正前後の値生成（色・タイポグラフィの統一は置換内容がある場合のみ）
+  const values = generateFixValues(fixMapping.fixType, violation, styleReplacements);
+  if (!values) {
+    throw new Error('近似グループに統一先のスタイルが見つかりません（再解析してください）');
+  }
+  const { beforeValue, afterValue } = values;
 
   // Figma API呼び出し
   const nodeUpdate: FigmaNodeUpdate = {
@@ -341,19 +358,60 @@ function getRuleToFixMapping(ruleId: string): FixMapping | null {
       category: AutoFixCategory.NAMING,
       fixType: AutoFixType.RENAME_SEMANTIC,
     },
+    COLOR_OFF_PALETTE: {
+      category: AutoFixCategory.STYLE,
+      fixType: AutoFixType.UNIFY_COLORS,
+    },
+    FONT_SIZE_OFF_SCALE: {
+      category: AutoFixCategory.STYLE,
+      fixType: AutoFixType.UNIFY_TYPOGRAPHY,
+    },
+    LINE_HEIGHT_MISSING: {
+      category: AutoFixCategory.STYLE,
+      fixType: AutoFixType.UNIFY_TYPOGRAPHY,
+    },
   };
 
   return mappings[ruleId] || null;
 }
 
+// =====================================
+// スタイル統一の置換内容読み込み
+// =====================================
+
+interface StyleReplacements {
+  colors: ColorReplacementMap;
+  typography: TextStyleReplacementMap;
+}
+
+/**
+ * 色・タイポグラフィの統一対象がある場合のみ、最新解析結果の近似グループから置換内容を読み込み
+ */
+async function loadStyleReplacements(
+  projectId: string,
+  violations: { ruleId: string }[]
+): Promise<StyleReplacements> {
+  const fixTypes = new Set(violations.map((v) => getRuleToFixMapping(v.ruleId)?.fixType));
+
+  return {
+    colors: fixTypes.has(AutoFixType.UNIFY_COLORS)
+      ? await loadColorReplacements(projectId)
+      : new Map(),
+    typography: fixTypes.has(AutoFixType.UNIFY_TYPOGRAPHY)
+      ? await loadTypographyReplacements(projectId)
+      : new Map(),
+  };
+}
+
 // =====================================
 // 修正前後の値生成
 // =====================================
 
 function generateFixValues(
   fixType: AutoFixType,
-  violation: any
-): { beforeValue: any; afterValue: any } {
+  violation: any,
+  styleReplacements: StyleReplacements
+): { beforeValue: any; afterValue: any } | null {
   switch (fixType) {
     case AutoFixType.ADD_AUTO_LAYOUT:
       return {
@@ -384,6 +442,14 @@ function generateFixValues(
         afterValue: { name: suggestSemanticName(violation.frameName) },
       };
 
+    case AutoFixType.UNIFY_COLORS: {
+      const replacements = styleReplacements.colors.get(violation.frameId);
+      return replacements ? generateUnifyColorsValues(replacements) : null;
+    }
+
+    case AutoFixType.UNIFY_TYPOGRAPHY:
+      return generateUnifyTypographyValues(violation, styleReplacements.typography);
+
     default:
       return {
         beforeValue: {},
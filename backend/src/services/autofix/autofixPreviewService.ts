@@ -5,7 +5,7 @@
 // 作成日: 2026-01-17
 // 更新日: 2026-01-17
 // 更新理由: TypeScriptエラー完全修正
-// 依存関係: PrismaClient, types/autofix, utils/logger
+// 依存関係: PrismaClient, types/autofix, autofixColorService, autofixTypographyService, utils/logger
 // =====================================
 
 import { PrismaClient } from '@prisma/client';
@@ -17,6 +17,16 @@ import {
   AutoFixType,
   ViolationToFixMapping,
 } from '../../types/autofix';
+import {
+  loadColorReplacements,
+  generateUnifyColorsValues,
+  ColorReplacementMap,
+} from './autofixColorService';
+import {
+  loadTypographyReplacements,
+  generateUnifyTypographyValues,
+  TextStyleReplacementMap,
+} from './autofixTypographyService';
 import logger from '../../utils/logger';
 
 const prisma = new PrismaClient();
@@ -63,6 +73,7 @@ export async function generatePreview(
       severity: true,
       frameName: true,
       frameId: true,
+      expectedValue: true,
     },
   });
 
@@ -72,11 +83,13 @@ export async function generatePreview(
 
   // 3. 各違反を修正内容にマッピング
   const previewItems: AutoFixPreviewItem[] = [];
+  const styleReplacements = await loadStyleReplacements(projectId, violations);
 
   for (const violation of violations) {
     const mapping = await mapViolationToFix(
       violation,
-      project.figmaFileKey!
+      project.figmaFileKey!,
+      styleReplacements
     );
 
     if (mapping) {
@@ -125,7 +138,8 @@ export async function generatePreview(
 
 async function mapViolationToFix(
   violation: any,
-  figmaFileKey: string
+  figmaFileKey: string,
+  styleReplacements: StyleReplacements
 ): Promise<ViolationToFixMapping | null> {
   const { ruleId, frameId } = violation;
 
@@ -139,11 +153,13 @@ async function mapViolationToFix(
   // Figma Node IDはframeIdから抽出（形式: "123:456"）
   const figmaNodeId = frameId;
 
-  // 修正前後の値を生成
-  const { beforeValue, afterValue } = generateFixValues(
-    mapping.fixType,
-    violation
-  );
+  // 修正前後の値を生成（色・タイポグラフィの統一は置換内容がある場合のみ）
+  const values = generateFixValues(mapping.fixType, violation, styleReplacements);
+  if (!values) {
+    logger.warn('統一先のスタイルが見つからないためスキップ', { ruleId, frameId });
+    return null;
+  }
+  const { beforeValue, afterValue } = values;
 
   return {
     violationId: violation.id,
@@ -191,19 +207,60 @@ function getRuleToFixMapping(ruleId: string): FixMapping | null {
       category: AutoFixCategory.NAMING,
       fixType: AutoFixType.RENAME_SEMANTIC,
     },
+    COLOR_OFF_PALETTE: {
+      category: AutoFixCategory.STYLE,
+      fixType: AutoFixType.UNIFY_COLORS,
+    },
+    FONT_SIZE_OFF_SCALE: {
+      category: AutoFixCategory.STYLE,
+      fixType: AutoFixType.UNIFY_TYPOGRAPHY,
+    },
+    LINE_HEIGHT_MISSING: {
+      category: AutoFixCategory.STYLE,
+      fixType: AutoFixType.UNIFY_TYPOGRAPHY,
+    },
   };
 
   return mappings[ruleId] || null;
 }
 
+// =====================================
+// スタイル統一の置換内容読み込み
+// =====================================
+
+interface StyleReplacements {
+  colors: ColorReplacementMap;
+  typography: TextStyleReplacementMap;
+}
+
+/**
+ * 色・タイポグラフィの統一対象がある場合のみ、最新解析結果の近似グループから置換内容を読み込み
+ */
+async function loadStyleReplacements(
+  projectId: string,
+  violations: { ruleId: string }[]
+): Promise<StyleReplacements> {
+  const fixTypes = new Set(violations.map((v) => getRuleToFixMapping(v.ruleId)?.fixType));
+
+  return {
+    colors: fixTypes.has(AutoFixType.UNIFY_COLORS)
+      ? await loadColorReplacements(projectId)
+      : new Map(),
+    typography: fixTypes.has(AutoFixType.UNIFY_TYPOGRAPHY)
+      ? await loadTypographyReplacements(projectId)
+      : new Map(),
+  };
+}
+
 // =====================================
 // 修正前後の値生成
 // =====================================
 
 function generateFixValues(
   fixType: AutoFixType,
-  violation: any
-): { beforeValue: any; afterValue: any } {
+  violation: any,
+  styleReplacements: StyleReplacements
+): { beforeValue: any; afterValue: any } | null {
   switch (fixType) {
     case AutoFixType.ADD_AUTO_LAYOUT:
       return {
@@ -234,6 +291,14 @@ function generateFixValues(
         afterValue: { name: suggestSemanticName(violation.frameName) },
       };
 
+    case AutoFixType.UNIFY_COLORS: {
+      const replacements = styleReplacements.colors.get(violation.frameId);
+      return replacements ? generateUnifyColorsValues(replacements) : null;
+    }
+
+    case AutoFixType.UNIFY_TYPOGRAPHY:
+      return generateUnifyTypographyValues(violation, styleReplacements.typography);
+
     default:
       return {
         beforeValue: {},
@@ -280,7 +345,21 @@ function generateFixDescription(mapping: ViolationToFixMapping): string {
     case AutoFixType.RENAME_SEMANTIC:
       return `${frameName} を "${afterValue.name}" にリネーム`;
 
+    case AutoFixType.UNIFY_TYPOGRAPHY:
+      return `${frameName} のテキストスタイルを統一: ${describeStyle(mapping.beforeValue.style)} → ${describeStyle(afterValue.style)}`;
+
+    case AutoFixType.UNIFY_COLORS:
+      return `${frameName} の色を統一: ${mapping.beforeValue.colors
+        .map((color: string, i: number) => `${color} → ${afterValue.colors[i]}`)
+        .join(', ')}`;
+
     default:
       return `${frameName} を修正`;
   }
-}
\ No newline at end of file
+}
+
+function describeStyle(style: Record<string, any>): string {
+  const fontSize = style.fontSize !== undefined ? `${style.fontSize}px` : '';
+  const lineHeight = style.lineHeightPx !== undefined ? `${style.lineHeightPx}px` : 'Auto';
+  return `${fontSize}/${lineHeight}`;
+}
@@ -0,0 +1,129 @@
+// =====================================
+// ファイルパス: backend/src/services/autofix/autofixTypographyService.ts
+// 概要: AutoFixタイポグラフィ統一（UNIFY_TYPOGRAPHY）サービス
+// 機能説明: 最新解析結果の近似テキストスタイルグループから、ノードごとのスタイル置換内容を生成
+// 作成日: 2026-10-19
+// 更新日: 2026-10-19
+// 更新理由: 新規作成
+// 依存関係: PrismaClient, types/rules, utils/logger
+// =====================================
+
+import { PrismaClient } from '@prisma/client';
+import type { TextStyleGroup, TextStyleSignature } from '../../types/rules';
+import logger from '../../utils/logger';
+
+const prisma = new PrismaClient();
+
+// =====================================
+// 型定義
+// =====================================
+
+export interface TextStyleReplacement {
+  from: TextStyleSignature;  // 置換元のスタイル（近似スタイル）
+  to: TextStyleSignature;    // 置換先のスタイル（グループの代表スタイル）
+}
+
+/**
+ * FigmaノードID → スタイルの置換内容
+ */
+export type TextStyleReplacementMap = Map<string, TextStyleReplacement>;
+
+// =====================================
+// 置換内容生成
+// =====================================
+
+/**
+ * プロジェクトの最新解析結果からテキストスタイルの置換内容を読み込み
+ */
+export async function loadTypographyReplacements(projectId: string): Promise<TextStyleReplacementMap> {
+  const analysis = await prisma.analysisResult.findFirst({
+    where: { projectId, versionSnapshot: false },
+    orderBy: { createdAt: 'desc' },
+    select: { typographyGroups: true },
+  });
+
+  const groups = (analysis?.typographyGroups as TextStyleGroup[] | null) ?? [];
+  const replacements = buildTypographyReplacements(groups);
+
+  logger.info('テキストスタイルの置換内容読み込み完了', {
+    projectId,
+    groupCount: groups.length,
+    nodeCount: replacements.size,
+  });
+
+  return replacements;
+}
+
+/**
+ * 近似テキストスタイルグループからノードごとの置換内容を生成
+ * 代表スタイル以外の構成スタイルを使用しているノードが置換対象になる
+ * （代表スタイルが行間未指定の場合、置換元の行間は維持する）
+ */
+export function buildTypographyReplacements(groups: TextStyleGroup[]): TextStyleReplacementMap {
+  const replacements: TextStyleReplacementMap = new Map();
+
+  for (const group of groups) {
+    for (const member of group.members) {
+      if (member.label === group.label) {
+        continue;
+      }
+
+      const to: TextStyleSignature = {
+        ...group.canonical,
+        lineHeightPx: group.canonical.lineHeightPx ?? member.style.lineHeightPx,
+      };
+
+      for (const nodeId of member.nodeIds) {
+        replacements.set(nodeId, { from: member.style, to });
+      }
+    }
+  }
+
+  return replacements;
+}
+
+/**
+ * UNIFY_TYPOGRAPHY の修正前後の値を生成
+ * 近似スタイルグループに置換内容があればそれを使い、無い場合は行間未指定の違反のみ
+ * 違反の推奨行間（expectedValue）で補う
+ *
+ * @returns 修正内容（生成できない場合はnull）
+ */
+export function generateUnifyTypographyValues(
+  violation: any,
+  replacements: TextStyleReplacementMap
+): { beforeValue: any; afterValue: any } | null {
+  const replacement = replacements.get(violation.frameId);
+
+  if (replacement) {
+    return {
+      beforeValue: { style: toFigmaStyle(replacement.from) },
+      afterValue: { style: toFigmaStyle(replacement.to) },
+    };
+  }
+
+  const lineHeight = parseFloat(violation.expectedValue ?? '');
+  if (violation.ruleId === 'LINE_HEIGHT_MISSING' && Number.isFinite(lineHeight)) {
+    return {
+      beforeValue: { style: { lineHeightUnit: 'INTRINSIC_%' } },
+      afterValue: { style: { lineHeightPx: lineHeight, lineHeightUnit: 'PIXELS' } },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * スタイルをFigmaのTypeStyleプロパティ形式に変換
+ */
+function toFigmaStyle(style: TextStyleSignature): Record<string, any> {
+  return {
+    fontFamily: style.fontFamily,
+    fontWeight: style.fontWeight,
+    fontSize: style.fontSize,
+    ...(style.lineHeightPx !== null
+      ? { lineHeightPx: style.lineHeightPx, lineHeightUnit: 'PIXELS' }
+      : { lineHeightUnit: 'INTRINSIC_%' }),
+    letterSpacing: style.letterSpacing,
+  };
+}
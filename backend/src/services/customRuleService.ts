@@ -0,0 +1,114 @@
+// =====================================
+// backend/src/services/customRuleService.ts
+// カスタムルール読み込みサービス - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: @prisma/client, rules/RuleEngine, rules/customRules, utils/logger
+// 説明: DBのRuleDefinition（isActive）からカスタムルールを生成しルールエンジンへ登録
+// =====================================
+
+import { PrismaClient, RuleDefinition as PrismaRuleDefinition } from '@prisma/client';
+import { getRuleEngine } from '../rules/RuleEngine';
+import { CustomRuleChecker, parseCheckLogic } from '../rules/customRules';
+import { RuleCategory, Severity } from '../types/rules';
+import logger from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+// =====================================
+// 読み込み
+// =====================================
+
+/**
+ * 有効なRuleDefinitionからカスタムルールを生成
+ * checkLogicが不正なルールはログ出力してスキップする（他ルールの実行は継続）
+ *
+ * @returns 生成されたカスタムルール配列
+ */
+export async function loadActiveCustomRules(): Promise<CustomRuleChecker[]> {
+  const records = await prisma.ruleDefinition.findMany({
+    where: { isActive: true },
+    orderBy: { ruleId: 'asc' }
+  });
+
+  const rules: CustomRuleChecker[] = [];
+
+  for (const record of records) {
+    try {
+      rules.push(toCustomRule(record));
+    } catch (error) {
+      logger.error('カスタムルールのcheckLogicが不正なためスキップ', {
+        ruleId: record.ruleId,
+        error
+      });
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * DBのカスタムルールを再読み込みしてルールエンジンへ登録
+ *
+ * @returns 登録されたカスタムルール数
+ */
+export async function refreshCustomRules(): Promise<number> {
+  const rules = await loadActiveCustomRules();
+  return getRuleEngine().setCustomRules(rules);
+}
+
+// =====================================
+// 型変換
+// =====================================
+
+/**
+ * DBレコードをカスタムルールチェッカーに変換
+ *
+ * @throws ValidationError - checkLogicが不正な場合
+ */
+function toCustomRule(record: PrismaRuleDefinition): CustomRuleChecker {
+  const logic = parseCheckLogic(record.checkLogic);
+
+  return new CustomRuleChecker(
+    {
+      id: record.ruleId,
+      name: record.ruleName,
+      category: mapPrismaCategory(record.ruleCategory),
+      severity: record.severity as Severity,
+      description: record.description,
+      impactTemplate: record.impactTemplate,
+      scoreImpact: record.scoreImpact
+    },
+    {
+      ...logic,
+      suggestion: logic.suggestion ?? record.suggestionTemplate ?? undefined
+    }
+  );
+}
+
+/**
+ * Prismaのルールカテゴリをルールエンジンのカテゴリに変換
+ */
+function mapPrismaCategory(category: string): RuleCategory {
+  const mapping: Record<string, RuleCategory> = {
+    'LAYOUT': RuleCategory.LAYOUT,
+    'COMPONENT': RuleCategory.COMPONENT,
+    'RESPONSIVE': RuleCategory.RESPONSIVE,
+    'SEMANTIC': RuleCategory.SEMANTIC,
+    'CONSTRAINT': RuleCategory.SIZE,
+    'STRUCTURE': RuleCategory.LAYOUT,
+    'SPACING': RuleCategory.SPACING,
+    'COLOR': RuleCategory.COLOR,
+    'TEXT': RuleCategory.TEXT,
+    'ACCESSIBILITY': RuleCategory.ACCESSIBILITY
+  };
+  return mapping[category] || RuleCategory.LAYOUT;
+}
+
+// =====================================
+// エクスポート
+// =====================================
+
+export default {
+  loadActiveCustomRules,
+  refreshCustomRules
+};
@@ -3,6 +3,8 @@
 // Figma APIクライアントサービス - FIGLEAN Phase 6
 // 作成日時: 2026年1月11日
 // 更新日時: 2026年1月13日 - getFigmaFiles実装完了
+// 更新日時: 2026年10月19日 - バージョン履歴取得・バージョン指定のファイル取得、Auto Layoutのサイズ設定（layoutSizing等）
+// 更新日時: 2026年10月19日 - テキストのサイズ変更・省略設定（textAutoResize / textTruncation / maxLines）、交差軸方向の配置
 // 依存関係: figmaTokenService, config/env, errors
 // 説明: Figma REST API v1との連携、ファイル取得、ノード走査
 // =====================================
@@ -33,6 +35,36 @@ export interface FigmaFilesResponse {
   files: FigmaFile[];
 }
 
+/**
+ * Figmaの塗り・線（SOLIDのみcolorを持つ）
+ */
+export interface FigmaPaint {
+  type: string;  // SOLID / GRADIENT_LINEAR / IMAGE 等
+  visible?: boolean;
+  opacity?: number;
+  color?: {
+    r: number;  // 0-1
+    g: number;
+    b: number;
+    a: number;
+  };
+}
+
+/**
+ * Figmaのテキストスタイル
+ */
+export interface FigmaTypeStyle {
+  fontFamily?: string;
+  fontWeight?: number;
+  fontSize?: number;
+  lineHeightPx?: number;
+  lineHeightUnit?: 'PIXELS' | 'FONT_SIZE_%' | 'INTRINSIC_%';  // INTRINSIC_% は行間Auto
+  letterSpacing?: number;
+  textAutoResize?: 'NONE' | 'HEIGHT' | 'WIDTH_AND_HEIGHT' | 'TRUNCATE';  // NONE / TRUNCATE は高さ固定
+  textTruncation?: 'DISABLED' | 'ENDING';
+  maxLines?: number;  // textTruncation: ENDING の最大行数
+}
+
 /**
  * Figmaノード（簡略版）
  */
@@ -46,6 +78,30 @@ export interface FigmaNode {
   layoutWrap?: 'NO_WRAP' | 'WRAP';
   primaryAxisSizingMode?: 'FIXED' | 'AUTO';
   counterAxisSizingMode?: 'FIXED' | 'AUTO';
+  layoutPositioning?: 'AUTO' | 'ABSOLUTE';  // Auto Layout内での絶対配置
+  primaryAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'SPACE_BETWEEN';
+  counterAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'BASELINE';
+  // 親のAuto Layout内でのサイズ設定
+  layoutSizingHorizontal?: 'FIXED' | 'HUG' | 'FILL';
+  layoutSizingVertical?: 'FIXED' | 'HUG' | 'FILL';
+  layoutGrow?: number;  // 主軸方向の伸長（1 = Fill Container）
+  layoutAlign?: 'INHERIT' | 'STRETCH' | 'MIN' | 'CENTER' | 'MAX';  // 交差軸方向の配置（STRETCH = Fill Container）
+  // スペーシング情報
+  itemSpacing?: number;
+  counterAxisSpacing?: number;  // Wrap時の行間
+  paddingLeft?: number;
+  paddingRight?: number;
+  paddingTop?: number;
+  paddingBottom?: number;
+  // 角丸
+  cornerRadius?: number;
+  rectangleCornerRadii?: [number, number, number, number];  // 左上・右上・右下・左下
+  // 塗り・線
+  fills?: FigmaPaint[];
+  strokes?: FigmaPaint[];
+  // テキストスタイル（TEXTノードのみ）
+  style?: FigmaTypeStyle;
+  characters?: string;  // テキスト内容（TEXTノードのみ）
   // サイズ情報
   absoluteBoundingBox?: {
     x: number;
@@ -53,6 +109,8 @@ export interface FigmaNode {
     width: number;
     height: number;
   };
+  minWidth?: number;
+  maxWidth?: number;
   // 制約情報
   constraints?: {
     horizontal: string;
@@ -61,6 +119,7 @@ export interface FigmaNode {
   // その他
   visible?: boolean;
   locked?: boolean;
+  description?: string;  // コンポーネント等の説明（抑制アノテーションの記述先）
 }
 
 /**
@@ -77,6 +136,21 @@ export interface FigmaFileDetail {
   schemaVersion: number;
 }
 
+/**
+ * Figmaファイルのバージョン（バージョン履歴の1件）
+ */
+export interface FigmaFileVersion {
+  id: string;
+  createdAt: string;
+  label: string | null;        // 名前付きバージョンのタイトル（自動保存のバージョンはnull）
+  description: string | null;
+  user: {
+    id: string;
+    handle: string;
+    imgUrl: string | null;
+  } | null;
+}
+
 /**
  * Figmaユーザー情報
  */
@@ -428,15 +502,17 @@ export async function getFigmaFiles(userId: string): Promise<FigmaFilesResponse>
  * 
  * @param userId - FIGLEANユーザーID
  * @param fileKey - FigmaファイルKey
+ * @param options.version - 取得するバージョンID（未指定時は最新）
  * @returns ファイル詳細情報
- * @throws NotFoundError - トークンまたはファイルが見つからない
+ * @throws NotFoundError - トークンまたはファイル（バージョン）が見つからない
  * @throws ExternalServiceError - Figma APIエラー
  */
 export async function getFigmaFile(
   userId: string,
-  fileKey: string
+  fileKey: string,
+  options: { version?: string } = {}
 ): Promise<FigmaFileDetail> {
-  logger.info('Figmaファイル詳細取得開始', { userId, fileKey });
+  logger.info('Figmaファイル詳細取得開始', { userId, fileKey, version: options.version });
 
   // トークンを取得
   const token = await figmaTokenService.getFigmaToken(userId);
@@ -446,14 +522,19 @@ export async function getFigmaFile(
   }
 
   try {
-    const response = await fetch(`${config.figmaApiBaseUrl}/files/${fileKey}`, {
+    const query = options.version ? `?version=${encodeURIComponent(options.version)}` : '';
+    const response = await fetch(`${config.figmaApiBaseUrl}/files/${fileKey}${query}`, {
       method: 'GET',
       headers: createFigmaHeaders(token)
     });
 
     if (!response.ok) {
       if (response.status === 404) {
-        throw new NotFoundError(`Figmaファイルが見つかりません: ${fileKey}`);
+        throw new NotFoundError(
+          options.version
+            ? `Figmaファイルのバージョンが見つかりません: ${fileKey} (${options.version})`
+            : `Figmaファイルが見つかりません: ${fileKey}`
+        );
       }
       await handleFigmaApiError(response, 'ファイル詳細取得');
     }
@@ -486,6 +567,73 @@ export async function getFigmaFile(
   }
 }
 
+// =====================================
+// バージョン履歴取得
+// =====================================
+
+/**
+ * Figmaファイルのバージョン履歴を取得（新しい順）
+ * 
+ * @param userId - FIGLEANユーザーID
+ * @param fileKey - FigmaファイルKey
+ * @returns バージョン一覧（Figma APIの1ページ分）
+ * @throws NotFoundError - トークンまたはファイルが見つからない
+ * @throws ExternalServiceError - Figma APIエラー
+ */
+export async function getFigmaFileVersions(
+  userId: string,
+  fileKey: string
+): Promise<FigmaFileVersion[]> {
+  logger.info('Figmaバージョン履歴取得開始', { userId, fileKey });
+
+  // トークンを取得
+  const token = await figmaTokenService.getFigmaToken(userId);
+  
+  if (!token) {
+    throw new NotFoundError('Figmaトークンが登録されていません');
+  }
+
+  try {
+    const response = await fetch(`${config.figmaApiBaseUrl}/files/${fileKey}/versions`, {
+      method: 'GET',
+      headers: createFigmaHeaders(token)
+    });
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        throw new NotFoundError(`Figmaファイルが見つかりません: ${fileKey}`);
+      }
+      await handleFigmaApiError(response, 'バージョン履歴取得');
+    }
+
+    const data = await response.json() as any;
+    const versions: FigmaFileVersion[] = (data.versions ?? []).map((version: any) => ({
+      id: String(version.id),
+      createdAt: version.created_at,
+      label: version.label || null,
+      description: version.description || null,
+      user: version.user
+        ? { id: version.user.id, handle: version.user.handle, imgUrl: version.user.img_url || null }
+        : null
+    }));
+
+    logger.info('Figmaバージョン履歴取得成功', { 
+      userId, 
+      fileKey,
+      versionsCount: versions.length
+    });
+
+    return versions;
+  } catch (error) {
+    if (error instanceof ExternalServiceError || error instanceof NotFoundError) {
+      throw error;
+    }
+    
+    logger.error('Figmaバージョン履歴取得エラー', { userId, fileKey, error });
+    throw new ExternalServiceError('Figmaバージョン履歴の取得に失敗しました');
+  }
+}
+
 // =====================================
 // ノード走査
 // =====================================
@@ -659,6 +807,7 @@ export default {
   getFigmaUser,
   getFigmaFiles,
   getFigmaFile,
+  getFigmaFileVersions,
   getFigmaNode,
   extractFrames,
   traverseNodes
@@ -117,7 +117,11 @@ const CATEGORY_ICONS = {
   RESPONSIVE: '📱',
   SEMANTIC: '🏷️',
   CONSTRAINT: '📏',
-  STRUCTURE: '🏗️'
+  STRUCTURE: '🏗️',
+  SPACING: '↔️',
+  COLOR: '🎨',
+  TEXT: '🔤',
+  ACCESSIBILITY: '♿'
 } as const;
 
 const RATE_LIMIT_CONFIG = {
@@ -8,23 +8,56 @@
 // =====================================
 
 import { 
+  Prisma,
   PrismaClient, 
   AnalysisStatus, 
   RuleCategory as PrismaRuleCategory, 
   Severity as PrismaSeverity 
 } from '@prisma/client';
 import * as figmaApiService from './figmaApiService';
+import * as figmaVersionService from './figmaVersionService';
 import * as jobManagerService from './jobManagerService';
 import * as predictionService from './predictionService';
 import * as suggestionService from './suggestionService';
+import * as ruleProfileService from './ruleProfileService';
+import * as customRuleService from './customRuleService';
+import * as suppressionService from './suppressionService';
 import { NotFoundError } from '../errors';
+import { config } from '../config/env';
 import logger from '../utils/logger';
 import { getRuleEngine } from '../rules/RuleEngine';
 import { getScoreCalculator } from '../rules/ScoreCalculator';
-import type { AnalysisResultSummary } from '../types/rules';
+import { getScoringProfile } from '../rules/scoringProfile';
+import {
+  resolveProjectBreakpoints,
+  resolveReadinessFlags,
+  summarizeBreakpointReadiness
+} from '../rules/projectBreakpoints';
+import { simulateBreakpoints } from '../rules/layoutSimulation';
+import { countNodes } from '../rules/nodeIndex';
+import { compareViolations, partitionByScope } from '../rules/violationTracking';
+import {
+  hashJson,
+  computeFrameHashes,
+  createContextSignature,
+  findReusableFrames,
+  mergeCachedFrames,
+  buildFrameAnalysisCache
+} from '../rules/incrementalAnalysis';
+import type {
+  AnalysisResultSummary,
+  AnalysisScope,
+  FrameAnalysisCache,
+  RuleProfile,
+  SuppressionEntry,
+  TrackedViolation
+} from '../types/rules';
 
 const prisma = new PrismaClient();
 
+// バージョン間の比較のために保持する解析結果の件数（プロジェクトごと）
+const ANALYSIS_HISTORY_LIMIT = 20;
+
 // =====================================
 // 型定義
 // =====================================
@@ -33,7 +66,9 @@ export interface ImportRequest {
   userId: string;
   projectId: string;
   fileKey: string;
-  pageIds?: string[];
+  pageIds?: string[];        // 解析対象ページID（指定時はProject.figmaNodeIdより優先）
+  nodeId?: string | null;    // 解析対象ルートノードID（未指定時はProject.figmaNodeIdを使用）
+  versionId?: string;        // 解析するFigmaファイルのバージョンID（未指定時は最新）
   analyzeAll?: boolean;
 }
 
@@ -43,6 +78,14 @@ export interface ImportResult {
   message: string;
 }
 
+/**
+ * 解析結果と次回の差分解析用キャッシュ
+ */
+interface FrameAnalysisOutcome {
+  summary: AnalysisResultSummary;
+  frameCache: FrameAnalysisCache;
+}
+
 // =====================================
 // インポート＋解析実行
 // =====================================
@@ -65,17 +108,25 @@ export async function startImport(request: ImportRequest): Promise<ImportResult>
     throw new NotFoundError('プロジェクトが見つかりません');
   }
 
+  // ページ指定がなければプロジェクトのルートノード指定を使用
+  const scopedRequest: ImportRequest = {
+    ...request,
+    nodeId: request.nodeId !== undefined ? request.nodeId : project.figmaNodeId
+  };
+
   const job = jobManagerService.createJob({
     userId: request.userId,
     projectId: request.projectId,
     fileKey: request.fileKey,
     metadata: {
-      pageIds: request.pageIds,
+      pageIds: scopedRequest.pageIds,
+      nodeId: scopedRequest.nodeId,
+      versionId: request.versionId,
       analyzeAll: request.analyzeAll
     }
   });
 
-  executeImportJob(job.jobId, request).catch((error) => {
+  executeImportJob(job.jobId, scopedRequest).catch((error) => {
     logger.error('バックグラウンドジョブ実行エラー', {
       jobId: job.jobId,
       error
@@ -93,32 +144,39 @@ async function executeImportJob(
   jobId: string,
   request: ImportRequest
 ): Promise<void> {
+  // バージョン指定の解析は履歴のスナップショットとして保存し、プロジェクトの現在の状態（ステータス・スコア・違反）は変更しない
+  const snapshot = !!request.versionId;
+
   try {
-    logger.info('インポートジョブ実行開始', { jobId });
+    logger.info('インポートジョブ実行開始', { jobId, snapshot });
 
-    await updateProjectStatus(request.projectId, 'IN_PROGRESS' as AnalysisStatus);
+    if (!snapshot) {
+      await updateProjectStatus(request.projectId, 'IN_PROGRESS' as AnalysisStatus);
+    }
     jobManagerService.updateJobStatus(jobId, 'IMPORTING', {
       current: 10,
       total: 100,
       currentStep: 'Fetching file metadata'
     });
 
-    logger.info('Figmaファイル取得開始', { jobId, fileKey: request.fileKey });
-    const fileDetail = await figmaApiService.getFigmaFile(
-      request.userId,
-      request.fileKey
-    );
+    logger.info('Figmaファイル取得開始', { jobId, fileKey: request.fileKey, versionId: request.versionId });
+    const { file: fileDetail, version } = request.versionId
+      ? await figmaVersionService.getFileAtVersion(request.userId, request.fileKey, request.versionId)
+      : { file: await figmaApiService.getFigmaFile(request.userId, request.fileKey), version: null };
 
-    logger.info('Frame抽出開始', { jobId });
-    const frames = await figmaApiService.extractFrames(
-      request.userId,
-      request.fileKey,
-      {
-        maxDepth: 10,
-        includeHidden: false
-      }
+    // 解析範囲（ページ・ルートノード）に絞り込み
+    const { document, scope } = resolveAnalysisScope(
+      fileDetail.document,
+      request.pageIds,
+      request.nodeId
     );
 
+    logger.info('Frame抽出開始', { jobId, scope: scope.label });
+    const { frames } = figmaApiService.traverseNodes(document, {
+      maxDepth: 10,
+      includeHidden: false
+    });
+
     jobManagerService.updateJobProgress(
       jobId,
       40,
@@ -131,7 +189,9 @@ async function executeImportJob(
       framesCount: frames.length
     });
 
-    await updateProjectStatus(request.projectId, 'IN_PROGRESS' as AnalysisStatus);
+    if (!snapshot) {
+      await updateProjectStatus(request.projectId, 'IN_PROGRESS' as AnalysisStatus);
+    }
     jobManagerService.updateJobStatus(jobId, 'ANALYZING', {
       current: 50,
       total: 100,
@@ -140,10 +200,11 @@ async function executeImportJob(
 
     logger.info('ルールチェック開始', { jobId, framesCount: frames.length });
     
-    const analysisResult = await analyzeFrames(
+    const { summary: analysisResult, frameCache } = await analyzeFrames(
       request.projectId,
       frames,
-      fileDetail,
+      document,
+      scope,
       jobId
     );
 
@@ -154,23 +215,37 @@ async function executeImportJob(
       'Saving results'
     );
 
-    await saveAnalysisResult(request.projectId, analysisResult, fileDetail);
+    await saveAnalysisResult(
+      request.projectId,
+      analysisResult,
+      fileDetail,
+      document,
+      frameCache,
+      scope,
+      version?.label ?? null,
+      snapshot
+    );
 
-    await updateProjectStatus(request.projectId, 'COMPLETED');
-    await updateProjectScores(request.projectId, analysisResult);
+    if (!snapshot) {
+      await updateProjectStatus(request.projectId, 'COMPLETED');
+      await updateProjectScores(request.projectId, analysisResult);
+    }
 
     jobManagerService.completeJob(jobId);
 
     logger.info('インポートジョブ完了', {
       jobId,
       projectId: request.projectId,
-      framesAnalyzed: frames.length
+      framesAnalyzed: frames.length,
+      framesSkipped: analysisResult.incremental?.skippedFrames ?? 0
     });
 
   } catch (error) {
     logger.error('インポートジョブ失敗', { jobId, error });
 
-    await updateProjectStatus(request.projectId, 'FAILED');
+    if (!snapshot) {
+      await updateProjectStatus(request.projectId, 'FAILED');
+    }
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     jobManagerService.failJob(jobId, errorMessage);
@@ -184,26 +259,68 @@ async function executeImportJob(
 async function analyzeFrames(
   projectId: string,
   frames: figmaApiService.FigmaNode[],
-  fileDetail: figmaApiService.FigmaFileDetail,
+  document: figmaApiService.FigmaNode,
+  scope: AnalysisScope,
   jobId: string
-): Promise<AnalysisResultSummary> {
+): Promise<FrameAnalysisOutcome> {
   logger.info('Frame解析開始（ルールエンジン使用）', {
     projectId,
     framesCount: frames.length,
+    scope: scope.label,
     jobId
   });
 
   const ruleEngine = getRuleEngine();
   const scoreCalculator = getScoreCalculator();
+  const ruleProfile = await ruleProfileService.getRuleProfile(projectId);
+  const scoringProfile = await loadScoringProfile(projectId);
+  const suppressions = await suppressionService.getActiveSuppressions(projectId);
 
-  jobManagerService.updateJobProgress(
-    jobId,
-    50,
-    100,
-    'Starting rule engine analysis'
-  );
+  // DB定義のカスタムルールを最新化
+  await customRuleService.refreshCustomRules();
+
+  // =====================================
+  // 差分解析: 変更のないトップレベルフレームは前回結果を再利用
+  // =====================================
+  const frameHashes = computeFrameHashes(document);
+  const inputSignature = hashJson({
+    rules: ruleEngine.getRuleSetSignature(ruleProfile),
+    suppressions,
+    scope: { type: scope.type, nodeIds: scope.nodeIds }
+  });
+  const previousCache = await loadFrameAnalysisCache(projectId);
+  let reusedFrameIds = findReusableFrames(frameHashes, previousCache, inputSignature);
 
-  let summary = ruleEngine.analyzeDocument(fileDetail.document, projectId);
+  reportFrameProgress(jobId, frameHashes.size, reusedFrameIds.length);
+
+  logger.info('差分解析計画', {
+    projectId,
+    topLevelFrames: frameHashes.size,
+    skippedFrames: reusedFrameIds.length,
+    hasPreviousCache: !!previousCache
+  });
+
+  let summary = await runRuleEngine(projectId, document, ruleProfile, suppressions, reusedFrameIds);
+
+  if (reusedFrameIds.length > 0) {
+    summary = mergeCachedFrames(summary, previousCache!, reusedFrameIds);
+
+    // ファイル全体から学習するスケール・パレットが変わった場合、変更のないフレームの違反も変わりうる
+    if (createContextSignature(summary) !== previousCache!.contextSignature) {
+      logger.info('学習済みスケール・パレットが変化したため全フレームを再解析', { projectId });
+
+      reusedFrameIds = [];
+      reportFrameProgress(jobId, frameHashes.size, 0);
+      summary = await runRuleEngine(projectId, document, ruleProfile, suppressions, []);
+    }
+  }
+
+  const frameCache = buildFrameAnalysisCache(document, summary, frameHashes, inputSignature);
+  summary.incremental = {
+    totalFrames: frameHashes.size,
+    reanalyzedFrames: frameHashes.size - reusedFrameIds.length,
+    skippedFrames: reusedFrameIds.length
+  };
 
   jobManagerService.updateJobProgress(
     jobId,
@@ -212,16 +329,192 @@ async function analyzeFrames(
     'Calculating scores'
   );
   
-  summary = scoreCalculator.calculateScores(summary);
+  summary = scoreCalculator.calculateScores(summary, ruleProfile, scoringProfile);
 
   logger.info('Frame解析完了', {
     projectId,
     figleanScore: summary.scoreResult.figleanScore,
     violationsCount: summary.violations.length,
+    suppressedCount: summary.suppression.total,
+    skippedFrames: summary.incremental!.skippedFrames,
     canGenerateHTML: summary.scoreResult.canGenerateHTML
   });
 
-  return summary;
+  return { summary, frameCache };
+}
+
+/**
+ * ルールエンジンを実行（スコア計算前）
+ *
+ * @param skipFrameIds - 前回結果を再利用するため、ルールチェックを省略するトップレベルフレームID
+ */
+async function runRuleEngine(
+  projectId: string,
+  document: figmaApiService.FigmaNode,
+  ruleProfile: RuleProfile | undefined,
+  suppressions: SuppressionEntry[],
+  skipFrameIds: string[]
+): Promise<AnalysisResultSummary> {
+  const ruleEngine = getRuleEngine();
+  const options = { skipSubtreeIds: skipFrameIds };
+
+  // 大規模ファイルはワーカースレッドで解析（APIリクエスト処理をブロックしない）
+  const nodeCount = countNodes(document);
+  const useWorker =
+    config.ruleEngineWorkerThreshold > 0 && nodeCount >= config.ruleEngineWorkerThreshold;
+
+  logger.info('ルールエンジン実行モード決定', { projectId, nodeCount, useWorker });
+
+  return useWorker
+    ? await ruleEngine.analyzeDocumentInWorker(document, projectId, ruleProfile, suppressions, options)
+    : ruleEngine.analyzeDocument(document, projectId, ruleProfile, suppressions, options);
+}
+
+/**
+ * ジョブ進捗に差分解析のフレーム数を反映
+ */
+function reportFrameProgress(jobId: string, totalFrames: number, skippedFrames: number): void {
+  const reanalyzed = totalFrames - skippedFrames;
+
+  jobManagerService.updateJobStatus(jobId, 'ANALYZING', {
+    current: 50,
+    total: 100,
+    currentStep: skippedFrames > 0
+      ? `Analyzing ${reanalyzed} changed frames (${skippedFrames} unchanged frames skipped)`
+      : 'Starting rule engine analysis',
+    frames: { total: totalFrames, reanalyzed, skipped: skippedFrames }
+  });
+}
+
+/**
+ * 前回解析の差分解析用キャッシュを読み込み（バージョン指定の解析は対象外）
+ */
+async function loadFrameAnalysisCache(projectId: string): Promise<FrameAnalysisCache | null> {
+  const previous = await prisma.analysisResult.findFirst({
+    where: { projectId, versionSnapshot: false },
+    orderBy: { createdAt: 'desc' },
+    select: { frameAnalysisCache: true }
+  });
+
+  return (previous?.frameAnalysisCache as unknown as FrameAnalysisCache | null) ?? null;
+}
+
+// =====================================
+// 解析範囲
+// =====================================
+
+/**
+ * 解析範囲を決定し、範囲外のノードを除いたドキュメントを生成
+ * ページ指定（pageIds）を優先し、なければルートノード指定（Project.figmaNodeId）、どちらもなければファイル全体
+ * ルートノード指定の場合は、ノードを所属ページ直下に置いたドキュメントとして解析する
+ *
+ * @param document - Figmaドキュメントのルートノード
+ * @param pageIds - 解析対象ページID
+ * @param nodeId - 解析対象ルートノードID（URL形式の "12-34" も可）
+ * @returns 範囲を絞り込んだドキュメントと解析範囲
+ * @throws NotFoundError - 指定されたページ・ノードがファイル内に存在しない
+ */
+export function resolveAnalysisScope(
+  document: figmaApiService.FigmaNode,
+  pageIds?: string[],
+  nodeId?: string | null
+): { document: figmaApiService.FigmaNode; scope: AnalysisScope } {
+  const pages = document.children ?? [];
+
+  if (pageIds && pageIds.length > 0) {
+    const missing = pageIds.filter(id => !pages.some(page => page.id === id));
+    if (missing.length > 0) {
+      throw new NotFoundError(`指定されたページが見つかりません: ${missing.join(', ')}`);
+    }
+
+    const selected = pages.filter(page => pageIds.includes(page.id));
+    const names = selected.map(page => page.name);
+
+    return {
+      document: { ...document, children: selected },
+      scope: {
+        type: 'PAGES',
+        nodeIds: selected.map(page => page.id),
+        names,
+        label: `ページ: ${names.join(', ')}`
+      }
+    };
+  }
+
+  const normalizedNodeId = nodeId?.trim().replace(/-/g, ':');
+
+  if (normalizedNodeId && normalizedNodeId !== document.id) {
+    for (const page of pages) {
+      const node = page.id === normalizedNodeId ? page : findNode(page, normalizedNodeId);
+      if (!node) {
+        continue;
+      }
+
+      return {
+        document: {
+          ...document,
+          children: [node === page ? page : { ...page, children: [node] }]
+        },
+        scope: {
+          type: 'NODE',
+          nodeIds: [node.id],
+          names: [node.name],
+          label: `ノード: ${node.name}`
+        }
+      };
+    }
+
+    throw new NotFoundError(`解析対象ノードが見つかりません: ${nodeId}`);
+  }
+
+  return {
+    document,
+    scope: { type: 'FILE', nodeIds: [], names: [], label: 'ファイル全体' }
+  };
+}
+
+/**
+ * サブツリーからノードを検索
+ */
+function findNode(
+  root: figmaApiService.FigmaNode,
+  nodeId: string
+): figmaApiService.FigmaNode | undefined {
+  const stack = [...(root.children ?? [])];
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (node.id === nodeId) {
+      return node;
+    }
+    stack.push(...(node.children ?? []));
+  }
+
+  return undefined;
+}
+
+/**
+ * プロジェクトで選択されたスコアリングプロファイルを取得
+ */
+async function loadScoringProfile(projectId: string) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { scoringProfile: true }
+  });
+
+  return getScoringProfile(project?.scoringProfile);
+}
+
+/**
+ * プロジェクトのブレークポイントを取得（未設定時はデフォルト）
+ */
+async function loadProjectBreakpoints(projectId: string) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { breakpoints: true }
+  });
+
+  return resolveProjectBreakpoints(project?.breakpoints);
 }
 
 // =====================================
@@ -235,7 +528,11 @@ function mapRuleCategoryToPrisma(category: string): PrismaRuleCategory {
     'RESPONSIVE': 'RESPONSIVE',
     'SEMANTIC': 'SEMANTIC',
     'CONSTRAINT': 'CONSTRAINT',
-    'STRUCTURE': 'STRUCTURE'
+    'STRUCTURE': 'STRUCTURE',
+    'SPACING': 'SPACING',
+    'COLOR': 'COLOR',
+    'TEXT': 'TEXT',
+    'ACCESSIBILITY': 'ACCESSIBILITY'
   };
   return mapping[category] || 'LAYOUT';
 }
@@ -256,36 +553,75 @@ function mapSeverityToPrisma(severity: string): PrismaSeverity {
 async function saveAnalysisResult(
   projectId: string,
   summary: AnalysisResultSummary,
-  fileDetail: figmaApiService.FigmaFileDetail
+  fileDetail: figmaApiService.FigmaFileDetail,
+  document: figmaApiService.FigmaNode,
+  frameCache: FrameAnalysisCache,
+  scope: AnalysisScope,
+  figmaVersionLabel: string | null,
+  snapshot: boolean
 ): Promise<void> {
-  logger.info('解析結果保存開始', { projectId });
+  logger.info('解析結果保存開始', { projectId, scope: scope.label, snapshot });
+
+  const scoringProfile = getScoringProfile(summary.scoreResult.scoringProfile);
 
   // =====================================
-  // Phase 8統合: 既存データクリア
+  // ブレークポイント幅のレイアウトシミュレーション（対応可否・崩壊予測で共有）
   // =====================================
-  logger.info('既存の解析データクリア開始', { projectId });
+  const breakpoints = await loadProjectBreakpoints(projectId);
+  const simulations = simulateBreakpoints(document, breakpoints);
+  const breakpointReadiness = summarizeBreakpointReadiness(simulations, breakpoints);
 
-  // 既存のルール違反を削除
-  await prisma.ruleViolation.deleteMany({
-    where: { projectId }
+  logger.info('レイアウトシミュレーション完了', {
+    projectId,
+    breakpoints: breakpointReadiness.map(entry => `${entry.name}:${entry.width}px:${entry.ready ? 'OK' : 'NG'}`)
   });
 
-  // 既存の崩壊予測を削除
-  await prisma.breakPrediction.deleteMany({
-    where: { projectId }
-  });
+  // =====================================
+  // 前回解析との比較（既存データ削除前に実施、バージョン指定の解析は追跡の対象外）
+  // 今回の解析範囲外の違反は検出していないため比較せず、次回の解析に持ち越す
+  // =====================================
+  const previousViolations = snapshot ? [] : await loadTrackedViolations(projectId);
+  const { inScope, outOfScope } = partitionByScope(
+    previousViolations,
+    fileDetail.document,
+    document,
+    scope
+  );
+  const comparison = compareViolations(
+    summary.violations,
+    inScope,
+    new Set(
+      summary.suppressedViolations
+        .map(s => s.violation.fingerprint)
+        .filter((fingerprint): fingerprint is string => !!fingerprint)
+    )
+  );
 
-  // 既存の改善提案を削除
-  await prisma.improvementSuggestion.deleteMany({
-    where: { projectId }
-  });
+  logger.info('前回解析との比較完了', { projectId, ...comparison.summary, outOfScope: outOfScope.length });
 
-  // 既存の解析結果を削除
-  await prisma.analysisResult.deleteMany({
-    where: { projectId }
-  });
+  // =====================================
+  // Phase 8統合: 既存データクリア（バージョン指定の解析では現在の違反・予測・提案を残す）
+  // =====================================
+  if (!snapshot) {
+    logger.info('既存の解析データクリア開始', { projectId });
 
-  logger.info('既存の解析データクリア完了', { projectId });
+    // 既存のルール違反を削除
+    await prisma.ruleViolation.deleteMany({
+      where: { projectId }
+    });
+
+    // 既存の崩壊予測を削除
+    await prisma.breakPrediction.deleteMany({
+      where: { projectId }
+    });
+
+    // 既存の改善提案を削除
+    await prisma.improvementSuggestion.deleteMany({
+      where: { projectId }
+    });
+
+    logger.info('既存の解析データクリア完了', { projectId });
+  }
 
   // =====================================
   // 解析結果保存
@@ -298,6 +634,13 @@ async function saveAnalysisResult(
       componentScore: summary.scoreResult.componentScore,
       responsiveScore: summary.scoreResult.responsiveScore,
       semanticScore: summary.scoreResult.semanticScore,
+      accessibilityScore: summary.scoreResult.accessibilityScore,
+      scoringProfile: scoringProfile.name,
+      scoringProfileConfig: scoringProfile as any,
+      analysisScope: scope as any,
+      figmaVersion: fileDetail.version ?? null,
+      figmaVersionLabel,
+      versionSnapshot: snapshot,
       totalFrames: summary.totalFrames,
       analyzedFrames: summary.analyzedFrames,
       autoLayoutFrames: summary.stats.autoLayoutFrames,
@@ -306,24 +649,56 @@ async function saveAnalysisResult(
       criticalViolations: summary.scoreResult.violations.critical,
       majorViolations: summary.scoreResult.violations.major,
       minorViolations: summary.scoreResult.violations.minor,
+      ...(!snapshot && {
+        newViolations: comparison.summary.new,
+        persistingViolations: comparison.summary.persisting,
+        resolvedViolations: comparison.summary.resolved,
+        resolvedViolationItems: comparison.resolved as any,
+        outOfScopeViolations: outOfScope as any
+      }),
+      standardValueMatch: summary.spacing.standardValueMatch,
+      redundantSpacingCount: summary.spacing.redundantSpacingCount,
+      offPaletteColors: summary.colors.offPaletteColors,
+      colorGroups: summary.colors.nearDuplicateGroups as any,
+      offScaleFontSizes: summary.typography.offScaleFontSizes.length,
+      missingLineHeight: summary.typography.missingLineHeight,
+      typographyGroups: summary.typography.nearDuplicateGroups as any,
+      breakpointStats: summary.breakpoints as any,
+      repeatedStructures: summary.repeatedStructures as any,
+      suppressedViolations: summary.suppression.total,
+      suppressionBreakdown: {
+        bySource: summary.suppression.bySource,
+        byRule: summary.suppression.byRule,
+        items: summary.suppressedViolations.map(s => ({
+          ruleId: s.violation.ruleId,
+          frameId: s.violation.frameId,
+          frameName: s.violation.frameName,
+          source: s.source,
+          suppressionId: s.suppressionId ?? null
+        }))
+      },
+      skippedFrames: summary.incremental?.skippedFrames ?? 0,
+      frameAnalysisCache: frameCache as any,
       htmlGeneratable: summary.scoreResult.canGenerateHTML,
       generatableReason: summary.scoreResult.canGenerateHTML 
-        ? 'FIGLEAN適合度90%以上' 
-        : 'FIGLEAN適合度が90%未満のため生成不可',
-      mobileReady: false,
-      tabletReady: false,
-      desktopReady: true,
+        ? `FIGLEAN適合度${scoringProfile.thresholds.canGenerateHTML}%以上（${scoringProfile.name}）` 
+        : `FIGLEAN適合度が${scoringProfile.thresholds.canGenerateHTML}%未満のため生成不可（${scoringProfile.name}）`,
+      ...resolveReadinessFlags(breakpointReadiness),
+      breakpointReadiness: breakpointReadiness as any,
       analysisTimeMs: 0,
-      // ★ 追加: FigmaデータをJSON形式で保存
-      rawFigmaData: fileDetail as any
+      // ★ 追加: FigmaデータをJSON形式で保存（HTML生成等は最新の解析のみ使うため、バージョン指定の解析では保存しない）
+      ...(!snapshot && { rawFigmaData: fileDetail as any })
     }
   });
 
   logger.info('AnalysisResult保存完了', {
     analysisResultId: analysisResult.id,
-    figleanScore: analysisResult.figleanScore
+    figleanScore: analysisResult.figleanScore,
+    figmaVersion: analysisResult.figmaVersion
   });
 
+  await pruneAnalysisHistory(projectId, analysisResult.id, snapshot);
+
   // ★★★ ここから追加データ検証用のSQL ★★★
   // rawFigmaData確認用SQL（開発環境のみ）
   logger.info('='.repeat(80));
@@ -372,6 +747,15 @@ async function saveAnalysisResult(
   logger.info('='.repeat(80));
   // ★★★ ここまで追加データ検証用のSQL ★★★
 
+  if (snapshot) {
+    logger.info('バージョン指定の解析 - ルール違反・崩壊予測・改善提案の保存をスキップ', {
+      projectId,
+      analysisResultId: analysisResult.id,
+      figmaVersion: analysisResult.figmaVersion
+    });
+    return;
+  }
+
   // =====================================
   // ルール違反保存
   // =====================================
@@ -388,12 +772,19 @@ async function saveAnalysisResult(
       ruleName: v.ruleName,
       ruleCategory: mapRuleCategoryToPrisma(v.category),
       severity: mapSeverityToPrisma(v.severity),
+      scoreSeverity: v.severity,
       description: v.description,
       commentPosted: false,
       
       // オプショナルフィールド（値がある場合のみ設定）
       ...(analysisResult.id && { analysisId: analysisResult.id }),
       ...(v.frameId && { frameId: v.frameId }),
+      ...(v.nodePath !== undefined && { framePath: v.nodePath }),
+      ...(v.fingerprint && {
+        fingerprint: v.fingerprint,
+        trackingStatus: comparison.byFingerprint.get(v.fingerprint)!.status,
+        firstDetectedAt: comparison.byFingerprint.get(v.fingerprint)!.firstDetectedAt
+      }),
       ...(v.impact && { impact: v.impact }),
       ...(v.suggestion && { suggestion: v.suggestion }),
       ...(v.detectedValue && { detectedValue: v.detectedValue }),
@@ -407,44 +798,47 @@ async function saveAnalysisResult(
     logger.info('RuleViolation保存完了', {
       count: summary.violations.length
     });
+  }
 
-    // =====================================
-    // Phase 8統合: 崩壊予測生成
-    // =====================================
-    logger.info('崩壊予測生成開始', { projectId });
+  // 保存したルール違反を取得（frameIdを含む完全なデータ）
+  const savedViolations = await prisma.ruleViolation.findMany({
+    where: { projectId }
+  });
 
-    // 保存したルール違反を取得（frameIdを含む完全なデータ）
-    const savedViolations = await prisma.ruleViolation.findMany({
-      where: { projectId }
-    });
+  // =====================================
+  // Phase 8統合: 崩壊予測生成（レイアウトシミュレーションから生成するため、ルール違反が無くても実行）
+  // =====================================
+  logger.info('崩壊予測生成開始', { projectId });
 
-    const predictionCount = await predictionService.generatePredictions(
-      projectId,
-      savedViolations
-    );
+  const predictionCount = await predictionService.generatePredictions(
+    projectId,
+    simulations,
+    savedViolations
+  );
 
-    logger.info('崩壊予測生成完了', { 
-      projectId, 
-      predictionCount 
-    });
+  logger.info('崩壊予測生成完了', { 
+    projectId, 
+    predictionCount 
+  });
 
-    // =====================================
-    // Phase 8統合: 改善提案生成
-    // =====================================
+  // =====================================
+  // Phase 8統合: 改善提案生成
+  // =====================================
+  if (savedViolations.length > 0) {
     logger.info('改善提案生成開始', { projectId });
 
     const suggestionCount = await suggestionService.generateSuggestions(
       projectId,
-      savedViolations
+      savedViolations,
+      summary.repeatedStructures.groups
     );
 
     logger.info('改善提案生成完了', { 
       projectId, 
       suggestionCount 
     });
-
   } else {
-    logger.info('ルール違反なし - 崩壊予測・改善提案のスキップ', { projectId });
+    logger.info('ルール違反なし - 改善提案のスキップ', { projectId });
   }
 
   logger.info('解析結果保存完了（Phase 8統合）', { 
@@ -453,6 +847,89 @@ async function saveAnalysisResult(
   });
 }
 
+/**
+ * 解析結果の履歴を整理
+ * 比較用に直近の解析結果を残し、HTML生成にのみ使う生データ（rawFigmaData）は最新の解析以外から削除する
+ * バージョン指定の解析を保存した場合も、プロジェクトの現在の状態を表す最新の解析（バージョン指定以外）は残す
+ */
+async function pruneAnalysisHistory(projectId: string, savedId: string, snapshot: boolean): Promise<void> {
+  const current = snapshot
+    ? await prisma.analysisResult.findFirst({
+        where: { projectId, versionSnapshot: false },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true }
+      })
+    : { id: savedId };
+
+  const expired = await prisma.analysisResult.findMany({
+    where: { projectId, ...(current && { id: { not: current.id } }) },
+    orderBy: { createdAt: 'desc' },
+    skip: current ? ANALYSIS_HISTORY_LIMIT - 1 : ANALYSIS_HISTORY_LIMIT,
+    select: { id: true }
+  });
+
+  if (expired.length > 0) {
+    await prisma.analysisResult.deleteMany({
+      where: { id: { in: expired.map(analysis => analysis.id) } }
+    });
+  }
+
+  if (!snapshot) {
+    await prisma.analysisResult.updateMany({
+      where: { projectId, id: { not: savedId }, rawFigmaData: { not: Prisma.DbNull } },
+      data: { rawFigmaData: Prisma.DbNull }
+    });
+  }
+
+  logger.info('解析結果の履歴整理完了', { projectId, deleted: expired.length });
+}
+
+/**
+ * 前回解析の違反を比較用に読み込み
+ * 前回の解析（バージョン指定の解析を除く）が解析範囲外として持ち越した違反も含める
+ * フィンガープリント導入前に保存された違反は比較できないため対象外
+ */
+async function loadTrackedViolations(projectId: string): Promise<TrackedViolation[]> {
+  const previousAnalysis = await prisma.analysisResult.findFirst({
+    where: { projectId, versionSnapshot: false },
+    orderBy: { createdAt: 'desc' },
+    select: { outOfScopeViolations: true }
+  });
+  const carried = (previousAnalysis?.outOfScopeViolations as TrackedViolation[] | null) ?? [];
+
+  const violations = await prisma.ruleViolation.findMany({
+    where: { projectId, fingerprint: { not: null } },
+    select: {
+      fingerprint: true,
+      ruleId: true,
+      ruleName: true,
+      ruleCategory: true,
+      severity: true,
+      frameName: true,
+      frameId: true,
+      framePath: true,
+      description: true,
+      firstDetectedAt: true
+    }
+  });
+
+  const tracked: TrackedViolation[] = violations.map(v => ({
+    fingerprint: v.fingerprint!,
+    ruleId: v.ruleId,
+    ruleName: v.ruleName,
+    category: v.ruleCategory,
+    severity: v.severity,
+    frameName: v.frameName,
+    frameId: v.frameId,
+    nodePath: v.framePath,
+    description: v.description,
+    firstDetectedAt: v.firstDetectedAt
+  }));
+  const trackedFingerprints = new Set(tracked.map(v => v.fingerprint));
+
+  return [...tracked, ...carried.filter(v => !trackedFingerprints.has(v.fingerprint))];
+}
+
 async function updateProjectStatus(
   projectId: string,
   status: AnalysisStatus
@@ -480,6 +957,7 @@ async function updateProjectScores(
       componentScore: summary.scoreResult.componentScore,
       responsiveScore: summary.scoreResult.responsiveScore,
       semanticScore: summary.scoreResult.semanticScore,
+      accessibilityScore: summary.scoreResult.accessibilityScore,
       htmlGeneratable: summary.scoreResult.canGenerateHTML
     }
   });
@@ -522,5 +1000,6 @@ export async function getImportStatus(jobId: string): Promise<{
 
 export default {
   startImport,
-  getImportStatus
+  getImportStatus,
+  resolveAnalysisScope
 };
\ No newline at end of file
@@ -0,0 +1,132 @@
+// =====================================
+// backend/src/services/figmaVersionService.ts
+// Figmaバージョン履歴サービス - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: figmaApiService, errors, utils/logger
+// 説明: Figmaファイルのバージョン一覧・指定バージョンのファイル取得
+//       取得元はFigmaVersionProviderとして差し替え可能（テストではローカルのフィクスチャから提供する）
+// =====================================
+
+import * as figmaApiService from './figmaApiService';
+import type { FigmaFileDetail, FigmaFileVersion } from './figmaApiService';
+import { ValidationError } from '../errors';
+import logger from '../utils/logger';
+
+// =====================================
+// 型定義
+// =====================================
+
+/**
+ * バージョン履歴の取得元
+ */
+export interface FigmaVersionProvider {
+  /**
+   * ファイルのバージョン一覧を取得（新しい順）
+   */
+  listVersions(userId: string, fileKey: string): Promise<FigmaFileVersion[]>;
+
+  /**
+   * 指定バージョンのファイルを取得
+   * @throws NotFoundError - ファイルまたはバージョンが見つからない
+   */
+  getFileAtVersion(userId: string, fileKey: string, versionId: string): Promise<FigmaFileDetail>;
+}
+
+/**
+ * 指定バージョンのファイルと、バージョン履歴上の情報（一覧に無い古いバージョンはnull）
+ */
+export interface VersionedFile {
+  file: FigmaFileDetail;
+  version: FigmaFileVersion | null;
+}
+
+// =====================================
+// 取得元
+// =====================================
+
+// Figma APIのバージョン履歴（GET /v1/files/:key/versions, GET /v1/files/:key?version=）
+export const figmaApiVersionProvider: FigmaVersionProvider = {
+  listVersions: (userId, fileKey) => figmaApiService.getFigmaFileVersions(userId, fileKey),
+  getFileAtVersion: (userId, fileKey, versionId) =>
+    figmaApiService.getFigmaFile(userId, fileKey, { version: versionId })
+};
+
+let provider: FigmaVersionProvider = figmaApiVersionProvider;
+
+/**
+ * バージョン履歴の取得元を差し替え（未指定時はFigma APIに戻す）
+ */
+export function setFigmaVersionProvider(next?: FigmaVersionProvider): void {
+  provider = next ?? figmaApiVersionProvider;
+}
+
+// =====================================
+// バージョン履歴
+// =====================================
+
+/**
+ * Figmaのバージョン形式（数字のみ）を検証
+ *
+ * @throws ValidationError - 形式が不正
+ */
+export function assertVersionId(versionId: unknown): asserts versionId is string {
+  if (typeof versionId !== 'string' || !/^\d{1,30}$/.test(versionId)) {
+    throw new ValidationError('versionIdはFigmaのバージョンID（数字）で指定してください');
+  }
+}
+
+/**
+ * ファイルのバージョン一覧を取得
+ *
+ * @param userId - FIGLEANユーザーID
+ * @param fileKey - FigmaファイルKey
+ * @returns バージョン一覧（新しい順）
+ */
+export async function listFileVersions(userId: string, fileKey: string): Promise<FigmaFileVersion[]> {
+  return provider.listVersions(userId, fileKey);
+}
+
+/**
+ * 指定バージョンのファイルを取得
+ * 名前付きバージョンであれば、バージョン履歴上のタイトル・作成日時も返す
+ *
+ * @param userId - FIGLEANユーザーID
+ * @param fileKey - FigmaファイルKey
+ * @param versionId - バージョンID
+ * @throws ValidationError - バージョンIDの形式が不正
+ * @throws NotFoundError - ファイルまたはバージョンが見つからない
+ */
+export async function getFileAtVersion(
+  userId: string,
+  fileKey: string,
+  versionId: string
+): Promise<VersionedFile> {
+  assertVersionId(versionId);
+
+  const [file, versions] = await Promise.all([
+    provider.getFileAtVersion(userId, fileKey, versionId),
+    provider.listVersions(userId, fileKey)
+  ]);
+  const version = versions.find(v => v.id === versionId) ?? null;
+
+  logger.info('バージョン指定のファイル取得成功', {
+    userId,
+    fileKey,
+    versionId,
+    label: version?.label ?? null
+  });
+
+  return { file: { ...file, version: versionId }, version };
+}
+
+// =====================================
+// Export
+// =====================================
+
+export default {
+  figmaApiVersionProvider,
+  setFigmaVersionProvider,
+  assertVersionId,
+  listFileVersions,
+  getFileAtVersion
+};
@@ -5,6 +5,7 @@
  * ファイルパス: backend/src/services/html/htmlBuilder.ts
  * 作成日: 2026-01-19
  * 説明: FigmaノードツリーからHTML文字列を生成するメインエンジン
+ * 更新日: 2026-10-19 - Tailwind configのscreensをプロジェクトのブレークポイントから生成
  * ==============================================
  */
 
@@ -289,18 +290,20 @@ export class HTMLBuilder {
   }
 
   /**
-   * Tailwind config生成
+   * Tailwind config生成（プロジェクトのブレークポイントをscreensとして定義）
    */
   private generateTailwindConfig(breakpoints: ProjectBreakpoints): string {
+    const screens = [...breakpoints]
+      .sort((a, b) => a.width - b.width)
+      .map(breakpoint => `          '${breakpoint.name}': '${breakpoint.width}px',`)
+      .join('\n');
+
     return `
   <script>
     tailwind.config = {
       theme: {
         screens: {
-          'mobile': '${breakpoints.mobile || 640}px',
-          'tablet': '${breakpoints.tablet || 768}px',
-          'desktop': '${breakpoints.desktop || 1024}px',
-          'wide': '${breakpoints.wide || 1280}px',
+${screens}
         }
       }
     }
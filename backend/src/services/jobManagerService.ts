@@ -31,6 +31,16 @@ export interface JobProgress {
   total: number;        // 全体数
   percentage: number;   // 進捗率（0-100）
   currentStep: string;  // 現在のステップ名
+  frames?: JobFrameProgress;  // 差分解析のフレーム数（解析開始後に設定）
+}
+
+/**
+ * 差分解析のフレーム数
+ */
+export interface JobFrameProgress {
+  total: number;       // トップレベルフレーム数
+  reanalyzed: number;  // ルールチェックを実行したフレーム数
+  skipped: number;     // 変更がなく前回結果を再利用したフレーム数
 }
 
 /**
@@ -213,6 +223,7 @@ export function updateJobProgress(
   }
 
   job.progress = {
+    ...job.progress,
     current,
     total,
     percentage: Math.round((current / total) * 100),
@@ -3,13 +3,22 @@
 // 崩壊予測サービス - FIGLEAN Phase 8 (UX改善版)
 // 作成日時: 2026年1月12日
 // 更新日時: 2026年1月14日 - Named Export対応
-// 依存関係: lib/prisma, errors, utils/logger
+// 更新日時: 2026年10月19日 - ルールIDの対応表ではなく、ブレークポイント幅のレイアウトシミュレーションから予測を生成
+// 更新日時: 2026年10月19日 - プロジェクトのブレークポイントで集計
+// 更新日時: 2026年10月19日 - フォントメトリクスによるテキストの切れ・はみ出し・折り返しの予測
+// 更新日時: 2026年10月19日 - 翻訳による文字列長の変化のストレステスト
+// 依存関係: lib/prisma, errors, utils/logger, rules/layoutSimulation, rules/projectBreakpoints, rules/localizationStress
 // 説明: レスポンシブブレークポイント崩壊予測生成
 // =====================================
 
 import { PrismaClient, BreakPrediction } from '@prisma/client';
 import { NotFoundError, ValidationError } from '../errors';
 import logger from '../utils/logger';
+import type { FrameSimulation, LayoutIssue, TextIssueDetail } from '../rules/layoutSimulation';
+import { resolveProjectBreakpoints } from '../rules/projectBreakpoints';
+import { runLocalizationStress } from '../rules/localizationStress';
+import type { FigmaNode } from './figmaApiService';
+import type { ProjectBreakpoint } from '../types/rules';
 
 const prisma = new PrismaClient();
 
@@ -28,33 +37,18 @@ export type BreakType =
   | 'HEIGHT_MISMATCH'
   | 'FIXED_WIDTH_ISSUE';
 
-/**
- * ブレークポイント
- */
-export type BreakpointType = 'mobile' | 'tablet' | 'desktop';
-
 /**
  * 重要度
  */
 export type Severity = 'CRITICAL' | 'MAJOR' | 'MINOR';
 
 /**
- * レスポンシブ問題サマリー
+ * レスポンシブ問題サマリー（プロジェクトのブレークポイント名 → 問題一覧）
  */
-export interface ResponsiveIssues {
-  mobile: {
-    width: string;
-    issues: string[];
-  };
-  tablet: {
-    width: string;
-    issues: string[];
-  };
-  desktop: {
-    width: string;
-    issues: string[];
-  };
-}
+export type ResponsiveIssues = Record<string, {
+  width: string;
+  issues: string[];
+}>;
 
 /**
  * 崩壊予測レスポンス
@@ -71,16 +65,6 @@ export interface PredictionResponse {
   message?: string; // UX改善: データ未生成時のメッセージ
 }
 
-// =====================================
-// ブレークポイント定義
-// =====================================
-
-const BREAKPOINTS = {
-  mobile: 375,
-  tablet: 768,
-  desktop: 1440
-} as const;
-
 // =====================================
 // 崩壊予測ロジック
 // =====================================
@@ -111,9 +95,11 @@ export async function getPredictions(
     throw new ValidationError('このプロジェクトへのアクセス権限がありません');
   }
 
+  const breakpoints = resolveProjectBreakpoints(project.breakpoints);
+
   // 診断実行済みかチェック
   const analysisResult = await prisma.analysisResult.findFirst({
-    where: { projectId },
+    where: { projectId, versionSnapshot: false },
     orderBy: { createdAt: 'desc' }
   });
 
@@ -121,11 +107,7 @@ export async function getPredictions(
     logger.warn('診断未実行 - 崩壊予測データなし', { userId, projectId });
     return {
       predictions: [],
-      responsiveIssues: {
-        mobile: { width: '375px', issues: [] },
-        tablet: { width: '768px', issues: [] },
-        desktop: { width: '1440px', issues: [] }
-      },
+      responsiveIssues: generateResponsiveIssues([], breakpoints),
       summary: {
         totalPredictions: 0,
         criticalCount: 0,
@@ -150,11 +132,7 @@ export async function getPredictions(
     logger.info('崩壊予測データなし（ルール違反が軽微）', { userId, projectId });
     return {
       predictions: [],
-      responsiveIssues: {
-        mobile: { width: '375px', issues: [] },
-        tablet: { width: '768px', issues: [] },
-        desktop: { width: '1440px', issues: [] }
-      },
+      responsiveIssues: generateResponsiveIssues([], breakpoints),
       summary: {
         totalPredictions: 0,
         criticalCount: 0,
@@ -166,7 +144,7 @@ export async function getPredictions(
   }
 
   // レスポンシブ問題サマリー生成
-  const responsiveIssues = generateResponsiveIssues(predictions);
+  const responsiveIssues = generateResponsiveIssues(predictions, breakpoints);
 
   // サマリー集計
   const summary = {
@@ -193,41 +171,22 @@ export async function getPredictions(
  * レスポンシブ問題サマリー生成
  * 
  * @param predictions - 崩壊予測データ
+ * @param breakpoints - プロジェクトのブレークポイント
  * @returns レスポンシブ問題サマリー
  */
 function generateResponsiveIssues(
-  predictions: BreakPrediction[]
+  predictions: BreakPrediction[],
+  breakpoints: ProjectBreakpoint[]
 ): ResponsiveIssues {
-  const issues: ResponsiveIssues = {
-    mobile: {
-      width: `${BREAKPOINTS.mobile}px`,
-      issues: []
-    },
-    tablet: {
-      width: `${BREAKPOINTS.tablet}px`,
-      issues: []
-    },
-    desktop: {
-      width: `${BREAKPOINTS.desktop}px`,
-      issues: []
-    }
-  };
+  const issues: ResponsiveIssues = Object.fromEntries(
+    breakpoints.map(breakpoint => [breakpoint.name, { width: `${breakpoint.width}px`, issues: [] as string[] }])
+  );
 
-  // ブレークポイント別に集計
+  // ブレークポイント別に集計（設定変更前の予測など、現在のブレークポイントに無いものは除く）
   predictions.forEach(prediction => {
-    const breakpoint = prediction.breakpoint as BreakpointType | null;
-    
-    if (!breakpoint) return;
+    if (!prediction.breakpoint || !Object.prototype.hasOwnProperty.call(issues, prediction.breakpoint)) return;
 
-    const issueText = generateIssueText(prediction);
-
-    if (breakpoint === 'mobile') {
-      issues.mobile.issues.push(issueText);
-    } else if (breakpoint === 'tablet') {
-      issues.tablet.issues.push(issueText);
-    } else if (breakpoint === 'desktop') {
-      issues.desktop.issues.push(issueText);
-    }
+    issues[prediction.breakpoint].issues.push(generateIssueText(prediction));
   });
 
   return issues;
@@ -264,83 +223,190 @@ function generateIssueText(prediction: BreakPrediction): string {
   }
 }
 
+/**
+ * 保存する崩壊予測
+ */
+export type PredictionInput = Omit<BreakPrediction, 'id' | 'createdAt'>;
+
+/**
+ * 翻訳のストレステスト結果（言語ごと。予測はDBに保存しない）
+ */
+export interface LocalizationPrediction {
+  locale: string;
+  label: string;
+  expansion: number;         // 英語を1としたときのテキスト幅の比率
+  translatedTexts: number;
+  frames: Array<{
+    frameId: string;
+    frameName: string;
+    breakpoint: string;
+    screenWidth: number;
+    predictions: PredictionInput[];
+  }>;
+}
+
+/**
+ * デフォルトのブレークポイントの表示名（その他はブレークポイント名をそのまま表示）
+ */
+// ブレークポイント名はプロジェクトで自由に付けられるため、プロトタイプのプロパティ名と衝突しない Map で引く
+const BREAKPOINT_LABELS = new Map<string, string>([
+  ['mobile', 'SP'],
+  ['tablet', 'タブレット'],
+  ['desktop', 'PC']
+]);
+
+/**
+ * はみ出しの原因の一覧（"Hero Image" 固定 600px, ...）
+ */
+function describeCauses(issue: LayoutIssue): string {
+  return issue.causes
+    .map(cause => `"${cause.nodeName}" ${cause.sizing === 'HUG' ? 'Hug' : '固定'} ${cause.width}px`)
+    .join(', ');
+}
+
+/**
+ * テキストの問題を崩壊予測の内容に変換
+ *
+ * - はみ出し（最長の単語が幅に収まらない）→ MAJOR
+ * - 切れ（高さ固定・最大行数で省略される）→ MAJOR
+ * - 行数の大幅な増加 → MINOR
+ */
+function toTextPrediction(
+  issue: LayoutIssue,
+  text: TextIssueDetail,
+  label: string,
+  location: string
+): Pick<PredictionInput, 'breakType' | 'breakTitle' | 'breakDescription' | 'fixSuggestion' | 'severity'> {
+  const font = `${text.fontFamily} ${text.fontSize}px で概算`;
+  const lines = `${text.lineCount}行（デザイン時 ${text.designLineCount}行）`;
+
+  switch (text.outcome) {
+    case 'WORD_OVERFLOW':
+      return {
+        breakType: 'TEXT_OVERFLOW',
+        breakTitle: `${label}でテキストが横にはみ出します`,
+        breakDescription: `${location} の幅が ${issue.availableWidth}px まで縮み、最長の単語の幅（約${issue.requiredWidth}px）より ${issue.amount}px 不足します（${font}）`,
+        fixSuggestion: '同じ行の固定幅の要素を減らすか、親要素で Wrap を有効にするか、長い単語・URLを改行できるようにしてください',
+        severity: 'MAJOR'
+      };
+
+    case 'CLIPPED':
+      return {
+        breakType: 'TEXT_OVERFLOW',
+        breakTitle: `${label}でテキストが切れます`,
+        breakDescription: `${location} は幅 ${issue.availableWidth}px で ${lines}に折り返され、表示できる ${text.visibleLines}行を超えた ${text.lineCount - (text.visibleLines ?? 0)}行が切れます。収まる幅は約${issue.requiredWidth}px です（${font}）`,
+        fixSuggestion: 'テキストの Height を Auto height（Hug）に変更するか、最大行数・文言の長さを見直してください',
+        severity: 'MAJOR'
+      };
+
+    case 'EXCESSIVE_WRAP':
+      return {
+        breakType: 'TEXT_OVERFLOW',
+        breakTitle: `${label}でテキストが${text.lineCount}行に折り返されます`,
+        breakDescription: `${location} は幅 ${issue.availableWidth}px で ${lines}に折り返され、高さが約${(text.lineCount - text.designLineCount) * text.lineHeight}px 増えます。デザイン時に近い行数に収まる幅は約${issue.requiredWidth}px です（${font}）`,
+        fixSuggestion: 'ブレークポイントごとにフォントサイズを小さくするか、文言を短くしてください',
+        severity: 'MINOR'
+      };
+  }
+}
+
+/**
+ * シミュレーション結果の問題を崩壊予測に変換
+ *
+ * - 画面（トップレベルフレーム）のはみ出し → 横スクロール
+ * - 横並び（Wrapなし）のはみ出し → Flex折り返し失敗
+ * - 縦並び・Wrap・制約配置のはみ出し → 固定幅問題
+ * - テキストの切れ・はみ出し・行数の大幅な増加 → テキストオーバーフロー
+ * - Min Widthを下回る → サイズ不一致
+ */
+function toPrediction(projectId: string, issue: LayoutIssue): PredictionInput {
+  const label = `${BREAKPOINT_LABELS.get(issue.breakpoint) ?? issue.breakpoint}幅（${issue.screenWidth}px）`;
+  const location = issue.isTopLevel ? `"${issue.nodeName}"` : `"${issue.topLevelFrameName}" 内の "${issue.nodeName}"`;
+  const common = {
+    projectId,
+    affectedFrame: issue.nodeName,
+    affectedFrameId: issue.nodeId,
+    breakpoint: issue.breakpoint,
+    screenWidth: issue.screenWidth
+  };
+  const [primaryCause] = issue.causes;
+
+  if (issue.kind === 'TEXT' && issue.text) {
+    return { ...common, ...toTextPrediction(issue, issue.text, label, location) };
+  }
+
+  if (issue.kind === 'SQUEEZE') {
+    return {
+      ...common,
+      breakType: 'SIZE_MISMATCH',
+      breakTitle: `${label}で最小幅を下回ります`,
+      breakDescription: `${location} の幅が ${issue.availableWidth}px まで縮み、Min Width ${issue.requiredWidth}px を ${issue.amount}px 下回ります`,
+      fixSuggestion: '親要素で Wrap を有効にするか、同じ行の固定幅の要素を Fill Container に変更してください',
+      severity: 'MINOR'
+    };
+  }
+
+  const overflow = `必要な幅 ${issue.requiredWidth}px に対して利用できる幅は ${issue.availableWidth}px（${issue.amount}px 超過）`;
+  const causes = issue.causes.length > 0 ? `原因: ${describeCauses(issue)}` : '';
+
+  if (issue.isTopLevel) {
+    return {
+      ...common,
+      breakType: 'HORIZONTAL_SCROLL',
+      breakTitle: `${label}で横スクロール発生`,
+      breakDescription: `${location} で${overflow}。${causes}`,
+      fixSuggestion: primaryCause
+        ? `"${primaryCause.nodeName}" の Width を Fill Container に変更してください`
+        : 'Width を Fill Container に変更してください',
+      severity: 'CRITICAL'
+    };
+  }
+
+  if (issue.layout === 'HORIZONTAL') {
+    return {
+      ...common,
+      breakType: 'FLEX_WRAP_FAILURE',
+      breakTitle: `${label}で横並びの要素が折り返されません`,
+      breakDescription: `${location} で${overflow}。${causes}`,
+      fixSuggestion: 'Auto Layout Settings → Wrap: ON、または子要素の Width を Fill Container に変更してください',
+      severity: 'MAJOR'
+    };
+  }
+
+  return {
+    ...common,
+    breakType: 'FIXED_WIDTH_ISSUE',
+    breakTitle: `${label}で固定幅の要素がはみ出します`,
+    breakDescription: `${location} で${overflow}。${causes}`,
+    fixSuggestion: primaryCause
+      ? `"${primaryCause.nodeName}" の Width を Fill Container に変更するか、Max Width を使用してください`
+      : 'Width を Fill Container に変更してください',
+    severity: 'MAJOR'
+  };
+}
+
 /**
  * 崩壊予測を生成（診断時に呼び出される）
- * 
+ * プロジェクトの各ブレークポイントの画面幅で再計算したレイアウトの、はみ出し・最小幅の不足を予測として保存する
+ *
  * @param projectId - プロジェクトID
+ * @param simulations - layoutSimulation.simulateBreakpoints の結果
  * @param violations - ルール違反データ
  * @returns 生成した予測数
  */
 export async function generatePredictions(
   projectId: string,
+  simulations: FrameSimulation[],
   violations: any[]
 ): Promise<number> {
   logger.info('崩壊予測生成開始', { projectId, violationCount: violations.length });
 
-  const predictions: Array<{
-    projectId: string;
-    breakType: string;
-    breakTitle: string;
-    breakDescription: string;
-    affectedFrame: string;
-    affectedFrameId: string | null;
-    breakpoint: string | null;
-    screenWidth: number | null;
-    fixSuggestion: string;
-    severity: Severity;
-  }> = [];
-
-  // ルール違反から崩壊予測を生成
-  violations.forEach(violation => {
-    // 固定幅検出 → 横スクロール予測
-    if (violation.ruleId === 'FIXED_SIZE_DETECTED' && violation.severity === 'CRITICAL') {
-      predictions.push({
-        projectId,
-        breakType: 'HORIZONTAL_SCROLL',
-        breakTitle: 'SP幅で横スクロール発生',
-        breakDescription: `${violation.frameName}が固定幅 → Widthをfillに変更`,
-        affectedFrame: violation.frameName,
-        affectedFrameId: violation.frameId,
-        breakpoint: 'mobile',
-        screenWidth: BREAKPOINTS.mobile,
-        fixSuggestion: 'Width を Fill Container に変更してください',
-        severity: 'CRITICAL'
-      });
-    }
+  const predictions: PredictionInput[] = simulations.flatMap(simulation =>
+    simulation.issues.map(issue => toPrediction(projectId, issue))
+  );
 
-    // Wrap: OFF検出 → Flex折り返し失敗予測
-    if (violation.ruleId === 'WRAP_OFF' && violation.severity === 'MAJOR') {
-      predictions.push({
-        projectId,
-        breakType: 'FLEX_WRAP_FAILURE',
-        breakTitle: 'Flex折り返しが機能しません',
-        breakDescription: `${violation.frameName}でWrap: OFF → WrapをONに変更`,
-        affectedFrame: violation.frameName,
-        affectedFrameId: violation.frameId,
-        breakpoint: 'tablet',
-        screenWidth: BREAKPOINTS.tablet,
-        fixSuggestion: 'Auto Layout Settings → Wrap: ON',
-        severity: 'MAJOR'
-      });
-    }
-
-    // Min Width未設定 → テキストオーバーフロー予測
-    if (violation.ruleId === 'MIN_WIDTH_MISSING' && violation.severity === 'MINOR') {
-      predictions.push({
-        projectId,
-        breakType: 'TEXT_OVERFLOW',
-        breakTitle: 'テキストオーバーフロー発生',
-        breakDescription: `${violation.frameName}でMin Width未設定 → Min Widthを設定`,
-        affectedFrame: violation.frameName,
-        affectedFrameId: violation.frameId,
-        breakpoint: 'mobile',
-        screenWidth: BREAKPOINTS.mobile,
-        fixSuggestion: 'Min Width を設定してください（推奨: 200px）',
-        severity: 'MINOR'
-      });
-    }
-
-    // Component未使用 → サイズ不一致予測
+  // Component未使用 → サイズ不一致予測（ブレークポイントに依存しない）
+  violations.forEach(violation => {
     if (violation.ruleId === 'COMPONENT_NOT_USED' && violation.frameName.includes('Button')) {
       predictions.push({
         projectId,
@@ -366,12 +432,53 @@ export async function generatePredictions(
 
   logger.info('崩壊予測生成完了', { 
     projectId, 
+    simulatedFrames: simulations.length,
     generatedCount: predictions.length 
   });
 
   return predictions.length;
 }
 
+/**
+ * 翻訳のストレステスト
+ * すべてのテキストを言語ごとの伸縮率で擬似翻訳してシミュレーションを再実行し、翻訳後にのみ崩れるフレームの予測を返す
+ *
+ * @param projectId - プロジェクトID
+ * @param document - 解析範囲のFigmaドキュメント
+ * @param breakpoints - プロジェクトのブレークポイント
+ * @param locales - ストレステストする言語（localizationStress.LOCALIZATION_PROFILES のキー）
+ * @returns 言語ごとの結果
+ */
+export function predictLocalizationBreaks(
+  projectId: string,
+  document: FigmaNode,
+  breakpoints: ProjectBreakpoint[],
+  locales: string[]
+): LocalizationPrediction[] {
+  logger.info('翻訳ストレステスト開始', { projectId, locales });
+
+  const results = runLocalizationStress(document, breakpoints, locales).map(result => ({
+    locale: result.locale,
+    label: result.label,
+    expansion: result.expansion,
+    translatedTexts: result.translatedTexts,
+    frames: result.frames.map(frame => ({
+      frameId: frame.frameId,
+      frameName: frame.frameName,
+      breakpoint: frame.breakpoint,
+      screenWidth: frame.screenWidth,
+      predictions: frame.issues.map(issue => toPrediction(projectId, issue))
+    }))
+  }));
+
+  logger.info('翻訳ストレステスト完了', {
+    projectId,
+    brokenFrames: results.map(result => `${result.locale}:${result.frames.length}`)
+  });
+
+  return results;
+}
+
 /**
  * 崩壊予測をクリア（再診断時に呼び出される）
  * 
@@ -3,6 +3,7 @@
 // プロジェクト管理サービス - FIGLEAN版
 // 作成日時: 2026年1月11日 00:11
 // 更新日時: 2026年1月11日 00:11 - Prismaスキーマ完全準拠版
+// 更新日時: 2026年10月19日 - プロジェクトのブレークポイント設定
 // 依存関係: @prisma/client, types/project
 // 説明: プロジェクトCRUD操作、UserRole準拠プラン制限チェック
 // =====================================
@@ -12,7 +13,7 @@
  * プロジェクト管理のビジネスロジック
  */
 
-import { PrismaClient, UserRole, AnalysisStatus } from '@prisma/client';
+import { Prisma, PrismaClient, UserRole, AnalysisStatus } from '@prisma/client';
 import {
   CreateProjectDto,
   UpdateProjectDto,
@@ -23,6 +24,7 @@ import {
   ProjectStats,
   PlanLimits
 } from '../types/project';
+import { resolveProjectBreakpoints } from '../rules/projectBreakpoints';
 
 const prisma = new PrismaClient();
 
@@ -69,6 +71,7 @@ export async function getProjects(
     skip: offset,
     include: {
       analysisResults: {
+        where: { versionSnapshot: false },
         orderBy: { createdAt: 'desc' },
         take: 1,
         select: {
@@ -152,6 +155,9 @@ export async function getProjectById(
     componentScore: project.componentScore,
     responsiveScore: project.responsiveScore,
     semanticScore: project.semanticScore,
+    accessibilityScore: project.accessibilityScore,
+    scoringProfile: project.scoringProfile,
+    breakpoints: resolveProjectBreakpoints(project.breakpoints),
     analysisStatus: project.analysisStatus,
     lastAnalyzedAt: project.lastAnalyzedAt,
     analysisCount: project.analysisCount,
@@ -181,6 +187,8 @@ export async function createProject(
       figmaFileUrl: data.figmaFileUrl,
       figmaFileName: data.figmaFileName,
       figmaNodeId: data.figmaNodeId,
+      scoringProfile: data.scoringProfile,
+      breakpoints: data.breakpoints as any,
       analysisStatus: AnalysisStatus.PENDING
     }
   });
@@ -199,6 +207,9 @@ export async function createProject(
     componentScore: project.componentScore,
     responsiveScore: project.responsiveScore,
     semanticScore: project.semanticScore,
+    accessibilityScore: project.accessibilityScore,
+    scoringProfile: project.scoringProfile,
+    breakpoints: resolveProjectBreakpoints(project.breakpoints),
     analysisStatus: project.analysisStatus,
     lastAnalyzedAt: project.lastAnalyzedAt,
     analysisCount: project.analysisCount,
@@ -238,7 +249,11 @@ export async function updateProject(
       description: data.description ?? existing.description,
       figmaFileUrl: data.figmaFileUrl ?? existing.figmaFileUrl,
       figmaFileName: data.figmaFileName ?? existing.figmaFileName,
-      figmaNodeId: data.figmaNodeId ?? existing.figmaNodeId
+      figmaNodeId: data.figmaNodeId ?? existing.figmaNodeId,
+      scoringProfile: data.scoringProfile ?? existing.scoringProfile,
+      ...(data.breakpoints !== undefined && {
+        breakpoints: data.breakpoints === null ? Prisma.JsonNull : (data.breakpoints as any)
+      })
     }
   });
 
@@ -256,6 +271,9 @@ export async function updateProject(
     componentScore: project.componentScore,
     responsiveScore: project.responsiveScore,
     semanticScore: project.semanticScore,
+    accessibilityScore: project.accessibilityScore,
+    scoringProfile: project.scoringProfile,
+    breakpoints: resolveProjectBreakpoints(project.breakpoints),
     analysisStatus: project.analysisStatus,
     lastAnalyzedAt: project.lastAnalyzedAt,
     analysisCount: project.analysisCount,
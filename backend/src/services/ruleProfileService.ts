@@ -0,0 +1,335 @@
+// =====================================
+// backend/src/services/ruleProfileService.ts
+// ルールプロファイル管理サービス - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: @prisma/client, rules/RuleEngine, rules/ruleProfile, rules/namingPolicy, errors, utils/logger
+// 説明: プロジェクト別ルールプロファイル（有効/無効・重要度・パラメータ）の取得・更新・リセット
+// =====================================
+
+import { PrismaClient } from '@prisma/client';
+import { getRuleEngine } from '../rules/RuleEngine';
+import { DEFAULT_RULE_PROFILE } from '../rules/ruleProfile';
+import { validateNamingPolicyParams } from '../rules/namingPolicy';
+import { RuleId, Severity } from '../types/rules';
+import type {
+  RuleOverride,
+  RuleProfile,
+  ResolvedRuleSetting
+} from '../types/rules';
+import { NotFoundError, ValidationError } from '../errors';
+import logger from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+// =====================================
+// 型定義
+// =====================================
+
+/**
+ * ルール設定一覧レスポンス
+ */
+export interface RuleSettingsResponse {
+  projectId: string;
+  rules: ResolvedRuleSetting[];
+}
+
+// =====================================
+// プロファイル取得（解析用）
+// =====================================
+
+/**
+ * プロジェクトのルールプロファイルを取得
+ * 未作成の場合はデフォルトプロファイルを返す（所有権チェックなし・解析ジョブ用）
+ *
+ * @param projectId - プロジェクトID
+ * @returns ルールプロファイル
+ */
+export async function getRuleProfile(projectId: string): Promise<RuleProfile> {
+  const record = await prisma.projectRuleProfile.findUnique({
+    where: { projectId }
+  });
+
+  if (!record) {
+    return DEFAULT_RULE_PROFILE;
+  }
+
+  return {
+    rules: (record.rules ?? {}) as RuleProfile['rules']
+  };
+}
+
+// =====================================
+// ルール設定一覧取得
+// =====================================
+
+/**
+ * プロファイル適用後の全ルール設定を取得
+ *
+ * @param userId - ユーザーID
+ * @param projectId - プロジェクトID
+ * @returns ルール設定一覧
+ */
+export async function getRuleSettings(
+  userId: string,
+  projectId: string
+): Promise<RuleSettingsResponse> {
+  logger.info('ルール設定取得', { userId, projectId });
+
+  await assertProjectOwner(userId, projectId);
+
+  const profile = await getRuleProfile(projectId);
+
+  return {
+    projectId,
+    rules: getRuleEngine().getResolvedRuleSettings(profile)
+  };
+}
+
+// =====================================
+// ルール設定更新
+// =====================================
+
+/**
+ * 複数ルールの設定をまとめて更新（指定ルールのみマージ）
+ *
+ * @param userId - ユーザーID
+ * @param projectId - プロジェクトID
+ * @param rules - ルールID → 個別設定
+ * @returns 更新後のルール設定一覧
+ */
+export async function updateRuleSettings(
+  userId: string,
+  projectId: string,
+  rules: Record<string, RuleOverride>
+): Promise<RuleSettingsResponse> {
+  logger.info('ルール設定一括更新', { userId, projectId, ruleIds: Object.keys(rules) });
+
+  await assertProjectOwner(userId, projectId);
+
+  const profile = await getRuleProfile(projectId);
+  const merged: RuleProfile['rules'] = { ...profile.rules };
+
+  for (const [ruleId, override] of Object.entries(rules)) {
+    merged[ruleId] = mergeOverride(merged[ruleId], validateOverride(ruleId, override));
+  }
+
+  await saveRuleProfile(projectId, merged);
+
+  return getRuleSettings(userId, projectId);
+}
+
+/**
+ * 単一ルールの設定を更新
+ *
+ * @param userId - ユーザーID
+ * @param projectId - プロジェクトID
+ * @param ruleId - ルールID
+ * @param override - 個別設定
+ * @returns 更新後のルール設定一覧
+ */
+export async function updateRuleSetting(
+  userId: string,
+  projectId: string,
+  ruleId: string,
+  override: RuleOverride
+): Promise<RuleSettingsResponse> {
+  return updateRuleSettings(userId, projectId, { [ruleId]: override });
+}
+
+// =====================================
+// ルール設定リセット
+// =====================================
+
+/**
+ * 単一ルールの設定をデフォルトに戻す
+ *
+ * @param userId - ユーザーID
+ * @param projectId - プロジェクトID
+ * @param ruleId - ルールID
+ * @returns 更新後のルール設定一覧
+ */
+export async function resetRuleSetting(
+  userId: string,
+  projectId: string,
+  ruleId: string
+): Promise<RuleSettingsResponse> {
+  logger.info('ルール設定リセット', { userId, projectId, ruleId });
+
+  await assertProjectOwner(userId, projectId);
+  findRuleDefinition(ruleId);
+
+  const profile = await getRuleProfile(projectId);
+  const { [ruleId]: _removed, ...rest } = profile.rules;
+
+  await saveRuleProfile(projectId, rest);
+
+  return getRuleSettings(userId, projectId);
+}
+
+/**
+ * プロジェクトのルールプロファイルを削除（全ルールをデフォルトに戻す）
+ *
+ * @param userId - ユーザーID
+ * @param projectId - プロジェクトID
+ * @returns 更新後のルール設定一覧
+ */
+export async function resetRuleSettings(
+  userId: string,
+  projectId: string
+): Promise<RuleSettingsResponse> {
+  logger.info('ルールプロファイルリセット', { userId, projectId });
+
+  await assertProjectOwner(userId, projectId);
+
+  await prisma.projectRuleProfile.deleteMany({
+    where: { projectId }
+  });
+
+  return getRuleSettings(userId, projectId);
+}
+
+// =====================================
+// 内部ヘルパー
+// =====================================
+
+/**
+ * プロジェクト所有権確認
+ */
+async function assertProjectOwner(userId: string, projectId: string): Promise<void> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId, userId }
+  });
+
+  if (!project) {
+    throw new NotFoundError('プロジェクトが見つかりません', 'Project', projectId);
+  }
+}
+
+/**
+ * ルール定義を検索（存在しない場合はValidationError）
+ */
+function findRuleDefinition(ruleId: string) {
+  const definition = getRuleEngine()
+    .getAllRuleDefinitions()
+    .find(d => d.id === ruleId);
+
+  if (!definition) {
+    throw new ValidationError(`不明なルールIDです: ${ruleId}`, 'ruleId', ruleId);
+  }
+
+  return definition;
+}
+
+/**
+ * 個別設定のバリデーション
+ * 未知のルールID・重要度・パラメータ、型の異なるパラメータを拒否する
+ */
+function validateOverride(ruleId: string, override: RuleOverride): RuleOverride {
+  const definition = findRuleDefinition(ruleId);
+  const errors: string[] = [];
+
+  if (override === null || typeof override !== 'object') {
+    throw new ValidationError(`ルール設定の形式が不正です: ${ruleId}`, ruleId, override);
+  }
+
+  if (override.enabled !== undefined && typeof override.enabled !== 'boolean') {
+    errors.push('enabledはbooleanである必要があります');
+  }
+
+  if (
+    override.severity !== undefined &&
+    !Object.values(Severity).includes(override.severity)
+  ) {
+    errors.push(`severityは${Object.values(Severity).join(', ')}のいずれかである必要があります`);
+  }
+
+  const paramsIsObject =
+    override.params !== null && typeof override.params === 'object' && !Array.isArray(override.params);
+
+  if (override.params !== undefined && !paramsIsObject) {
+    errors.push('paramsはオブジェクトである必要があります');
+  } else if (override.params !== undefined) {
+    const defaults = definition.defaultParams ?? {};
+
+    for (const [key, value] of Object.entries(override.params)) {
+      if (!(key in defaults)) {
+        errors.push(`不明なパラメータです: ${key}`);
+        continue;
+      }
+
+      const expected = Array.isArray(defaults[key]) ? 'array' : typeof defaults[key];
+      const actual = Array.isArray(value) ? 'array' : typeof value;
+
+      if (expected !== actual) {
+        errors.push(`パラメータ${key}は${expected}である必要があります`);
+      } else if (
+        Array.isArray(value) &&
+        !(value as unknown[]).every(item => typeof item === 'string' || (typeof item === 'number' && Number.isFinite(item) && item >= 0))
+      ) {
+        errors.push(`パラメータ${key}は文字列または0以上の数値の配列である必要があります`);
+      } else if (typeof value === 'number' && (!Number.isFinite(value) || value < 0)) {
+        errors.push(`パラメータ${key}は0以上の数値である必要があります`);
+      }
+    }
+  }
+
+  // 命名規則のプリセット名・正規表現
+  if (ruleId === RuleId.NON_SEMANTIC_NAME && override.params !== undefined && errors.length === 0) {
+    errors.push(...validateNamingPolicyParams(override.params));
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(`ルール設定が不正です: ${ruleId}`, ruleId, override, errors);
+  }
+
+  return {
+    ...(override.enabled !== undefined && { enabled: override.enabled }),
+    ...(override.severity !== undefined && { severity: override.severity }),
+    ...(override.params !== undefined && { params: override.params })
+  };
+}
+
+/**
+ * 既存設定に新しい設定をマージ
+ */
+function mergeOverride(
+  existing: RuleOverride | undefined,
+  update: RuleOverride
+): RuleOverride {
+  return {
+    ...existing,
+    ...update,
+    ...((existing?.params || update.params) && {
+      params: { ...existing?.params, ...update.params }
+    })
+  };
+}
+
+/**
+ * ルールプロファイルを保存（upsert）
+ */
+async function saveRuleProfile(
+  projectId: string,
+  rules: RuleProfile['rules']
+): Promise<void> {
+  await prisma.projectRuleProfile.upsert({
+    where: { projectId },
+    create: { projectId, rules: rules as any },
+    update: { rules: rules as any }
+  });
+
+  logger.info('ルールプロファイル保存完了', { projectId, ruleCount: Object.keys(rules).length });
+}
+
+// =====================================
+// エクスポート
+// =====================================
+
+export default {
+  getRuleProfile,
+  getRuleSettings,
+  updateRuleSettings,
+  updateRuleSetting,
+  resetRuleSetting,
+  resetRuleSettings
+};
@@ -3,12 +3,14 @@
 // 改善提案サービス - FIGLEAN Phase 8 (UX改善版)
 // 作成日時: 2026年1月12日
 // 更新日時: 2026年1月14日 - Named Export対応
+// 更新日時: 2026年10月19日 - 繰り返し構造からのコンポーネント化提案
 // 依存関係: lib/prisma, errors, utils/logger
 // 説明: 優先度付き改善提案生成・スコア改善シミュレーション
 // =====================================
 
 import { PrismaClient, ImprovementSuggestion, RuleViolation } from '@prisma/client';
 import { NotFoundError, ValidationError } from '../errors';
+import type { RepeatedStructureGroup } from '../types/rules';
 import logger from '../utils/logger';
 
 const prisma = new PrismaClient();
@@ -84,7 +86,7 @@ export async function getSuggestions(
 
   // 診断実行済みかチェック
   const analysisResult = await prisma.analysisResult.findFirst({
-    where: { projectId },
+    where: { projectId, versionSnapshot: false },
     orderBy: { createdAt: 'desc' }
   });
 
@@ -218,11 +220,13 @@ function generateSummary(suggestions: ImprovementSuggestion[]) {
  * 
  * @param projectId - プロジェクトID
  * @param violations - ルール違反データ
+ * @param repeatedStructures - 繰り返し構造のグループ（COMPONENT_NOT_USED の提案に出現箇所・削減レイヤー数を含める）
  * @returns 生成した提案数
  */
 export async function generateSuggestions(
   projectId: string,
-  violations: RuleViolation[]
+  violations: RuleViolation[],
+  repeatedStructures: RepeatedStructureGroup[] = []
 ): Promise<number> {
   logger.info('改善提案生成開始', { projectId, violationCount: violations.length });
 
@@ -320,6 +324,30 @@ export async function generateSuggestions(
       });
     }
 
+    if (violation.ruleId === 'GROUP_AS_LAYOUT') {
+      suggestions.push({
+        projectId,
+        priority: priority++,
+        title: `${violation.frameName} を Auto Layout Frame に変換`,
+        description: violation.expectedValue
+          ? `GROUP → ${violation.expectedValue}`
+          : 'GROUP → Auto Layout Frame',
+        targetFrame: violation.frameName,
+        targetFrameId: violation.frameId,
+        impactLevel: 'MEDIUM',
+        scoreImprovement: 4,
+        estimatedTime: '3分',
+        difficulty: 'EASY',
+        actionSteps: JSON.stringify([
+          `${violation.frameName}を選択`,
+          'Shift + A でAuto Layout Frameに変換',
+          '子要素の間隔（Gap）を調整'
+        ]),
+        beforeValue: 'GROUP',
+        afterValue: violation.expectedValue ?? 'Auto Layout Frame'
+      });
+    }
+
     if (violation.ruleId === 'NON_SEMANTIC_NAME') {
       suggestions.push({
         projectId,
@@ -370,7 +398,33 @@ export async function generateSuggestions(
       });
     }
 
-    if (violation.ruleId === 'COMPONENT_NOT_USED') {
+    // 繰り返し構造のグループは最初の出現箇所に違反が報告される
+    const repeated = violation.ruleId === 'COMPONENT_NOT_USED'
+      ? repeatedStructures.find(group => group.nodeIds[0] === violation.frameId)
+      : undefined;
+
+    if (repeated) {
+      suggestions.push({
+        projectId,
+        priority: priority++,
+        title: `${repeated.suggestedName} を Component 化（${repeated.occurrences}箇所）`,
+        description: `同じ構造が${repeated.occurrences}箇所で繰り返されています。Component化すると推定 ${repeated.estimatedLayerSaving} レイヤーを個別に管理する必要がなくなります`,
+        targetFrame: violation.frameName,
+        targetFrameId: violation.frameId,
+        impactLevel: 'LOW',
+        scoreImprovement: 2,
+        estimatedTime: `${2 + repeated.occurrences}分`,
+        difficulty: 'MEDIUM',
+        actionSteps: JSON.stringify([
+          `${violation.frameName}（${repeated.nodeIds[0]}）を選択`,
+          'Ctrl/Cmd + Alt + K でComponent作成',
+          `名前を "${repeated.suggestedName}" に設定`,
+          `残りの${repeated.occurrences - 1}箇所（${repeated.nodeIds.slice(1).join(', ')}）をインスタンスに置き換え`
+        ]),
+        beforeValue: `${repeated.occurrences}箇所に独立した${repeated.layerCount}レイヤーの構造（計 ${repeated.occurrences * repeated.layerCount} レイヤー）`,
+        afterValue: `Component "${repeated.suggestedName}" + インスタンス${repeated.occurrences - 1}個`
+      });
+    } else if (violation.ruleId === 'COMPONENT_NOT_USED') {
       suggestions.push({
         projectId,
         priority: priority++,
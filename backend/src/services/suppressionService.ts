@@ -0,0 +1,235 @@
+// =====================================
+// backend/src/services/suppressionService.ts
+// 違反抑制レジストリサービス - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: @prisma/client, rules/RuleEngine, errors, utils/logger
+// 説明: 理由・作成者・有効期限つきの違反抑制の登録・一覧・削除
+// =====================================
+
+import { PrismaClient } from '@prisma/client';
+import { getRuleEngine } from '../rules/RuleEngine';
+import type { SuppressionEntry } from '../types/rules';
+import { NotFoundError, ValidationError } from '../errors';
+import logger from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+// =====================================
+// 型定義
+// =====================================
+
+/**
+ * 抑制登録データ
+ */
+export interface CreateSuppressionData {
+  ruleId: string;
+  frameId: string;
+  frameName?: string;
+  reason: string;
+  expiresAt?: string | null;  // ISO 8601
+}
+
+// 一覧取得時に含める作成者情報
+const AUTHOR_SELECT = {
+  select: { id: true, username: true, name: true }
+} as const;
+
+// =====================================
+// 解析用取得
+// =====================================
+
+/**
+ * 有効期限内の抑制エントリを取得（所有権チェックなし・解析ジョブ用）
+ *
+ * @param projectId - プロジェクトID
+ * @returns 抑制エントリ配列
+ */
+export async function getActiveSuppressions(projectId: string): Promise<SuppressionEntry[]> {
+  const records = await prisma.violationSuppression.findMany({
+    where: {
+      projectId,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }]
+    }
+  });
+
+  return records.map(record => ({
+    id: record.id,
+    ruleId: record.ruleId,
+    frameId: record.frameId,
+    reason: record.reason,
+    author: record.authorId,
+    expiresAt: record.expiresAt
+  }));
+}
+
+// =====================================
+// 一覧取得
+// =====================================
+
+/**
+ * プロジェクトの抑制一覧を取得（期限切れを含む）
+ *
+ * @param userId - ユーザーID
+ * @param projectId - プロジェクトID
+ * @returns 抑制一覧（期限切れフラグつき）
+ */
+export async function listSuppressions(userId: string, projectId: string) {
+  logger.info('抑制一覧取得', { userId, projectId });
+
+  await assertProjectOwner(userId, projectId);
+
+  const records = await prisma.violationSuppression.findMany({
+    where: { projectId },
+    include: { author: AUTHOR_SELECT },
+    orderBy: { createdAt: 'desc' }
+  });
+
+  const now = Date.now();
+
+  return records.map(record => ({
+    ...record,
+    expired: record.expiresAt !== null && record.expiresAt.getTime() <= now
+  }));
+}
+
+// =====================================
+// 登録
+// =====================================
+
+/**
+ * 抑制を登録（同一ルール・同一フレームの既存エントリは上書き）
+ *
+ * @param userId - ユーザーID（作成者）
+ * @param projectId - プロジェクトID
+ * @param data - 抑制登録データ
+ * @returns 登録された抑制
+ */
+export async function createSuppression(
+  userId: string,
+  projectId: string,
+  data: CreateSuppressionData
+) {
+  logger.info('抑制登録', { userId, projectId, ruleId: data.ruleId, frameId: data.frameId });
+
+  await assertProjectOwner(userId, projectId);
+
+  const { ruleId, frameId, frameName, reason, expiresAt } = validateSuppressionData(data);
+
+  const suppression = await prisma.violationSuppression.upsert({
+    where: {
+      projectId_ruleId_frameId: { projectId, ruleId, frameId }
+    },
+    create: { projectId, authorId: userId, ruleId, frameId, frameName, reason, expiresAt },
+    update: { authorId: userId, frameName, reason, expiresAt },
+    include: { author: AUTHOR_SELECT }
+  });
+
+  logger.info('抑制登録完了', { suppressionId: suppression.id });
+
+  return suppression;
+}
+
+// =====================================
+// 削除
+// =====================================
+
+/**
+ * 抑制を削除
+ *
+ * @param userId - ユーザーID
+ * @param projectId - プロジェクトID
+ * @param suppressionId - 抑制ID
+ */
+export async function deleteSuppression(
+  userId: string,
+  projectId: string,
+  suppressionId: string
+): Promise<void> {
+  logger.info('抑制削除', { userId, projectId, suppressionId });
+
+  await assertProjectOwner(userId, projectId);
+
+  const { count } = await prisma.violationSuppression.deleteMany({
+    where: { id: suppressionId, projectId }
+  });
+
+  if (count === 0) {
+    throw new NotFoundError('抑制が見つかりません', 'ViolationSuppression', suppressionId);
+  }
+
+  logger.info('抑制削除完了', { suppressionId });
+}
+
+// =====================================
+// 内部ヘルパー
+// =====================================
+
+/**
+ * プロジェクト所有権確認
+ */
+async function assertProjectOwner(userId: string, projectId: string): Promise<void> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId, userId }
+  });
+
+  if (!project) {
+    throw new NotFoundError('プロジェクトが見つかりません', 'Project', projectId);
+  }
+}
+
+/**
+ * 抑制登録データのバリデーション
+ */
+function validateSuppressionData(data: CreateSuppressionData) {
+  const errors: string[] = [];
+
+  const ruleIds = getRuleEngine().getAllRuleDefinitions().map(d => d.id);
+  if (typeof data.ruleId !== 'string' || !ruleIds.includes(data.ruleId)) {
+    errors.push(`ruleIdは${ruleIds.join(', ')}のいずれかである必要があります`);
+  }
+
+  if (typeof data.frameId !== 'string' || data.frameId.trim().length === 0) {
+    errors.push('frameIdは必須です');
+  }
+
+  if (data.frameName !== undefined && typeof data.frameName !== 'string') {
+    errors.push('frameNameは文字列である必要があります');
+  }
+
+  if (typeof data.reason !== 'string' || data.reason.trim().length === 0) {
+    errors.push('reasonは必須です');
+  }
+
+  let expiresAt: Date | null = null;
+  if (data.expiresAt !== undefined && data.expiresAt !== null) {
+    expiresAt = new Date(data.expiresAt);
+    if (Number.isNaN(expiresAt.getTime())) {
+      errors.push('expiresAtはISO 8601形式の日時である必要があります');
+    } else if (expiresAt.getTime() <= Date.now()) {
+      errors.push('expiresAtは未来の日時である必要があります');
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('抑制データが不正です', undefined, data, errors);
+  }
+
+  return {
+    ruleId: data.ruleId,
+    frameId: data.frameId.trim(),
+    frameName: data.frameName,
+    reason: data.reason.trim(),
+    expiresAt
+  };
+}
+
+// =====================================
+// エクスポート
+// =====================================
+
+export default {
+  getActiveSuppressions,
+  listSuppressions,
+  createSuppression,
+  deleteSuppression
+};
@@ -5,9 +5,12 @@
  * ファイルパス: backend/src/types/html.ts
  * 作成日: 2026-01-19
  * 説明: HTML生成機能の全型定義
+ * 更新日: 2026-10-19 - Breakpoint設定をプロジェクトのブレークポイントに統一
  * ==============================================
  */
 
+import type { ProjectBreakpoint } from './rules';
+
 // =====================================
 // Figmaノード型定義
 // =====================================
@@ -156,14 +159,9 @@ export interface AlignmentInfo {
 export type Framework = 'HTML_TAILWIND' | 'REACT_JSX' | 'VUE_SFC';
 
 /**
- * プロジェクトBreakpoint設定
+ * プロジェクトBreakpoint設定（プロジェクトのブレークポイント、幅の昇順）
  */
-export interface ProjectBreakpoints {
-  mobile?: number;   // デフォルト: 640
-  tablet?: number;   // デフォルト: 768
-  desktop?: number;  // デフォルト: 1024
-  wide?: number;     // デフォルト: 1280
-}
+export type ProjectBreakpoints = ProjectBreakpoint[];
 
 /**
  * HTML生成オプション
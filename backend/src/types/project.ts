@@ -13,6 +13,7 @@
  */
 
 import { AnalysisStatus, UserRole } from '@prisma/client';
+import type { ProjectBreakpoint } from './rules';
 
 /**
  * プロジェクト作成DTO
@@ -24,6 +25,8 @@ export interface CreateProjectDto {
   figmaFileUrl?: string;
   figmaFileName?: string;
   figmaNodeId?: string;
+  scoringProfile?: string;
+  breakpoints?: ProjectBreakpoint[];
 }
 
 /**
@@ -35,6 +38,8 @@ export interface UpdateProjectDto {
   figmaFileUrl?: string;
   figmaFileName?: string;
   figmaNodeId?: string;
+  scoringProfile?: string;
+  breakpoints?: ProjectBreakpoint[] | null;  // nullでデフォルトに戻す
 }
 
 /**
@@ -105,6 +110,9 @@ export interface ProjectDetail {
   componentScore: number | null;
   responsiveScore: number | null;
   semanticScore: number | null;
+  accessibilityScore: number | null;
+  scoringProfile: string;
+  breakpoints: ProjectBreakpoint[];  // 未設定時はデフォルト
   analysisStatus: AnalysisStatus;
   lastAnalyzedAt: Date | null;
   analysisCount: number;
@@ -13,7 +13,7 @@ import type { FigmaNode } from '../services/figmaApiService';
 // =====================================
 
 /**
- * ルールID（10種類の基本ルール）
+ * ルールID（組み込みルール）
  */
 export enum RuleId {
   AUTO_LAYOUT_REQUIRED = 'AUTO_LAYOUT_REQUIRED',
@@ -25,7 +25,19 @@ export enum RuleId {
   HUG_FILL_VIOLATION = 'HUG_FILL_VIOLATION',
   MIN_WIDTH_MISSING = 'MIN_WIDTH_MISSING',
   COMPONENT_NOT_USED = 'COMPONENT_NOT_USED',
-  LAYER_ABUSE = 'LAYER_ABUSE'
+  LAYER_ABUSE = 'LAYER_ABUSE',
+  GROUP_AS_LAYOUT = 'GROUP_AS_LAYOUT',
+  SPACING_OFF_SCALE = 'SPACING_OFF_SCALE',
+  RADIUS_OFF_SCALE = 'RADIUS_OFF_SCALE',
+  COLOR_OFF_PALETTE = 'COLOR_OFF_PALETTE',
+  FONT_SIZE_OFF_SCALE = 'FONT_SIZE_OFF_SCALE',
+  LINE_HEIGHT_MISSING = 'LINE_HEIGHT_MISSING',
+  TEXT_CONTRAST_LOW = 'TEXT_CONTRAST_LOW',
+  FONT_SIZE_TOO_SMALL = 'FONT_SIZE_TOO_SMALL',
+  TOUCH_TARGET_TOO_SMALL = 'TOUCH_TARGET_TOO_SMALL',
+  BREAKPOINT_SECTION_MISSING = 'BREAKPOINT_SECTION_MISSING',
+  BREAKPOINT_ORDER_MISMATCH = 'BREAKPOINT_ORDER_MISMATCH',
+  BREAKPOINT_TEXT_MISMATCH = 'BREAKPOINT_TEXT_MISMATCH'
 }
 
 /**
@@ -36,7 +48,11 @@ export enum RuleCategory {
   SIZE = 'SIZE',               // サイズ設定
   RESPONSIVE = 'RESPONSIVE',   // レスポンシブ
   SEMANTIC = 'SEMANTIC',       // 命名規則
-  COMPONENT = 'COMPONENT'      // コンポーネント化
+  COMPONENT = 'COMPONENT',     // コンポーネント化
+  SPACING = 'SPACING',         // スペーシング・角丸スケール
+  COLOR = 'COLOR',             // カラーパレット
+  TEXT = 'TEXT',               // タイポグラフィ
+  ACCESSIBILITY = 'ACCESSIBILITY'  // アクセシビリティ（WCAG）
 }
 
 /**
@@ -49,6 +65,15 @@ export enum Severity {
   INFO = 'INFO'           // 情報: 推奨改善
 }
 
+/**
+ * 前回解析と比較した違反の追跡状態
+ */
+export enum ViolationStatus {
+  NEW = 'NEW',                // 今回の解析で新たに検出
+  PERSISTING = 'PERSISTING',  // 前回の解析から継続して検出
+  RESOLVED = 'RESOLVED'       // 前回検出され、今回は検出されなかった
+}
+
 // =====================================
 // Rule Definition
 // =====================================
@@ -57,15 +82,41 @@ export enum Severity {
  * ルール定義
  */
 export interface RuleDefinition {
-  id: RuleId;
+  id: RuleId | string;  // 組み込みルールはRuleId、DB定義のカスタムルールは任意のID
   name: string;
   category: RuleCategory;
   severity: Severity;
   description: string;
   impactTemplate: string;
   scoreImpact: number;  // スコアへの影響度（1-10）
+  defaultParams?: RuleParams;  // 閾値等のデフォルトパラメータ（プロファイルで上書き可）
+  nodeTypes?: string[];        // 対象ノードタイプ（未指定時は ['FRAME']）
 }
 
+/**
+ * ルールの提供元
+ * BUILT_IN: 組み込みルール / PLUGIN: プラグインディレクトリから読み込んだルール / CUSTOM: DB定義のカスタムルール
+ */
+export type RuleSource = 'BUILT_IN' | 'PLUGIN' | 'CUSTOM';
+
+/**
+ * 提供元付きのルール定義（RuleEngine.getAllRuleDefinitions の戻り値）
+ */
+export interface RegisteredRuleDefinition extends RuleDefinition {
+  source: RuleSource;
+  plugin?: string;  // PLUGINの場合のプラグイン名（モジュールのファイル名）
+}
+
+/**
+ * ルールパラメータ値
+ */
+export type RuleParamValue = number | string | boolean | string[] | number[];
+
+/**
+ * ルールパラメータ（パラメータ名 → 値）
+ */
+export type RuleParams = Record<string, RuleParamValue>;
+
 /**
  * ルールチェック結果
  */
@@ -78,7 +129,7 @@ export interface RuleCheckResult {
  * ルール違反詳細
  */
 export interface RuleViolation {
-  ruleId: RuleId;
+  ruleId: RuleId | string;
   ruleName: string;
   severity: Severity;
   category: RuleCategory;
@@ -92,6 +143,10 @@ export interface RuleViolation {
   nodeType?: string;
   detectedValue?: string;
   expectedValue?: string;
+
+  // 追跡情報（RuleEngineで付与）
+  nodePath?: string;      // 正規化したノードパス（例: "page 1/header/button"）
+  fingerprint?: string;   // 解析をまたいで同一の違反を識別するフィンガープリント
 }
 
 // =====================================
@@ -124,12 +179,437 @@ export interface RuleCheckContext {
   parentNode?: FigmaNode;  // 親ノード
   rootNode: FigmaNode;     // ルートノード
   allNodes: FigmaNode[];   // 全ノード配列（参照用）
+  params?: RuleParams;     // プロファイルで上書きされたルールパラメータ
+  getParent?: (node: FigmaNode) => FigmaNode | undefined;  // 任意ノードの親ノード参照
+}
+
+// =====================================
+// Custom Rule (RuleDefinition.checkLogic)
+// =====================================
+
+/**
+ * プロパティ比較演算子
+ */
+export type CustomRuleOperator =
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'notIn'
+  | 'exists'
+  | 'notExists'
+  | 'matches';
+
+/**
+ * 数値比較（子要素数など）
+ */
+export interface CustomRuleCount {
+  op: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte';
+  value: number;
+}
+
+/**
+ * カスタムルール条件式
+ *
+ * - all / any / not: 論理結合
+ * - property: FigmaNodeのプロパティ比較（"absoluteBoundingBox.width" のようなドット区切り可）
+ * - name: ノード名の正規表現マッチ
+ * - parent: 親ノードに対する条件（親が無い場合は不成立）
+ * - children: 子ノードに対する条件（some / every / none / count のいずれか1つ）
+ */
+export type CustomRuleCondition =
+  | { all: CustomRuleCondition[] }
+  | { any: CustomRuleCondition[] }
+  | { not: CustomRuleCondition }
+  | { property: string; op: CustomRuleOperator; value?: unknown; flags?: string }
+  | { name: string; flags?: string }
+  | { parent: CustomRuleCondition }
+  | {
+      children: {
+        some?: CustomRuleCondition;
+        every?: CustomRuleCondition;
+        none?: CustomRuleCondition;
+        count?: CustomRuleCount & { where?: CustomRuleCondition };
+      };
+    };
+
+/**
+ * カスタムルールのチェックロジック（RuleDefinition.checkLogic に保存）
+ * condition が成立したノードを違反として報告する
+ */
+export interface CustomRuleLogic {
+  nodeTypes?: string[];           // 対象ノードタイプ（デフォルト: ['FRAME']）
+  condition: CustomRuleCondition; // 違反条件
+  message?: string;               // 違反説明テンプレート（{name} {type} {id} {プロパティパス} を置換）
+  suggestion?: string;            // 修正提案テンプレート
+  detectedValue?: string;         // 検出値テンプレート
+  expectedValue?: string;         // 期待値テンプレート
+}
+
+// =====================================
+// Rule Profile
+// =====================================
+
+/**
+ * ルール個別設定（プロファイル内の上書き値）
+ */
+export interface RuleOverride {
+  enabled?: boolean;       // false の場合ルールを実行しない
+  severity?: Severity;     // 重要度の上書き
+  params?: RuleParams;     // パラメータの上書き（未指定キーはデフォルト値）
+}
+
+/**
+ * プロジェクト別ルールプロファイル
+ */
+export interface RuleProfile {
+  rules: Partial<Record<string, RuleOverride>>;  // ルールID → 個別設定
+}
+
+/**
+ * プロファイル適用後のルール設定
+ */
+export interface ResolvedRuleSetting {
+  definition: RuleDefinition;
+  enabled: boolean;
+  severity: Severity;
+  params: RuleParams;
+  overridden: boolean;     // プロファイルで上書きされているか
+}
+
+// =====================================
+// Suppression
+// =====================================
+
+/**
+ * 抑制の出所
+ * - ANNOTATION: レイヤー名・説明の [figlean-ignore RULE_ID] マーカー
+ * - REGISTRY: 抑制レジストリ（理由・作成者・有効期限つき）
+ */
+export type SuppressionSource = 'ANNOTATION' | 'REGISTRY';
+
+/**
+ * 抑制レジストリのエントリ
+ */
+export interface SuppressionEntry {
+  id: string;
+  ruleId: string;
+  frameId: string;          // FigmaノードID
+  reason: string;
+  author: string;           // 作成者ID
+  expiresAt?: Date | null;  // nullの場合は無期限
+}
+
+/**
+ * 抑制された違反
+ */
+export interface SuppressedViolation {
+  violation: RuleViolation;
+  source: SuppressionSource;
+  suppressionId?: string;   // REGISTRYの場合のエントリID
+  reason?: string;
+}
+
+/**
+ * 抑制件数サマリー
+ */
+export interface SuppressionSummary {
+  total: number;
+  bySource: Record<SuppressionSource, number>;
+  byRule: Record<string, number>;
+}
+
+// =====================================
+// Spacing Scale
+// =====================================
+
+/**
+ * スペーシング・角丸のスケール
+ * - PROFILE: プロジェクトプロファイルで指定された値の一覧
+ * - LEARNED: ファイル内の値から学習した基準単位（例: 8px）の倍数
+ * - DEFAULT: 学習に十分な値が無い場合の既定基準単位
+ */
+export interface ScaleDefinition {
+  source: 'PROFILE' | 'LEARNED' | 'DEFAULT';
+  baseUnit?: number;   // LEARNED / DEFAULT の場合の基準単位（px）
+  values?: number[];   // PROFILE の場合の許容値（px）
+}
+
+/**
+ * スペーシング統計（AnalysisResult.standardValueMatch / redundantSpacingCount の算出元）
+ */
+export interface SpacingStats {
+  spacingScale: ScaleDefinition;
+  radiusScale: ScaleDefinition;
+  totalValues: number;            // 評価したスペーシング・角丸の値の数
+  onScaleValues: number;          // スケール上の値の数
+  standardValueMatch: number;     // スケール適合率（0-100）
+  redundantSpacingCount: number;  // スケール外のスペーシング値の種類数（任意値クラスになる値）
+}
+
+// =====================================
+// Color Palette
+// =====================================
+
+/**
+ * カラーパレット
+ * - PROFILE: プロジェクトプロファイルで指定された色の一覧
+ * - LEARNED: ファイル内の色をクラスタリングし、各クラスタで最も使用されている色を代表色とした一覧
+ */
+export interface ColorPaletteDefinition {
+  source: 'PROFILE' | 'LEARNED';
+  colors: string[];  // 代表色（#RRGGBB、不透明度1未満は #RRGGBBAA）
+}
+
+/**
+ * 近似色グループの構成色
+ */
+export interface ColorGroupMember {
+  color: string;       // #RRGGBB / #RRGGBBAA
+  usageCount: number;  // 塗り・線での使用回数
+  nodeIds: string[];   // 使用しているノードID
+  deltaE: number;      // 代表色との色差（CIEDE2000）
+}
+
+/**
+ * 近似色グループ（知覚的にほぼ同じ色の集まり）
+ * UNIFY_COLORS の置換元（members）と置換先（canonical）になる
+ */
+export interface ColorGroup {
+  canonical: string;           // 代表色（パレット色）
+  totalUsage: number;          // グループ全体の使用回数
+  members: ColorGroupMember[]; // 代表色を含む構成色（使用回数の多い順）
+}
+
+/**
+ * カラー統計
+ */
+export interface ColorStats {
+  palette: ColorPaletteDefinition;
+  threshold: number;                // 近似色とみなす色差（CIEDE2000）
+  totalUsages: number;              // 評価した塗り・線の数
+  distinctColors: number;           // 使用されている色の種類数
+  nearDuplicateGroups: ColorGroup[];  // 代表色以外の構成色を含むグループ
+  offPaletteColors: number;         // パレット外の色の種類数
+}
+
+// =====================================
+// Typography
+// =====================================
+
+/**
+ * テキストスタイル（近似判定・統一に使う属性のみ）
+ */
+export interface TextStyleSignature {
+  fontFamily: string;
+  fontWeight: number;
+  fontSize: number;
+  lineHeightPx: number | null;  // nullは行間未指定（Auto）
+  letterSpacing: number;
+}
+
+/**
+ * 近似テキストスタイルグループの構成スタイル
+ */
+export interface TextStyleGroupMember {
+  style: TextStyleSignature;
+  label: string;       // 表示用（例: "Inter 400 16px/24px"）
+  usageCount: number;  // 使用しているテキストノード数
+  nodeIds: string[];
+}
+
+/**
+ * 近似テキストスタイルグループ（ほぼ同じ見た目のテキストスタイルの集まり）
+ * UNIFY_TYPOGRAPHY の置換元（members）と置換先（canonical）になる
+ */
+export interface TextStyleGroup {
+  canonical: TextStyleSignature;
+  label: string;
+  totalUsage: number;
+  members: TextStyleGroupMember[];  // 代表スタイルを含む構成スタイル（代表スタイル優先、使用数の多い順）
+}
+
+/**
+ * タイポグラフィ統計
+ */
+export interface TypographyStats {
+  typeScale: ScaleDefinition;          // フォントサイズのスケール
+  textNodes: number;                   // 評価したテキストノード数
+  distinctStyles: number;              // テキストスタイルの種類数
+  missingLineHeight: number;           // 行間未指定のテキストノード数
+  offScaleFontSizes: number[];         // スケール外のフォントサイズ
+  nearDuplicateGroups: TextStyleGroup[];  // 代表スタイル以外の構成スタイルを含むグループ
+}
+
+// =====================================
+// Naming Policy
+// =====================================
+
+/**
+ * 命名規則のプリセット（NON_SEMANTIC_NAME の preset パラメータ）
+ * DEFAULT: セマンティックな名前（header / card-* 等） / KEBAB_CASE: card-header / BEM: card__title--large
+ * PASCAL_CASE_COMPONENTS: コンポーネントは ProductCard、それ以外は kebab-case / SLASH_HIERARCHY: card/header
+ * CUSTOM: patterns パラメータの正規表現のみ
+ */
+export type NamingPreset =
+  | 'DEFAULT'
+  | 'KEBAB_CASE'
+  | 'BEM'
+  | 'PASCAL_CASE_COMPONENTS'
+  | 'SLASH_HIERARCHY'
+  | 'CUSTOM';
+
+/**
+ * 命名規則（NON_SEMANTIC_NAME のパラメータから解決）
+ */
+export interface NamingPolicy {
+  preset: NamingPreset;
+  patterns: string[];     // 追加で許可する名前の正規表現（いずれかに一致すれば適合）
+  bannedWords: string[];  // 名前に含めてはいけない単語（大文字小文字・区切りを無視して単語単位で比較）
+}
+
+// =====================================
+// Breakpoint Variants
+// =====================================
+
+/**
+ * ブレークポイント（同一画面のデスクトップ・タブレット・モバイル版）
+ */
+export type BreakpointName = 'DESKTOP' | 'TABLET' | 'MOBILE';
+
+/**
+ * ブレークポイント違いのバリアントフレーム
+ */
+export interface BreakpointVariantFrame {
+  breakpoint: BreakpointName;
+  frameId: string;
+  frameName: string;
+  width: number | null;
+}
+
+/**
+ * 同一画面のバリアントフレームのグループ（例: "Home / Desktop", "Home / Mobile"）
+ */
+export interface BreakpointVariantGroup {
+  name: string;                       // 画面名（ブレークポイント名を除いたフレーム名）
+  source: 'NAMING' | 'MAPPING';       // 命名規則による対応付け / パラメータ（variantGroups）による明示的な対応付け
+  referenceBreakpoint: BreakpointName;  // 比較の基準にしたブレークポイント
+  frames: BreakpointVariantFrame[];   // DESKTOP → TABLET → MOBILE の順
+}
+
+/**
+ * ブレークポイント間の差分の種類
+ * MISSING_SECTION: 基準にあるセクションが無い / ORDER_MISMATCH: セクションの並び順が異なる / TEXT_MISMATCH: テキストが異なる
+ */
+export type BreakpointFindingKind = 'MISSING_SECTION' | 'ORDER_MISMATCH' | 'TEXT_MISMATCH';
+
+/**
+ * ブレークポイント間の差分（違反の元になる検出結果）
+ */
+export interface BreakpointFinding {
+  kind: BreakpointFindingKind;
+  group: string;                 // 画面名
+  breakpoint: BreakpointName;    // 差分が見つかったバリアントのブレークポイント
+  referenceBreakpoint: BreakpointName;
+  nodeId: string;                // 違反を報告するノード（バリアント側のコンテナ・テキスト）
+  referenceNodeId: string;       // 対応する基準側のノード
+  detected: string;
+  expected: string;
+}
+
+/**
+ * ブレークポイント整合性の統計
+ */
+export interface BreakpointStats {
+  groups: BreakpointVariantGroup[];
+  missingSections: number;
+  orderMismatches: number;
+  textMismatches: number;
+}
+
+// =====================================
+// Repeated Structures
+// =====================================
+
+/**
+ * コンポーネント化されていない繰り返し構造のグループ
+ * ノードタイプ・レイアウト設定・子要素の構成が一致するサブツリーをまとめたもの
+ */
+export interface RepeatedStructureGroup {
+  hash: string;                  // 構造ハッシュ
+  occurrences: number;           // 出現数
+  nodeIds: string[];             // 出現箇所のノードID（ドキュメント順）
+  nodeNames: string[];
+  layerCount: number;            // 1箇所あたりのレイヤー数（ルートを含む）
+  suggestedName: string;         // コンポーネント名の候補（例: "ProductCard"）
+  estimatedLayerSaving: number;  // コンポーネント化で個別に管理しなくてよくなるレイヤー数
+}
+
+/**
+ * 繰り返し構造の統計
+ */
+export interface RepeatedStructureStats {
+  groups: RepeatedStructureGroup[];
+  repeatedNodes: number;         // グループに含まれるノード数の合計
+  estimatedLayerSaving: number;
+}
+
+// =====================================
+// Violation Tracking
+// =====================================
+
+/**
+ * 前回解析との比較に使う違反（前回の解析結果から読み込む）
+ */
+export interface TrackedViolation {
+  fingerprint: string;
+  ruleId: string;
+  ruleName: string;
+  category: RuleCategory | string;
+  severity: Severity | string;
+  frameName: string;
+  frameId: string | null;
+  nodePath: string | null;
+  description: string;
+  firstDetectedAt: Date | string;
+}
+
+/**
+ * 追跡状態ごとの件数
+ */
+export interface ViolationTrackingSummary {
+  new: number;
+  persisting: number;
+  resolved: number;
 }
 
 // =====================================
 // Scoring
 // =====================================
 
+/**
+ * スコアリングプロファイル
+ * 減点・カテゴリ重み・Frame数による正規化・生成可否の閾値をまとめて切り替える
+ */
+export interface ScoringProfile {
+  name: string;                                   // プロファイル名（例: "strict"）
+  label: string;                                  // 表示名
+  description: string;
+  severityPenalty: Record<Severity, number>;      // 重要度ごとの減点
+  categoryWeight: Record<RuleCategory, number>;   // カテゴリごとの重み付け（0は総合スコア対象外）
+  frameNormalization: {
+    enabled: boolean;                             // 減点をFrame数で正規化するか
+    scale: number;                                // 正規化後の倍率（減点 / Frame数 × scale）
+  };
+  thresholds: {
+    canGenerateHTML: number;                      // HTML生成可能とする最低スコア
+    canUseGrid: number;                           // Grid生成可能とする最低スコア
+  };
+}
+
 /**
  * スコア計算結果
  */
@@ -142,6 +622,7 @@ export interface ScoreResult {
   componentScore: number;    // コンポーネント
   responsiveScore: number;   // レスポンシブ
   semanticScore: number;     // セマンティック
+  accessibilityScore: number;  // アクセシビリティ
   
   // 違反統計
   violations: {
@@ -151,9 +632,12 @@ export interface ScoreResult {
     info: number;
   };
   
-  // 生成可否判定
-  canGenerateHTML: boolean;  // 90%以上
-  canUseGrid: boolean;       // 100%のみ
+  // 生成可否判定（閾値はスコアリングプロファイルで決まる）
+  canGenerateHTML: boolean;
+  canUseGrid: boolean;
+
+  // 使用したスコアリングプロファイル名
+  scoringProfile?: string;
 }
 
 /**
@@ -165,6 +649,68 @@ export interface CategoryScore {
   maxScore: number;          // 最大スコア
   violations: number;        // 違反数
   weight: number;            // 重み付け
+  penalty: number;           // 減点合計（正規化前）
+  normalizedPenalty: number; // Frame数で正規化した減点
+}
+
+/**
+ * スコアへの寄与（ルール別・Frame別）
+ */
+export interface PenaltyContribution {
+  key: string;               // ルールID または FrameID
+  name: string;              // ルール名 または Frame名
+  violations: number;
+  penalty: number;           // 減点合計（正規化前）
+  weightedPenalty: number;   // 総合スコアに換算した減点（0点下限・丸め前の概算）
+}
+
+/**
+ * カテゴリ別のスコア内訳
+ */
+export interface CategoryScoreExplanation extends CategoryScore {
+  weightShare: number;       // 総合スコアに占める重みの割合（weight / 重み合計）
+  scoreLoss: number;         // このカテゴリによる総合スコアの減少分
+}
+
+/**
+ * 閾値を超えるための修正候補
+ */
+export interface ScoreFix {
+  ruleId: string;
+  ruleName: string;
+  category: RuleCategory | string;
+  severity: Severity | string;
+  frameId: string;
+  frameName: string;
+  fingerprint?: string;
+}
+
+/**
+ * 閾値（HTML生成・Grid生成）までの最小修正セット
+ */
+export interface ThresholdPlan {
+  target: 'HTML_GENERATION' | 'GRID';
+  threshold: number;
+  reached: boolean;
+  achievable: boolean;       // 修正可能な違反をすべて直せば到達できるか
+  pointsNeeded: number;
+  projectedScore: number;    // fixesをすべて修正した場合のスコア
+  fixes: ScoreFix[];
+}
+
+/**
+ * スコアの説明
+ */
+export interface ScoreExplanation {
+  figleanScore: number;
+  scoringProfile: string;
+  totalFrames: number;
+  frameNormalization: ScoringProfile['frameNormalization'];
+  categories: CategoryScoreExplanation[];
+  rules: PenaltyContribution[];
+  frames: PenaltyContribution[];
+  thresholds: ThresholdPlan[];
+  nextThreshold: ThresholdPlan | null;
 }
 
 // =====================================
@@ -182,6 +728,10 @@ export interface AnalysisResultSummary {
   scoreResult: ScoreResult;
   violations: RuleViolation[];
   
+  // 抑制された違反（スコア計算には含めない）
+  suppressedViolations: SuppressedViolation[];
+  suppression: SuppressionSummary;
+  
   // 統計情報
   stats: {
     autoLayoutFrames: number;
@@ -189,6 +739,194 @@ export interface AnalysisResultSummary {
     semanticNames: number;
     depthAverage: number;
   };
+  
+  // スペーシング・角丸スケール統計
+  spacing: SpacingStats;
+
+  // カラーパレット・近似色統計
+  colors: ColorStats;
+
+  // タイポグラフィ統計
+  typography: TypographyStats;
+
+  // ブレークポイント（Desktop/Tablet/Mobile）整合性統計
+  breakpoints: BreakpointStats;
+
+  // コンポーネント化されていない繰り返し構造の統計
+  repeatedStructures: RepeatedStructureStats;
+
+  // 差分解析の結果（前回解析の結果を再利用した場合）
+  incremental?: IncrementalAnalysisSummary;
+}
+
+// =====================================
+// Analysis Scope
+// =====================================
+
+/**
+ * 解析範囲の種類
+ * FILE: ファイル全体 / PAGES: 指定ページのみ / NODE: 指定ノード（Project.figmaNodeId）以下のみ
+ */
+export type AnalysisScopeType = 'FILE' | 'PAGES' | 'NODE';
+
+/**
+ * 解析範囲（AnalysisResult.analysisScope に保存し、スコアがどの範囲のものかを示す）
+ */
+export interface AnalysisScope {
+  type: AnalysisScopeType;
+  nodeIds: string[];  // PAGES: ページID / NODE: ルートノードID（FILEの場合は空）
+  names: string[];    // 表示用のページ名・ノード名
+  label: string;      // 表示用ラベル（例: "ページ: Home, Settings"）
+}
+
+// =====================================
+// Incremental Analysis
+// =====================================
+
+/**
+ * analyzeDocument のオプション
+ */
+export interface AnalyzeDocumentOptions {
+  skipSubtreeIds?: string[];  // ルールチェックを省略するサブツリーのルートノードID（前回結果を再利用するフレーム）
+}
+
+/**
+ * トップレベルフレーム単位の解析結果キャッシュ
+ */
+export interface FrameAnalysisCacheEntry {
+  hash: string;                                 // サブツリーのコンテンツハッシュ
+  name?: string;                                // フレーム名（解析比較の表示用。導入前のキャッシュには無い）
+  frameCount: number;                           // サブツリー内のフレーム相当のノード数（analyzedFramesの集計用）
+  violations: RuleViolation[];
+  suppressedViolations: SuppressedViolation[];
+}
+
+/**
+ * 差分解析用キャッシュ（AnalysisResult.frameAnalysisCache に保存）
+ */
+export interface FrameAnalysisCache {
+  inputSignature: string;    // ルール設定・プロファイル・抑制レジストリのハッシュ
+  contextSignature: string;  // ファイル全体から学習したスケール・パレット等のハッシュ
+  frames: Record<string, FrameAnalysisCacheEntry>;  // トップレベルフレームID → 解析結果
+  variantGroups?: string[][];  // 互いの違反に影響するトップレベルフレームID（ブレークポイントバリアントのグループ）
+}
+
+/**
+ * 差分解析サマリー
+ */
+export interface IncrementalAnalysisSummary {
+  totalFrames: number;       // トップレベルフレーム数
+  reanalyzedFrames: number;  // ルールチェックを実行したトップレベルフレーム数
+  skippedFrames: number;     // 前回結果を再利用したトップレベルフレーム数
+}
+
+// =====================================
+// Analysis Comparison
+// =====================================
+
+/**
+ * 比較するスコアの項目
+ */
+export type ComparedScore =
+  | 'figleanScore'
+  | 'layoutScore'
+  | 'componentScore'
+  | 'responsiveScore'
+  | 'semanticScore'
+  | 'accessibilityScore';
+
+/**
+ * 比較対象の解析（保存済みのAnalysisResultから構築）
+ */
+export interface AnalysisSnapshot {
+  analysisId: string;
+  analyzedAt: Date;
+  figmaVersion: string | null;       // 解析したFigmaファイルのバージョンID
+  figmaVersionLabel: string | null;  // 名前付きバージョンのタイトル
+  scope: AnalysisScope;
+  scores: Record<ComparedScore, number>;
+  frameCache: FrameAnalysisCache;    // トップレベルフレームごとのハッシュと違反
+}
+
+/**
+ * スコアの差分
+ */
+export interface ScoreDelta {
+  base: number;
+  target: number;
+  delta: number;  // target - base
+}
+
+/**
+ * 追加・解消された違反
+ */
+export interface ComparedViolation {
+  fingerprint: string;
+  ruleId: string;
+  ruleName: string;
+  severity: Severity;
+  category: RuleCategory;
+  frameId: string;
+  frameName: string;
+  nodePath: string | null;
+  description: string;
+  topLevelFrameId: string;  // 違反が属するトップレベルフレーム
+}
+
+/**
+ * トップレベルフレームの変化
+ * ADDED: 比較先にのみ存在 / REMOVED: 比較元にのみ存在 / CHANGED: 内容（サブツリーのハッシュ）が変化
+ */
+export type FrameChangeStatus = 'ADDED' | 'REMOVED' | 'CHANGED';
+
+export interface FrameChange {
+  frameId: string;
+  frameName: string | null;
+  status: FrameChangeStatus;
+  violationsBefore: number;
+  violationsAfter: number;
+}
+
+/**
+ * 2つの解析の比較結果
+ */
+export interface AnalysisComparison {
+  base: Omit<AnalysisSnapshot, 'frameCache'>;
+  target: Omit<AnalysisSnapshot, 'frameCache'>;
+  scopeMatches: boolean;  // 解析範囲が異なる場合、フレームの追加・削除は範囲の違いによるものを含む
+  scores: Record<ComparedScore, ScoreDelta>;
+  violations: {
+    added: ComparedViolation[];
+    removed: ComparedViolation[];
+    persisting: number;
+  };
+  frames: {
+    changes: FrameChange[];
+    unchanged: number;
+  };
+}
+
+// =====================================
+// Project Breakpoints
+// =====================================
+
+/**
+ * プロジェクトのブレークポイント（崩壊予測・対応可否フラグ・コード生成で共通）
+ */
+export interface ProjectBreakpoint {
+  name: string;   // Tailwindのscreen名としても使用（例: "mobile"）
+  width: number;  // 画面幅（px）
+}
+
+/**
+ * ブレークポイントごとの対応可否（解析時のレイアウトシミュレーション結果）
+ */
+export interface BreakpointReadiness extends ProjectBreakpoint {
+  ready: boolean;            // はみ出すフレームが無い
+  simulatedFrames: number;   // シミュレーションしたフレーム数（デザイン幅がブレークポイントより広いフレーム）
+  overflowFrames: number;    // はみ出しが発生したフレーム数
+  squeezedNodes: number;     // 最小幅を下回った要素数
+  textIssues: number;        // 切れる・はみ出す・行数が大きく増えるテキスト数
 }
 
 // =====================================
@@ -198,5 +936,6 @@ export interface AnalysisResultSummary {
 export default {
   RuleId,
   RuleCategory,
-  Severity
+  Severity,
+  ViolationStatus
 };
\ No newline at end of file
@@ -0,0 +1,51 @@
+// =====================================
+// backend/tests/rules/benchmarkRuleEngine.test.ts
+// ルールエンジン ベンチマーク（縮小版） - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: scripts/benchmark-rule-engine, rules/RuleEngine
+// 説明: scripts/benchmark-rule-engine.ts と同じ生成ツリー・合格基準を、CIで実行できる縮小サイズで検証する
+//       （40,000ノード・ワーカースレッドの計測は npm run benchmark:rules）
+// =====================================
+
+import { RuleEngine } from '../../src/rules/RuleEngine';
+import {
+  generateTree,
+  indexedBuildContexts,
+  legacyBuildContexts,
+  measure,
+  MAX_PER_NODE_GROWTH,
+  MIN_SPEEDUP
+} from '../../scripts/benchmark-rule-engine';
+
+const LEGACY_SIZES = [1000, 2500];
+const INDEX_SIZES = [1000, 10000];
+
+describe('RuleEngine ベンチマーク', () => {
+  it('インデックス方式のコンテキスト構築が旧方式と同じ結果で高速', () => {
+    let speedup = 0;
+
+    for (const size of LEGACY_SIZES) {
+      const tree = generateTree(size);
+      const legacy = measure(() => legacyBuildContexts(tree));
+      const indexed = measure(() => indexedBuildContexts(tree));
+
+      expect(indexed.result).toBe(legacy.result);
+      speedup = legacy.ms / Math.max(indexed.ms, 0.01);
+    }
+
+    expect(speedup).toBeGreaterThanOrEqual(MIN_SPEEDUP);
+  });
+
+  it('analyzeDocument のノードあたり処理時間がノード数に対して増えない', () => {
+    const engine = new RuleEngine();
+
+    const perNode = INDEX_SIZES.map(size => {
+      const tree = generateTree(size);
+      // JIT最適化の影響を減らすため1回ウォームアップ
+      engine.analyzeDocument(tree, 'benchmark');
+      return measure(() => engine.analyzeDocument(tree, 'benchmark')).ms / size;
+    });
+
+    expect(perNode[perNode.length - 1] / perNode[0]).toBeLessThanOrEqual(MAX_PER_NODE_GROWTH);
+  });
+});
@@ -0,0 +1,237 @@
+// =====================================
+// backend/tests/rules/layoutSimulation.test.ts
+// ブレークポイント幅のレイアウトシミュレーションのテスト - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: rules/layoutSimulation
+// 説明: FIXED / HUG / FILL のサイズ設定、横並びのGap・Wrapによるはみ出し量、Min Widthを下回る縮小を
+//       小さなフレームで検証する（数値はpx）
+// =====================================
+
+import type { FigmaNode } from '../../src/services/figmaApiService';
+import {
+  resolveHorizontalSizing,
+  simulateBreakpoints,
+  simulateFrame,
+  simulateFrameLayout,
+  type SimulationBreakpoint
+} from '../../src/rules/layoutSimulation';
+
+const MOBILE: SimulationBreakpoint = { name: 'mobile', width: 320 };
+const TABLET: SimulationBreakpoint = { name: 'tablet', width: 768 };
+
+/**
+ * テスト用のノード（デザイン時の位置は親の左上からのx、高さは40px）
+ */
+function node(id: string, type: string, x: number, width: number, props: Partial<FigmaNode> = {}): FigmaNode {
+  return {
+    id,
+    name: id,
+    type,
+    absoluteBoundingBox: { x, y: 0, width, height: 40 },
+    ...props
+  } as FigmaNode;
+}
+
+function page(...frames: FigmaNode[]): FigmaNode {
+  return {
+    id: '0:0',
+    name: 'Document',
+    type: 'DOCUMENT',
+    children: [{ id: '0:1', name: 'page', type: 'CANVAS', children: frames } as FigmaNode]
+  } as FigmaNode;
+}
+
+// ヘッダー: 左右パディング16・Gap8の横並び（ロゴ固定120 + ナビHug160 + 検索Fill）
+const header = node('header', 'FRAME', 0, 400, {
+  layoutMode: 'HORIZONTAL',
+  paddingLeft: 16,
+  paddingRight: 16,
+  itemSpacing: 8,
+  children: [
+    node('logo', 'FRAME', 16, 120),
+    node('nav', 'FRAME', 144, 160, { layoutMode: 'HORIZONTAL', primaryAxisSizingMode: 'AUTO' }),
+    node('search', 'FRAME', 312, 72, { layoutGrow: 1 })
+  ]
+});
+
+describe('レイアウトシミュレーション', () => {
+  describe('サイズ設定の判定', () => {
+    const horizontal = node('row', 'FRAME', 0, 400, { layoutMode: 'HORIZONTAL' });
+    const vertical = node('column', 'FRAME', 0, 400, { layoutMode: 'VERTICAL' });
+
+    it('layoutSizingHorizontal があればそのまま使う', () => {
+      expect(resolveHorizontalSizing(node('a', 'FRAME', 0, 10, { layoutSizingHorizontal: 'HUG' }), horizontal)).toBe('HUG');
+    });
+
+    it('親のAuto Layoutでの伸長を FILL とする', () => {
+      expect(resolveHorizontalSizing(node('a', 'FRAME', 0, 10, { layoutGrow: 1 }), horizontal)).toBe('FILL');
+      expect(resolveHorizontalSizing(node('a', 'FRAME', 0, 10, { layoutAlign: 'STRETCH' }), vertical)).toBe('FILL');
+      // 横並びの交差軸の STRETCH は横幅の伸長ではない
+      expect(resolveHorizontalSizing(node('a', 'FRAME', 0, 10, { layoutAlign: 'STRETCH' }), horizontal)).toBe('FIXED');
+    });
+
+    it('絶対配置の子要素は親のAuto Layoutで伸長しない', () => {
+      const absolute = node('a', 'FRAME', 0, 10, { layoutGrow: 1, layoutPositioning: 'ABSOLUTE' });
+      expect(resolveHorizontalSizing(absolute, horizontal)).toBe('FIXED');
+    });
+
+    it('自身のAuto Layoutのサイズモードから HUG / FIXED を判定する', () => {
+      expect(resolveHorizontalSizing(header.children![1], header)).toBe('HUG');
+      expect(resolveHorizontalSizing(node('a', 'FRAME', 0, 10, { layoutMode: 'VERTICAL', counterAxisSizingMode: 'AUTO' }))).toBe('HUG');
+      expect(resolveHorizontalSizing(node('a', 'FRAME', 0, 10, { layoutMode: 'HORIZONTAL', primaryAxisSizingMode: 'FIXED' }))).toBe('FIXED');
+      expect(resolveHorizontalSizing(node('a', 'RECTANGLE', 0, 10))).toBe('FIXED');
+    });
+  });
+
+  describe('横並び（FIXED / HUG / FILL）', () => {
+    it('固定幅・Hugの合計とGapがコンテンツ領域を超えた量をはみ出しとする', () => {
+      const { issues } = simulateFrame(header, MOBILE);
+
+      // コンテンツ領域 320 - 32 = 288、必要な幅 120 + 160 + 8 × 2 = 296
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({
+        kind: 'OVERFLOW',
+        layout: 'HORIZONTAL',
+        nodeId: 'header',
+        isTopLevel: true,
+        availableWidth: 288,
+        requiredWidth: 296,
+        amount: 8
+      });
+      // 原因は幅の大きい順、Fillの子要素は含めない
+      expect(issues[0].causes).toEqual([
+        { nodeId: 'nav', nodeName: 'nav', sizing: 'HUG', width: 160 },
+        { nodeId: 'logo', nodeName: 'logo', sizing: 'FIXED', width: 120 }
+      ]);
+    });
+
+    it('Fillの子要素には固定幅とGapを除いた残りを割り当てる', () => {
+      const { boxes } = simulateFrameLayout(header, { name: 'narrow', width: 360 });
+      const byId = Object.fromEntries(boxes.map(box => [box.nodeId, box]));
+
+      // 360 - 32 - 296 = 32
+      expect(byId.search).toMatchObject({ x: 312, width: 32 });
+      expect(byId.nav).toMatchObject({ x: 144, width: 160 });
+    });
+
+    it('Gapだけで収まらなくなる場合もはみ出しとする', () => {
+      const row = node('toolbar', 'FRAME', 0, 400, {
+        layoutMode: 'HORIZONTAL',
+        itemSpacing: 24,
+        children: [node('a', 'FRAME', 0, 100), node('b', 'FRAME', 124, 100), node('c', 'FRAME', 248, 100)]
+      });
+
+      // 子要素の合計 300 は 320 に収まるが、Gap 24 × 2 を含めると 348
+      expect(simulateFrame(row, MOBILE).issues.map(issue => [issue.kind, issue.requiredWidth, issue.amount])).toEqual([
+        ['OVERFLOW', 348, 28]
+      ]);
+    });
+
+    it('両端揃え（SPACE_BETWEEN）のGapは最小0とする', () => {
+      const row = node('toolbar', 'FRAME', 0, 400, {
+        layoutMode: 'HORIZONTAL',
+        itemSpacing: 24,
+        primaryAxisAlignItems: 'SPACE_BETWEEN',
+        children: [node('a', 'FRAME', 0, 100), node('b', 'FRAME', 150, 100), node('c', 'FRAME', 300, 100)]
+      });
+
+      expect(simulateFrame(row, MOBILE).issues).toEqual([]);
+    });
+  });
+
+  describe('Wrap', () => {
+    const cards = node('cards', 'FRAME', 0, 400, {
+      layoutMode: 'HORIZONTAL',
+      layoutWrap: 'WRAP',
+      itemSpacing: 16,
+      counterAxisSpacing: 12,
+      children: [node('card-1', 'FRAME', 0, 180), node('card-2', 'FRAME', 196, 180), node('banner', 'FRAME', 0, 360)]
+    });
+
+    it('1行に収まらない固定幅の子要素の超過分をはみ出しとする', () => {
+      const { issues } = simulateFrame(cards, MOBILE);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ kind: 'OVERFLOW', layout: 'WRAP', availableWidth: 320, requiredWidth: 360, amount: 40 });
+      expect(issues[0].causes.map(cause => cause.nodeId)).toEqual(['banner']);
+    });
+
+    it('幅に収まらない子要素を次の行に送る', () => {
+      const { boxes } = simulateFrameLayout(cards, MOBILE);
+      const positions = boxes.filter(box => box.depth === 1).map(box => [box.nodeId, box.x, box.y]);
+
+      // 行の高さ40 + 行間12
+      expect(positions).toEqual([
+        ['card-1', 0, 0],
+        ['card-2', 0, 52],
+        ['banner', 0, 104]
+      ]);
+    });
+  });
+
+  describe('Min Width', () => {
+    const layout = node('dashboard', 'FRAME', 0, 600, {
+      layoutMode: 'HORIZONTAL',
+      itemSpacing: 16,
+      children: [
+        node('sidebar', 'FRAME', 0, 240),
+        node('main', 'FRAME', 256, 344, { layoutSizingHorizontal: 'FILL', minWidth: 200 })
+      ]
+    });
+
+    it('Fillの子要素に割り当てた幅が最小幅を下回った量を記録する', () => {
+      const { issues } = simulateFrame(layout, { name: 'phone', width: 375 });
+
+      // 375 - 240 - 16 = 119
+      expect(issues).toEqual([
+        expect.objectContaining({
+          kind: 'SQUEEZE',
+          layout: 'HORIZONTAL',
+          nodeId: 'main',
+          isTopLevel: false,
+          availableWidth: 119,
+          requiredWidth: 200,
+          amount: 81,
+          causes: []
+        })
+      ]);
+    });
+
+    it('最小幅以上が割り当てられる幅では記録しない', () => {
+      expect(simulateFrame(layout, { name: 'wide', width: 456 }).issues).toEqual([]);
+    });
+
+    it('制約（LEFT_RIGHT）で伸縮する子要素も最小幅と比較する', () => {
+      const card = node('card', 'FRAME', 0, 400, {
+        children: [node('body', 'FRAME', 20, 360, { constraints: { horizontal: 'LEFT_RIGHT', vertical: 'TOP' }, minWidth: 300 })]
+      });
+
+      expect(simulateFrame(card, MOBILE).issues.map(issue => [issue.kind, issue.layout, issue.amount])).toEqual([
+        ['SQUEEZE', 'CONSTRAINTS', 20]
+      ]);
+    });
+  });
+
+  describe('ベースライン', () => {
+    it('デザイン時の幅で既にあるはみ出しは、悪化した場合のみ報告する', () => {
+      // デザイン時点で 8px はみ出している（意図的なクリップ）
+      const carousel = node('carousel', 'FRAME', 0, 400, {
+        layoutMode: 'HORIZONTAL',
+        children: [node('slide-1', 'FRAME', 0, 204), node('slide-2', 'FRAME', 204, 204)]
+      });
+
+      expect(simulateFrame(carousel, { name: 'almost', width: 400 }).issues).toEqual([]);
+      expect(simulateFrame(carousel, MOBILE).issues.map(issue => issue.amount)).toEqual([88]);
+    });
+
+    it('デザイン時の幅以上のブレークポイントはシミュレーションしない', () => {
+      const results = simulateBreakpoints(page(header), [MOBILE, TABLET]);
+
+      expect(results.map(result => [result.frameId, result.breakpoint])).toEqual([['header', 'mobile']]);
+    });
+  });
+
+  it('シミュレーション結果全体がスナップショットと一致する', () => {
+    expect(simulateBreakpoints(page(header), [MOBILE, { name: 'narrow', width: 360 }])).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,172 @@
+// =====================================
+// backend/tests/rules/localizationStress.test.ts
+// 翻訳のストレステストのテスト - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: rules/localizationStress, rules/textMetrics
+// 説明: 擬似翻訳によるテキスト幅の伸縮と、ドイツ語（伸長）・日本語（短縮）で
+//       翻訳後にのみ崩れるフレーム × ブレークポイント（デザイン時の幅を含む）の抽出を検証する
+// =====================================
+
+import type { FigmaNode, FigmaTypeStyle } from '../../src/services/figmaApiService';
+import {
+  DESIGN_WIDTH_BREAKPOINT,
+  LOCALIZATION_PROFILES,
+  localizeDocument,
+  localizeText,
+  runLocalizationStress,
+  validateLocalizationLocales
+} from '../../src/rules/localizationStress';
+import { estimateTextWidth, isCjkCharacter, resolveTextMetricsStyle } from '../../src/rules/textMetrics';
+import type { SimulationBreakpoint } from '../../src/rules/layoutSimulation';
+
+const MONO: FigmaTypeStyle = { fontFamily: 'Roboto Mono', fontSize: 10 } as FigmaTypeStyle;
+const mono = resolveTextMetricsStyle(MONO);
+
+const BREAKPOINTS: SimulationBreakpoint[] = [
+  { name: 'mobile', width: 375 },
+  { name: 'tablet', width: 768 }
+];
+
+/**
+ * 幅がテキストに追従する（Hug）テキスト
+ */
+function hugText(id: string, characters: string, x = 0): FigmaNode {
+  return {
+    id,
+    name: id,
+    type: 'TEXT',
+    characters,
+    style: { ...MONO, textAutoResize: 'WIDTH_AND_HEIGHT' },
+    absoluteBoundingBox: { x, y: 0, width: estimateTextWidth(characters, mono), height: 12 }
+  } as FigmaNode;
+}
+
+function box(id: string, x: number, width: number): FigmaNode {
+  return { id, name: id, type: 'FRAME', absoluteBoundingBox: { x, y: 0, width, height: 40 } } as FigmaNode;
+}
+
+/**
+ * Gap8の横並びの画面（子要素のxは順に並べる）
+ */
+function row(id: string, width: number, children: FigmaNode[]): FigmaNode {
+  let x = 0;
+  const placed = children.map(child => {
+    const childWidth = child.absoluteBoundingBox!.width;
+    const moved = { ...child, absoluteBoundingBox: { ...child.absoluteBoundingBox!, x } };
+    x += childWidth + 8;
+    return moved;
+  });
+
+  return {
+    id,
+    name: id,
+    type: 'FRAME',
+    layoutMode: 'HORIZONTAL',
+    itemSpacing: 8,
+    absoluteBoundingBox: { x: 0, y: 0, width, height: 40 },
+    children: placed
+  } as FigmaNode;
+}
+
+// モバイル幅のデザイン: 96 + 120 + 80 + 8 × 2 = 312 / 320（ブレークポイントはすべてデザイン時の幅以上）
+const toolbar = row('toolbar', 320, [hugText('title', 'Account settings'), box('button', 0, 120), box('badge', 0, 80)]);
+
+// デスクトップのデザイン: mobile で 162 + 200 + 8 = 370 / 375
+const banner = row('banner', 600, [hugText('cta', 'Start your free trial today'), box('image', 0, 200)]);
+
+// 翻訳前から mobile ではみ出す画面
+const gallery = row('gallery', 600, [hugText('caption', 'Photos'), box('photo', 0, 500)]);
+
+const document = {
+  id: '0:0',
+  name: 'Document',
+  type: 'DOCUMENT',
+  children: [{ id: '0:1', name: 'page', type: 'CANVAS', children: [toolbar, banner, gallery] }]
+} as FigmaNode;
+
+describe('翻訳のストレステスト', () => {
+  describe('擬似翻訳', () => {
+    it('翻訳前の幅 × 伸縮率の比の文字列に置き換える', () => {
+      const source = 'Start your free trial today';
+      const german = localizeText(source, mono, LOCALIZATION_PROFILES.de)!;
+      const japanese = localizeText(source, mono, LOCALIZATION_PROFILES.ja)!;
+
+      expect(estimateTextWidth(german, mono) / estimateTextWidth(source, mono)).toBeCloseTo(1.35, 1);
+      expect(estimateTextWidth(japanese, mono) / estimateTextWidth(source, mono)).toBeCloseTo(0.9, 1);
+      expect([...japanese].every(isCjkCharacter)).toBe(true);
+    });
+
+    it('翻訳前と同じ言語のテキストは置き換えない', () => {
+      expect(localizeText('Account settings', mono, LOCALIZATION_PROFILES.en)).toBeNull();
+      expect(localizeText('アカウント設定', mono, LOCALIZATION_PROFILES.ja)).toBeNull();
+    });
+
+    it('改行の位置を維持する', () => {
+      expect(localizeText('Save\nCancel', mono, LOCALIZATION_PROFILES.de)!.split('\n')).toHaveLength(2);
+    });
+
+    it('Hugのテキストとコンテナの幅を翻訳後のテキストに追従させる', () => {
+      const { document: localized, translatedTexts } = localizeDocument(toolbar, LOCALIZATION_PROFILES.de);
+      const title = localized.children![0];
+
+      expect(translatedTexts).toBe(1);
+      expect(title.id).toBe('title');
+      expect(title.absoluteBoundingBox!.width).toBeGreaterThan(96 * 1.3);
+    });
+
+    it('未対応の言語を拒否する', () => {
+      expect(validateLocalizationLocales(['de', 'ja'])).toEqual([]);
+      expect(validateLocalizationLocales(['de', 'xx'])).toHaveLength(1);
+      expect(validateLocalizationLocales([])).toHaveLength(1);
+    });
+
+    it('プロトタイプのプロパティ名を言語として扱わない', () => {
+      for (const key of ['constructor', '__proto__', 'toString', 'hasOwnProperty']) {
+        expect(validateLocalizationLocales([key])).toEqual([expect.stringContaining(`未対応の言語です: ${key}`)]);
+      }
+      expect(runLocalizationStress(document, BREAKPOINTS, ['constructor'])).toEqual([]);
+    });
+  });
+
+  describe('ドイツ語・日本語', () => {
+    const [de, ja] = runLocalizationStress(document, BREAKPOINTS, ['de', 'ja']);
+    const keys = (frames: typeof de.frames) => frames.map(frame => `${frame.frameId}@${frame.breakpoint}`);
+
+    it('伸長する言語で翻訳後にのみ崩れるフレーム × ブレークポイントを抽出する', () => {
+      expect(de).toMatchObject({ locale: 'de', expansion: 1.35, translatedTexts: 3 });
+      // 翻訳前から mobile で崩れる gallery は含めない
+      expect(keys(de.frames)).toEqual(['banner@mobile', `toolbar@${DESIGN_WIDTH_BREAKPOINT}`]);
+
+      const bannerIssue = de.frames[0].issues[0];
+      expect(bannerIssue).toMatchObject({ kind: 'OVERFLOW', nodeId: 'banner', availableWidth: 375 });
+      // 翻訳後のテキスト（162 × 1.35 ≒ 219）が最も広い原因になる
+      expect(bannerIssue.causes.map(cause => cause.nodeId)).toEqual(['cta', 'image']);
+    });
+
+    it('ブレークポイントがすべてデザイン時の幅以上の画面はデザイン時の幅で検出する', () => {
+      const toolbarBreak = de.frames.find(frame => frame.frameId === 'toolbar')!;
+
+      expect(toolbarBreak).toMatchObject({ designWidth: 320, screenWidth: 320 });
+      expect(toolbarBreak.issues).toEqual([
+        expect.objectContaining({ kind: 'OVERFLOW', nodeId: 'toolbar', breakpoint: DESIGN_WIDTH_BREAKPOINT, availableWidth: 320 })
+      ]);
+      expect(toolbarBreak.issues[0].amount).toBeGreaterThan(0);
+    });
+
+    it('短縮する言語では崩れない', () => {
+      expect(ja).toMatchObject({ locale: 'ja', expansion: 0.9, translatedTexts: 3 });
+      expect(ja.frames).toEqual([]);
+    });
+
+    it('翻訳前のドキュメントはデザイン時の幅で崩れとしない', () => {
+      const [english] = runLocalizationStress(document, BREAKPOINTS, ['en']);
+
+      expect(english.translatedTexts).toBe(0);
+      expect(english.frames).toEqual([]);
+    });
+
+    it('ストレステスト結果全体がスナップショットと一致する', () => {
+      expect([de, ja]).toMatchSnapshot();
+    });
+  });
+});
@@ -0,0 +1,53 @@
+// =====================================
+// backend/tests/rules/namingPolicy.test.ts
+// 命名規則ユーティリティのテスト - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: rules/namingPolicy
+// 説明: プリセット名の検証・解決（プロトタイプのプロパティ名を含む）と、解決した命名規則での判定を検証する
+// =====================================
+
+import type { FigmaNode } from '../../src/services/figmaApiService';
+import {
+  describeNamingPolicy,
+  evaluateName,
+  isNamingPreset,
+  resolveNamingPolicy,
+  validateNamingPolicyParams
+} from '../../src/rules/namingPolicy';
+
+const PROTOTYPE_KEYS = ['toString', 'constructor', '__proto__', 'hasOwnProperty'];
+
+const frame = { id: '1:1', name: 'hero-section', type: 'FRAME' } as FigmaNode;
+
+describe('命名規則', () => {
+  it('組み込みのプリセット名のみ受け付ける', () => {
+    expect(isNamingPreset('KEBAB_CASE')).toBe(true);
+    expect(isNamingPreset('kebab_case')).toBe(false);
+    PROTOTYPE_KEYS.forEach(key => expect(isNamingPreset(key)).toBe(false));
+  });
+
+  it('プロトタイプのプロパティ名のプリセットをバリデーションエラーにする', () => {
+    expect(validateNamingPolicyParams({ preset: 'BEM' })).toEqual([]);
+    PROTOTYPE_KEYS.forEach(key =>
+      expect(validateNamingPolicyParams({ preset: key })).toEqual([expect.stringContaining('preset')])
+    );
+  });
+
+  it('不明なプリセットはDEFAULTとして解決し、判定・説明を続ける', () => {
+    const policy = resolveNamingPolicy({ preset: 'toString' });
+
+    expect(policy.preset).toBe('DEFAULT');
+    expect(evaluateName(frame, policy).compliant).toBe(true);
+    expect(describeNamingPolicy(policy)).not.toContain('undefined');
+  });
+
+  it('解決したプリセットで判定する', () => {
+    const policy = resolveNamingPolicy({ preset: 'PASCAL_CASE_COMPONENTS' });
+
+    expect(evaluateName({ ...frame, type: 'COMPONENT', name: 'PrimaryButton' }, policy).compliant).toBe(true);
+    expect(evaluateName({ ...frame, type: 'COMPONENT', name: 'primary button' }, policy)).toMatchObject({
+      compliant: false,
+      reason: 'PATTERN'
+    });
+  });
+});
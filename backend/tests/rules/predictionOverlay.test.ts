@@ -0,0 +1,74 @@
+// =====================================
+// backend/tests/rules/predictionOverlay.test.ts
+// 崩壊予測のオーバーレイSVG描画のテスト - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: rules/predictionOverlay, rules/layoutSimulation
+// 説明: ブレークポイント幅で再計算したボックスツリーのSVGをスナップショットと比較し、
+//       XMLの特殊文字を含むノード名のエスケープ・はみ出した領域・対象ノードの強調を検証する
+// =====================================
+
+import type { FigmaNode } from '../../src/services/figmaApiService';
+import { findScreenFrame, renderPredictionOverlay } from '../../src/rules/predictionOverlay';
+import { simulateFrameLayout, type SimulationBreakpoint } from '../../src/rules/layoutSimulation';
+
+const MOBILE: SimulationBreakpoint = { name: 'mobile', width: 320 };
+
+function node(id: string, name: string, type: string, x: number, width: number, props: Partial<FigmaNode> = {}): FigmaNode {
+  return { id, name, type, absoluteBoundingBox: { x, y: 0, width, height: 48 }, ...props } as FigmaNode;
+}
+
+// ノード名にXMLの特殊文字（< > & " '）を含む画面: 160 + 200 + 8 × 2 = 376 / 320
+const frame = node('hero', '<Hero> & "CTA"', 'FRAME', 0, 400, {
+  layoutMode: 'HORIZONTAL',
+  itemSpacing: 8,
+  children: [
+    node('logo', "Tom's logo", 'FRAME', 0, 160),
+    node('cta', 'Sign up & <save>', 'FRAME', 168, 200),
+    node('spacer', 'spacer', 'FRAME', 376, 24, { layoutGrow: 1, minWidth: 24 })
+  ]
+});
+
+const document = {
+  id: '0:0',
+  name: 'Document',
+  type: 'DOCUMENT',
+  children: [{ id: '0:1', name: 'page', type: 'CANVAS', children: [frame] }]
+} as FigmaNode;
+
+function render(highlightNodeId: string | null = 'cta'): string {
+  const { simulation, boxes } = simulateFrameLayout(frame, MOBILE);
+  return renderPredictionOverlay({ frame, breakpoint: MOBILE, boxes, issues: simulation.issues, highlightNodeId });
+}
+
+describe('崩壊予測のオーバーレイ', () => {
+  it('ノードを含む画面を検索する', () => {
+    expect(findScreenFrame(document, 'cta')?.id).toBe('hero');
+    expect(findScreenFrame(document, 'missing')).toBeUndefined();
+  });
+
+  it('ノード名のXMLの特殊文字をエスケープする', () => {
+    const svg = render();
+
+    expect(svg).toContain('&lt;Hero&gt; &amp; &quot;CTA&quot; — mobile (320px)');
+    expect(svg).toContain('<title>Sign up &amp; &lt;save&gt; (FRAME) 200×48px</title>');
+    expect(svg).toContain('<title>Tom&apos;s logo (FRAME) 160×48px</title>');
+    expect(svg).not.toMatch(/<save>|<Hero>|Tom's/);
+  });
+
+  it('はみ出した領域・最小幅の不足・対象ノードを強調する', () => {
+    const svg = render();
+
+    // 画面の外（320 〜 376px）を赤で塗り、はみ出したCTAの右端48pxを斜線で強調
+    expect(svg).toContain('<rect x="320" y="0" width="56" height="48" fill="#dc2626" fill-opacity="0.08"/>');
+    expect(svg).toContain('<rect x="320" y="0" width="48" height="48" fill="url(#overflow-hatch)"');
+    // Fillで幅0になったスペーサーは橙
+    expect(svg).toMatch(/<rect x="376" y="0" width="0" height="48" fill="#ea580c" fill-opacity="0.15" stroke="#ea580c"/);
+    // 対象ノードの青枠
+    expect(svg).toContain('<rect x="166" y="-2" width="204" height="52" fill="none" stroke="#2563eb" stroke-width="3"/>');
+    expect(render(null)).not.toContain('#2563eb');
+  });
+
+  it('SVG全体がスナップショットと一致する', () => {
+    expect(render()).toMatchSnapshot();
+  });
+});
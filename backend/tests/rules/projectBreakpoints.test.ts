@@ -0,0 +1,99 @@
+// =====================================
+// backend/tests/rules/projectBreakpoints.test.ts
+// プロジェクトのブレークポイント定義のテスト - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: rules/projectBreakpoints
+// 説明: ブレークポイント設定の検証・解決と、ブレークポイント別の対応可否から mobileReady / tabletReady / desktopReady の導出を検証する
+// =====================================
+
+import type { BreakpointReadiness } from '../../src/types/rules';
+import {
+  DEFAULT_PROJECT_BREAKPOINTS,
+  resolveProjectBreakpoints,
+  resolveReadinessFlags,
+  validateProjectBreakpoints
+} from '../../src/rules/projectBreakpoints';
+
+function readiness(name: string, width: number, ready: boolean): BreakpointReadiness {
+  return { name, width, ready, simulatedFrames: 1, overflowFrames: ready ? 0 : 1, squeezedNodes: 0, textIssues: 0 };
+}
+
+describe('プロジェクトのブレークポイント', () => {
+  describe('検証・解決', () => {
+    it('{ name, width } の配列以外を拒否する', () => {
+      expect(validateProjectBreakpoints([{ name: 'sp', width: 375 }])).toEqual([]);
+      // 以前の { mobile, tablet, desktop, wide } 形式
+      expect(validateProjectBreakpoints({ mobile: 640, tablet: 768 })).toHaveLength(1);
+      expect(validateProjectBreakpoints([{ name: 'SP', width: 100 }])).toHaveLength(2);
+      expect(validateProjectBreakpoints([{ name: 'a', width: 375 }, { name: 'a', width: 375 }])).toHaveLength(2);
+    });
+
+    it('幅の昇順に解決し、未設定・不正な設定はデフォルトにする', () => {
+      expect(resolveProjectBreakpoints([{ name: 'pc', width: 1280 }, { name: 'sp', width: 375 }])).toEqual([
+        { name: 'sp', width: 375 },
+        { name: 'pc', width: 1280 }
+      ]);
+      expect(resolveProjectBreakpoints(null)).toEqual(DEFAULT_PROJECT_BREAKPOINTS);
+      expect(resolveProjectBreakpoints('mobile')).toEqual(DEFAULT_PROJECT_BREAKPOINTS);
+    });
+  });
+
+  describe('対応可否のフラグ', () => {
+    it('名前が一致するブレークポイントの結果を使う', () => {
+      expect(
+        resolveReadinessFlags([
+          readiness('mobile', 320, false),
+          readiness('wide', 480, true),
+          readiness('tablet', 1024, true),
+          readiness('desktop', 1280, true)
+        ])
+      ).toEqual({ mobileReady: false, tabletReady: true, desktopReady: true });
+    });
+
+    it('3件以上で名前が無ければ狭い順の1番目・2番目・最も広いブレークポイントを使う', () => {
+      expect(
+        resolveReadinessFlags([readiness('sp', 360, true), readiness('md', 600, false), readiness('pc', 1280, true)])
+      ).toEqual({ mobileReady: true, tabletReady: false, desktopReady: true });
+    });
+
+    it('ブレークポイントが1件なら、すべてのフラグをその結果から導出する', () => {
+      expect(resolveReadinessFlags([readiness('sp', 375, true)])).toEqual({
+        mobileReady: true,
+        tabletReady: true,
+        desktopReady: true
+      });
+      expect(resolveReadinessFlags([readiness('sp', 375, false)])).toEqual({
+        mobileReady: false,
+        tabletReady: false,
+        desktopReady: false
+      });
+    });
+
+    it('ブレークポイントが2件なら、足りないフラグを幅の近いブレークポイントから導出する', () => {
+      // tablet（768）は sp（375）の方が近い
+      expect(resolveReadinessFlags([readiness('sp', 375, false), readiness('pc', 1440, true)])).toEqual({
+        mobileReady: false,
+        tabletReady: false,
+        desktopReady: true
+      });
+      // tablet（768）は tab（800）の方が近い
+      expect(resolveReadinessFlags([readiness('sp', 375, false), readiness('tab', 800, true)])).toEqual({
+        mobileReady: false,
+        tabletReady: true,
+        desktopReady: true
+      });
+    });
+
+    it('名前が一致するものを優先し、残りを幅の近いブレークポイントから導出する', () => {
+      expect(resolveReadinessFlags([readiness('mobile', 375, true), readiness('pc', 1200, false)])).toEqual({
+        mobileReady: true,
+        tabletReady: true,
+        desktopReady: false
+      });
+    });
+
+    it('ブレークポイントが無ければデスクトップのみ対応とする', () => {
+      expect(resolveReadinessFlags([])).toEqual({ mobileReady: false, tabletReady: false, desktopReady: true });
+    });
+  });
+});
@@ -0,0 +1,42 @@
+// =====================================
+// backend/tests/rules/ruleFixtures.test.ts
+// ルール回帰テスト（ゴールデンファイル比較） - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: scripts/rule-fixtures
+// 説明: scripts/fixtures/rules のフィクスチャをすべて解析し、ゴールデンファイルとの一致と対象ルールの検出を検証する
+//       （ゴールデンファイルの更新は npm run test:rules:update）
+// =====================================
+
+import fs from 'fs';
+import { RuleId } from '../../src/types/rules';
+import {
+  describeDiff,
+  goldenPathOf,
+  listFixtureNames,
+  loadFixture,
+  runFixture,
+  serialize,
+  type GoldenOutput
+} from '../../scripts/rule-fixtures';
+
+const names = listFixtureNames();
+
+describe('ルールフィクスチャ', () => {
+  it.each(names)('%s がゴールデンファイルと一致する', name => {
+    const fixture = loadFixture(name);
+    const actual = runFixture(name, fixture);
+    const detected = new Set(actual.violations.map(v => v.ruleId));
+
+    expect(fixture.covers.filter(ruleId => !detected.has(ruleId))).toEqual([]);
+    expect(fs.existsSync(goldenPathOf(name))).toBe(true);
+
+    const expected: GoldenOutput = JSON.parse(fs.readFileSync(goldenPathOf(name), 'utf8'));
+    const diff = serialize(expected) === serialize(actual) ? [] : describeDiff(expected, actual);
+    expect(diff).toEqual([]);
+  });
+
+  it('すべての組み込みルールがいずれかのフィクスチャで対象になっている', () => {
+    const covered = new Set(names.flatMap(name => loadFixture(name).covers));
+    expect(Object.values(RuleId).filter(ruleId => !covered.has(ruleId))).toEqual([]);
+  });
+});
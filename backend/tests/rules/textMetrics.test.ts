@@ -0,0 +1,151 @@
+// =====================================
+// backend/tests/rules/textMetrics.test.ts
+// フォントメトリクスによるテキストの崩れ予測のテスト - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: rules/textMetrics, rules/layoutSimulation
+// 説明: 字幅テーブルによる幅・行数の概算と、ブレークポイント幅で伸縮するテキストの
+//       WORD_OVERFLOW / CLIPPED / EXCESSIVE_WRAP の判定を検証する
+//       （等幅フォント10px = 1文字6px・行の高さ12pxで計算しやすくしている）
+// =====================================
+
+import type { FigmaNode, FigmaTypeStyle } from '../../src/services/figmaApiService';
+import {
+  estimateTextLayout,
+  estimateTextWidth,
+  estimateWidthForLines,
+  resolveFontMetrics,
+  resolveTextMetricsStyle
+} from '../../src/rules/textMetrics';
+import { simulateFrame } from '../../src/rules/layoutSimulation';
+
+const MONO: FigmaTypeStyle = { fontFamily: 'Roboto Mono', fontSize: 10 } as FigmaTypeStyle;
+const mono = resolveTextMetricsStyle(MONO);
+
+// 単語の幅: save 24 / your 24 / changes 42 / now 18、空白 6（1行 126px）
+const SENTENCE = 'save your changes now';
+
+/**
+ * 横並びのフレームに、幅いっぱいに伸縮するテキストを1つ置いたテスト用の画面
+ */
+function textScreen(
+  characters: string,
+  designWidth: number,
+  style: Partial<FigmaTypeStyle> = {},
+  height = 12
+): FigmaNode {
+  return {
+    id: 'screen',
+    name: 'screen',
+    type: 'FRAME',
+    layoutMode: 'HORIZONTAL',
+    absoluteBoundingBox: { x: 0, y: 0, width: designWidth, height: 100 },
+    children: [
+      {
+        id: 'text',
+        name: 'label',
+        type: 'TEXT',
+        characters,
+        layoutGrow: 1,
+        style: { ...MONO, ...style },
+        absoluteBoundingBox: { x: 0, y: 0, width: designWidth, height }
+      }
+    ]
+  } as FigmaNode;
+}
+
+function textIssues(frame: FigmaNode, width: number) {
+  return simulateFrame(frame, { name: `${width}px`, width }).issues.filter(issue => issue.kind === 'TEXT');
+}
+
+describe('フォントメトリクス', () => {
+  describe('字幅テーブルの解決', () => {
+    it('完全一致・前方一致・汎用ファミリーの順に解決する', () => {
+      expect(resolveFontMetrics('Roboto Mono').name).toBe('Monospace');
+      expect(resolveFontMetrics('Roboto Flex').name).toBe('Roboto');
+      expect(resolveFontMetrics('Noto Serif JP').name).toBe('Times');
+      expect(resolveFontMetrics('IBM Plex Mono').name).toBe('Monospace');
+      expect(resolveFontMetrics('Unknown Grotesk').name).toBe('Sans-serif');
+      expect(resolveFontMetrics().name).toBe('Sans-serif');
+    });
+
+    it('行間Autoは fontSize × 1.2 とする', () => {
+      expect(mono.lineHeight).toBe(12);
+      expect(resolveTextMetricsStyle({ ...MONO, lineHeightPx: 18 }).lineHeight).toBe(18);
+    });
+  });
+
+  describe('幅と行数の概算', () => {
+    it('文字数 × 字幅 + 字間で幅を求める', () => {
+      expect(estimateTextWidth('abc', mono)).toBeCloseTo(18);
+      expect(estimateTextWidth('abc', resolveTextMetricsStyle({ ...MONO, letterSpacing: 1 }))).toBeCloseTo(21);
+      // CJKは全角1文字 = 1em、太字でも欧文の字幅のみ広がる
+      const bold = resolveTextMetricsStyle({ ...MONO, fontWeight: 700 });
+      expect(estimateTextWidth('あい', bold)).toBeCloseTo(20);
+      expect(estimateTextWidth('ab', bold)).toBeCloseTo(12.72);
+    });
+
+    it('単語単位で折り返し、最長の単語を記録する', () => {
+      expect(estimateTextLayout(SENTENCE, mono, 60)).toMatchObject({
+        lineCount: 3,
+        height: 36,
+        longestWordWidth: 42,
+        overflowsWidth: false
+      });
+      expect(estimateTextLayout(SENTENCE, mono, 30).overflowsWidth).toBe(true);
+    });
+
+    it('CJKは1文字単位で折り返す', () => {
+      expect(estimateTextLayout('あいうえお', mono, 30).lineCount).toBe(2);
+    });
+
+    it('指定した行数に収まる最小の幅を求める', () => {
+      expect(estimateWidthForLines(SENTENCE, mono, 1)).toBe(125);
+      expect(estimateWidthForLines(SENTENCE, mono, 2)).toBe(65);
+      // 改行の数が行数を超える場合はどの幅でも収まらない
+      expect(estimateWidthForLines('a\nb\nc', mono, 2)).toBeNull();
+    });
+  });
+
+  describe('ブレークポイント幅でのテキストの問題', () => {
+    it('最長の単語が割り当てた幅に収まらなければ WORD_OVERFLOW', () => {
+      // Internationalization = 20文字 = 120px
+      const issues = textIssues(textScreen('Internationalization', 200), 100);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ availableWidth: 100, requiredWidth: 120, amount: 20 });
+      expect(issues[0].text).toMatchObject({ outcome: 'WORD_OVERFLOW', fontFamily: 'Monospace', lineCount: 1 });
+    });
+
+    it('高さ固定のテキストの行数が表示できる行数を超えれば CLIPPED', () => {
+      const issues = textIssues(textScreen(SENTENCE, 140, { textAutoResize: 'NONE' }, 24), 60);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ availableWidth: 60, requiredWidth: 65, amount: 5 });
+      expect(issues[0].text).toMatchObject({ outcome: 'CLIPPED', lineCount: 3, designLineCount: 1, visibleLines: 2 });
+    });
+
+    it('最大行数の省略設定も表示できる行数とする', () => {
+      const issues = textIssues(
+        textScreen(SENTENCE, 140, { textAutoResize: 'HEIGHT', textTruncation: 'ENDING', maxLines: 1 }),
+        100
+      );
+
+      expect(issues.map(issue => [issue.text?.outcome, issue.text?.visibleLines, issue.requiredWidth])).toEqual([
+        ['CLIPPED', 1, 125]
+      ]);
+    });
+
+    it('高さが伸びるテキストの行数がデザイン時から大きく増えれば EXCESSIVE_WRAP', () => {
+      const frame = textScreen(SENTENCE, 140, { textAutoResize: 'HEIGHT' });
+      const issues = textIssues(frame, 50);
+
+      // デザイン時1行 → 許容は2行まで
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ availableWidth: 50, requiredWidth: 65, amount: 15 });
+      expect(issues[0].text).toMatchObject({ outcome: 'EXCESSIVE_WRAP', lineCount: 4, designLineCount: 1, visibleLines: null });
+
+      // 2行に収まる幅では記録しない
+      expect(textIssues(frame, 100)).toEqual([]);
+    });
+  });
+});
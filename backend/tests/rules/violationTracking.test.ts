@@ -0,0 +1,161 @@
+// =====================================
+// backend/tests/rules/violationTracking.test.ts
+// 違反追跡ユーティリティのテスト - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: rules/violationTracking
+// 説明: 解析範囲（ファイル全体 ⇔ ページ・ノード）を切り替えた解析の前回比較で、
+//       範囲外の違反を解決とせず、初回検出日時を保ったまま持ち越すことを検証する
+// =====================================
+
+import type { FigmaNode } from '../../src/services/figmaApiService';
+import { ViolationStatus } from '../../src/types/rules';
+import type { AnalysisScope, RuleViolation, TrackedViolation } from '../../src/types/rules';
+import {
+  assignFingerprints,
+  compareViolations,
+  partitionByScope
+} from '../../src/rules/violationTracking';
+
+const FILE_SCOPE: AnalysisScope = { type: 'FILE', nodeIds: [], names: [], label: 'ファイル全体' };
+const HOME_SCOPE: AnalysisScope = { type: 'PAGES', nodeIds: ['0:1'], names: ['Home'], label: 'ページ: Home' };
+const HERO_SCOPE: AnalysisScope = { type: 'NODE', nodeIds: ['1:1'], names: ['Hero'], label: 'ノード: Hero' };
+
+const T1 = new Date('2026-10-01T00:00:00Z');
+const T2 = new Date('2026-10-02T00:00:00Z');
+const T3 = new Date('2026-10-03T00:00:00Z');
+
+const hero = { id: '1:1', name: 'Hero', type: 'FRAME' } as FigmaNode;
+const footer = { id: '1:2', name: 'Footer', type: 'FRAME' } as FigmaNode;
+const form = { id: '2:1', name: 'Form', type: 'FRAME' } as FigmaNode;
+
+function page(id: string, name: string, children: FigmaNode[]): FigmaNode {
+  return { id, name, type: 'CANVAS', children } as FigmaNode;
+}
+
+function file(pages: FigmaNode[]): FigmaNode {
+  return { id: '0:0', name: 'Document', type: 'DOCUMENT', children: pages } as FigmaNode;
+}
+
+const document = file([page('0:1', 'Home', [hero, footer]), page('0:2', 'Settings', [form])]);
+
+function violation(node: FigmaNode, nodePath: string): RuleViolation {
+  return assignFingerprints(
+    [
+      {
+        ruleId: 'FIXED_SIZE_DETECTED',
+        ruleName: '固定サイズ',
+        severity: 'MAJOR',
+        category: 'RESPONSIVE',
+        frameName: node.name,
+        frameId: node.id,
+        description: '固定幅です',
+        impact: '画面幅に追従しません'
+      } as RuleViolation
+    ],
+    nodePath
+  )[0];
+}
+
+const heroViolation = violation(hero, 'home/hero');
+const footerViolation = violation(footer, 'home/footer');
+const formViolation = violation(form, 'settings/form');
+
+/**
+ * 解析結果を保存した違反（RuleViolation）として前回比較用に変換
+ */
+function track(current: RuleViolation[], comparison: ReturnType<typeof compareViolations>): TrackedViolation[] {
+  return current.map(v => ({
+    fingerprint: v.fingerprint!,
+    ruleId: String(v.ruleId),
+    ruleName: v.ruleName,
+    category: v.category,
+    severity: v.severity,
+    frameName: v.frameName,
+    frameId: v.frameId,
+    nodePath: v.nodePath ?? null,
+    description: v.description,
+    firstDetectedAt: comparison.byFingerprint.get(v.fingerprint!)!.firstDetectedAt
+  }));
+}
+
+// 1回目: ファイル全体（Hero・Form に違反）
+const first = [heroViolation, formViolation];
+const firstComparison = compareViolations(first, [], new Set(), T1);
+const firstTracked = track(first, firstComparison);
+
+describe('違反追跡', () => {
+  describe('解析範囲の振り分け', () => {
+    it('ファイル全体の解析ではすべての違反を比較する', () => {
+      expect(partitionByScope(firstTracked, document, document, FILE_SCOPE)).toEqual({
+        inScope: firstTracked,
+        outOfScope: []
+      });
+    });
+
+    it('ページ単位の解析では選択外のページの違反を持ち越す', () => {
+      const scoped = file([document.children![0]]);
+      const { inScope, outOfScope } = partitionByScope(firstTracked, document, scoped, HOME_SCOPE);
+
+      expect(inScope.map(v => v.frameId)).toEqual(['1:1']);
+      expect(outOfScope.map(v => v.frameId)).toEqual(['2:1']);
+    });
+
+    it('ノード単位の解析では同じページでもルートノード外の違反を持ち越す', () => {
+      const scoped = file([page('0:1', 'Home', [hero])]);
+      const home = [heroViolation, footerViolation];
+      const previous = track(home, compareViolations(home, [], new Set(), T1));
+      const { inScope, outOfScope } = partitionByScope(previous, document, scoped, HERO_SCOPE);
+
+      expect(inScope.map(v => v.frameId)).toEqual(['1:1']);
+      expect(outOfScope.map(v => v.frameId)).toEqual(['1:2']);
+    });
+
+    it('削除されたノードの違反はノードパスが解析範囲内のときだけ比較する', () => {
+      // Hero（Home）と Form（Settings）が削除されたファイル
+      const edited = file([page('0:1', 'Home', [footer]), page('0:2', 'Settings', [])]);
+      const { inScope, outOfScope } = partitionByScope(firstTracked, edited, file([edited.children![0]]), HOME_SCOPE);
+
+      expect(inScope.map(v => v.frameId)).toEqual(['1:1']);
+      expect(outOfScope.map(v => v.frameId)).toEqual(['2:1']);
+      expect(compareViolations([], inScope).summary).toEqual({ new: 0, persisting: 0, resolved: 1 });
+    });
+  });
+
+  describe('解析範囲の切り替え', () => {
+    // 2回目: Home ページのみ（Form は解析していない）
+    const second = [heroViolation];
+    const { inScope, outOfScope } = partitionByScope(firstTracked, document, file([document.children![0]]), HOME_SCOPE);
+    const secondComparison = compareViolations(second, inScope, new Set(), T2);
+
+    it('ページ単位に絞り込んだ解析で範囲外の違反を解決としない', () => {
+      expect(secondComparison.summary).toEqual({ new: 0, persisting: 1, resolved: 0 });
+      expect(secondComparison.resolved).toEqual([]);
+    });
+
+    it('ファイル全体に戻した解析で持ち越した違反を初回検出日時のまま継続とする', () => {
+      // 3回目: ファイル全体（前回の違反 + 前回持ち越した違反と比較）
+      const previous = [...track(second, secondComparison), ...outOfScope];
+      const third = [heroViolation, formViolation];
+      const thirdComparison = compareViolations(
+        third,
+        partitionByScope(previous, document, document, FILE_SCOPE).inScope,
+        new Set(),
+        T3
+      );
+
+      expect(thirdComparison.summary).toEqual({ new: 0, persisting: 2, resolved: 0 });
+      expect(thirdComparison.byFingerprint.get(formViolation.fingerprint!)).toEqual({
+        status: ViolationStatus.PERSISTING,
+        firstDetectedAt: T1
+      });
+    });
+
+    it('持ち越した違反が範囲外で修正されていれば、範囲に含めた解析で解決とする', () => {
+      const previous = [...track(second, secondComparison), ...outOfScope];
+      const thirdComparison = compareViolations([heroViolation], previous, new Set(), T3);
+
+      expect(thirdComparison.summary).toEqual({ new: 0, persisting: 1, resolved: 1 });
+      expect(thirdComparison.resolved.map(v => v.frameId)).toEqual(['2:1']);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+// =====================================
+// backend/tests/services/figmaVersionComparison.test.ts
+// Figmaバージョンの解析比較テスト - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: services/figmaVersionService, scripts/fixtures/fixtureVersionProvider, rules/RuleEngine,
+//           rules/ScoreCalculator, rules/incrementalAnalysis, rules/analysisComparison
+// 説明: ローカルフィクスチャのバージョン履歴から2つのバージョンを取得・解析し、
+//       カテゴリ別スコアの差分・追加/解消された違反・変化したトップレベルフレームを検証する
+// =====================================
+
+import figmaVersionService from '../../src/services/figmaVersionService';
+import { NotFoundError, ValidationError } from '../../src/errors';
+import { RuleEngine } from '../../src/rules/RuleEngine';
+import { ScoreCalculator } from '../../src/rules/ScoreCalculator';
+import { getScoringProfile } from '../../src/rules/scoringProfile';
+import { buildFrameAnalysisCache, computeFrameHashes } from '../../src/rules/incrementalAnalysis';
+import { compareAnalyses, COMPARED_SCORES } from '../../src/rules/analysisComparison';
+import type { AnalysisSnapshot, ComparedScore } from '../../src/types/rules';
+import { fixtureVersionProvider } from '../../scripts/fixtures/fixtureVersionProvider';
+
+const USER_ID = 'fixture-user';
+const FILE_KEY = 'fixture-landing';
+
+/**
+ * バージョンを取得して解析し、比較用のスナップショットを生成（figmaImportService と同じ手順、DB保存なし）
+ */
+async function analyzeVersion(versionId: string): Promise<AnalysisSnapshot> {
+  const { file, version } = await figmaVersionService.getFileAtVersion(USER_ID, FILE_KEY, versionId);
+  const summary = new ScoreCalculator().calculateScores(
+    new RuleEngine().analyzeDocument(file.document, `fixture:${FILE_KEY}`),
+    undefined,
+    getScoringProfile()
+  );
+
+  return {
+    analysisId: `analysis-${versionId}`,
+    analyzedAt: new Date(version?.createdAt ?? file.lastModified),
+    figmaVersion: file.version,
+    figmaVersionLabel: version?.label ?? null,
+    scope: { type: 'FILE', nodeIds: [], names: [], label: 'ファイル全体' },
+    scores: Object.fromEntries(
+      COMPARED_SCORES.map(key => [key, summary.scoreResult[key]])
+    ) as Record<ComparedScore, number>,
+    frameCache: buildFrameAnalysisCache(file.document, summary, computeFrameHashes(file.document), 'fixture')
+  };
+}
+
+describe('Figmaバージョンの解析比較', () => {
+  beforeAll(() => figmaVersionService.setFigmaVersionProvider(fixtureVersionProvider));
+  afterAll(() => figmaVersionService.setFigmaVersionProvider());
+
+  it('バージョン一覧を新しい順に返す（ファイル本体は含めない）', async () => {
+    const versions = await figmaVersionService.listFileVersions(USER_ID, FILE_KEY);
+
+    expect(versions.map(version => [version.id, version.label])).toEqual([
+      ['1003', 'v2.0 リリース'],
+      ['1002', null],
+      ['1001', 'v1.0 リリース']
+    ]);
+    expect(versions.every(version => !('file' in version))).toBe(true);
+  });
+
+  it('指定バージョンのファイルとバージョン情報を返す', async () => {
+    const { file, version } = await figmaVersionService.getFileAtVersion(USER_ID, FILE_KEY, '1001');
+
+    expect(file.version).toBe('1001');
+    expect(version?.label).toBe('v1.0 リリース');
+  });
+
+  it('存在しないバージョン・不正なバージョンIDを拒否する', async () => {
+    await expect(figmaVersionService.getFileAtVersion(USER_ID, FILE_KEY, '999')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(figmaVersionService.getFileAtVersion(USER_ID, FILE_KEY, 'latest')).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  describe('v1.0 → v2.0', () => {
+    let comparison: ReturnType<typeof compareAnalyses>;
+
+    beforeAll(async () => {
+      comparison = compareAnalyses(await analyzeVersion('1001'), await analyzeVersion('1003'));
+    });
+
+    it('カテゴリ別スコアの差分を求める', () => {
+      const deltas = Object.fromEntries(
+        Object.entries(comparison.scores).map(([key, score]) => [key, score.delta])
+      );
+
+      expect(deltas).toEqual({
+        figleanScore: 7,
+        layoutScore: 26,
+        componentScore: 0,
+        responsiveScore: 2,
+        semanticScore: 0,
+        accessibilityScore: -6
+      });
+      expect(comparison.scopeMatches).toBe(true);
+    });
+
+    it('追加・解消された違反を求める', () => {
+      const labels = (violations: typeof comparison.violations.added) =>
+        violations.map(violation => `${violation.ruleId} @ ${violation.nodePath}`).sort();
+
+      // Auto Layout化したヒーロー・機能一覧の違反と、削除した旧ブログの違反が解消
+      expect(labels(comparison.violations.removed)).toEqual(
+        expect.arrayContaining([
+          'AUTO_LAYOUT_REQUIRED @ web/landing/hero',
+          'ABSOLUTE_POSITIONING @ web/landing/hero',
+          'GROUP_AS_LAYOUT @ web/landing/feature-row',
+          'WRAP_OFF @ web/legacy-blog'
+        ])
+      );
+      // 追加した料金ページのアクセシビリティ違反が追加
+      expect(labels(comparison.violations.added)).toEqual(
+        expect.arrayContaining([
+          'TEXT_CONTRAST_LOW @ web/pricing/hint',
+          'FONT_SIZE_TOO_SMALL @ web/pricing/legal',
+          'TOUCH_TARGET_TOO_SMALL @ web/pricing/button-close'
+        ])
+      );
+      expect(comparison.violations.persisting).toBe(11);
+    });
+
+    it('変化したトップレベルフレームを求める', () => {
+      expect(comparison.frames.changes.map(change => [change.frameName, change.status])).toEqual([
+        ['landing', 'CHANGED'],
+        ['pricing', 'ADDED'],
+        ['legacy-blog', 'REMOVED']
+      ]);
+      expect(comparison.frames.unchanged).toBe(1);
+    });
+
+    it('比較結果全体がスナップショットと一致する', () => {
+      expect(comparison).toMatchSnapshot();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+// =====================================
+// backend/tests/services/predictionService.test.ts
+// 崩壊予測の生成のテスト - FIGLEAN
+// 作成日時: 2026年10月19日
+// 依存関係: services/predictionService
+// 説明: シミュレーション結果の問題から生成する崩壊予測の文言（ブレークポイント名の表示）を検証する（DB保存なし）
+// =====================================
+
+import type { FigmaNode } from '../../src/services/figmaApiService';
+import { predictLocalizationBreaks } from '../../src/services/predictionService';
+
+// 翻訳前は 375px 幅に収まり（162 + 200 + 8 = 370）、ドイツ語に擬似翻訳すると 375px 幅ではみ出す画面
+const document = {
+  id: '0:0',
+  name: 'Document',
+  type: 'DOCUMENT',
+  children: [
+    {
+      id: '0:1',
+      name: 'page',
+      type: 'CANVAS',
+      children: [
+        {
+          id: 'screen',
+          name: 'screen',
+          type: 'FRAME',
+          layoutMode: 'HORIZONTAL',
+          itemSpacing: 8,
+          absoluteBoundingBox: { x: 0, y: 0, width: 600, height: 40 },
+          children: [
+            {
+              id: 'cta',
+              name: 'cta',
+              type: 'TEXT',
+              characters: 'Start your free trial today',
+              style: { fontFamily: 'Roboto Mono', fontSize: 10, textAutoResize: 'WIDTH_AND_HEIGHT' },
+              absoluteBoundingBox: { x: 0, y: 0, width: 162, height: 12 }
+            },
+            { id: 'image', name: 'image', type: 'FRAME', absoluteBoundingBox: { x: 170, y: 0, width: 200, height: 40 } }
+          ]
+        }
+      ]
+    }
+  ]
+} as FigmaNode;
+
+/**
+ * 崩壊予測のタイトルの先頭（"<ブレークポイントの表示名>幅（375px）"）
+ */
+function titlePrefixesAt(name: string): string[] {
+  const [german] = predictLocalizationBreaks('project', document, [{ name, width: 375 }], ['de']);
+  return german.frames.flatMap(frame => frame.predictions.map(prediction => prediction.breakTitle.split('）')[0] + '）'));
+}
+
+describe('崩壊予測の文言', () => {
+  it('既定のブレークポイント名は表示名に置き換える', () => {
+    expect(titlePrefixesAt('mobile')).toEqual(['SP幅（375px）']);
+  });
+
+  it('プロジェクト独自のブレークポイント名はそのまま表示する', () => {
+    expect(titlePrefixesAt('sp')).toEqual(['sp幅（375px）']);
+  });
+
+  it('プロトタイプのプロパティ名と同じブレークポイント名もそのまま表示する', () => {
+    expect(titlePrefixesAt('constructor')).toEqual(['constructor幅（375px）']);
+  });
+});
@@ -488,7 +488,7 @@ const loadTabData = async () => {
         {/* FIGLEAN適合度スコア */}
         {project.figleanScore !== null && (
           <div className="bg-white rounded-lg border p-6 mb-8 shadow-sm">
-            <div className="grid grid-cols-2 md:grid-cols-5 gap-6">
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-6">
               <div className="text-center">
                 <h3 className="text-sm text-gray-600 mb-2">FIGLEAN適合度</h3>
                 <div className={`text-4xl font-bold ${
@@ -534,6 +534,14 @@ const loadTabData = async () => {
                 </div>
                 <p className="text-xs text-gray-500 mt-1">セマンティック</p>
               </div>
+
+              <div className="text-center">
+                <h3 className="text-sm text-gray-600 mb-2">Accessibility</h3>
+                <div className="text-3xl font-bold text-gray-900">
+                  {project.accessibilityScore || '-'}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">アクセシビリティ</p>
+              </div>
             </div>
           </div>
         )}
@@ -6,12 +6,15 @@
  * - 崩壊予測の詳細を視覚的に表示
  * - ブレークポイント別のリスク表示
  * - 修正提案の表示
+ * - 崩壊箇所のオーバーレイ（ブレークポイント幅でのボックスツリーのSVG）の表示
  * 
  * 更新日: 2026年1月14日 - Backendスキーマに完全一致
+ * 更新日: 2026年10月19日 - オーバーレイSVGの埋め込み
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Prediction, ViolationSeverity } from '@/types/models';
+import { getPredictionOverlay } from '@/lib/api/analysis';
 
 // =====================================
 // 型定義
@@ -132,6 +135,34 @@ const getBreakpointLabel = (breakpoint: string | null): string => {
 // =====================================
 
 export const PredictionCard: React.FC<PredictionCardProps> = ({ prediction }) => {
+  const [isOverlayOpen, setIsOverlayOpen] = useState(false);
+  const [overlaySvg, setOverlaySvg] = useState<string | null>(null);
+  const [isOverlayLoading, setIsOverlayLoading] = useState(false);
+  const [overlayError, setOverlayError] = useState<string | null>(null);
+
+  // 対象ノードとブレークポイントがある予測のみオーバーレイを描画できる
+  const canShowOverlay = !!prediction.affectedFrameId && !!prediction.breakpoint;
+
+  // 初回の展開時にSVGを取得
+  const handleToggleOverlay = async () => {
+    const nextOpen = !isOverlayOpen;
+    setIsOverlayOpen(nextOpen);
+
+    if (!nextOpen || overlaySvg || isOverlayLoading) return;
+
+    setIsOverlayLoading(true);
+    setOverlayError(null);
+    try {
+      const svg = await getPredictionOverlay(prediction.projectId, prediction.id);
+      setOverlaySvg(svg);
+    } catch (error: any) {
+      console.error('オーバーレイ取得エラー:', error);
+      setOverlayError(error.response?.data?.error?.message || 'オーバーレイの取得に失敗しました');
+    } finally {
+      setIsOverlayLoading(false);
+    }
+  };
+
   return (
     <div
       className={`border rounded-lg p-4 ${getBreakTypeColor(
@@ -190,6 +221,41 @@ export const PredictionCard: React.FC<PredictionCardProps> = ({ prediction }) =>
         )}
       </div>
 
+      {/* 崩壊箇所のオーバーレイ（展開可能） */}
+      {canShowOverlay && (
+        <div className="mb-3 bg-white rounded border border-gray-200">
+          <button
+            onClick={handleToggleOverlay}
+            className="w-full flex items-center justify-between p-3 text-left hover:bg-gray-50 transition-colors"
+          >
+            <span className="text-xs font-medium text-gray-700">
+              🖼️ 崩壊箇所を表示 {isOverlayOpen ? '▼' : '▶'}
+            </span>
+          </button>
+
+          {isOverlayOpen && (
+            <div className="p-3 pt-0">
+              {isOverlayLoading && <p className="text-sm text-gray-500">読み込み中...</p>}
+              {overlayError && <p className="text-sm text-red-600">{overlayError}</p>}
+              {overlaySvg && (
+                <>
+                  <div className="max-h-[480px] overflow-auto border border-gray-100 rounded">
+                    <img
+                      src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(overlaySvg)}`}
+                      alt={`${prediction.affectedFrame} の崩壊箇所`}
+                      className="max-w-full h-auto"
+                    />
+                  </div>
+                  <p className="mt-2 text-xs text-gray-500">
+                    赤: はみ出した領域 / 橙: 最小幅・テキストの問題 / 青: 予測の対象
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* 修正提案 */}
       <div className="p-3 bg-white rounded border border-gray-200">
         <p className="text-xs font-medium text-gray-700 mb-1">🔧 修正提案:</p>
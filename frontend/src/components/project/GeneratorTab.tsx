@@ -11,6 +11,7 @@
  * 
  * 作成日: 2026年1月14日
  * 更新日: 2026年1月14日 - 日本語化対応
+ * 更新日: 2026年10月19日 - Breakpointはプロジェクト設定を表示（生成ごとの指定を廃止）
  */
 
 'use client';
@@ -20,8 +21,7 @@ import type { Project } from '@/types/models';
 import type { 
   Framework, 
   GenerateHTMLRequest,
-  GenerateHTMLResponse,
-  ProjectBreakpoints 
+  GenerateHTMLResponse
 } from '@/types/html';
 import { generateHTML, downloadHTML } from '@/lib/api/html';
 import HTMLHistoryTab from './HTMLHistoryTab';
@@ -39,13 +39,6 @@ export default function GeneratorTab({ project }: GeneratorTabProps) {
   const [framework, setFramework] = useState<Framework>('HTML_TAILWIND');
   const [includeResponsive, setIncludeResponsive] = useState(true);
   const [includeGrid, setIncludeGrid] = useState(false);
-  const [customBreakpoints, setCustomBreakpoints] = useState(false);
-  const [breakpoints, setBreakpoints] = useState<ProjectBreakpoints>({
-    mobile: 640,
-    tablet: 768,
-    desktop: 1024,
-    wide: 1280
-  });
   
   const [generating, setGenerating] = useState(false);
   const [result, setResult] = useState<GenerateHTMLResponse | null>(null);
@@ -65,8 +58,7 @@ export default function GeneratorTab({ project }: GeneratorTabProps) {
       const request: GenerateHTMLRequest = {
         framework,
         includeResponsive,
-        includeGrid: canUseGrid && includeGrid,
-        breakpoints: customBreakpoints ? breakpoints : undefined
+        includeGrid: canUseGrid && includeGrid
       };
 
       logger.api('POST', `/html/generate/${project.id}`, request);
@@ -229,70 +221,23 @@ export default function GeneratorTab({ project }: GeneratorTabProps) {
                   </div>
                 </label>
 
-                <label className="flex items-center gap-3 cursor-pointer">
-                  <input
-                    type="checkbox"
-                    checked={customBreakpoints}
-                    onChange={(e) => setCustomBreakpoints(e.target.checked)}
-                    className="w-4 h-4"
-                  />
-                  <span className="font-medium">カスタムBreakpoint</span>
-                </label>
-
-                {customBreakpoints && (
-                  <div className="ml-7 space-y-2 p-4 bg-gray-50 rounded">
-                    <div className="grid grid-cols-2 gap-3">
-                      <div>
-                        <label className="text-sm text-gray-600">Mobile</label>
-                        <input
-                          type="number"
-                          value={breakpoints.mobile}
-                          onChange={(e) => setBreakpoints({
-                            ...breakpoints,
-                            mobile: parseInt(e.target.value)
-                          })}
-                          className="w-full px-3 py-1 border rounded text-sm"
-                        />
-                      </div>
-                      <div>
-                        <label className="text-sm text-gray-600">Tablet</label>
-                        <input
-                          type="number"
-                          value={breakpoints.tablet}
-                          onChange={(e) => setBreakpoints({
-                            ...breakpoints,
-                            tablet: parseInt(e.target.value)
-                          })}
-                          className="w-full px-3 py-1 border rounded text-sm"
-                        />
-                      </div>
-                      <div>
-                        <label className="text-sm text-gray-600">Desktop</label>
-                        <input
-                          type="number"
-                          value={breakpoints.desktop}
-                          onChange={(e) => setBreakpoints({
-                            ...breakpoints,
-                            desktop: parseInt(e.target.value)
-                          })}
-                          className="w-full px-3 py-1 border rounded text-sm"
-                        />
-                      </div>
-                      <div>
-                        <label className="text-sm text-gray-600">Wide</label>
-                        <input
-                          type="number"
-                          value={breakpoints.wide}
-                          onChange={(e) => setBreakpoints({
-                            ...breakpoints,
-                            wide: parseInt(e.target.value)
-                          })}
-                          className="w-full px-3 py-1 border rounded text-sm"
-                        />
-                      </div>
-                    </div>
+                {/* Breakpoint（プロジェクト設定のブレークポイントを使用） */}
+                <div>
+                  <span className="font-medium">Breakpoint</span>
+                  <p className="text-xs text-gray-500 mt-1">
+                    プロジェクト設定のブレークポイントを使用します（崩壊予測と共通）
+                  </p>
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {(project.breakpoints ?? []).map((breakpoint) => (
+                      <span
+                        key={breakpoint.name}
+                        className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded"
+                      >
+                        {breakpoint.name}: {breakpoint.width}px
+                      </span>
+                    ))}
                   </div>
-                )}
+                </div>
               </div>
 
               <button
@@ -4,8 +4,11 @@
 // 機能説明:
 //   - 診断サマリー取得
 //   - ルール違反一覧取得（ページング、フィルター）
-//   - 崩壊予測一覧取得
+//   - 崩壊予測一覧取得（翻訳のストレステスト）
+//   - 崩壊予測のオーバーレイSVG取得
 //   - 改善提案一覧取得
+//   - スコアの内訳取得
+//   - 解析履歴取得・2つの解析の比較
 // 作成日: 2026-01-12
 // 更新日: 2026-01-16 - ページング機能追加、フィルター追加
 // 依存関係:
@@ -14,7 +17,7 @@
 // =====================================
 
 import apiClient from './client';
-import type { Violation, Prediction, Suggestion } from '@/types/models';
+import type { Violation, ViolationTrackingStatus, Prediction, Suggestion } from '@/types/models';
 
 // =====================================
 // 型定義
@@ -25,11 +28,101 @@ export interface AnalysisResult {
   figleanScore: number;
   canGenerateHTML: boolean;
   canUseGrid: boolean;
+  scoringProfile?: string;  // スコア計算に使用したスコアリングプロファイル
+  // スコアの対象範囲（ページ指定・ルートノード指定の解析はその範囲のみ）
+  scope?: {
+    type: 'FILE' | 'PAGES' | 'NODE';
+    nodeIds: string[];
+    names: string[];
+    label: string;
+  };
+  // 解析したFigmaファイルのバージョン
+  figmaVersion?: string | null;
+  figmaVersionLabel?: string | null;
   violations: {
     critical: number;
     major: number;
     minor: number;
   };
+  // 前回解析と比較した違反件数
+  tracking?: {
+    new: number;
+    persisting: number;
+    resolved: number;
+  };
+  // 差分解析で前回結果を再利用したトップレベルフレーム数
+  skippedFrames?: number;
+  // 抑制された違反（スコア対象外）
+  suppressed?: {
+    total: number;
+    bySource: Partial<Record<'ANNOTATION' | 'REGISTRY', number>>;
+    byRule: Record<string, number>;
+  };
+  // 近似色グループ（パレット外の色と統一先の代表色）
+  colors?: {
+    offPaletteColors: number;
+    nearDuplicateGroups: Array<{
+      canonical: string;
+      totalUsage: number;
+      members: Array<{ color: string; usageCount: number; nodeIds: string[]; deltaE: number }>;
+    }>;
+  };
+  // 近似テキストスタイルグループ（スケール外のサイズ・行間未指定を含む）
+  typography?: {
+    offScaleFontSizes: number;
+    missingLineHeight: number;
+    nearDuplicateGroups: Array<{
+      label: string;
+      totalUsage: number;
+      members: Array<{ label: string; usageCount: number; nodeIds: string[] }>;
+    }>;
+  };
+  // 同一画面のDesktop/Tablet/Mobileフレームのグループとブレークポイント間の差分件数
+  breakpoints?: {
+    groups: Array<{
+      name: string;
+      source: 'NAMING' | 'MAPPING';
+      referenceBreakpoint: 'DESKTOP' | 'TABLET' | 'MOBILE';
+      frames: Array<{
+        breakpoint: 'DESKTOP' | 'TABLET' | 'MOBILE';
+        frameId: string;
+        frameName: string;
+        width: number | null;
+      }>;
+    }>;
+    missingSections: number;
+    orderMismatches: number;
+    textMismatches: number;
+  } | null;
+  // コンポーネント化されていない同一構造のグループ
+  repeatedStructures?: {
+    groups: Array<{
+      hash: string;
+      occurrences: number;
+      nodeIds: string[];
+      nodeNames: string[];
+      layerCount: number;
+      suggestedName: string;
+      estimatedLayerSaving: number;
+    }>;
+    repeatedNodes: number;
+    estimatedLayerSaving: number;
+  } | null;
+  // ブレークポイント幅のレイアウトシミュレーションによる対応可否
+  responsive?: {
+    mobileReady: boolean;
+    tabletReady: boolean;
+    desktopReady: boolean;
+    breakpoints: Array<{
+      name: string;
+      width: number;
+      ready: boolean;
+      simulatedFrames: number;
+      overflowFrames: number;
+      squeezedNodes: number;
+      textIssues: number;
+    }> | null;
+  };
   totalFrames: number;
   analyzedAt: string;
 }
@@ -46,6 +139,7 @@ export interface ViolationsParams {
   limit?: number;
   offset?: number;
   commentPosted?: 'true' | 'false';
+  status?: ViolationTrackingStatus;
 }
 
 // ルール違反型（レスポンス用）
@@ -59,10 +153,26 @@ export interface ViolationsResponse {
     hasMore: boolean;
   };
 }
+// 翻訳のストレステスト結果（言語ごと。翻訳後にのみ崩れるフレーム × ブレークポイント）
+export interface LocalizationPrediction {
+  locale: string;
+  label: string;
+  expansion: number;
+  translatedTexts: number;
+  frames: Array<{
+    frameId: string;
+    frameName: string;
+    breakpoint: string;   // デザイン時の幅でのシミュレーションは 'design'
+    screenWidth: number;
+    predictions: Omit<Prediction, 'id' | 'createdAt'>[];
+  }>;
+}
+
 export interface PredictionsResponse {
   success: boolean;
   data: {
     predictions: Prediction[];
+    localization?: LocalizationPrediction[];
   };
 }
 
@@ -73,6 +183,145 @@ export interface SuggestionsResponse {
   };
 }
 
+// スコアへの寄与（ルール別・Frame別）
+export interface PenaltyContribution {
+  key: string;
+  name: string;
+  violations: number;
+  penalty: number;
+  weightedPenalty: number;  // 総合スコアに換算した減点（概算）
+}
+
+// 閾値（HTML生成・Grid生成）までの最小修正セット
+export interface ThresholdPlan {
+  target: 'HTML_GENERATION' | 'GRID';
+  threshold: number;
+  reached: boolean;
+  achievable: boolean;
+  pointsNeeded: number;
+  projectedScore: number;
+  fixes: Array<{
+    ruleId: string;
+    ruleName: string;
+    category: string;
+    severity: string;
+    frameId: string;
+    frameName: string;
+    fingerprint?: string;
+  }>;
+}
+
+// スコアの内訳（バックエンドのScoreCalculatorが計算した値をそのまま表示する）
+export interface ScoreExplanation {
+  figleanScore: number;
+  scoringProfile: string;
+  totalFrames: number;
+  frameNormalization: { enabled: boolean; scale: number };
+  categories: Array<{
+    category: string;
+    score: number;
+    maxScore: number;
+    violations: number;
+    weight: number;
+    weightShare: number;
+    penalty: number;
+    normalizedPenalty: number;
+    scoreLoss: number;
+  }>;
+  rules: PenaltyContribution[];
+  frames: PenaltyContribution[];
+  thresholds: ThresholdPlan[];
+  nextThreshold: ThresholdPlan | null;
+  storedFigleanScore: number;  // 解析時に保存したスコア
+  scoreMismatch: boolean;      // 内訳から再計算したスコアが保存済みのスコアと異なる
+  analyzedAt: string;
+}
+
+export interface ScoreExplanationResponse {
+  success: boolean;
+  data: ScoreExplanation | null;
+}
+
+// 解析履歴の1件
+export interface AnalysisHistoryItem {
+  analysisId: string;
+  analyzedAt: string;
+  figmaVersion: string | null;
+  figmaVersionLabel: string | null;
+  versionSnapshot: boolean;  // バージョン指定の解析（プロジェクトの現在の状態には反映されていない）
+  scope: NonNullable<AnalysisResult['scope']>;
+  figleanScore: number;
+  totalViolations: number;
+  comparable: boolean;  // フレームごとの解析結果があり比較に使用できるか
+}
+
+export interface AnalysisHistoryResponse {
+  success: boolean;
+  data: {
+    analyses: AnalysisHistoryItem[];
+  };
+}
+
+export type ComparedScore =
+  | 'figleanScore'
+  | 'layoutScore'
+  | 'componentScore'
+  | 'responsiveScore'
+  | 'semanticScore'
+  | 'accessibilityScore';
+
+// 比較した解析
+export interface ComparedAnalysis {
+  analysisId: string;
+  analyzedAt: string;
+  figmaVersion: string | null;
+  figmaVersionLabel: string | null;
+  scope: NonNullable<AnalysisResult['scope']>;
+  scores: Record<ComparedScore, number>;
+}
+
+// 追加・解消された違反
+export interface ComparedViolation {
+  fingerprint: string;
+  ruleId: string;
+  ruleName: string;
+  severity: string;
+  category: string;
+  frameId: string;
+  frameName: string;
+  nodePath: string | null;
+  description: string;
+  topLevelFrameId: string;
+}
+
+// 2つの解析の比較結果
+export interface AnalysisComparison {
+  base: ComparedAnalysis;
+  target: ComparedAnalysis;
+  scopeMatches: boolean;
+  scores: Record<ComparedScore, { base: number; target: number; delta: number }>;
+  violations: {
+    added: ComparedViolation[];
+    removed: ComparedViolation[];
+    persisting: number;
+  };
+  frames: {
+    changes: Array<{
+      frameId: string;
+      frameName: string | null;
+      status: 'ADDED' | 'REMOVED' | 'CHANGED';
+      violationsBefore: number;
+      violationsAfter: number;
+    }>;
+    unchanged: number;
+  };
+}
+
+export interface AnalysisComparisonResponse {
+  success: boolean;
+  data: AnalysisComparison;
+}
+
 // =====================================
 // API関数
 // =====================================
@@ -115,6 +364,9 @@ export const getViolations = async (
   if (params?.commentPosted !== undefined) {
     queryParams.append('commentPosted', params.commentPosted);
   }
+  if (params?.status) {
+    queryParams.append('status', params.status);
+  }
 
   const url = `/analysis/${projectId}/violations${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
   const response = await apiClient.get(url);
@@ -125,12 +377,38 @@ export const getViolations = async (
  * プロジェクトの崩壊予測一覧を取得
  * 
  * @param projectId - プロジェクトID
+ * @param params - localization: 翻訳のストレステストをする言語（例: ['de', 'ja']）
  * @returns 崩壊予測一覧
  */
 export const getPredictions = async (
-  projectId: string
+  projectId: string,
+  params?: { localization?: string[] }
 ): Promise<PredictionsResponse> => {
-  const response = await apiClient.get(`/analysis/${projectId}/predictions`);
+  const query = params?.localization?.length
+    ? `?localization=${encodeURIComponent(params.localization.join(','))}`
+    : '';
+  const response = await apiClient.get(`/analysis/${projectId}/predictions${query}`);
+  return response.data;
+};
+
+/**
+ * 崩壊予測のオーバーレイSVGを取得
+ * 対象ノードを含む画面をブレークポイント幅で再計算したボックスツリーを描画し、はみ出した領域を強調したもの
+ * 
+ * @param projectId - プロジェクトID
+ * @param predictionId - 崩壊予測ID
+ * @param breakpoint - ブレークポイント名（省略時は崩壊予測のブレークポイント）
+ * @returns SVG文字列
+ */
+export const getPredictionOverlay = async (
+  projectId: string,
+  predictionId: string,
+  breakpoint?: string
+): Promise<string> => {
+  const query = breakpoint ? `?breakpoint=${encodeURIComponent(breakpoint)}` : '';
+  const response = await apiClient.get(`/analysis/${projectId}/predictions/${predictionId}/overlay${query}`, {
+    responseType: 'text'
+  });
   return response.data;
 };
 
@@ -147,6 +425,54 @@ export const getSuggestions = async (
   return response.data;
 };
 
+/**
+ * プロジェクトのスコアの内訳を取得
+ * 
+ * @param projectId - プロジェクトID
+ * @returns スコアの内訳（ルール別・Frame別の減点、閾値までの最小修正セット）
+ */
+export const getScoreExplanation = async (
+  projectId: string
+): Promise<ScoreExplanationResponse> => {
+  const response = await apiClient.get(`/analysis/${projectId}/score-explanation`);
+  return response.data;
+};
+
+/**
+ * プロジェクトの解析履歴を取得（新しい順）
+ * 
+ * @param projectId - プロジェクトID
+ * @returns 解析履歴（解析したFigmaファイルのバージョンを含む）
+ */
+export const getAnalysisHistory = async (
+  projectId: string
+): Promise<AnalysisHistoryResponse> => {
+  const response = await apiClient.get(`/analysis/${projectId}/history`);
+  return response.data;
+};
+
+/**
+ * 2つの解析を比較
+ * 
+ * @param projectId - プロジェクトID
+ * @param baseId - 比較元の解析ID
+ * @param targetId - 比較先の解析ID（未指定時は最新の解析）
+ * @returns カテゴリ別スコアの差分・追加/解消された違反・変化したフレーム
+ */
+export const compareAnalyses = async (
+  projectId: string,
+  baseId: string,
+  targetId?: string
+): Promise<AnalysisComparisonResponse> => {
+  const queryParams = new URLSearchParams({ base: baseId });
+  if (targetId) {
+    queryParams.append('target', targetId);
+  }
+
+  const response = await apiClient.get(`/analysis/${projectId}/compare?${queryParams.toString()}`);
+  return response.data;
+};
+
 // =====================================
 // エクスポート
 // =====================================
@@ -155,5 +481,9 @@ export default {
   getAnalysisSummary,
   getViolations,
   getPredictions,
-  getSuggestions
+  getPredictionOverlay,
+  getSuggestions,
+  getScoreExplanation,
+  getAnalysisHistory,
+  compareAnalyses
 };
\ No newline at end of file
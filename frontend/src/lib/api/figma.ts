@@ -24,6 +24,7 @@ import type { ApiResponse } from '@/types/api';
 import type {
   FigmaFilesResponse,
   FigmaFileDetail,
+  FigmaFileVersion,
   FigmaUser,
   FigmaImportRequest,
   FigmaImportResponse,
@@ -82,6 +83,23 @@ export const getFigmaFileDetails = async (
   return response.data.data;
 };
 
+/**
+ * Figmaファイルのバージョン履歴を取得（新しい順）
+ *
+ * - バージョン指定の解析（importFigmaFile の versionId）
+ * - リリース間の品質比較
+ *
+ * @param fileKey Figmaファイルキー
+ */
+export const getFigmaFileVersions = async (
+  fileKey: string
+): Promise<FigmaFileVersion[]> => {
+  const response = await apiClient.get<ApiResponse<{ fileKey: string; versions: FigmaFileVersion[] }>>(
+    `/figma/file/${fileKey}/versions`
+  );
+  return response.data.data.versions;
+};
+
 /**
  * Figmaファイル内の Frame 一覧を取得
  *
@@ -118,6 +136,8 @@ export const importFigmaFile = async (
   const requestBody = {
     fileKey: data.figmaFileKey,
     projectId: data.projectId,
+    pageIds: data.pageIds,
+    versionId: data.versionId,
     analyzeAll: data.analyzeAll ?? true
   };
   
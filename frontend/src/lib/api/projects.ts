@@ -5,7 +5,7 @@
 
 import apiClient from './client';
 import type { ApiResponse } from '@/types/api'; // ApiListResponseは削除
-import type { Project, ProjectDetail } from '@/types/models';
+import type { Project, ProjectBreakpoint, ProjectDetail, ScoringProfile, ScoringProfileName } from '@/types/models';
 
 // =====================================
 // カスタムレスポンス型（FIGLEAN専用）
@@ -67,6 +67,8 @@ export const createProject = async (data: {
   figmaFileKey: string;
   figmaFileUrl: string;
   analyzeAll?: boolean;
+  scoringProfile?: ScoringProfileName;
+  breakpoints?: ProjectBreakpoint[];
 }): Promise<ProjectDetail> => {
   const response = await apiClient.post<ApiResponse<ProjectDetail>>(
     '/projects',
@@ -85,6 +87,8 @@ export const updateProject = async (
   data: Partial<{
     name: string;
     description: string;
+    scoringProfile: ScoringProfileName;
+    breakpoints: ProjectBreakpoint[] | null;  // nullでデフォルトに戻す
   }>
 ): Promise<ProjectDetail> => {
   const response = await apiClient.put<ApiResponse<ProjectDetail>>(
@@ -94,6 +98,16 @@ export const updateProject = async (
   return response.data.data;
 };
 
+/**
+ * スコアリングプロファイル一覧取得
+ */
+export const getScoringProfiles = async (): Promise<ScoringProfile[]> => {
+  const response = await apiClient.get<ApiResponse<{ profiles: ScoringProfile[] }>>(
+    '/projects/scoring-profiles'
+  );
+  return response.data.data.profiles;
+};
+
 /**
  * プロジェクト削除
  * @param id - プロジェクトID
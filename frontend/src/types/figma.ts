@@ -115,6 +115,21 @@ export interface FigmaFileDetail {
   pages: FigmaPage[];
 }
 
+/**
+ * Figmaファイルのバージョン（バージョン履歴の1件）
+ */
+export interface FigmaFileVersion {
+  id: string;
+  createdAt: string;
+  label: string | null;  // 名前付きバージョンのタイトル（自動保存のバージョンはnull）
+  description: string | null;
+  user: {
+    id: string;
+    handle: string;
+    imgUrl: string | null;
+  } | null;
+}
+
 /**
  * Figmaページ情報
  */
@@ -135,6 +150,8 @@ export interface FigmaImportRequest {
   projectId: string;
   figmaFileKey: string;
   figmaFileUrl?: string;
+  pageIds?: string[];  // 解析対象ページID（未指定時はプロジェクトのルートノード、なければファイル全体）
+  versionId?: string;  // 解析するFigmaファイルのバージョンID（未指定時は最新）
   analyzeAll?: boolean;
 }
 
@@ -172,6 +189,12 @@ export interface JobStatus {
     total: number;
     percentage: number;
     currentStep: string;
+    // 差分解析のフレーム数（解析開始後に設定）
+    frames?: {
+      total: number;
+      reanalyzed: number;
+      skipped: number;
+    };
   };
   error?: string;
   completedAt?: string;
@@ -2,8 +2,11 @@
  * FIGLEAN Frontend - HTML生成関連型定義
  * HTML生成に関する型定義を提供
  * 更新日時: 2026年1月14日 - Phase 2.5 Grid変換機能追加
+ * 更新日時: 2026年10月19日 - Breakpointをプロジェクト設定に統一（生成リクエストの breakpoints はその生成のみの上書き）
  */
 
+import type { ProjectBreakpoint } from './models';
+
 /**
  * HTML生成フレームワーク
  */
@@ -15,14 +18,9 @@ export type Framework = 'HTML_TAILWIND' | 'REACT_JSX' | 'VUE_SFC';
 export type GenerationStatus = 'NOT_GENERATED' | 'GENERATING' | 'COMPLETED' | 'FAILED';
 
 /**
- * プロジェクトBreakpoint
+ * プロジェクトBreakpoint（プロジェクトのブレークポイント設定、幅の昇順）
  */
-export interface ProjectBreakpoints {
-  mobile?: number;
-  tablet?: number;
-  desktop?: number;
-  wide?: number;
-}
+export type ProjectBreakpoints = ProjectBreakpoint[];
 
 /**
  * HTML生成オプション
@@ -31,7 +29,7 @@ export interface HTMLGeneratorOptions {
   framework: Framework;
   includeResponsive: boolean;
   includeGrid: boolean;
-  breakpoints?: ProjectBreakpoints;
+  breakpoints?: ProjectBreakpoints;  // 省略時はプロジェクトの設定（指定時はこの生成のみ上書き）
   minifyOutput?: boolean;
   includeComments?: boolean;
 }
@@ -80,7 +78,7 @@ export interface GeneratedHTMLResult {
   framework: Framework;
   includeResponsive: boolean;
   includeGrid: boolean;
-  breakpoints?: ProjectBreakpoints;
+  breakpoints?: ProjectBreakpoints;  // 生成に使用したBreakpoint
   htmlCode: string;
   cssCode?: string;
   metadata: HTMLMetadata;
@@ -100,7 +98,7 @@ export interface GenerateHTMLRequest {
   framework: Framework;
   includeResponsive: boolean;
   includeGrid: boolean;
-  breakpoints?: ProjectBreakpoints;
+  breakpoints?: ProjectBreakpoints;  // 省略時はプロジェクトの設定（指定時はこの生成のみ上書き）
   minifyOutput?: boolean;
   includeComments?: boolean;
 }
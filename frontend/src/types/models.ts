@@ -36,6 +36,7 @@ export enum RuleCategory {
   SEMANTIC = 'SEMANTIC',
   TEXT = 'TEXT',
   COLOR = 'COLOR',
+  ACCESSIBILITY = 'ACCESSIBILITY',
 }
 
 export enum GeneratorFormat {
@@ -72,6 +73,29 @@ export interface User {
 // Project Model
 // =====================================
 
+export type ScoringProfileName = 'standard' | 'strict' | 'marketing' | 'prototype';
+
+/**
+ * スコアリングプロファイル（減点・カテゴリ重み・生成可否の閾値）
+ */
+export interface ScoringProfile {
+  name: ScoringProfileName;
+  label: string;
+  description: string;
+  severityPenalty: Record<string, number>;
+  categoryWeight: Record<string, number>;
+  frameNormalization: { enabled: boolean; scale: number };
+  thresholds: { canGenerateHTML: number; canUseGrid: number };
+}
+
+/**
+ * プロジェクトのブレークポイント（崩壊予測・対応可否の判定・HTML生成で共通）
+ */
+export interface ProjectBreakpoint {
+  name: string;   // Tailwindのscreen名としても使用
+  width: number;  // 画面幅（px）
+}
+
 export interface Project {
   id: string;
   userId: string;
@@ -90,6 +114,9 @@ export interface Project {
   componentScore: number | null;
   responsiveScore: number | null;
   semanticScore: number | null;
+  accessibilityScore: number | null;
+  scoringProfile?: ScoringProfileName;
+  breakpoints?: ProjectBreakpoint[];  // 幅の昇順（未設定時はデフォルト）
   
   // 診断状態
   analysisStatus: ProjectStatus;
@@ -167,9 +194,14 @@ export interface Violation {
   figmaNodeId?: string;  // 追加 2026年1月14日
   commentPosted: boolean;
   figmaCommentId: string | null;
+  fingerprint?: string | null;
+  trackingStatus?: ViolationTrackingStatus;  // 前回解析との比較
+  firstDetectedAt?: string;
   createdAt: string;
 }
 
+export type ViolationTrackingStatus = 'NEW' | 'PERSISTING' | 'RESOLVED';
+
 export interface ViolationStatistics {
   totalCount: number;
   criticalCount: number;
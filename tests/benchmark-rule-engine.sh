@@ -0,0 +1,23 @@
+#!/bin/bash
+
+# =====================================
+# FIGLEAN ルールエンジン ベンチマーク
+# 作成日時: 2026年10月19日
+# 説明: 生成ノードツリーで旧方式とノードインデックス方式を比較（API・DB不要）
+# 使い方: ./benchmark-rule-engine.sh [--worker]
+# =====================================
+
+set -e
+
+BLUE='\033[0;34m'
+NC='\033[0m'
+
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+
+echo -e "${BLUE}═══════════════════════════════════════════${NC}"
+echo -e "${BLUE}  FIGLEAN RuleEngine Benchmark${NC}"
+echo -e "${BLUE}═══════════════════════════════════════════${NC}"
+echo ""
+
+cd "$SCRIPT_DIR/../backend"
+npm run --silent benchmark:rules -- "$@"
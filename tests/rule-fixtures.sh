@@ -0,0 +1,23 @@
+#!/bin/bash
+
+# =====================================
+# FIGLEAN ルール回帰テスト
+# 作成日時: 2026年10月19日
+# 説明: Figma JSONフィクスチャの解析結果をゴールデンファイルと比較（API・DB不要）
+# 使い方: ./rule-fixtures.sh [--update] [フィクスチャ名...]
+# =====================================
+
+set -e
+
+BLUE='\033[0;34m'
+NC='\033[0m'
+
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+
+echo -e "${BLUE}═══════════════════════════════════════════${NC}"
+echo -e "${BLUE}  FIGLEAN Rule Fixtures${NC}"
+echo -e "${BLUE}═══════════════════════════════════════════${NC}"
+echo ""
+
+cd "$SCRIPT_DIR/../backend"
+npm run --silent test:rules -- "$@"